@@ -19,6 +19,7 @@ import AuthenticatedLayout from "@/layouts/AuthenticatedLayout";
 import InsightsPage from "./pages/InsightsPage";
 import DecisionHistoryPage from "./pages/DecisionHistoryPage";
 import FinancialDataPage from "./pages/FinancialDataPage";
+import ScenarioPlannerPage from "./pages/ScenarioPlannerPage";
 import ChatRedirector from "./components/ChatRedirector";
 import ErrorBoundary from "./components/ErrorBoundary"; // Import ErrorBoundary
 import { toast } from "./hooks/use-toast"; // Import toast for global error handling
@@ -72,6 +73,7 @@ const App = () => {
                   <Route path="/insights" element={<InsightsPage />} />
                   <Route path="/history" element={<DecisionHistoryPage />} />
                   <Route path="/financial-data" element={<FinancialDataPage />} />
+                  <Route path="/planner" element={<ScenarioPlannerPage />} />
                   <Route path="/settings" element={<Profile />} />
                 </Route>
 
@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { BookMarked, Check, Edit3, Save, Trash2, X } from 'lucide-react';
+import { useSession } from '@/components/auth/SessionContextProvider';
+import { useToast } from '@/hooks/use-toast';
+import { BusinessFact, BusinessFactStatus } from '@/types/supabase-edge-functions';
+import { BUSINESS_FACT_DEFINITIONS, BusinessFactDefinition, formatBusinessFactValue } from '@/lib/business-facts';
+
+// Lets the vendor review and edit the facts KudiGuard remembers between decisions.
+const BusinessFactsCard = () => {
+  const { supabase, session } = useSession();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const userId = session?.user?.id;
+
+  const [editingField, setEditingField] = useState<string | null>(null);
+  const [draftValue, setDraftValue] = useState<string | boolean>('');
+
+  const { data: facts, isLoading } = useQuery({
+    queryKey: ['businessFacts', userId],
+    queryFn: async () => {
+      if (!userId) return [];
+      // The decision-engine owns how long each fact is trusted, so it also says which ones are stale
+      const { data, error } = await supabase.functions.invoke('decision-engine', {
+        body: { action: 'list_business_facts' },
+      });
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error?.details || 'Could not load your business facts.');
+      return data.data.business_facts as BusinessFactStatus[];
+    },
+    enabled: !!userId,
+  });
+
+  const saveFactMutation = useMutation({
+    mutationFn: async ({ field, value }: { field: string; value: number | boolean }) => {
+      if (!userId) throw new Error("User not authenticated.");
+      const { error } = await supabase
+        .from('business_facts')
+        .upsert({ user_id: userId, field, value, source: 'settings', updated_at: new Date().toISOString() }, { onConflict: 'user_id,field' });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['businessFacts', userId] });
+      setEditingField(null);
+      toast({ title: "Saved", description: "KudiGuard will use this in your next decisions." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: `Failed to save: ${error.message}`, variant: "destructive" });
+    },
+  });
+
+  const deleteFactMutation = useMutation({
+    mutationFn: async (field: string) => {
+      if (!userId) throw new Error("User not authenticated.");
+      const { error } = await supabase
+        .from('business_facts')
+        .delete()
+        .eq('user_id', userId)
+        .eq('field', field);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['businessFacts', userId] });
+      toast({ title: "Removed", description: "KudiGuard will ask about this again when it needs it." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: `Failed to remove: ${error.message}`, variant: "destructive" });
+    },
+  });
+
+  const startEditing = (definition: BusinessFactDefinition, fact: BusinessFact | undefined) => {
+    setEditingField(definition.field);
+    if (definition.kind === 'boolean') {
+      setDraftValue(fact ? fact.value === true : false);
+    } else {
+      setDraftValue(fact ? String(fact.value) : '');
+    }
+  };
+
+  const handleSave = (definition: BusinessFactDefinition) => {
+    if (definition.kind === 'boolean') {
+      saveFactMutation.mutate({ field: definition.field, value: draftValue === true });
+      return;
+    }
+    const parsed = parseFloat(String(draftValue).replace(/,/g, ''));
+    if (isNaN(parsed) || parsed < 0) {
+      toast({ title: "Invalid value", description: "Please enter a number of 0 or more.", variant: "destructive" });
+      return;
+    }
+    saveFactMutation.mutate({ field: definition.field, value: parsed });
+  };
+
+  return (
+    <Card className="shadow-card mb-6 bg-gradient-subtle">
+      <CardHeader>
+        <CardTitle className="text-xl flex items-center">
+          <BookMarked className="mr-2 h-5 w-5 text-primary" />
+          Business Facts
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Answers KudiGuard remembers so it doesn't ask again. Older answers are confirmed with you before they're used.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground text-sm">Loading business facts...</p>
+        ) : (
+          <div className="divide-y divide-border">
+            {BUSINESS_FACT_DEFINITIONS.map((definition) => {
+              const fact = facts?.find(item => item.field === definition.field);
+              const isEditingRow = editingField === definition.field;
+              const stale = fact?.is_stale ?? false;
+
+              return (
+                <div key={definition.field} className="py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-foreground">{definition.label}</p>
+                    {fact ? (
+                      <p className="text-xs text-muted-foreground">
+                        Updated {new Date(fact.updated_at).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
+                        {stale && <Badge variant="outline" className="ml-2 border-warning text-warning">Needs review</Badge>}
+                      </p>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">Not set yet</p>
+                    )}
+                  </div>
+                  {isEditingRow ? (
+                    <div className="flex items-center gap-2">
+                      {definition.kind === 'boolean' ? (
+                        <Switch checked={draftValue === true} onCheckedChange={setDraftValue} />
+                      ) : (
+                        <Input
+                          type="number"
+                          min={0}
+                          value={draftValue as string}
+                          onChange={(e) => setDraftValue(e.target.value)}
+                          className="h-9 w-36 bg-primary-light/10 border-primary"
+                        />
+                      )}
+                      <Button size="sm" onClick={() => handleSave(definition)} disabled={saveFactMutation.isPending} className="bg-gradient-primary">
+                        <Save className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setEditingField(null)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-foreground">
+                        {fact ? formatBusinessFactValue(fact.value, definition.kind) : '—'}
+                      </span>
+                      {fact && stale && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => saveFactMutation.mutate({ field: definition.field, value: fact.value as number | boolean })}
+                          disabled={saveFactMutation.isPending}
+                        >
+                          <Check className="h-4 w-4 mr-1" /> Still correct
+                        </Button>
+                      )}
+                      <Button size="sm" variant="outline" onClick={() => startEditing(definition, fact)}>
+                        <Edit3 className="h-4 w-4" />
+                      </Button>
+                      {fact && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => deleteFactMutation.mutate(definition.field)}
+                          disabled={deleteFactMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BusinessFactsCard;
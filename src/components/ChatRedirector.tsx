@@ -27,7 +27,6 @@ const ChatRedirector = () => {
         .from('chats')
         .insert({
           user_id: session.user.id,
-          messages: [],
           current_payload: {},
           title: 'New Chat', // Default title for a new chat
         })
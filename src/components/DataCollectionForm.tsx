@@ -0,0 +1,192 @@
+import { useMemo } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import LoanOffersInput from '@/components/LoanOffersInput';
+import { MIN_LOAN_OFFERS, parseLoanOfferDrafts, toLoanOffer, toLoanOfferDrafts } from '@/lib/loan-offers';
+import { parseNairaAmount } from '@/lib/naira-amount';
+import { DataNeededResponse, FieldAnswer, LoanOffer } from '@/types/supabase-edge-functions';
+
+interface DataCollectionFormProps {
+  fields: DataNeededResponse[];
+  currentPayload: Record<string, unknown>;
+  onSubmit: (answers: Record<string, FieldAnswer>) => void;
+  disabled?: boolean;
+}
+
+const isNairaField = (field: DataNeededResponse) => field.type === 'number' && field.unit === 'currency';
+
+const readNairaAmount = (value: string) => parseNairaAmount(value, { currency: true, whole: true });
+
+// Form values are kept as strings; booleans are 'yes'/'no' until submitted
+const toAnswer = (field: DataNeededResponse, value: string | undefined): FieldAnswer | undefined => {
+  if (value === undefined || value === '') return undefined;
+  if (field.type === 'boolean') return value === 'yes';
+  if (isNairaField(field)) {
+    const amount = readNairaAmount(value);
+    return amount.status === 'amount' ? amount.value : undefined;
+  }
+  if (field.type === 'number') {
+    const parsed = parseFloat(value.replace(/,/g, ''));
+    return isNaN(parsed) ? undefined : parsed;
+  }
+  if (field.type === 'loan_offers') {
+    const offers = parseLoanOfferDrafts(value).map(toLoanOffer);
+    return offers.length >= MIN_LOAN_OFFERS && offers.every((offer): offer is LoanOffer => offer !== null) ? offers : undefined;
+  }
+  return value;
+};
+
+const toFormValue = (value: FieldAnswer | undefined): string => {
+  if (value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  return String(value);
+};
+
+const isFieldVisible = (field: DataNeededResponse, fields: DataNeededResponse[], values: Record<string, string>, currentPayload: Record<string, unknown>) => {
+  const dependency = field.depends_on;
+  if (!dependency) return true;
+  const sourceField = fields.find(candidate => candidate.field === dependency.field);
+  const answer = sourceField ? toAnswer(sourceField, values[dependency.field]) : currentPayload[dependency.field];
+  if (answer === undefined || answer === null) return false;
+  return dependency.operator === 'gt' ? Number(answer) > Number(dependency.value) : answer === dependency.value;
+};
+
+const formatOption = (option: string) => option.replace(/_/g, ' ');
+
+// Renders every missing decision-engine field as one form, hiding fields whose dependency is not met.
+// Fields read from the question are shown pre-filled for the user to confirm or correct.
+const DataCollectionForm = ({ fields, currentPayload, onSubmit, disabled = false }: DataCollectionFormProps) => {
+  const isConfirmation = fields.every(field => field.extracted !== undefined);
+  const formSchema = useMemo(() => z.record(z.string()).superRefine((values, ctx) => {
+    fields.forEach(field => {
+      if (!isFieldVisible(field, fields, values, currentPayload)) return;
+      const answer = toAnswer(field, values[field.field]);
+      const amount = isNairaField(field) && values[field.field] ? readNairaAmount(values[field.field]) : null;
+      if (amount?.status === 'ambiguous') {
+        const [asThousands, asMillions] = amount.alternatives.map(value => `₦${value.toLocaleString()}`);
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field.field], message: `Did you mean ${asThousands} or ${asMillions}? Type the full amount.` });
+      } else if (amount?.status === 'none') {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field.field], message: "Enter an amount, e.g. 50000, 50k or ₦1.5m." });
+      } else if (answer === undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [field.field],
+          message: field.type === 'loan_offers' ? `Fill in every detail for at least ${MIN_LOAN_OFFERS} offers.` : 'This answer is required.',
+        });
+      } else if (field.type === 'number' && (((answer as number) < 0 && !field.canBeNegative) || (answer === 0 && field.canBeZeroOrNone === false))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field.field], message: field.canBeZeroOrNone === false ? 'Must be greater than 0.' : 'Must be 0 or more.' });
+      }
+    });
+  }), [fields, currentPayload]);
+
+  const form = useForm<Record<string, string>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: Object.fromEntries(fields.map(field => [
+      field.field,
+      // Offers the parser already picked up from the question are pre-filled for the user to complete
+      field.type === 'loan_offers' ? JSON.stringify(toLoanOfferDrafts(currentPayload[field.field])) : toFormValue(field.stored_value),
+    ])),
+  });
+  const values = form.watch();
+
+  const handleSubmit = (submitted: Record<string, string>) => {
+    const answers: Record<string, FieldAnswer> = {};
+    fields.forEach(field => {
+      if (!isFieldVisible(field, fields, submitted, currentPayload)) return;
+      const answer = toAnswer(field, submitted[field.field]);
+      if (answer === undefined) return;
+      // Naira amounts go as typed; the chat-orchestrator reads them with the same parser and has the final say
+      answers[field.field] = isNairaField(field) ? submitted[field.field].trim() : answer;
+    });
+    onSubmit(answers);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4 mt-3">
+        {fields.filter(field => isFieldVisible(field, fields, values, currentPayload)).map(field => (
+          <FormField
+            key={field.field}
+            control={form.control}
+            name={field.field}
+            render={({ field: control }) => (
+              <FormItem>
+                <FormLabel className="text-sm font-normal text-foreground">{field.prompt.split('\n')[0]}</FormLabel>
+                {field.type === 'loan_offers' ? (
+                  <LoanOffersInput
+                    offers={parseLoanOfferDrafts(control.value)}
+                    onChange={offers => control.onChange(JSON.stringify(offers))}
+                    disabled={disabled}
+                  />
+                ) : field.type === 'boolean' ? (
+                  <FormControl>
+                    <RadioGroup value={control.value} onValueChange={control.onChange} className="flex space-x-4" disabled={disabled}>
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="yes" id={`${field.field}-yes`} />
+                        <Label htmlFor={`${field.field}-yes`}>Yes</Label>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <RadioGroupItem value="no" id={`${field.field}-no`} />
+                        <Label htmlFor={`${field.field}-no`}>No</Label>
+                      </div>
+                    </RadioGroup>
+                  </FormControl>
+                ) : field.type === 'text_enum' && field.options ? (
+                  <Select value={control.value} onValueChange={control.onChange} disabled={disabled}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select an option" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {field.options.map(option => (
+                        <SelectItem key={option} value={option}>{formatOption(option)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : field.type === 'date' ? (
+                  <FormControl>
+                    <Input type="date" disabled={disabled} {...control} />
+                  </FormControl>
+                ) : isNairaField(field) ? (
+                  <FormControl>
+                    <Input type="text" inputMode="text" placeholder="e.g. 50k or ₦1.5m" disabled={disabled} {...control} />
+                  </FormControl>
+                ) : (
+                  <FormControl>
+                    <Input type="number" min={field.canBeNegative ? undefined : 0} inputMode={field.canBeNegative ? 'text' : 'decimal'} disabled={disabled} {...control} />
+                  </FormControl>
+                )}
+                {field.extracted && (
+                  <FormDescription>
+                    {field.extracted.source_text
+                      ? <>From your question: "{field.extracted.source_text}". Change it if I got it wrong.</>
+                      : "I worked this out from your question. Change it if it's wrong."}
+                  </FormDescription>
+                )}
+                {field.stored_value !== undefined && field.stored_value_updated_at && (
+                  <FormDescription>
+                    Pre-filled with what you told me on {new Date(field.stored_value_updated_at).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}. Change it if it's no longer right.
+                  </FormDescription>
+                )}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+        <Button type="submit" className="w-full bg-gradient-primary" disabled={disabled}>
+          {isConfirmation ? 'Confirm and Continue' : 'Get Recommendation'}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default DataCollectionForm;
@@ -1,10 +1,16 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { CheckCircle, XCircle, AlertTriangle, Info, DollarSign, TrendingUp, TrendingDown, BarChart, Target, Users, LineChart, HandCoins, Scale, Wallet, HardHat, Banknote, Landmark, Store, Search, Star, CalendarDays, Clock, Percent, PiggyBank } from 'lucide-react';
+import { CheckCircle, XCircle, AlertTriangle, Info, DollarSign, TrendingUp, TrendingDown, BarChart, Target, Users, LineChart, HandCoins, Scale, Wallet, HardHat, Banknote, Landmark, Store, Search, Star, CalendarDays, Clock, Percent, PiggyBank, Tag, Zap, Fuel, Sun, BatteryCharging } from 'lucide-react';
 import { useSession } from '@/components/auth/SessionContextProvider';
 import { useToast } from '@/hooks/use-toast';
 import { useState } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import { cn } from '@/lib/utils'; // Import cn utility
+import RuleTraceBreakdown from '@/components/RuleTraceBreakdown';
+import RotatingSavingsProjection from '@/components/RotatingSavingsProjection';
+import LoanOfferComparisonTable from '@/components/LoanOfferComparisonTable';
+import LeaseSinkingFundPlan from '@/components/LeaseSinkingFundPlan';
+import EquipmentOptionsComparison from '@/components/EquipmentOptionsComparison';
+import { CounterfactualTarget, EquipmentOption, EquipmentOptionResult, FinancialHistorySummary, LeaseSinkingFundMonth, LoanOffer, LoanOfferResult, RotatingSavingsMonth, RuleTraceEntry } from '@/types/supabase-edge-functions';
 
 // Define DecisionCardProps interface here so it can be imported
 export interface DecisionCardProps {
@@ -19,6 +25,13 @@ export interface DecisionCardProps {
       current_savings: number;
     };
     estimated_salary?: number | null; // Allow null
+    employment_type?: 'full_time' | 'part_time' | 'apprentice' | 'contract' | null;
+    expected_revenue_uplift?: number | null;
+    hire_equipment_cost?: number | null;
+    employer_statutory_contributions?: number | null;
+    hire_one_off_cost?: number | null;
+    loaded_monthly_hire_cost?: number | null;
+    hire_payback_months?: number | null;
     // Fields for inventory management
     estimated_inventory_cost?: number | null; // Allow null
     inventory_turnover_days?: number | null; // Allow null
@@ -60,6 +73,17 @@ export interface DecisionCardProps {
     estimated_roi_percentage?: number | null;
     is_essential_replacement?: boolean | null;
     current_equipment_utilization_percentage?: number | null;
+    equipment_monthly_cash_benefit?: number | null;
+    equipment_useful_life_years?: number | null;
+    equipment_salvage_value?: number | null;
+    lease_monthly_payment?: number | null;
+    hire_purchase_monthly_payment?: number | null;
+    hire_purchase_deposit?: number | null;
+    hire_purchase_months?: number | null;
+    equipment_discount_rate_percentage?: number | null;
+    equipment_monthly_depreciation?: number | null;
+    equipment_option_results?: EquipmentOptionResult[] | null;
+    recommended_equipment_option?: EquipmentOption | null;
     // New fields for loan_management
     total_business_liabilities?: number | null;
     total_business_assets?: number | null;
@@ -72,9 +96,77 @@ export interface DecisionCardProps {
     expansion_cost?: number | null;
     profit_margin_trend?: 'consistent_growth' | 'positive_fluctuating' | 'declining_unstable' | null;
     revenue_growth_trend?: 'consistent_growth' | 'positive_fluctuating' | 'declining_unstable' | null;
+    // New fields for pricing
+    current_unit_price?: number | null;
+    proposed_unit_price?: number | null;
+    unit_cost?: number | null;
+    expected_volume_change_percentage?: number | null;
+    competitor_unit_price?: number | null;
+    current_margin_percentage?: number | null;
+    new_margin_percentage?: number | null;
+    break_even_volume_change_percentage?: number | null;
+    gross_profit_change_percentage?: number | null;
+    // New fields for customer_credit
+    credit_amount?: number | null;
+    customer_payment_history?: 'always_on_time' | 'sometimes_late' | 'often_late' | 'new_customer' | null;
+    outstanding_receivables?: number | null;
+    credit_repayment_period_days?: number | null;
+    recommended_credit_limit?: number | null;
+    // New fields for energy_cost
+    monthly_fuel_spend?: number | null;
+    daily_outage_hours?: number | null;
+    solar_system_cost?: number | null;
+    inverter_system_cost?: number | null;
+    financing_months?: number | null;
+    financing_apr?: number | null;
+    energy_tco_years?: number | null;
+    generator_tco?: number | null;
+    solar_tco?: number | null;
+    inverter_tco?: number | null;
+    solar_payback_months?: number | null;
+    inverter_payback_months?: number | null;
+    energy_monthly_payment?: number | null; // Repayment for the recommended system; 0 when paid in cash
+    energy_monthly_saving?: number | null; // Fuel saved by the recommended system, net of maintenance
+    recommended_energy_option?: 'generator' | 'solar' | 'grid_inverter' | null;
+    // New fields for owner_drawings
+    desired_monthly_drawing?: number | null;
+    personal_monthly_obligations?: number | null;
+    recommended_monthly_drawing?: number | null;
+    drawing_schedule?: 'monthly' | 'twice_monthly' | 'weekly' | null;
+    drawing_installment_amount?: number | null;
+    // New fields for rotating_savings
+    contribution_amount?: number | null;
+    contribution_frequency?: 'daily' | 'weekly' | 'monthly' | null;
+    group_members?: number | null;
+    payout_position?: number | null;
+    monthly_contribution?: number | null;
+    payout_amount?: number | null;
+    lowest_projected_savings?: number | null;
+    recommended_contribution_amount?: number | null;
+    recommended_payout_position?: number | null;
+    rotating_savings_projection?: RotatingSavingsMonth[] | null;
+    // New fields for loan_offer_comparison
+    loan_offers?: LoanOffer[] | null;
+    loan_offer_results?: LoanOfferResult[] | null;
+    recommended_loan_offer?: number | null; // Position of the best offer in loan_offers
+    // New fields for lease_renewal
+    rent_amount?: number | null;
+    renewal_date?: string | null;
+    can_move?: boolean | null;
+    moving_cost?: number | null;
+    months_until_renewal?: number | null;
+    monthly_rent_set_aside?: number | null;
+    rent_funding_gap?: number | null;
+    recommended_lease_option?: 'renew' | 'move' | 'negotiate' | null;
+    lease_sinking_fund_plan?: LeaseSinkingFundMonth[] | null;
+    rule_pack_version?: string | null; // Version of the rule pack the engine evaluated
+    rule_trace?: RuleTraceEntry[] | null; // Structured record of every rule evaluated
+    counterfactual_targets?: CounterfactualTarget[] | null; // What it would take to get APPROVE
+    financial_history?: FinancialHistorySummary | null; // Multi-month summary the engine used
     feedback?: number | null; // Added feedback field
   };
   chatId?: string; // New optional prop
+  traceDefaultOpen?: boolean; // Expand the rule trace by default (e.g. in the details dialog)
   messageId?: string; // New optional prop
   onFeedbackSuccess?: (messageId: string, newFeedbackValue: number) => void; // New optional callback
 }
@@ -108,7 +200,7 @@ const StarRating = ({ rating, onRatingChange, disabled = false }: StarRatingProp
   );
 };
 
-const DecisionCard = ({ data, messageId, onFeedbackSuccess }: DecisionCardProps) => {
+const DecisionCard = ({ data, messageId, onFeedbackSuccess, traceDefaultOpen = false }: DecisionCardProps) => {
   const { supabase, session } = useSession();
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -119,7 +211,18 @@ const DecisionCard = ({ data, messageId, onFeedbackSuccess }: DecisionCardProps)
     recommendation, 
     reasoning, 
     actionable_steps, 
+    rule_pack_version,
+    rule_trace,
+    counterfactual_targets,
+    financial_history,
     estimated_salary,
+    employment_type,
+    expected_revenue_uplift,
+    hire_equipment_cost,
+    employer_statutory_contributions,
+    hire_one_off_cost,
+    loaded_monthly_hire_cost,
+    hire_payback_months,
     estimated_inventory_cost,
     inventory_turnover_days,
     supplier_credit_terms_days,
@@ -160,6 +263,17 @@ const DecisionCard = ({ data, messageId, onFeedbackSuccess }: DecisionCardProps)
     estimated_roi_percentage,
     is_essential_replacement,
     current_equipment_utilization_percentage,
+    equipment_monthly_cash_benefit,
+    equipment_useful_life_years,
+    equipment_salvage_value,
+    lease_monthly_payment,
+    hire_purchase_monthly_payment,
+    hire_purchase_deposit,
+    hire_purchase_months,
+    equipment_discount_rate_percentage,
+    equipment_monthly_depreciation,
+    equipment_option_results,
+    recommended_equipment_option,
     // Loan Management fields
     total_business_liabilities,
     total_business_assets,
@@ -172,6 +286,67 @@ const DecisionCard = ({ data, messageId, onFeedbackSuccess }: DecisionCardProps)
     expansion_cost,
     profit_margin_trend,
     revenue_growth_trend,
+    // Pricing fields
+    current_unit_price,
+    proposed_unit_price,
+    unit_cost,
+    expected_volume_change_percentage,
+    competitor_unit_price,
+    current_margin_percentage,
+    new_margin_percentage,
+    break_even_volume_change_percentage,
+    gross_profit_change_percentage,
+    // Customer credit fields
+    credit_amount,
+    customer_payment_history,
+    outstanding_receivables,
+    credit_repayment_period_days,
+    recommended_credit_limit,
+    // Energy cost fields
+    monthly_fuel_spend,
+    daily_outage_hours,
+    solar_system_cost,
+    inverter_system_cost,
+    financing_months,
+    financing_apr,
+    energy_tco_years,
+    generator_tco,
+    solar_tco,
+    inverter_tco,
+    solar_payback_months,
+    inverter_payback_months,
+    energy_monthly_payment,
+    energy_monthly_saving,
+    recommended_energy_option,
+    // Owner drawings fields
+    desired_monthly_drawing,
+    personal_monthly_obligations,
+    recommended_monthly_drawing,
+    drawing_schedule,
+    drawing_installment_amount,
+    // Rotating savings fields
+    contribution_amount,
+    contribution_frequency,
+    group_members,
+    payout_position,
+    monthly_contribution,
+    payout_amount,
+    lowest_projected_savings,
+    recommended_contribution_amount,
+    recommended_payout_position,
+    rotating_savings_projection,
+    // Loan offer comparison fields
+    loan_offer_results,
+    recommended_loan_offer,
+    // Lease renewal fields
+    rent_amount,
+    renewal_date,
+    moving_cost,
+    months_until_renewal,
+    monthly_rent_set_aside,
+    rent_funding_gap,
+    recommended_lease_option,
+    lease_sinking_fund_plan,
   } = data;
 
   const getRecommendationDetails = () => {
@@ -215,6 +390,8 @@ const DecisionCard = ({ data, messageId, onFeedbackSuccess }: DecisionCardProps)
 
   const hasDecisionParameters = 
     (estimated_salary !== null && estimated_salary !== undefined) || 
+    (employment_type !== null && employment_type !== undefined) ||
+    (loaded_monthly_hire_cost !== null && loaded_monthly_hire_cost !== undefined) ||
     (estimated_inventory_cost !== null && estimated_inventory_cost !== undefined) ||
     (inventory_turnover_days !== null && inventory_turnover_days !== undefined) ||
     (supplier_credit_terms_days !== null && supplier_credit_terms_days !== undefined) ||
@@ -252,6 +429,8 @@ const DecisionCard = ({ data, messageId, onFeedbackSuccess }: DecisionCardProps)
     (estimated_roi_percentage !== null && estimated_roi_percentage !== undefined) ||
     (is_essential_replacement !== null && is_essential_replacement !== undefined) ||
     (current_equipment_utilization_percentage !== null && current_equipment_utilization_percentage !== undefined) ||
+    (equipment_useful_life_years !== null && equipment_useful_life_years !== undefined) ||
+    (recommended_equipment_option !== null && recommended_equipment_option !== undefined) ||
     (total_business_liabilities !== null && total_business_liabilities !== undefined) || // New debt fields
     (total_business_assets !== null && total_business_assets !== undefined) ||
     (total_monthly_debt_repayments !== null && total_monthly_debt_repayments !== undefined) ||
@@ -261,7 +440,50 @@ const DecisionCard = ({ data, messageId, onFeedbackSuccess }: DecisionCardProps)
     (capital_available_percentage_of_cost !== null && capital_available_percentage_of_cost !== undefined) ||
     (expansion_cost !== null && expansion_cost !== undefined) ||
     (profit_margin_trend !== null && profit_margin_trend !== undefined) ||
-    (revenue_growth_trend !== null && revenue_growth_trend !== undefined);
+    (revenue_growth_trend !== null && revenue_growth_trend !== undefined) ||
+    (current_unit_price !== null && current_unit_price !== undefined) || // New pricing fields
+    (proposed_unit_price !== null && proposed_unit_price !== undefined) ||
+    (unit_cost !== null && unit_cost !== undefined) ||
+    (expected_volume_change_percentage !== null && expected_volume_change_percentage !== undefined) ||
+    (competitor_unit_price !== null && competitor_unit_price !== undefined) ||
+    (current_margin_percentage !== null && current_margin_percentage !== undefined) ||
+    (new_margin_percentage !== null && new_margin_percentage !== undefined) ||
+    (break_even_volume_change_percentage !== null && break_even_volume_change_percentage !== undefined) ||
+    (gross_profit_change_percentage !== null && gross_profit_change_percentage !== undefined) ||
+    (credit_amount !== null && credit_amount !== undefined) || // New customer credit fields
+    (customer_payment_history !== null && customer_payment_history !== undefined) ||
+    (outstanding_receivables !== null && outstanding_receivables !== undefined) ||
+    (credit_repayment_period_days !== null && credit_repayment_period_days !== undefined) ||
+    (recommended_credit_limit !== null && recommended_credit_limit !== undefined) ||
+    (monthly_fuel_spend !== null && monthly_fuel_spend !== undefined) || // New energy cost fields
+    (daily_outage_hours !== null && daily_outage_hours !== undefined) ||
+    (solar_system_cost !== null && solar_system_cost !== undefined) ||
+    (inverter_system_cost !== null && inverter_system_cost !== undefined) ||
+    (financing_months !== null && financing_months !== undefined) ||
+    (financing_apr !== null && financing_apr !== undefined) ||
+    (generator_tco !== null && generator_tco !== undefined) ||
+    (solar_tco !== null && solar_tco !== undefined) ||
+    (inverter_tco !== null && inverter_tco !== undefined) ||
+    (solar_payback_months !== null && solar_payback_months !== undefined) ||
+    (inverter_payback_months !== null && inverter_payback_months !== undefined) ||
+    (energy_monthly_payment !== null && energy_monthly_payment !== undefined && energy_monthly_payment > 0) ||
+    (energy_monthly_saving !== null && energy_monthly_saving !== undefined) ||
+    (recommended_energy_option !== null && recommended_energy_option !== undefined) ||
+    (desired_monthly_drawing !== null && desired_monthly_drawing !== undefined) || // New owner drawings fields
+    (personal_monthly_obligations !== null && personal_monthly_obligations !== undefined) ||
+    (recommended_monthly_drawing !== null && recommended_monthly_drawing !== undefined) ||
+    (drawing_schedule !== null && drawing_schedule !== undefined) ||
+    (drawing_installment_amount !== null && drawing_installment_amount !== undefined) ||
+    (contribution_amount !== null && contribution_amount !== undefined) || // New rotating savings fields
+    (monthly_contribution !== null && monthly_contribution !== undefined) ||
+    (payout_amount !== null && payout_amount !== undefined) ||
+    (lowest_projected_savings !== null && lowest_projected_savings !== undefined) ||
+    (recommended_contribution_amount !== null && recommended_contribution_amount !== undefined) ||
+    (recommended_payout_position !== null && recommended_payout_position !== undefined) ||
+    (recommended_loan_offer !== null && recommended_loan_offer !== undefined) || // New loan offer comparison fields
+    (rent_amount !== null && rent_amount !== undefined) || // New lease renewal fields
+    (monthly_rent_set_aside !== null && monthly_rent_set_aside !== undefined) ||
+    (recommended_lease_option !== null && recommended_lease_option !== undefined);
 
   const formatCurrency = (value: number | null | undefined) => 
     value !== null && value !== undefined ? `₦${value.toLocaleString()}` : 'N/A';
@@ -280,6 +502,58 @@ const DecisionCard = ({ data, messageId, onFeedbackSuccess }: DecisionCardProps)
       default: return 'N/A';
     }
   };
+  const formatPaymentHistory = (value: 'always_on_time' | 'sometimes_late' | 'often_late' | 'new_customer' | null | undefined) => {
+    if (value === null || value === undefined) return 'N/A';
+    switch (value) {
+      case 'always_on_time': return 'Always Pays on Time';
+      case 'sometimes_late': return 'Sometimes Late';
+      case 'often_late': return 'Often Late or Defaulted';
+      case 'new_customer': return 'New Customer';
+      default: return 'N/A';
+    }
+  };
+  const formatEnergyOption = (value: 'generator' | 'solar' | 'grid_inverter' | null | undefined) => {
+    if (value === null || value === undefined) return 'N/A';
+    switch (value) {
+      case 'generator': return 'Keep Generator';
+      case 'solar': return 'Solar';
+      case 'grid_inverter': return 'Grid-charged Inverter';
+      default: return 'N/A';
+    }
+  };
+  const formatDrawingSchedule = (schedule: 'monthly' | 'twice_monthly' | 'weekly' | null | undefined, installment: number | null | undefined) => {
+    if (schedule === null || schedule === undefined) return 'N/A';
+    const frequency = schedule === 'weekly' ? 'every week' : schedule === 'twice_monthly' ? 'twice a month' : 'once a month';
+    return `${formatCurrency(installment)} ${frequency}`;
+  };
+  const formatEmploymentType = (value: 'full_time' | 'part_time' | 'apprentice' | 'contract' | null | undefined) => {
+    if (value === null || value === undefined) return 'N/A';
+    switch (value) {
+      case 'full_time': return 'Full-time';
+      case 'part_time': return 'Part-time';
+      case 'apprentice': return 'Apprentice';
+      case 'contract': return 'Contract';
+      default: return 'N/A';
+    }
+  };
+  const formatEquipmentOption = (value: EquipmentOption | null | undefined) => {
+    if (value === null || value === undefined) return 'N/A';
+    switch (value) {
+      case 'buy': return 'Buy with Cash';
+      case 'hire_purchase': return 'Hire Purchase';
+      case 'lease': return 'Lease';
+      default: return 'N/A';
+    }
+  };
+  const formatLeaseOption = (value: 'renew' | 'move' | 'negotiate' | null | undefined) => {
+    if (value === null || value === undefined) return 'N/A';
+    switch (value) {
+      case 'renew': return 'Renew';
+      case 'move': return 'Move to a Cheaper Shop';
+      case 'negotiate': return 'Negotiate Installments or More Time';
+      default: return 'N/A';
+    }
+  };
 
   const roi = (revenue_gain_last_campaign && marketing_spend_last_campaign && marketing_spend_last_campaign > 0) 
     ? (revenue_gain_last_campaign / marketing_spend_last_campaign) 
@@ -377,6 +651,49 @@ const DecisionCard = ({ data, messageId, onFeedbackSuccess }: DecisionCardProps)
                   <span className="text-muted-foreground">Estimated New Hire Salary: <span className="font-medium text-foreground">{formatCurrency(estimated_salary)}/month</span></span>
                 </div>
               )}
+              {/* Hiring Cost of Employment Fields */}
+              {employment_type !== null && employment_type !== undefined && (
+                <div className="flex items-center">
+                  <HardHat className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Employment Type: <span className="font-medium text-foreground">{formatEmploymentType(employment_type)}</span></span>
+                </div>
+              )}
+              {expected_revenue_uplift !== null && expected_revenue_uplift !== undefined && (
+                <div className="flex items-center">
+                  <TrendingUp className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Expected Extra Revenue: <span className="font-medium text-foreground">{formatCurrency(expected_revenue_uplift)}/month</span></span>
+                </div>
+              )}
+              {hire_equipment_cost !== null && hire_equipment_cost !== undefined && (
+                <div className="flex items-center">
+                  <Wallet className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Equipment for New Hire: <span className="font-medium text-foreground">{formatCurrency(hire_equipment_cost)}</span></span>
+                </div>
+              )}
+              {employer_statutory_contributions !== null && employer_statutory_contributions !== undefined && (
+                <div className="flex items-center">
+                  <Landmark className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Pension & NSITF: <span className="font-medium text-foreground">{formatCurrency(employer_statutory_contributions)}/month</span></span>
+                </div>
+              )}
+              {hire_one_off_cost !== null && hire_one_off_cost !== undefined && (
+                <div className="flex items-center">
+                  <DollarSign className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Onboarding & Equipment (One-off): <span className="font-medium text-foreground">{formatCurrency(hire_one_off_cost)}</span></span>
+                </div>
+              )}
+              {loaded_monthly_hire_cost !== null && loaded_monthly_hire_cost !== undefined && (
+                <div className="flex items-center">
+                  <Banknote className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Full Monthly Cost of Hire: <span className="font-medium text-foreground">{formatCurrency(loaded_monthly_hire_cost)}/month</span></span>
+                </div>
+              )}
+              {hire_payback_months !== null && hire_payback_months !== undefined && (
+                <div className="flex items-center">
+                  <Clock className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Hire Payback Period: <span className="font-medium text-foreground">{hire_payback_months}</span> months</span>
+                </div>
+              )}
               {estimated_inventory_cost !== null && estimated_inventory_cost !== undefined && (
                 <div className="flex items-center">
                   <DollarSign className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
@@ -614,6 +931,48 @@ const DecisionCard = ({ data, messageId, onFeedbackSuccess }: DecisionCardProps)
                   <span className="text-muted-foreground">Current Utilization: <span className="font-medium text-foreground">{formatPercentage(current_equipment_utilization_percentage)}</span></span>
                 </div>
               )}
+              {equipment_monthly_cash_benefit !== null && equipment_monthly_cash_benefit !== undefined && (
+                <div className="flex items-center">
+                  <TrendingUp className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Monthly Profit or Savings: <span className="font-medium text-foreground">{formatCurrency(equipment_monthly_cash_benefit)}/month</span></span>
+                </div>
+              )}
+              {equipment_useful_life_years !== null && equipment_useful_life_years !== undefined && (
+                <div className="flex items-center">
+                  <CalendarDays className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Useful Life: <span className="font-medium text-foreground">{equipment_useful_life_years}</span> years</span>
+                </div>
+              )}
+              {equipment_salvage_value !== null && equipment_salvage_value !== undefined && (
+                <div className="flex items-center">
+                  <Tag className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Salvage Value: <span className="font-medium text-foreground">{formatCurrency(equipment_salvage_value)}</span></span>
+                </div>
+              )}
+              {lease_monthly_payment !== null && lease_monthly_payment !== undefined && lease_monthly_payment > 0 && (
+                <div className="flex items-center">
+                  <Banknote className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Lease Payment: <span className="font-medium text-foreground">{formatCurrency(lease_monthly_payment)}/month</span></span>
+                </div>
+              )}
+              {hire_purchase_monthly_payment !== null && hire_purchase_monthly_payment !== undefined && hire_purchase_monthly_payment > 0 && (
+                <div className="flex items-center">
+                  <HandCoins className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Hire Purchase: <span className="font-medium text-foreground">{formatCurrency(hire_purchase_deposit)} deposit, then {formatCurrency(hire_purchase_monthly_payment)}/month for {hire_purchase_months} months</span></span>
+                </div>
+              )}
+              {equipment_monthly_depreciation !== null && equipment_monthly_depreciation !== undefined && (
+                <div className="flex items-center">
+                  <TrendingDown className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Depreciation: <span className="font-medium text-foreground">{formatCurrency(equipment_monthly_depreciation)}/month</span></span>
+                </div>
+              )}
+              {recommended_equipment_option !== null && recommended_equipment_option !== undefined && (
+                <div className="flex items-center">
+                  <Star className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Recommended Option: <span className="font-medium text-foreground">{formatEquipmentOption(recommended_equipment_option)}</span></span>
+                </div>
+              )}
               {/* Loan Management Fields */}
               {total_business_liabilities !== null && total_business_liabilities !== undefined && (
                 <div className="flex items-center">
@@ -676,10 +1035,315 @@ const DecisionCard = ({ data, messageId, onFeedbackSuccess }: DecisionCardProps)
                   <span className="text-muted-foreground">Revenue Growth Trend: <span className="font-medium text-foreground">{formatTrend(revenue_growth_trend)}</span></span>
                 </div>
               )}
+              {/* Pricing Fields */}
+              {current_unit_price !== null && current_unit_price !== undefined && (
+                <div className="flex items-center">
+                  <Tag className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Current Unit Price: <span className="font-medium text-foreground">{formatCurrency(current_unit_price)}</span></span>
+                </div>
+              )}
+              {proposed_unit_price !== null && proposed_unit_price !== undefined && (
+                <div className="flex items-center">
+                  <Tag className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Proposed Unit Price: <span className="font-medium text-foreground">{formatCurrency(proposed_unit_price)}</span></span>
+                </div>
+              )}
+              {unit_cost !== null && unit_cost !== undefined && (
+                <div className="flex items-center">
+                  <DollarSign className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Unit Cost: <span className="font-medium text-foreground">{formatCurrency(unit_cost)}</span></span>
+                </div>
+              )}
+              {competitor_unit_price !== null && competitor_unit_price !== undefined && (
+                <div className="flex items-center">
+                  <Search className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Competitor Unit Price: <span className="font-medium text-foreground">{formatCurrency(competitor_unit_price)}</span></span>
+                </div>
+              )}
+              {expected_volume_change_percentage !== null && expected_volume_change_percentage !== undefined && (
+                <div className="flex items-center">
+                  <BarChart className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Expected Change in Units Sold: <span className="font-medium text-foreground">{formatPercentage(expected_volume_change_percentage)}</span></span>
+                </div>
+              )}
+              {break_even_volume_change_percentage !== null && break_even_volume_change_percentage !== undefined && (
+                <div className="flex items-center">
+                  <Scale className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Break-even Change in Units Sold: <span className="font-medium text-foreground">{formatPercentage(break_even_volume_change_percentage)}</span></span>
+                </div>
+              )}
+              {current_margin_percentage !== null && current_margin_percentage !== undefined && (
+                <div className="flex items-center">
+                  <Percent className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Current Margin: <span className="font-medium text-foreground">{formatPercentage(current_margin_percentage)}</span></span>
+                </div>
+              )}
+              {new_margin_percentage !== null && new_margin_percentage !== undefined && (
+                <div className="flex items-center">
+                  <Percent className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">New Margin: <span className="font-medium text-foreground">{formatPercentage(new_margin_percentage)}</span></span>
+                </div>
+              )}
+              {gross_profit_change_percentage !== null && gross_profit_change_percentage !== undefined && (
+                <div className="flex items-center">
+                  <TrendingUp className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Projected Gross Profit Change: <span className="font-medium text-foreground">{formatPercentage(gross_profit_change_percentage)}</span></span>
+                </div>
+              )}
+              {/* Customer Credit Fields */}
+              {credit_amount !== null && credit_amount !== undefined && (
+                <div className="flex items-center">
+                  <HandCoins className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Credit Requested: <span className="font-medium text-foreground">{formatCurrency(credit_amount)}</span></span>
+                </div>
+              )}
+              {recommended_credit_limit !== null && recommended_credit_limit !== undefined && (
+                <div className="flex items-center">
+                  <Scale className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Recommended Credit Limit: <span className="font-medium text-foreground">{formatCurrency(recommended_credit_limit)}</span></span>
+                </div>
+              )}
+              {customer_payment_history !== null && customer_payment_history !== undefined && (
+                <div className="flex items-center">
+                  <Users className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Customer Payment History: <span className="font-medium text-foreground">{formatPaymentHistory(customer_payment_history)}</span></span>
+                </div>
+              )}
+              {outstanding_receivables !== null && outstanding_receivables !== undefined && (
+                <div className="flex items-center">
+                  <Wallet className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Currently Owed by Customers: <span className="font-medium text-foreground">{formatCurrency(outstanding_receivables)}</span></span>
+                </div>
+              )}
+              {credit_repayment_period_days !== null && credit_repayment_period_days !== undefined && (
+                <div className="flex items-center">
+                  <CalendarDays className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Repayment Period: <span className="font-medium text-foreground">{credit_repayment_period_days}</span> days</span>
+                </div>
+              )}
+              {/* Energy Cost Fields */}
+              {recommended_energy_option !== null && recommended_energy_option !== undefined && (
+                <div className="flex items-center">
+                  <Zap className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Cheapest Energy Option: <span className="font-medium text-foreground">{formatEnergyOption(recommended_energy_option)}</span></span>
+                </div>
+              )}
+              {monthly_fuel_spend !== null && monthly_fuel_spend !== undefined && (
+                <div className="flex items-center">
+                  <Fuel className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Monthly Fuel Spend: <span className="font-medium text-foreground">{formatCurrency(monthly_fuel_spend)}</span></span>
+                </div>
+              )}
+              {daily_outage_hours !== null && daily_outage_hours !== undefined && (
+                <div className="flex items-center">
+                  <Clock className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Daily Outage: <span className="font-medium text-foreground">{daily_outage_hours}</span> hours</span>
+                </div>
+              )}
+              {solar_system_cost !== null && solar_system_cost !== undefined && (
+                <div className="flex items-center">
+                  <Sun className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Solar System Cost: <span className="font-medium text-foreground">{formatCurrency(solar_system_cost)}</span></span>
+                </div>
+              )}
+              {inverter_system_cost !== null && inverter_system_cost !== undefined && (
+                <div className="flex items-center">
+                  <BatteryCharging className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Inverter System Cost: <span className="font-medium text-foreground">{formatCurrency(inverter_system_cost)}</span></span>
+                </div>
+              )}
+              {financing_months !== null && financing_months !== undefined && (
+                <div className="flex items-center">
+                  <CalendarDays className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Financing: <span className="font-medium text-foreground">{financing_months > 0 ? `${financing_months} months at ${formatPercentage(financing_apr)} APR` : 'Cash purchase'}</span></span>
+                </div>
+              )}
+              {generator_tco !== null && generator_tco !== undefined && (
+                <div className="flex items-center">
+                  <Fuel className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Generator Cost ({energy_tco_years}-Year): <span className="font-medium text-foreground">{formatCurrency(generator_tco)}</span></span>
+                </div>
+              )}
+              {solar_tco !== null && solar_tco !== undefined && (
+                <div className="flex items-center">
+                  <Sun className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Solar Cost ({energy_tco_years}-Year): <span className="font-medium text-foreground">{formatCurrency(solar_tco)}</span></span>
+                </div>
+              )}
+              {inverter_tco !== null && inverter_tco !== undefined && (
+                <div className="flex items-center">
+                  <BatteryCharging className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Inverter Cost ({energy_tco_years}-Year): <span className="font-medium text-foreground">{formatCurrency(inverter_tco)}</span></span>
+                </div>
+              )}
+              {solar_payback_months !== null && solar_payback_months !== undefined && (
+                <div className="flex items-center">
+                  <Target className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Solar Payback: <span className="font-medium text-foreground">{solar_payback_months}</span> months</span>
+                </div>
+              )}
+              {inverter_payback_months !== null && inverter_payback_months !== undefined && (
+                <div className="flex items-center">
+                  <Target className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Inverter Payback: <span className="font-medium text-foreground">{inverter_payback_months}</span> months</span>
+                </div>
+              )}
+              {energy_monthly_payment !== null && energy_monthly_payment !== undefined && energy_monthly_payment > 0 && (
+                <div className="flex items-center">
+                  <Wallet className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Monthly Repayment: <span className="font-medium text-foreground">{formatCurrency(energy_monthly_payment)}</span></span>
+                </div>
+              )}
+              {energy_monthly_saving !== null && energy_monthly_saving !== undefined && (
+                <div className="flex items-center">
+                  <Fuel className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Monthly Fuel Saving: <span className="font-medium text-foreground">{formatCurrency(energy_monthly_saving)}</span></span>
+                </div>
+              )}
+              {/* Owner Drawings Fields */}
+              {desired_monthly_drawing !== null && desired_monthly_drawing !== undefined && (
+                <div className="flex items-center">
+                  <Wallet className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Desired Monthly Drawing: <span className="font-medium text-foreground">{formatCurrency(desired_monthly_drawing)}</span></span>
+                </div>
+              )}
+              {recommended_monthly_drawing !== null && recommended_monthly_drawing !== undefined && (
+                <div className="flex items-center">
+                  <PiggyBank className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Sustainable Monthly Drawing: <span className="font-medium text-foreground">{formatCurrency(recommended_monthly_drawing)}</span></span>
+                </div>
+              )}
+              {personal_monthly_obligations !== null && personal_monthly_obligations !== undefined && (
+                <div className="flex items-center">
+                  <Users className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Personal Obligations: <span className="font-medium text-foreground">{formatCurrency(personal_monthly_obligations)}</span></span>
+                </div>
+              )}
+              {drawing_schedule !== null && drawing_schedule !== undefined && (
+                <div className="flex items-center">
+                  <CalendarDays className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Drawing Schedule: <span className="font-medium text-foreground">{formatDrawingSchedule(drawing_schedule, drawing_installment_amount)}</span></span>
+                </div>
+              )}
+              {/* Rotating Savings Fields */}
+              {contribution_amount !== null && contribution_amount !== undefined && (
+                <div className="flex items-center">
+                  <HandCoins className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Contribution: <span className="font-medium text-foreground">{formatCurrency(contribution_amount)}</span> {contribution_frequency ?? ''}</span>
+                </div>
+              )}
+              {monthly_contribution !== null && monthly_contribution !== undefined && (
+                <div className="flex items-center">
+                  <CalendarDays className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Monthly Contributions: <span className="font-medium text-foreground">{formatCurrency(monthly_contribution)}</span></span>
+                </div>
+              )}
+              {payout_amount !== null && payout_amount !== undefined && (
+                <div className="flex items-center">
+                  <PiggyBank className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Payout: <span className="font-medium text-foreground">{formatCurrency(payout_amount)}</span>{payout_position !== null && payout_position !== undefined && group_members ? ` on turn ${payout_position} of ${group_members}` : ''}</span>
+                </div>
+              )}
+              {lowest_projected_savings !== null && lowest_projected_savings !== undefined && (
+                <div className="flex items-center">
+                  <Wallet className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Lowest Savings During Cycle: <span className="font-medium text-foreground">{formatCurrency(lowest_projected_savings)}</span></span>
+                </div>
+              )}
+              {recommended_contribution_amount !== null && recommended_contribution_amount !== undefined && (
+                <div className="flex items-center">
+                  <Scale className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Affordable Contribution: <span className="font-medium text-foreground">{formatCurrency(recommended_contribution_amount)}</span></span>
+                </div>
+              )}
+              {recommended_payout_position !== null && recommended_payout_position !== undefined && (
+                <div className="flex items-center">
+                  <Target className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Recommended Turn: <span className="font-medium text-foreground">{recommended_payout_position}</span></span>
+                </div>
+              )}
+              {/* Loan Offer Comparison Fields */}
+              {recommended_loan_offer !== null && recommended_loan_offer !== undefined && (
+                <div className="flex items-center">
+                  <Landmark className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Recommended Offer: <span className="font-medium text-foreground">{loan_offer_results?.find(offer => offer.offer_index === recommended_loan_offer)?.lender ?? `Offer ${recommended_loan_offer + 1}`}</span></span>
+                </div>
+              )}
+              {/* Lease Renewal Fields */}
+              {rent_amount !== null && rent_amount !== undefined && (
+                <div className="flex items-center">
+                  <Store className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Upfront Rent: <span className="font-medium text-foreground">{formatCurrency(rent_amount)}</span></span>
+                </div>
+              )}
+              {renewal_date && (
+                <div className="flex items-center">
+                  <CalendarDays className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Renewal Date: <span className="font-medium text-foreground">{new Date(renewal_date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}</span>{months_until_renewal !== null && months_until_renewal !== undefined ? ` (${months_until_renewal} month(s) away)` : ''}</span>
+                </div>
+              )}
+              {moving_cost !== null && moving_cost !== undefined && (
+                <div className="flex items-center">
+                  <Banknote className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Cost of Moving: <span className="font-medium text-foreground">{formatCurrency(moving_cost)}</span></span>
+                </div>
+              )}
+              {monthly_rent_set_aside !== null && monthly_rent_set_aside !== undefined && monthly_rent_set_aside > 0 && (
+                <div className="flex items-center">
+                  <PiggyBank className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Monthly Rent Set-Aside: <span className="font-medium text-foreground">{formatCurrency(monthly_rent_set_aside)}</span></span>
+                </div>
+              )}
+              {rent_funding_gap !== null && rent_funding_gap !== undefined && rent_funding_gap > 0 && (
+                <div className="flex items-center">
+                  <TrendingDown className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Shortfall by Renewal: <span className="font-medium text-foreground">{formatCurrency(rent_funding_gap)}</span></span>
+                </div>
+              )}
+              {recommended_lease_option !== null && recommended_lease_option !== undefined && (
+                <div className="flex items-center">
+                  <Target className="h-4 w-4 text-muted-foreground mr-2 flex-shrink-0" />
+                  <span className="text-muted-foreground">Best Option: <span className="font-medium text-foreground">{formatLeaseOption(recommended_lease_option)}</span></span>
+                </div>
+              )}
             </div>
           </div>
         ) : null}
 
+        {rotating_savings_projection && rotating_savings_projection.length > 0 && (
+          <RotatingSavingsProjection months={rotating_savings_projection} />
+        )}
+
+        {loan_offer_results && loan_offer_results.length > 0 && (
+          <LoanOfferComparisonTable offers={loan_offer_results} />
+        )}
+
+        {equipment_option_results && equipment_option_results.length > 0 && (
+          <EquipmentOptionsComparison options={equipment_option_results} discountRatePercentage={equipment_discount_rate_percentage} />
+        )}
+
+        {lease_sinking_fund_plan && lease_sinking_fund_plan.length > 0 && (
+          <LeaseSinkingFundPlan months={lease_sinking_fund_plan} />
+        )}
+
+        {financial_history && (financial_history.rolling_average_months > 1 || (financial_history.derived_fields?.length ?? 0) > 0) && (
+          <div className="flex items-start text-sm">
+            <LineChart className="h-4 w-4 text-muted-foreground mr-2 mt-0.5 flex-shrink-0" />
+            <span className="text-muted-foreground">
+              {financial_history.rolling_average_months > 1
+                ? `Revenue and expenses are averaged over your last ${financial_history.rolling_average_months} months of records.`
+                : 'Based on your latest month of records.'}
+              {financial_history.derived_fields && financial_history.derived_fields.length > 0 && (
+                ` Worked out from your history: ${financial_history.derived_fields.map(field => field.replace(/_/g, ' ')).join(', ')}.`
+              )}
+            </span>
+          </div>
+        )}
+
+        {rule_trace && rule_trace.length > 0 && (
+          <RuleTraceBreakdown trace={rule_trace} defaultOpen={traceDefaultOpen} />
+        )}
+
         <div>
           <h4 className="font-semibold text-foreground mb-2">Actionable Steps:</h4>
           <ul className="space-y-1">
@@ -692,6 +1356,25 @@ const DecisionCard = ({ data, messageId, onFeedbackSuccess }: DecisionCardProps)
           </ul>
         </div>
 
+        {recommendation !== 'APPROVE' && counterfactual_targets && counterfactual_targets.length > 0 && (
+          <div>
+            <h4 className="font-semibold text-foreground mb-1">What would it take to get APPROVE?</h4>
+            <p className="text-sm text-muted-foreground mb-2">
+              {counterfactual_targets.some(target => target.combined)
+                ? 'Make all of these changes together:'
+                : 'Any one of these changes would be enough:'}
+            </p>
+            <ul className="space-y-1">
+              {counterfactual_targets.map((target, index) => (
+                <li key={`${target.field}-${index}`} className="flex items-start text-sm">
+                  <Target className="h-4 w-4 text-primary mr-2 mt-0.5 flex-shrink-0" />
+                  <span className="text-foreground/90">{target.description}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Feedback Section */}
         <div className="pt-4 border-t border-border mt-4 flex items-center justify-between">
           <p className="text-sm text-muted-foreground">How helpful was this recommendation?</p>
@@ -701,6 +1384,9 @@ const DecisionCard = ({ data, messageId, onFeedbackSuccess }: DecisionCardProps)
             disabled={feedbackStatus !== null} // Disable after first feedback
           />
         </div>
+        {rule_pack_version && (
+          <p className="text-xs text-muted-foreground text-right">Evaluated with rule pack v{rule_pack_version}</p>
+        )}
       </CardContent>
     </Card>
   );
@@ -6,6 +6,7 @@ import {
   DialogDescription,
 } from '@/components/ui/dialog';
 import DecisionCard from '@/components/DecisionCard';
+import { CounterfactualTarget, EquipmentOption, EquipmentOptionResult, FinancialHistorySummary, LeaseSinkingFundMonth, LoanOffer, LoanOfferResult, RotatingSavingsMonth, RuleTraceEntry } from '@/types/supabase-edge-functions';
 
 interface DecisionDetailsDialogProps {
   isOpen: boolean;
@@ -22,6 +23,13 @@ interface DecisionDetailsDialogProps {
       current_savings: number;
     };
     estimated_salary?: number;
+    employment_type?: 'full_time' | 'part_time' | 'apprentice' | 'contract' | null;
+    expected_revenue_uplift?: number | null;
+    hire_equipment_cost?: number | null;
+    employer_statutory_contributions?: number | null;
+    hire_one_off_cost?: number | null;
+    loaded_monthly_hire_cost?: number | null;
+    hire_payback_months?: number | null;
     estimated_inventory_cost?: number | null;
     inventory_turnover_days?: number | null;
     supplier_credit_terms_days?: number | null;
@@ -62,6 +70,17 @@ interface DecisionDetailsDialogProps {
     estimated_roi_percentage?: number | null;
     is_essential_replacement?: boolean | null;
     current_equipment_utilization_percentage?: number | null;
+    equipment_monthly_cash_benefit?: number | null;
+    equipment_useful_life_years?: number | null;
+    equipment_salvage_value?: number | null;
+    lease_monthly_payment?: number | null;
+    hire_purchase_monthly_payment?: number | null;
+    hire_purchase_deposit?: number | null;
+    hire_purchase_months?: number | null;
+    equipment_discount_rate_percentage?: number | null;
+    equipment_monthly_depreciation?: number | null;
+    equipment_option_results?: EquipmentOptionResult[] | null;
+    recommended_equipment_option?: EquipmentOption | null;
     // New fields for loan_management
     total_business_liabilities?: number | null;
     total_business_assets?: number | null;
@@ -74,6 +93,73 @@ interface DecisionDetailsDialogProps {
     expansion_cost?: number | null;
     profit_margin_trend?: 'consistent_growth' | 'positive_fluctuating' | 'declining_unstable' | null;
     revenue_growth_trend?: 'consistent_growth' | 'positive_fluctuating' | 'declining_unstable' | null;
+    // New fields for pricing
+    current_unit_price?: number | null;
+    proposed_unit_price?: number | null;
+    unit_cost?: number | null;
+    expected_volume_change_percentage?: number | null;
+    competitor_unit_price?: number | null;
+    current_margin_percentage?: number | null;
+    new_margin_percentage?: number | null;
+    break_even_volume_change_percentage?: number | null;
+    gross_profit_change_percentage?: number | null;
+    // New fields for customer_credit
+    credit_amount?: number | null;
+    customer_payment_history?: 'always_on_time' | 'sometimes_late' | 'often_late' | 'new_customer' | null;
+    outstanding_receivables?: number | null;
+    credit_repayment_period_days?: number | null;
+    recommended_credit_limit?: number | null;
+    // New fields for energy_cost
+    monthly_fuel_spend?: number | null;
+    daily_outage_hours?: number | null;
+    solar_system_cost?: number | null;
+    inverter_system_cost?: number | null;
+    financing_months?: number | null;
+    financing_apr?: number | null;
+    energy_tco_years?: number | null;
+    generator_tco?: number | null;
+    solar_tco?: number | null;
+    inverter_tco?: number | null;
+    solar_payback_months?: number | null;
+    inverter_payback_months?: number | null;
+    energy_monthly_payment?: number | null;
+    energy_monthly_saving?: number | null;
+    recommended_energy_option?: 'generator' | 'solar' | 'grid_inverter' | null;
+    // New fields for owner_drawings
+    desired_monthly_drawing?: number | null;
+    personal_monthly_obligations?: number | null;
+    recommended_monthly_drawing?: number | null;
+    drawing_schedule?: 'monthly' | 'twice_monthly' | 'weekly' | null;
+    drawing_installment_amount?: number | null;
+    // New fields for rotating_savings
+    contribution_amount?: number | null;
+    contribution_frequency?: 'daily' | 'weekly' | 'monthly' | null;
+    group_members?: number | null;
+    payout_position?: number | null;
+    monthly_contribution?: number | null;
+    payout_amount?: number | null;
+    lowest_projected_savings?: number | null;
+    recommended_contribution_amount?: number | null;
+    recommended_payout_position?: number | null;
+    rotating_savings_projection?: RotatingSavingsMonth[] | null;
+    // New fields for loan_offer_comparison
+    loan_offers?: LoanOffer[] | null;
+    loan_offer_results?: LoanOfferResult[] | null;
+    recommended_loan_offer?: number | null;
+    // New fields for lease_renewal
+    rent_amount?: number | null;
+    renewal_date?: string | null;
+    can_move?: boolean | null;
+    moving_cost?: number | null;
+    months_until_renewal?: number | null;
+    monthly_rent_set_aside?: number | null;
+    rent_funding_gap?: number | null;
+    recommended_lease_option?: 'renew' | 'move' | 'negotiate' | null;
+    lease_sinking_fund_plan?: LeaseSinkingFundMonth[] | null;
+    rule_pack_version?: string | null; // Version of the rule pack the engine evaluated
+    rule_trace?: RuleTraceEntry[] | null; // Structured record of every rule evaluated
+    counterfactual_targets?: CounterfactualTarget[] | null; // What it would take to get APPROVE
+    financial_history?: FinancialHistorySummary | null; // Multi-month summary the engine used
     created_at: string;
     feedback?: number | null; // Added feedback field
   } | null;
@@ -99,7 +185,7 @@ const DecisionDetailsDialog = ({ isOpen, onClose, decision }: DecisionDetailsDia
           <h3 className="text-lg font-semibold text-foreground mb-2">Question:</h3>
           <p className="text-muted-foreground mb-4">{decision.question}</p>
           
-          <DecisionCard data={decision} />
+          <DecisionCard data={decision} traceDefaultOpen />
 
           <p className="text-sm text-muted-foreground mt-4 text-right">
             Decision made on: {new Date(decision.created_at).toLocaleDateString()}
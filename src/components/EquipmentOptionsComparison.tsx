@@ -0,0 +1,59 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { EquipmentOption, EquipmentOptionResult } from '@/types/supabase-edge-functions';
+
+interface EquipmentOptionsComparisonProps {
+  options: EquipmentOptionResult[];
+  discountRatePercentage?: number | null;
+}
+
+const OPTION_LABELS: Record<EquipmentOption, string> = {
+  buy: 'Buy (cash)',
+  hire_purchase: 'Hire Purchase',
+  lease: 'Lease',
+};
+
+const formatNaira = (value: number) => `${value < 0 ? '-' : ''}₦${Math.abs(value).toLocaleString()}`;
+
+// Buy, hire purchase and lease side by side, in the order the engine ranked them.
+const EquipmentOptionsComparison = ({ options, discountRatePercentage }: EquipmentOptionsComparisonProps) => (
+  <div>
+    <h4 className="font-semibold text-foreground mb-2">Ways to Pay Compared:</h4>
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>#</TableHead>
+          <TableHead>Option</TableHead>
+          <TableHead className="text-right">Upfront</TableHead>
+          <TableHead className="text-right">Monthly Payment</TableHead>
+          <TableHead className="text-right">Monthly Cash Flow</TableHead>
+          <TableHead className="text-right">Payback</TableHead>
+          <TableHead className="text-right">NPV</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {options.map(option => (
+          <TableRow key={option.option} className={cn(!option.affordable && 'text-muted-foreground')}>
+            <TableCell>{option.rank}</TableCell>
+            <TableCell className="font-medium">
+              {OPTION_LABELS[option.option]}
+              {!option.affordable && <span className="text-destructive"> (can't afford)</span>}
+            </TableCell>
+            <TableCell className="text-right">{formatNaira(option.upfront_cash)}</TableCell>
+            <TableCell className="text-right">
+              {option.monthly_payment > 0 ? `${formatNaira(option.monthly_payment)} for ${option.payment_months} months` : '—'}
+            </TableCell>
+            <TableCell className={cn('text-right', option.monthly_net_cash_flow < 0 && 'text-destructive')}>{formatNaira(option.monthly_net_cash_flow)}</TableCell>
+            <TableCell className="text-right">{option.payback_months !== null ? `${option.payback_months} months` : '—'}</TableCell>
+            <TableCell className="text-right">{formatNaira(option.npv)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+    {discountRatePercentage !== null && discountRatePercentage !== undefined && (
+      <p className="text-xs text-muted-foreground mt-1">NPV is the value in today's money over the equipment's useful life, at a {discountRatePercentage}% yearly discount rate.</p>
+    )}
+  </div>
+);
+
+export default EquipmentOptionsComparison;
@@ -0,0 +1,38 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LeaseSinkingFundMonth } from '@/types/supabase-edge-functions';
+
+interface LeaseSinkingFundPlanProps {
+  months: LeaseSinkingFundMonth[];
+}
+
+const formatNaira = (value: number) => `₦${value.toLocaleString()}`;
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-GB', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+// Month-by-month saving towards the upfront rent, keeping the business reserve.
+const LeaseSinkingFundPlan = ({ months }: LeaseSinkingFundPlanProps) => (
+  <div>
+    <h4 className="font-semibold text-foreground mb-2">Rent Saving Plan:</h4>
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Month</TableHead>
+          <TableHead className="text-right">Set Aside</TableHead>
+          <TableHead className="text-right">Savings at Month End</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {months.map(month => (
+          <TableRow key={month.month}>
+            <TableCell>{formatMonth(month.month)}</TableCell>
+            <TableCell className="text-right">{month.set_aside > 0 ? formatNaira(month.set_aside) : '-'}</TableCell>
+            <TableCell className="text-right font-medium">{formatNaira(month.projected_savings)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </div>
+);
+
+export default LeaseSinkingFundPlan;
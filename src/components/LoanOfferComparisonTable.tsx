@@ -0,0 +1,47 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { LoanOfferResult } from '@/types/supabase-edge-functions';
+
+interface LoanOfferComparisonTableProps {
+  offers: LoanOfferResult[];
+}
+
+const formatNaira = (value: number) => `₦${value.toLocaleString()}`;
+
+// Loan offers side by side, in the order the engine ranked them.
+const LoanOfferComparisonTable = ({ offers }: LoanOfferComparisonTableProps) => (
+  <div>
+    <h4 className="font-semibold text-foreground mb-2">Loan Offers Compared:</h4>
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>#</TableHead>
+          <TableHead>Lender</TableHead>
+          <TableHead className="text-right">Effective APR</TableHead>
+          <TableHead className="text-right">Total Cost</TableHead>
+          <TableHead className="text-right">Repayment</TableHead>
+          <TableHead className="text-right">Share of Net Income</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {offers.map(offer => (
+          <TableRow key={offer.rank} className={cn(!offer.affordable && 'text-muted-foreground')}>
+            <TableCell>{offer.rank}</TableCell>
+            <TableCell className="font-medium">{offer.lender}</TableCell>
+            <TableCell className="text-right">{offer.effective_apr_percentage}%</TableCell>
+            <TableCell className="text-right">{formatNaira(offer.total_cost)}</TableCell>
+            <TableCell className="text-right">
+              {formatNaira(offer.installment_amount)} {offer.repayment_frequency === 'weekly' ? 'weekly' : 'monthly'} for {offer.tenor_months} months
+            </TableCell>
+            <TableCell className={cn('text-right', !offer.affordable && 'text-destructive')}>
+              {offer.repayment_burden_percentage !== null ? `${offer.repayment_burden_percentage}%` : 'N/A'}
+              {!offer.affordable && ' (too high)'}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </div>
+);
+
+export default LoanOfferComparisonTable;
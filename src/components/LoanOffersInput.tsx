@@ -0,0 +1,101 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoanOfferDraft, MAX_LOAN_OFFERS, MIN_LOAN_OFFERS, emptyLoanOfferDraft } from '@/lib/loan-offers';
+
+interface LoanOffersInputProps {
+  offers: LoanOfferDraft[];
+  onChange: (offers: LoanOfferDraft[]) => void;
+  disabled?: boolean;
+}
+
+type NumericKey = 'principal' | 'interest_rate_percentage' | 'upfront_fees' | 'tenor_months';
+
+const NUMERIC_FIELDS: { key: NumericKey; label: string }[] = [
+  { key: 'principal', label: 'Amount (₦)' },
+  { key: 'interest_rate_percentage', label: 'Interest rate (%)' },
+  { key: 'upfront_fees', label: 'Upfront fees (₦)' },
+  { key: 'tenor_months', label: 'Tenor (months)' },
+];
+
+const CHOICE_FIELDS: { key: 'rate_period' | 'interest_method' | 'repayment_frequency'; label: string; options: { value: string; label: string }[] }[] = [
+  { key: 'rate_period', label: 'Rate is per', options: [{ value: 'monthly', label: 'Month' }, { value: 'annual', label: 'Year' }] },
+  { key: 'interest_method', label: 'Interest', options: [{ value: 'flat', label: 'Flat' }, { value: 'reducing', label: 'Reducing balance' }] },
+  { key: 'repayment_frequency', label: 'Repay', options: [{ value: 'weekly', label: 'Weekly' }, { value: 'monthly', label: 'Monthly' }] },
+];
+
+// One editable row per loan offer, for the loan_offer_comparison intent.
+const LoanOffersInput = ({ offers, onChange, disabled = false }: LoanOffersInputProps) => {
+  const updateOffer = (index: number, changes: Partial<LoanOfferDraft>) =>
+    onChange(offers.map((offer, offerIndex) => (offerIndex === index ? { ...offer, ...changes } : offer)));
+
+  return (
+    <div className="space-y-3">
+      {offers.map((offer, index) => (
+        <div key={index} className="rounded-md border border-border p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <Input
+              aria-label={`Lender for offer ${index + 1}`}
+              placeholder={`Offer ${index + 1} (lender name)`}
+              value={offer.lender}
+              onChange={event => updateOffer(index, { lender: event.target.value })}
+              disabled={disabled}
+            />
+            {offers.length > MIN_LOAN_OFFERS && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label={`Remove offer ${index + 1}`}
+                onClick={() => onChange(offers.filter((_, offerIndex) => offerIndex !== index))}
+                disabled={disabled}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {NUMERIC_FIELDS.map(({ key, label }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`loan-offer-${index}-${key}`} className="text-xs text-muted-foreground">{label}</Label>
+                <Input
+                  id={`loan-offer-${index}-${key}`}
+                  type="number"
+                  min={0}
+                  inputMode="decimal"
+                  value={offer[key]}
+                  onChange={event => updateOffer(index, { [key]: event.target.value })}
+                  disabled={disabled}
+                />
+              </div>
+            ))}
+            {CHOICE_FIELDS.map(({ key, label, options }) => (
+              <div key={key} className="space-y-1">
+                <Label className="text-xs text-muted-foreground">{label}</Label>
+                <Select value={offer[key]} onValueChange={value => updateOffer(index, { [key]: value })} disabled={disabled}>
+                  <SelectTrigger aria-label={`${label} for offer ${index + 1}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {options.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+      {offers.length < MAX_LOAN_OFFERS && (
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange([...offers, emptyLoanOfferDraft()])} disabled={disabled}>
+          <Plus className="h-4 w-4 mr-1" /> Add another offer
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default LoanOffersInput;
@@ -0,0 +1,37 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RotatingSavingsMonth } from '@/types/supabase-edge-functions';
+
+interface RotatingSavingsProjectionProps {
+  months: RotatingSavingsMonth[];
+}
+
+const formatNaira = (value: number) => `₦${value.toLocaleString()}`;
+
+// Month-by-month effect of an ajo/esusu cycle on the vendor's savings.
+const RotatingSavingsProjection = ({ months }: RotatingSavingsProjectionProps) => (
+  <div>
+    <h4 className="font-semibold text-foreground mb-2">Cash Flow Over the Cycle:</h4>
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Month</TableHead>
+          <TableHead className="text-right">Contributions</TableHead>
+          <TableHead className="text-right">Payout</TableHead>
+          <TableHead className="text-right">Savings at Month End</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {months.map(month => (
+          <TableRow key={month.month}>
+            <TableCell>{month.month}</TableCell>
+            <TableCell className="text-right">{formatNaira(month.contributions)}</TableCell>
+            <TableCell className="text-right">{month.payout > 0 ? formatNaira(month.payout) : '-'}</TableCell>
+            <TableCell className="text-right font-medium">{formatNaira(month.closing_savings)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </div>
+);
+
+export default RotatingSavingsProjection;
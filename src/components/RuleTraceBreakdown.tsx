@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { CheckCircle, XCircle, ChevronDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { RuleTraceEntry } from '@/types/supabase-edge-functions';
+
+interface RuleTraceBreakdownProps {
+  trace: RuleTraceEntry[];
+  defaultOpen?: boolean;
+}
+
+const OPERATOR_SYMBOLS: Record<RuleTraceEntry['operator'], string> = {
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+};
+
+const formatRuleValue = (value: number, unit: RuleTraceEntry['unit']) => {
+  if (!Number.isFinite(value)) return 'N/A';
+  switch (unit) {
+    case 'currency': return `₦${Math.round(value).toLocaleString()}`;
+    case 'percentage': return `${Number(value.toFixed(1))}%`;
+    case 'ratio': return `${Number((value * 100).toFixed(1))}%`;
+    case 'multiple': return `${Number(value.toFixed(2))}x`;
+    case 'months': return `${Number(value.toFixed(1))} months`;
+    case 'days': return `${Number(value.toFixed(1))} days`;
+    default: return `${Number(value.toFixed(2))}`;
+  }
+};
+
+const formatInputValue = (value: number | boolean | string | null) => {
+  if (value === null) return 'N/A';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return value.toLocaleString();
+  return value.replace(/_/g, ' ');
+};
+
+const formatInputLabel = (key: string) => key.replace(/_/g, ' ');
+
+// Expandable "why" breakdown listing every rule the decision engine evaluated.
+const RuleTraceBreakdown = ({ trace, defaultOpen = false }: RuleTraceBreakdownProps) => {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const passedCount = trace.filter(entry => entry.passed).length;
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger className="flex w-full items-center justify-between text-left">
+        <h4 className="font-semibold text-foreground">
+          Why this recommendation? <span className="text-sm font-normal text-muted-foreground">({passedCount} of {trace.length} checks passed)</span>
+        </h4>
+        <ChevronDown className={cn("h-4 w-4 text-muted-foreground transition-transform", isOpen && "rotate-180")} />
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ul className="mt-2 space-y-2">
+          {trace.map((entry, index) => (
+            <li key={`${entry.rule_id}-${index}`} className="rounded-md border border-border p-2 text-sm">
+              <div className="flex items-start">
+                {entry.passed ? (
+                  <CheckCircle className="h-4 w-4 text-success mr-2 mt-0.5 flex-shrink-0" />
+                ) : (
+                  <XCircle className="h-4 w-4 text-destructive mr-2 mt-0.5 flex-shrink-0" />
+                )}
+                <div className="flex-1">
+                  <p className="text-foreground/90">{entry.description}</p>
+                  <p className="text-muted-foreground">
+                    Actual: <span className="font-medium text-foreground">{formatRuleValue(entry.actual, entry.unit)}</span>
+                    {' '}· Required: <span className="font-medium text-foreground">{OPERATOR_SYMBOLS[entry.operator]} {formatRuleValue(entry.threshold, entry.unit)}</span>
+                    {entry.weight > 0 ? null : <span className="ml-1">(advisory)</span>}
+                  </p>
+                  {Object.keys(entry.inputs).length > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {Object.entries(entry.inputs).map(([key, value]) => `${formatInputLabel(key)}: ${formatInputValue(value)}`).join(' · ')}
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground/70 mt-1">{entry.rule_id}</p>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default RuleTraceBreakdown;
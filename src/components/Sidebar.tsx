@@ -1,7 +1,7 @@
 import { Link, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent } from '@/components/ui/sheet';
-import { LayoutDashboard, Settings, PlusCircle, LogOut, History, MessageSquarePlus, MessageSquareText, DollarSign } from 'lucide-react';
+import { LayoutDashboard, Settings, PlusCircle, LogOut, History, MessageSquarePlus, MessageSquareText, DollarSign, SlidersHorizontal } from 'lucide-react';
 import kudiGuardLogo from '@/assets/kudiguard-logo.png';
 import { useSession } from '@/components/auth/SessionContextProvider';
 import { useToast } from '@/hooks/use-toast';
@@ -26,6 +26,7 @@ const Sidebar = ({ isSidebarOpen, setIsSidebarOpen, onAddDataClick, onStartNewCh
     { path: '/insights', icon: LayoutDashboard, label: 'Insights' },
     { path: '/history', icon: History, label: 'Decision History' },
     { path: '/financial-data', icon: DollarSign, label: 'Financial Data' },
+    { path: '/planner', icon: SlidersHorizontal, label: 'Scenario Planner' },
     { path: '/settings', icon: Settings, label: 'Settings' },
   ];
 
@@ -131,7 +131,7 @@ export const SessionContextProvider = ({ children }: { children: ReactNode }) =>
         setUserDisplayName(null);
         setIsFmcgVendor(null);
         // Redirect to login if signed out and on a protected route
-        const protectedRoutes = ['/chat', '/insights', '/settings', '/onboarding', '/history', '/financial-data']; // Added /financial-data
+        const protectedRoutes = ['/chat', '/insights', '/settings', '/onboarding', '/history', '/financial-data', '/planner']; // Added /financial-data
         if (protectedRoutes.includes(location.pathname)) {
           navigate('/login');
         }
@@ -144,7 +144,7 @@ export const SessionContextProvider = ({ children }: { children: ReactNode }) =>
         fetchAndSetUserProfile(initialSession);
       } else {
         setIsLoading(false);
-        const protectedRoutes = ['/chat', '/insights', '/settings', '/onboarding', '/history', '/financial-data']; // Added /financial-data
+        const protectedRoutes = ['/chat', '/insights', '/settings', '/onboarding', '/history', '/financial-data', '/planner']; // Added /financial-data
         if (protectedRoutes.includes(location.pathname)) {
           navigate('/login');
         }
@@ -160,7 +160,7 @@ export const SessionContextProvider = ({ children }: { children: ReactNode }) =>
       return;
     }
 
-    const protectedRoutes = ['/chat', '/insights', '/settings', '/history', '/financial-data']; // Added /financial-data
+    const protectedRoutes = ['/chat', '/insights', '/settings', '/history', '/financial-data', '/planner']; // Added /financial-data
 
     if (session) {
       // User is authenticated
@@ -26,18 +26,10 @@ const AuthenticatedLayout = () => {
     }
 
     try {
-      const initialGreetingMessage = {
-        id: String(Date.now()),
-        sender: 'ai',
-        text: `Hello ${userDisplayName || 'there'}! I'm KudiGuard, your AI financial analyst. How can I help your business today?`,
-        timestamp: new Date().toISOString(),
-      };
-
       const { data, error } = await supabase
         .from('chats')
         .insert({
           user_id: session.user.id,
-          messages: [initialGreetingMessage],
           current_payload: {},
           title: 'New Chat',
         })
@@ -48,6 +40,19 @@ const AuthenticatedLayout = () => {
         throw error;
       }
 
+      const { error: greetingError } = await supabase
+        .from('chat_messages')
+        .insert({
+          chat_id: data.id,
+          user_id: session.user.id,
+          sender: 'ai',
+          text: `Hello ${userDisplayName || 'there'}! I'm KudiGuard, your AI financial analyst. How can I help your business today?`,
+        });
+
+      if (greetingError) {
+        throw greetingError;
+      }
+
       queryClient.invalidateQueries({ queryKey: ['chatState', session.user.id] });
       queryClient.invalidateQueries({ queryKey: ['chatHistory', session.user.id] });
       
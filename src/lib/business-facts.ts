@@ -0,0 +1,33 @@
+import { BusinessFact } from '@/types/supabase-edge-functions';
+
+export type BusinessFactKind = 'currency' | 'percentage' | 'days' | 'boolean';
+
+export interface BusinessFactDefinition {
+  field: string;
+  label: string;
+  kind: BusinessFactKind;
+}
+
+export const BUSINESS_FACT_DEFINITIONS: BusinessFactDefinition[] = [
+  { field: 'inventory_turnover_days', label: 'Days to sell your stock', kind: 'days' },
+  { field: 'supplier_credit_terms_days', label: 'Supplier credit terms', kind: 'days' },
+  { field: 'average_receivables_turnover_days', label: 'Days customers take to pay', kind: 'days' },
+  { field: 'debt_apr', label: 'Highest debt interest rate (APR)', kind: 'percentage' },
+  { field: 'total_business_assets', label: 'Total business assets', kind: 'currency' },
+  { field: 'total_business_liabilities', label: 'Total business liabilities', kind: 'currency' },
+  { field: 'total_monthly_debt_repayments', label: 'Monthly debt repayments', kind: 'currency' },
+  { field: 'is_volatile_industry', label: 'Volatile industry', kind: 'boolean' },
+  { field: 'is_growth_stage', label: 'Business is in a growth stage', kind: 'boolean' },
+  { field: 'outstanding_receivables', label: 'Total owed to you by customers', kind: 'currency' },
+];
+
+export const formatBusinessFactValue = (value: BusinessFact['value'], kind: BusinessFactKind) => {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string') return value.replace(/_/g, ' ');
+  switch (kind) {
+    case 'currency': return `₦${value.toLocaleString()}`;
+    case 'percentage': return `${value}%`;
+    case 'days': return `${value} days`;
+    default: return value.toLocaleString();
+  }
+};
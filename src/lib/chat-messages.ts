@@ -0,0 +1,49 @@
+import { DecisionCardProps } from '@/components/DecisionCard';
+import { DataNeededResponse } from '@/types/supabase-edge-functions';
+
+export interface ChatMessage {
+  id: string;
+  seq: number; // Server-assigned order within the chat
+  sender: 'user' | 'ai';
+  text: string;
+  timestamp: string;
+  decisionData?: DecisionCardProps['data'];
+  dataNeeded?: DataNeededResponse;
+  missingFields?: DataNeededResponse[]; // Every field still needed, answered together in one form
+  originalQuestion?: string;
+  collectedPayload?: Record<string, unknown>;
+  quickReplies?: string[];
+}
+
+// A row of the chat_messages table
+export interface ChatMessageRow {
+  id: string;
+  seq: number;
+  sender: 'user' | 'ai';
+  text: string;
+  decision_data: DecisionCardProps['data'] | null;
+  data_needed: DataNeededResponse | null;
+  missing_fields: DataNeededResponse[] | null;
+  original_question: string | null;
+  collected_payload: Record<string, unknown> | null;
+  quick_replies: string[] | null;
+  created_at: string;
+}
+
+export const CHAT_MESSAGE_COLUMNS = 'id, seq, sender, text, decision_data, data_needed, missing_fields, original_question, collected_payload, quick_replies, created_at';
+
+export const CHAT_MESSAGE_PAGE_SIZE = 30;
+
+export const toChatMessage = (row: ChatMessageRow): ChatMessage => ({
+  id: row.id,
+  seq: row.seq,
+  sender: row.sender,
+  text: row.text,
+  timestamp: row.created_at,
+  decisionData: row.decision_data ?? undefined,
+  dataNeeded: row.data_needed ?? undefined,
+  missingFields: row.missing_fields ?? undefined,
+  originalQuestion: row.original_question ?? undefined,
+  collectedPayload: row.collected_payload ?? undefined,
+  quickReplies: row.quick_replies ?? undefined,
+});
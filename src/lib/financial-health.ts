@@ -0,0 +1,43 @@
+export type FinancialHealthScore = 'stable' | 'caution' | 'risky';
+
+export interface FinancialHealthInput {
+  monthly_revenue: number;
+  monthly_expenses: number;
+  current_savings: number;
+}
+
+export interface FinancialHealth {
+  score: FinancialHealthScore;
+  message: string;
+}
+
+// Shared by InsightsPage and the scenario planner so both show the same score for the same numbers.
+export const calculateFinancialHealth = (data: FinancialHealthInput | null | undefined): FinancialHealth => {
+  if (!data) {
+    return {
+      score: 'caution',
+      message: "No recent financial data. Please add your monthly revenue, expenses, and savings to get a personalized health score.",
+    };
+  }
+
+  const { monthly_revenue, monthly_expenses, current_savings } = data;
+  const netProfit = monthly_revenue - monthly_expenses;
+  const profitMargin = monthly_revenue > 0 ? (netProfit / monthly_revenue) * 100 : 0;
+
+  if (netProfit <= 0 || current_savings < (0.5 * monthly_expenses)) {
+    return {
+      score: 'risky',
+      message: "Your business is facing significant financial challenges. Focus on immediate revenue generation and aggressive cost reduction to improve stability.",
+    };
+  }
+  if (profitMargin < 10 || current_savings < monthly_expenses) {
+    return {
+      score: 'caution',
+      message: "Your business is profitable, but there are areas for improvement. Consider optimizing expenses, increasing profit margins, or building a stronger savings buffer.",
+    };
+  }
+  return {
+    score: 'stable',
+    message: "Your business is in a stable financial position with healthy profits and sufficient reserves. You're well-positioned for growth and strategic investments.",
+  };
+};
@@ -0,0 +1,88 @@
+import { LoanOffer } from '@/types/supabase-edge-functions';
+
+// Mirror MIN_LOAN_OFFERS and MAX_LOAN_OFFERS in the decision-engine
+export const MIN_LOAN_OFFERS = 2;
+export const MAX_LOAN_OFFERS = 5;
+
+// An offer as typed into the form; numbers stay strings until submitted
+export type LoanOfferDraft = {
+  lender: string;
+  principal: string;
+  interest_rate_percentage: string;
+  rate_period: LoanOffer['rate_period'];
+  interest_method: LoanOffer['interest_method'];
+  upfront_fees: string;
+  tenor_months: string;
+  repayment_frequency: LoanOffer['repayment_frequency'];
+};
+
+export const emptyLoanOfferDraft = (): LoanOfferDraft => ({
+  lender: '',
+  principal: '',
+  interest_rate_percentage: '',
+  rate_period: 'monthly',
+  interest_method: 'flat',
+  upfront_fees: '0',
+  tenor_months: '',
+  repayment_frequency: 'monthly',
+});
+
+const toDraftNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? String(value) : '');
+
+// Offers the intent parser already extracted may be incomplete, so every field falls back to the empty draft
+export const toLoanOfferDrafts = (offers: unknown): LoanOfferDraft[] => {
+  const drafts = Array.isArray(offers)
+    ? offers.slice(0, MAX_LOAN_OFFERS).map((offer: Partial<Record<keyof LoanOffer, unknown>>) => {
+      const empty = emptyLoanOfferDraft();
+      return {
+        lender: typeof offer.lender === 'string' ? offer.lender : '',
+        principal: toDraftNumber(offer.principal),
+        interest_rate_percentage: toDraftNumber(offer.interest_rate_percentage),
+        rate_period: offer.rate_period === 'annual' ? 'annual' : empty.rate_period,
+        interest_method: offer.interest_method === 'reducing' ? 'reducing' : empty.interest_method,
+        upfront_fees: toDraftNumber(offer.upfront_fees) || empty.upfront_fees,
+        tenor_months: toDraftNumber(offer.tenor_months),
+        repayment_frequency: offer.repayment_frequency === 'weekly' ? 'weekly' : empty.repayment_frequency,
+      } satisfies LoanOfferDraft;
+    })
+    : [];
+  while (drafts.length < MIN_LOAN_OFFERS) drafts.push(emptyLoanOfferDraft());
+  return drafts;
+};
+
+// The form keeps the drafts as one JSON string value
+export const parseLoanOfferDrafts = (value: string | undefined): LoanOfferDraft[] => {
+  try {
+    const parsed = JSON.parse(value || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const parseAmount = (value: string) => {
+  const parsed = parseFloat(value.replace(/,/g, ''));
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+// Returns null when any offer is missing a detail or has an out-of-range value
+export const toLoanOffer = (draft: LoanOfferDraft): LoanOffer | null => {
+  const principal = parseAmount(draft.principal);
+  const interestRate = parseAmount(draft.interest_rate_percentage);
+  const upfrontFees = parseAmount(draft.upfront_fees);
+  const tenorMonths = parseAmount(draft.tenor_months);
+  if (principal === undefined || principal <= 0) return null;
+  if (interestRate === undefined || interestRate < 0) return null;
+  if (upfrontFees === undefined || upfrontFees < 0 || upfrontFees >= principal) return null;
+  if (tenorMonths === undefined || tenorMonths <= 0 || tenorMonths > 120) return null;
+  return {
+    ...(draft.lender.trim() ? { lender: draft.lender.trim() } : {}),
+    principal,
+    interest_rate_percentage: interestRate,
+    rate_period: draft.rate_period,
+    interest_method: draft.interest_method,
+    upfront_fees: upfrontFees,
+    tenor_months: tenorMonths,
+    repayment_frequency: draft.repayment_frequency,
+  };
+};
@@ -0,0 +1,110 @@
+// Mirror the naira amount parser in the chat-orchestrator, so form answers are read the same way as chat replies
+
+// Money as Nigerians type it: "₦250,000", "N50k", "1.5m", "2 milli", "150 thousand",
+// "fifty thousand naira", "half a million", "one meter" (₦1m).
+const AMOUNT_SCALE_WORDS: Record<string, number> = {
+  k: 1e3, thousand: 1e3, thou: 1e3,
+  m: 1e6, mil: 1e6, milli: 1e6, million: 1e6, meter: 1e6, meters: 1e6, metre: 1e6, metres: 1e6,
+  b: 1e9, bn: 1e9, billion: 1e9,
+};
+const NUMBER_WORD_VALUES: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+const NUMERIC_AMOUNT_PATTERN = /(₦|\bngn\s?|\bn\s?(?=\d))?\s?(?:(?<!\w)(-))?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?(?:\s?(k|thousand|thou|million|milli|mil|meters?|metres?|m|billion|bn|b)\b)?(\s?naira)?/g;
+const WORD_AMOUNT_PATTERN = /\b(?:(?:zero|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety|hundred|thousand|thou|k|million|milli|mil|meters?|metres?|billion|bn|half|a|and)\b[\s-]*)+(?:naira\b)?/g;
+
+export type AmountExpression = {
+  start: number;
+  end: number;
+  value: number;
+  hasMoneyCue: boolean; // ₦, N, naira or a k/m/thousand/million scale
+  alternatives: [number, number] | null; // Set when a bare decimal such as "1.5" or "1.500" could be thousands or millions
+};
+
+const parseNumberWords = (words: string[]): number | null => {
+  let total = 0;
+  let current = 0;
+  let sawNumber = false;
+  for (const word of words) {
+    if (word in NUMBER_WORD_VALUES) {
+      current += NUMBER_WORD_VALUES[word];
+      sawNumber = true;
+    } else if (word === 'half') {
+      current += 0.5;
+      sawNumber = true;
+    } else if (word === 'a') {
+      if (current === 0) current = 1; // "a million"; skipped in "half a million"
+    } else if (word === 'hundred') {
+      current = (current || 1) * 100;
+      sawNumber = true;
+    } else if (word === 'thousand' || word === 'million' || word === 'billion' || (word in AMOUNT_SCALE_WORDS && current > 0)) {
+      // Slang and abbreviations ("one meter", "fifty k") only count after a number word
+      total += (current || 1) * AMOUNT_SCALE_WORDS[word];
+      current = 0;
+      sawNumber = true;
+    }
+  }
+  return sawNumber ? total + current : null;
+};
+
+// Every amount in the text, in order of appearance
+export function scanAmountExpressions(rawText: string): AmountExpression[] {
+  const text = rawText.toLowerCase();
+  const expressions: AmountExpression[] = [];
+
+  for (const match of text.matchAll(NUMERIC_AMOUNT_PATTERN)) {
+    const [whole, currency, minus, digits, decimals, scale, nairaWord] = match;
+    const start = (match.index ?? 0) + (whole.length - whole.trimStart().length);
+    const magnitude = parseFloat(`${digits.replace(/,/g, '')}${decimals ? `.${decimals}` : ''}`);
+    const value = (minus ? -1 : 1) * magnitude * (scale ? AMOUNT_SCALE_WORDS[scale] : 1);
+    // "1.500" may be a mistyped ₦1,500 or ₦1.5m, and "2.5" is rarely meant as two naira fifty
+    const isBareDecimal = !scale && !digits.includes(',') && decimals !== undefined && magnitude < 1000 &&
+      (decimals.length === 3 || magnitude < 100);
+    expressions.push({
+      start,
+      end: (match.index ?? 0) + whole.length,
+      value,
+      hasMoneyCue: Boolean(currency || scale || nairaWord),
+      alternatives: isBareDecimal ? [Math.round(magnitude * 1e3), Math.round(magnitude * 1e6)] : null,
+    });
+  }
+
+  const numericExpressions = [...expressions];
+  for (const match of text.matchAll(WORD_AMOUNT_PATTERN)) {
+    const words = match[0].split(/[\s-]+/).filter(Boolean);
+    const value = parseNumberWords(words);
+    const start = match.index ?? 0;
+    const end = start + match[0].trimEnd().length;
+    // The scale in "150 thousand" or "₦2 million" already belongs to the number before it
+    if (value === null || numericExpressions.some(numeric => start < numeric.end && numeric.start < end)) continue;
+    expressions.push({
+      start,
+      end,
+      value,
+      hasMoneyCue: words.some(word => word === 'naira' || word in AMOUNT_SCALE_WORDS),
+      alternatives: null,
+    });
+  }
+
+  return expressions.sort((a, b) => a.start - b.start);
+}
+
+export type NairaAmountResult =
+  | { status: 'amount'; value: number }
+  | { status: 'ambiguous'; alternatives: [number, number] }
+  | { status: 'none' };
+
+// The first amount in an answer. With `currency`, bare decimals are reported as ambiguous instead of guessed;
+// with `whole`, the text must be nothing but the amount (e.g. "50k", not "2027-03-01").
+export function parseNairaAmount(text: string, options: { currency?: boolean; whole?: boolean } = {}): NairaAmountResult {
+  const [first] = scanAmountExpressions(text);
+  if (!first) return { status: 'none' };
+  if (options.whole) {
+    const rest = `${text.slice(0, first.start)}${text.slice(first.end)}`.toLowerCase().replace(/₦|\bnaira\b|\bngn\b/g, '');
+    if (!/^[\s.,!?]*$/.test(rest)) return { status: 'none' };
+  }
+  if (options.currency && first.alternatives) return { status: 'ambiguous', alternatives: first.alternatives };
+  return { status: 'amount', value: first.value };
+}
@@ -1,51 +1,40 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { Send } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useSession } from '@/components/auth/SessionContextProvider';
 import AddDataModal from '@/components/AddDataModal';
-import DecisionCard, { DecisionCardProps } from '@/components/DecisionCard';
+import DecisionCard from '@/components/DecisionCard';
 import { useToast } from '@/hooks/use-toast';
 import kudiGuardIcon from '/kudiguard-icon.jpg';
 import { Textarea } from '@/components/ui/textarea';
 import { Card } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ParsedIntent } from '@/types/supabase-edge-functions';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import DataCollectionForm from '@/components/DataCollectionForm';
+import { ChatOrchestratorInput, DataNeededResponse, FieldAnswer } from '@/types/supabase-edge-functions';
+import { CHAT_MESSAGE_COLUMNS, CHAT_MESSAGE_PAGE_SIZE, ChatMessage, ChatMessageRow, toChatMessage } from '@/lib/chat-messages';
 import { useParams } from 'react-router-dom';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-
-interface ChatMessage {
-  id: string;
-  sender: 'user' | 'ai';
-  text: string;
-  timestamp: string;
-  decisionData?: DecisionCardProps['data'];
-  dataNeeded?: {
-    field: string;
-    prompt: string;
-    type: 'number' | 'boolean' | 'text_enum';
-    options?: string[];
-    intent_context: { intent: string; decision_type: string; current_payload?: Record<string, any>; };
-    canBeZeroOrNone?: boolean;
-  };
-  originalQuestion?: string; 
-  collectedPayload?: Record<string, any>;
-  quickReplies?: string[];
-}
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient, InfiniteData } from '@tanstack/react-query';
 
 interface ChatState {
   id: string; // Add id to ChatState for queryClient
-  messages: ChatMessage[];
-  pending_data_request: ChatMessage['dataNeeded'] | null;
+  pending_data_request: DataNeededResponse | null;
   current_intent: string | null;
   current_question: string | null;
-  current_payload: Record<string, any>;
+  current_payload: Record<string, unknown>;
   last_user_query_text: string | null;
   last_user_query_intent: string | null;
-  last_user_query_payload: Record<string, any> | null;
+  last_user_query_payload: Record<string, unknown> | null;
   title: string | null;
 }
 
+// Pages run newest first; each page holds its messages oldest first
+type MessagePages = InfiniteData<ChatMessage[], number | null>;
+
+const ONE_QUESTION_AT_A_TIME_KEY = 'kudiguard:oneQuestionAtATime';
+
 const TypingIndicator = () => (
   <div className="flex items-center space-x-1">
     <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce [animation-delay:-0.3s]"></div>
@@ -58,15 +47,17 @@ const ChatPage = () => {
   const { isLoading: sessionLoading, supabase, session } = useSession();
   const { toast } = useToast();
   const [messageInput, setMessageInput] = useState('');
-  const [isAiTyping, setIsAiTyping] = useState(false);
   const [isAddDataModalOpen, setIsAddDataModalOpen] = useState(false);
+  const [oneQuestionAtATime, setOneQuestionAtATime] = useState(() => localStorage.getItem(ONE_QUESTION_AT_A_TIME_KEY) === 'true');
 
   const chatEndRef = useRef<HTMLDivElement>(null);
   const { chatId } = useParams<{ chatId: string }>();
   const queryClient = useQueryClient();
+  const chatQueryKey = ['chatState', session?.user?.id, chatId];
+  const messagesQueryKey = ['chatMessages', session?.user?.id, chatId];
 
   const { data: chatData, isLoading: chatLoading, error: chatError } = useQuery<ChatState>({
-    queryKey: ['chatState', session?.user?.id, chatId],
+    queryKey: chatQueryKey,
     queryFn: async () => {
       if (!session?.user?.id || !chatId) {
         throw new Error("User not authenticated or chat ID missing.");
@@ -74,7 +65,7 @@ const ChatPage = () => {
 
       const { data, error } = await supabase
         .from('chats')
-        .select('*')
+        .select('id, pending_data_request, current_intent, current_question, current_payload, last_user_query_text, last_user_query_intent, last_user_query_payload, title')
         .eq('id', chatId)
         .eq('user_id', session.user.id)
         .single();
@@ -86,7 +77,6 @@ const ChatPage = () => {
       return {
         ...data,
         id: data.id,
-        messages: data.messages || [],
         pending_data_request: data.pending_data_request || null,
         current_payload: data.current_payload || {},
         last_user_query_payload: data.last_user_query_payload || null,
@@ -97,444 +87,177 @@ const ChatPage = () => {
     refetchOnWindowFocus: false,
   });
 
-  const updateChatMutation = useMutation({
-    mutationFn: async (newChatState: Partial<ChatState>) => {
-      if (!session?.user?.id || !chatId) {
-        throw new Error("User not authenticated or no active chat ID.");
+  // Loads the latest page first; older pages are fetched on demand using the oldest seq as the cursor
+  const {
+    data: messagePages,
+    isLoading: messagesLoading,
+    fetchNextPage: fetchOlderMessages,
+    hasNextPage: hasOlderMessages,
+    isFetchingNextPage: isFetchingOlderMessages,
+  } = useInfiniteQuery({
+    queryKey: messagesQueryKey,
+    queryFn: async ({ pageParam }) => {
+      let query = supabase
+        .from('chat_messages')
+        .select(CHAT_MESSAGE_COLUMNS)
+        .eq('chat_id', chatId)
+        .order('seq', { ascending: false })
+        .limit(CHAT_MESSAGE_PAGE_SIZE);
+      if (pageParam !== null) {
+        query = query.lt('seq', pageParam);
       }
-      const { error } = await supabase
-        .from('chats')
-        .update({
-          ...newChatState,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', chatId)
-        .eq('user_id', session.user.id);
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data as ChatMessageRow[]).map(toChatMessage).reverse();
+    },
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.length >= CHAT_MESSAGE_PAGE_SIZE ? lastPage[0].seq : undefined,
+    enabled: !!session?.user?.id && !!chatId,
+    refetchOnWindowFocus: false,
+  });
 
-      if (error) {
-        throw error;
+  const messages = useMemo(() => {
+    const seen = new Set<string>();
+    return [...(messagePages?.pages ?? [])].reverse().flat().filter(msg => {
+      if (seen.has(msg.id)) return false;
+      seen.add(msg.id);
+      return true;
+    });
+  }, [messagePages]);
+
+  const appendToLatestPage = (newMessages: ChatMessage[], withoutId?: string) => {
+    queryClient.setQueryData<MessagePages>(messagesQueryKey, (old) => {
+      if (!old || old.pages.length === 0) return old;
+      const [latestPage, ...olderPages] = old.pages;
+      return {
+        ...old,
+        pages: [[...latestPage.filter(msg => msg.id !== withoutId), ...newMessages], ...olderPages],
+      };
+    });
+  };
+
+  const {
+    pending_data_request: pendingDataRequest,
+    current_payload: currentPayload,
+  } = chatData || {};
+  // Values read from the question are confirmed in the form, so the input bar stays plain text
+  const isConfirmingExtraction = pendingDataRequest?.extracted !== undefined;
+  const answerInputRequest = isConfirmingExtraction ? null : pendingDataRequest;
+
+  // The chat-orchestrator edge function advances the conversation and saves it; this page only renders it
+  const orchestratorMutation = useMutation({
+    mutationFn: async (input: Omit<ChatOrchestratorInput, 'chat_id' | 'one_question_at_a_time'>) => {
+      if (!chatId) {
+        throw new Error("No active chat ID.");
       }
+      const body: ChatOrchestratorInput = { chat_id: chatId, ...input, one_question_at_a_time: oneQuestionAtATime };
+      const { data, error } = await supabase.functions.invoke('chat-orchestrator', { body });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error?.details || "KudiGuard could not process your message.");
+      return data.data as { chat: ChatState; messages: ChatMessage[] };
     },
-    onMutate: async (newChatState: Partial<ChatState>) => {
-      if (!chatId) return;
-
-      await queryClient.cancelQueries({ queryKey: ['chatState', session?.user?.id, chatId] });
-
-      const previousChatState = queryClient.getQueryData<ChatState>(['chatState', session?.user?.id, chatId]);
-
-      queryClient.setQueryData<ChatState>(['chatState', session?.user?.id, chatId], (old) => {
-        if (!old) return previousChatState;
-
-        return {
-          ...old,
-          ...newChatState,
-          messages: newChatState.messages || old.messages,
-          current_payload: newChatState.current_payload || old.current_payload,
-          pending_data_request: newChatState.pending_data_request !== undefined ? newChatState.pending_data_request : old.pending_data_request,
-          current_intent: newChatState.current_intent !== undefined ? newChatState.current_intent : old.current_intent,
-          current_question: newChatState.current_question !== undefined ? newChatState.current_question : old.current_question,
-          last_user_query_text: newChatState.last_user_query_text !== undefined ? newChatState.last_user_query_text : old.last_user_query_text,
-          last_user_query_intent: newChatState.last_user_query_intent !== undefined ? newChatState.last_user_query_intent : old.current_intent, // Fixed: should be old.last_user_query_intent
-          last_user_query_payload: newChatState.last_user_query_payload !== undefined ? newChatState.last_user_query_payload : old.last_user_query_payload,
-          title: newChatState.title !== undefined ? newChatState.title : old.title,
-        };
-      });
-
-      return { previousChatState };
+    onMutate: async (input) => {
+      await queryClient.cancelQueries({ queryKey: messagesQueryKey });
+
+      // Show the user's message straight away; the orchestrator's saved copy replaces it
+      if (!input.message) return {};
+      const optimisticMessage: ChatMessage = {
+        id: `pending-${Date.now()}`,
+        seq: Number.MAX_SAFE_INTEGER,
+        sender: 'user',
+        text: input.message,
+        timestamp: new Date().toISOString(),
+      };
+      appendToLatestPage([optimisticMessage]);
+      return { optimisticMessageId: optimisticMessage.id };
     },
-    onError: (err, _newChatState, context) => {
-      queryClient.setQueryData(['chatState', session?.user?.id, chatId], context?.previousChatState);
-      console.error("Failed to save chat state:", err);
+    onSuccess: (data, _input, context) => {
+      queryClient.setQueryData<ChatState>(chatQueryKey, data.chat);
+      appendToLatestPage(data.messages, context?.optimisticMessageId);
+    },
+    onError: (error: Error) => {
+      console.error("Error invoking chat-orchestrator edge function:", error);
       toast({
-        title: "Chat Save Error",
-        description: "Could not save chat progress. Please try again.",
+        title: "Message Failed",
+        description: error.message || "An unexpected error occurred while processing your message.",
         variant: "destructive",
       });
+      // Another tab may have advanced the chat; reload its state as well as its messages
+      queryClient.invalidateQueries({ queryKey: chatQueryKey });
+      queryClient.invalidateQueries({ queryKey: messagesQueryKey });
     },
     onSettled: () => {
-      queryClient.invalidateQueries({ queryKey: ['chatState', session?.user?.id, chatId] });
       queryClient.invalidateQueries({ queryKey: ['chatHistory', session?.user?.id] });
     },
   });
 
-  const {
-    messages,
-    pending_data_request: pendingDataRequest,
-    current_intent: currentIntent,
-    current_question: currentQuestion,
-    current_payload: currentPayload,
-    last_user_query_text: lastUserQueryText,
-    last_user_query_intent: lastUserQueryIntent,
-    last_user_query_payload: lastUserQueryPayload,
-    title: chatTitle,
-  } = chatData || {};
+  // Messages are append-only; feedback is the one field written back to a saved message
+  const messageFeedbackMutation = useMutation({
+    mutationFn: async ({ messageId, feedback }: { messageId: string; feedback: number }) => {
+      const message = messages.find(msg => msg.id === messageId);
+      if (!message?.decisionData) return;
+      const { error } = await supabase
+        .from('chat_messages')
+        .update({ decision_data: { ...message.decisionData, feedback } })
+        .eq('id', messageId);
+      if (error) throw error;
+    },
+    onSuccess: (_data, { messageId, feedback }) => {
+      queryClient.setQueryData<MessagePages>(messagesQueryKey, (old) => old && {
+        ...old,
+        pages: old.pages.map(page => page.map(msg =>
+          msg.id === messageId && msg.decisionData ? { ...msg, decisionData: { ...msg.decisionData, feedback } } : msg
+        )),
+      });
+    },
+    onError: (error: Error) => {
+      console.error("Failed to save decision feedback to chat:", error);
+    },
+  });
+
+  const isAiTyping = orchestratorMutation.isPending;
+  const latestMessageId = messages[messages.length - 1]?.id;
 
+  // Only scroll for new messages, not when older ones are loaded above
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, isAiTyping]);
-
-  // Helper function to add a message to the chat and update state
-  const addMessageToChat = (newMessage: ChatMessage, additionalState: Partial<ChatState> = {}) => {
-    const latestChatState = queryClient.getQueryData<ChatState>(['chatState', session?.user?.id, chatId]);
-    const currentMessages = latestChatState?.messages || [];
-    
-    updateChatMutation.mutate({
-      messages: [...currentMessages, newMessage],
-      ...additionalState,
-    });
-  };
+  }, [latestMessageId, isAiTyping]);
 
   // New function to handle feedback from DecisionCard
   const handleDecisionFeedback = (messageId: string, newFeedbackValue: number) => {
-    const updatedMessages = messages?.map(msg => {
-      if (msg.id === messageId && msg.decisionData) {
-        return {
-          ...msg,
-          decisionData: {
-            ...msg.decisionData,
-            feedback: newFeedbackValue,
-          },
-        };
-      }
-      return msg;
-    });
-
-    if (updatedMessages) {
-      updateChatMutation.mutate({ messages: updatedMessages });
-    }
+    messageFeedbackMutation.mutate({ messageId, feedback: newFeedbackValue });
   };
 
-  const sendToDecisionEngine = async (intent: string, question: string, payload?: Record<string, any>) => {
-    setIsAiTyping(true);
+  const handleSendMessage = (valueToSend?: string | boolean) => {
+    const finalMessageInput = valueToSend !== undefined ? String(valueToSend) : messageInput;
+    if (finalMessageInput.trim() === '' || isAiTyping) return;
 
-    try {
-      const { data: edgeFunctionResult, error: invokeError } = await supabase.functions.invoke('decision-engine', {
-        body: { intent, question, payload },
-      });
-
-      if (invokeError) {
-        throw invokeError;
-      }
-
-      if (!edgeFunctionResult || !edgeFunctionResult.success) {
-        let errorMessage = "An unknown error occurred from the AI.";
-        if (edgeFunctionResult?.error?.code === 'DECISION_NOT_FOUND') {
-          errorMessage = "I can't provide a recommendation without your financial data. Please add your monthly revenue, expenses, and savings first.";
-        } else if (edgeFunctionResult?.error?.details) {
-          errorMessage = edgeFunctionResult.error.details;
-        } else if (edgeFunctionResult?.error?.message) {
-          errorMessage = edgeFunctionResult.error.message;
-        }
-        
-        const errorResponse: ChatMessage = {
-          id: String(Date.now()),
-          sender: 'ai',
-          text: `Error: ${errorMessage}`,
-          timestamp: new Date().toISOString(),
-          quickReplies: ['Try again', 'Add New Data'],
-        };
-        addMessageToChat(errorResponse, {
-          pending_data_request: null,
-          current_intent: null,
-          current_question: null,
-          current_payload: {},
-        });
-        toast({
-          title: "Analysis Failed",
-          description: errorMessage,
-          variant: "destructive",
-        });
-        return;
-      }
-
-      if (edgeFunctionResult.data?.data_needed) {
-        const dataNeeded = edgeFunctionResult.data.data_needed;
-        const dataNeededMessage: ChatMessage = {
-          id: String(Date.now()),
-          sender: 'ai',
-          text: dataNeeded.prompt,
-          timestamp: new Date().toISOString(),
-          dataNeeded: dataNeeded,
-          originalQuestion: question,
-          collectedPayload: dataNeeded.intent_context.current_payload || {}, 
-          quickReplies: ['Cancel', 'Add New Data'],
-        };
-        addMessageToChat(dataNeededMessage, {
-          pending_data_request: dataNeeded,
-          current_intent: intent,
-          current_question: question,
-          current_payload: dataNeeded.intent_context.current_payload || {},
-          last_user_query_payload: dataNeeded.intent_context.current_payload || {},
-        });
-        return;
-      }
-
-      const aiResponse: ChatMessage = {
-        id: String(Date.now()),
-        sender: 'ai',
-        text: "I've analyzed your financial data. Here is my recommendation:",
-        timestamp: new Date().toISOString(),
-        decisionData: edgeFunctionResult.data,
-        quickReplies: ['Start New Chat', 'Add New Data'],
-      };
-      addMessageToChat(aiResponse, {
-        pending_data_request: null,
-        current_intent: null,
-        current_question: null,
-        current_payload: {},
-        last_user_query_text: null,
-        last_user_query_intent: null,
-        last_user_query_payload: null,
-      });
-
-    } catch (error: any) {
-      console.error("Error invoking decision-engine edge function:", error);
-      let errorMessage = "An unexpected error occurred while analyzing your request.";
-      if (error.context?.details) {
-        errorMessage = error.context.details;
-      } else if (error.message) {
-        errorMessage = error.message;
-      }
-      
-      const errorResponse: ChatMessage = {
-        id: String(Date.now()),
-        sender: 'ai',
-        text: `Error: ${errorMessage}`,
-        timestamp: new Date().toISOString(),
-        quickReplies: ['Try again', 'Add New Data'],
-      };
-      addMessageToChat(errorResponse);
-    } finally {
-      setIsAiTyping(false);
-    }
-  };
-
-  const handleSendMessage = async (valueToSend?: string | boolean) => {
-    let finalMessageInput = messageInput;
-    if (valueToSend !== undefined) {
-      finalMessageInput = String(valueToSend);
-    }
-
-    if (finalMessageInput.trim() === '') return;
-
-    const lowerCaseInput = finalMessageInput.toLowerCase();
-
-    const userMessage: ChatMessage = {
-        id: String(Date.now()),
-        sender: 'user',
-        text: finalMessageInput,
-        timestamp: new Date().toISOString(),
-    };
-
-    // Add user message optimistically first
-    addMessageToChat(userMessage);
     setMessageInput('');
-    setIsAiTyping(true);
-
-    if (['thank you', 'thanks', 'thank you!', 'thanks!'].includes(lowerCaseInput)) {
-        const aiReply: ChatMessage = {
-            id: String(Date.now() + 1),
-            sender: 'ai',
-            text: "You're most welcome! I'm here to help your business thrive. Is there anything else I can assist you with?",
-            timestamp: new Date().toISOString(),
-            quickReplies: ['Start New Chat', 'Add New Data'],
-        };
-        addMessageToChat(aiReply);
-        setIsAiTyping(false);
-        return;
-    }
-
-    if (pendingDataRequest && currentIntent && currentQuestion) {
-      let parsedValue: number | boolean | string | undefined;
-      
-      if (pendingDataRequest.type === 'boolean') {
-        parsedValue = lowerCaseInput === 'true' || lowerCaseInput === 'yes';
-      } else if (pendingDataRequest.type === 'number') {
-        const valueMatch = String(finalMessageInput).match(/(\d[\d,\.]*)/);
-        if (valueMatch && valueMatch[1]) {
-          parsedValue = parseFloat(valueMatch[1].replace(/,/g, ''));
-          if (isNaN(parsedValue) || (parsedValue < 0 && pendingDataRequest.canBeZeroOrNone === false)) {
-            parsedValue = undefined;
-          }
-        }
-      } else if (pendingDataRequest.type === 'text_enum') {
-        const selectedOption = pendingDataRequest.options?.find((option: string) =>
-          option.toLowerCase().includes(lowerCaseInput)
-        );
-        if (selectedOption) {
-          parsedValue = selectedOption;
-        } else {
-          const retryMessage: ChatMessage = {
-            id: String(Date.now()),
-            sender: 'ai',
-            text: `I couldn't understand your choice. Please select one of the following options: ${pendingDataRequest.options?.join(', ')}.`,
-            timestamp: new Date().toISOString(),
-            quickReplies: ['Cancel', 'Try again'],
-          };
-          addMessageToChat(retryMessage);
-          setIsAiTyping(false);
-          return;
-        }
-      }
-
-      if (parsedValue === undefined) {
-        const retryMessage: ChatMessage = {
-          id: String(Date.now()),
-          sender: 'ai',
-          text: `I couldn't understand the value. Please provide a valid input for ${pendingDataRequest.field.replace(/_/g, ' ')} (e.g., '50000', 'Yes/No', or select from options).`,
-          timestamp: new Date().toISOString(),
-          quickReplies: ['Cancel', 'Try again'],
-        };
-        addMessageToChat(retryMessage);
-        setIsAiTyping(false);
-        return;
-      }
-
-      const updatedPayload = { ...currentPayload, [pendingDataRequest.field]: parsedValue };
-      
-      updateChatMutation.mutate({
-          current_payload: updatedPayload,
-          pending_data_request: null,
-          current_intent: currentIntent,
-          current_question: currentQuestion,
-      });
-      sendToDecisionEngine(currentIntent, currentQuestion, updatedPayload);
-      return;
-    }
-
-    try {
-      const { data: intentParserResult, error: invokeError } = await supabase.functions.invoke('intent-parser', {
-        body: { user_query: finalMessageInput },
-      });
-
-      if (invokeError) {
-        throw invokeError;
-      }
-
-      if (!intentParserResult || !intentParserResult.success || !intentParserResult.data) {
-        const errorMessage = intentParserResult?.error?.details || "I couldn't understand your request. Please try rephrasing.";
-        const errorResponse: ChatMessage = {
-          id: String(Date.now()),
-          sender: 'ai',
-          text: `Error: ${errorMessage}`,
-          timestamp: new Date().toISOString(),
-          quickReplies: ['Try again', 'Add New Data'],
-        };
-        addMessageToChat(errorResponse);
-        setIsAiTyping(false);
-        return;
-      }
-
-      const parsedIntent: ParsedIntent = intentParserResult.data;
-      console.log("Parsed Intent:", parsedIntent);
-
-      if (parsedIntent.intent === 'unknown') {
-        const noIntentResponse: ChatMessage = {
-          id: String(Date.now()),
-          sender: 'ai',
-          text: "I'm currently specialized in hiring, inventory, marketing, savings, equipment, loans, or business expansion decisions. Please ask me a question related to these topics.",
-          timestamp: new Date().toISOString(),
-          quickReplies: ['Try again', 'Add New Data'],
-        };
-        addMessageToChat(noIntentResponse);
-        setIsAiTyping(false);
-        return;
-      }
-
-      const newChatTitle = chatTitle === null && parsedIntent.question ? parsedIntent.question : chatTitle;
-
-      updateChatMutation.mutate({
-        current_intent: parsedIntent.intent,
-        current_question: parsedIntent.question,
-        current_payload: parsedIntent.payload || {},
-        last_user_query_text: parsedIntent.question,
-        last_user_query_intent: parsedIntent.intent,
-        last_user_query_payload: parsedIntent.payload || {},
-        title: newChatTitle,
-      });
+    orchestratorMutation.mutate({ message: finalMessageInput.trim() });
+  };
 
-      sendToDecisionEngine(parsedIntent.intent, parsedIntent.question, parsedIntent.payload);
+  const handleDataFormSubmit = (answers: Record<string, FieldAnswer>) => {
+    orchestratorMutation.mutate({ answers });
+  };
 
-    } catch (error: any) {
-      console.error("Error invoking intent-parser edge function:", error);
-      let errorMessage = "An unexpected error occurred while processing your query.";
-      if (error.context?.details) {
-        errorMessage = error.context.details;
-      } else if (error.message) {
-        errorMessage = error.message;
-      }
-      
-      const errorResponse: ChatMessage = {
-        id: String(Date.now()),
-        sender: 'ai',
-        text: `Error: ${errorMessage}`,
-        timestamp: new Date().toISOString(),
-        quickReplies: ['Try again', 'Add New Data'],
-      };
-      addMessageToChat(errorResponse);
-    } finally {
-      setIsAiTyping(false);
-    }
+  const handleOneQuestionAtATimeChange = (checked: boolean) => {
+    setOneQuestionAtATime(checked);
+    localStorage.setItem(ONE_QUESTION_AT_A_TIME_KEY, String(checked));
   };
 
   const handleQuickReply = (reply: string) => {
     const lowerCaseReply = reply.toLowerCase();
 
-    const userQuickReplyMessage: ChatMessage = {
-      id: String(Date.now()),
-      sender: 'user',
-      text: reply,
-      timestamp: new Date().toISOString(),
-    };
-
     if (lowerCaseReply === 'add new data') {
-      addMessageToChat(userQuickReplyMessage);
       setIsAddDataModalOpen(true);
-    } else if (lowerCaseReply === 'cancel' && pendingDataRequest) {
-      addMessageToChat(userQuickReplyMessage);
-      const cancelMessage: ChatMessage = {
-        id: String(Date.now()),
-        sender: 'ai',
-        text: "Okay, I've cancelled the current data request. How else can I help?",
-        timestamp: new Date().toISOString(),
-        quickReplies: ['Start New Chat', 'Add New Data'],
-      };
-      addMessageToChat(cancelMessage, {
-        pending_data_request: null,
-        current_intent: null,
-        current_question: null,
-        current_payload: {},
-      });
-    } else if (lowerCaseReply === 'try again') {
-        addMessageToChat(userQuickReplyMessage);
-        if (lastUserQueryIntent && lastUserQueryText) {
-            updateChatMutation.mutate({
-                pending_data_request: null,
-                current_intent: lastUserQueryIntent,
-                current_question: lastUserQueryText,
-                current_payload: lastUserQueryPayload || {},
-            });
-            sendToDecisionEngine(lastUserQueryIntent, lastUserQueryText, lastUserQueryPayload || {});
-        } else {
-            const noRetryMessage: ChatMessage = {
-                id: String(Date.now()),
-                sender: 'ai',
-                text: "I don't have a previous query to retry. Please ask me a new question.",
-                timestamp: new Date().toISOString(),
-                quickReplies: ['Start New Chat', 'Add New Data'],
-            };
-            addMessageToChat(noRetryMessage);
-        }
     } else if (lowerCaseReply === 'start new chat') {
-      addMessageToChat(userQuickReplyMessage);
       window.location.href = '/chat';
     } else {
-        setMessageInput(reply); 
-        setTimeout(() => handleSendMessage(reply), 0); 
+      handleSendMessage(reply);
     }
   };
 
-  if (sessionLoading || chatLoading) {
+  if (sessionLoading || chatLoading || messagesLoading) {
     return (
       <div className="flex-1 flex items-center justify-center p-4">
         <p className="text-muted-foreground">Loading chat...</p>
@@ -559,23 +282,35 @@ const ChatPage = () => {
   }
 
   const getPlaceholderText = () => {
+    if (isConfirmingExtraction) {
+      return "Type 'correct', or change the values above";
+    }
     if (pendingDataRequest) {
       let placeholder = pendingDataRequest.prompt;
-      if (!placeholder.includes('(₦)') && pendingDataRequest.type === 'number') {
-        placeholder += ' (in ₦)';
+      if (pendingDataRequest.type === 'number' && pendingDataRequest.unit === 'currency') {
+        placeholder += ' (e.g. 50k, 1.5m or ₦250,000)';
       } else if (pendingDataRequest.type === 'boolean') {
         placeholder += ' (Yes/No)';
+      } else if (pendingDataRequest.type === 'date') {
+        placeholder += ' (DD/MM/YYYY)';
       }
       return placeholder;
     }
-    return "Ask about hiring, inventory, marketing, savings, equipment, loans, or business expansion...";
+    return "Ask about hiring, inventory, marketing, savings, equipment, loans, business expansion, pricing, customer credit, generator vs solar, paying yourself, ajo, comparing loan offers, or renewing your shop rent...";
   };
 
   return (
     <>
       <div className="flex flex-col flex-1">
         <div className="flex-1 overflow-y-auto p-4 space-y-4">
-          {messages?.map((msg: ChatMessage) => (
+          {hasOlderMessages && (
+            <div className="flex justify-center">
+              <Button variant="ghost" size="sm" onClick={() => fetchOlderMessages()} disabled={isFetchingOlderMessages}>
+                {isFetchingOlderMessages ? 'Loading...' : 'Load earlier messages'}
+              </Button>
+            </div>
+          )}
+          {messages.map((msg: ChatMessage, index: number) => (
             <div
               key={msg.id}
               className={`flex ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -593,6 +328,30 @@ const ChatPage = () => {
                 }`}
               >
                 <p className="text-sm whitespace-pre-wrap">{msg.text}</p>
+                {msg.missingFields && pendingDataRequest && index === messages.length - 1 && (
+                  <div className="mt-3">
+                    {!isConfirmingExtraction && (
+                      <div className="flex items-center justify-end space-x-2">
+                        <Label htmlFor={`one-at-a-time-${msg.id}`} className="text-xs text-muted-foreground">One question at a time</Label>
+                        <Switch
+                          id={`one-at-a-time-${msg.id}`}
+                          checked={oneQuestionAtATime}
+                          onCheckedChange={handleOneQuestionAtATimeChange}
+                        />
+                      </div>
+                    )}
+                    {isConfirmingExtraction || !oneQuestionAtATime || msg.missingFields.some(field => field.type === 'loan_offers') ? (
+                      <DataCollectionForm
+                        fields={msg.missingFields}
+                        currentPayload={currentPayload || {}}
+                        onSubmit={handleDataFormSubmit}
+                        disabled={isAiTyping}
+                      />
+                    ) : msg.text !== pendingDataRequest.prompt && (
+                      <p className="text-sm whitespace-pre-wrap mt-2">{pendingDataRequest.prompt}</p>
+                    )}
+                  </div>
+                )}
                 {msg.decisionData && (
                   <div className="mt-2">
                     <DecisionCard 
@@ -637,7 +396,7 @@ const ChatPage = () => {
         </div>
 
         <div className="bg-card border-t border-border p-4 flex items-center flex-shrink-0">
-          {pendingDataRequest?.type === 'boolean' ? (
+          {answerInputRequest?.type === 'boolean' ? (
             <div className="flex items-center justify-between w-full">
               <span className="text-muted-foreground mr-4">{getPlaceholderText()}</span>
               <div className="flex space-x-2">
@@ -657,14 +416,14 @@ const ChatPage = () => {
                 </Button>
               </div>
             </div>
-          ) : pendingDataRequest?.type === 'text_enum' && pendingDataRequest.options ? (
+          ) : answerInputRequest?.type === 'text_enum' && answerInputRequest.options ? (
             <div className="flex items-center w-full">
               <Select onValueChange={(value) => setMessageInput(value)} value={messageInput} disabled={isAiTyping}>
                 <SelectTrigger className="flex-1 mr-2 h-12">
                   <SelectValue placeholder={getPlaceholderText()} />
                 </SelectTrigger>
                 <SelectContent>
-                  {pendingDataRequest.options.map((option: string) => (
+                  {answerInputRequest.options.map((option: string) => (
                     <SelectItem key={option} value={option}>{option}</SelectItem>
                   ))}
                 </SelectContent>
@@ -688,7 +447,7 @@ const ChatPage = () => {
               disabled={isAiTyping}
             />
           )}
-          {!(pendingDataRequest?.type === 'boolean' || (pendingDataRequest?.type === 'text_enum' && pendingDataRequest.options)) && (
+          {!(answerInputRequest?.type === 'boolean' || (answerInputRequest?.type === 'text_enum' && answerInputRequest.options)) && (
             <Button onClick={() => handleSendMessage()} className="bg-gradient-primary h-12 ml-2" disabled={isAiTyping || messageInput.trim() === ''}>
               <Send className="h-5 w-5" />
             </Button>
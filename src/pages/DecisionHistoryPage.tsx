@@ -27,7 +27,7 @@ const DecisionHistoryPage = () => {
       if (!userId) return [];
       const { data, error } = await supabase
         .from('decisions')
-        .select('id, question, recommendation, reasoning, actionable_steps, financial_snapshot, estimated_salary, estimated_inventory_cost, inventory_turnover_days, supplier_credit_terms_days, average_receivables_turnover_days, outstanding_supplier_debts, supplier_discount_percentage, storage_cost_percentage_of_order, proposed_marketing_budget, is_localized_promotion, historic_foot_traffic_increase_observed, sales_increase_last_campaign_1, sales_increase_last_campaign_2, is_volatile_industry, is_growth_stage, is_seasonal_windfall_month, debt_apr, consecutive_negative_cash_flow_months, current_reserve_allocation_percentage_emergency, current_reserve_allocation_percentage_growth, fixed_operating_expenses, net_profit, equipment_cost, estimated_roi_percentage, is_essential_replacement, current_equipment_utilization_percentage, total_business_liabilities, total_business_assets, total_monthly_debt_repayments, loan_purpose_is_revenue_generating, profit_growth_consistent_6_months, market_research_validates_demand, capital_available_percentage_of_cost, expansion_cost, profit_margin_trend, revenue_growth_trend, created_at')
+        .select('id, question, recommendation, reasoning, actionable_steps, financial_snapshot, estimated_salary, employment_type, expected_revenue_uplift, hire_equipment_cost, employer_statutory_contributions, hire_one_off_cost, loaded_monthly_hire_cost, hire_payback_months, estimated_inventory_cost, inventory_turnover_days, supplier_credit_terms_days, average_receivables_turnover_days, outstanding_supplier_debts, supplier_discount_percentage, storage_cost_percentage_of_order, proposed_marketing_budget, is_localized_promotion, historic_foot_traffic_increase_observed, sales_increase_last_campaign_1, sales_increase_last_campaign_2, revenue_gain_last_campaign, marketing_spend_last_campaign, customer_acquisition_cost, customer_lifetime_value, is_festive_or_peak_season, projected_demand_increase_factor, has_tested_multiple_channels, digital_cac, offline_cac, experimental_channel_spend, low_performing_channel_spend, high_performing_channel_roi, is_volatile_industry, is_growth_stage, is_seasonal_windfall_month, debt_apr, consecutive_negative_cash_flow_months, current_reserve_allocation_percentage_emergency, current_reserve_allocation_percentage_growth, fixed_operating_expenses, net_profit, equipment_cost, estimated_roi_percentage, is_essential_replacement, current_equipment_utilization_percentage, equipment_monthly_cash_benefit, equipment_useful_life_years, equipment_salvage_value, lease_monthly_payment, hire_purchase_monthly_payment, hire_purchase_deposit, hire_purchase_months, equipment_discount_rate_percentage, equipment_monthly_depreciation, equipment_option_results, recommended_equipment_option, total_business_liabilities, total_business_assets, total_monthly_debt_repayments, loan_purpose_is_revenue_generating, profit_growth_consistent_6_months, market_research_validates_demand, capital_available_percentage_of_cost, expansion_cost, profit_margin_trend, revenue_growth_trend, current_unit_price, proposed_unit_price, unit_cost, expected_volume_change_percentage, competitor_unit_price, current_margin_percentage, new_margin_percentage, break_even_volume_change_percentage, gross_profit_change_percentage, credit_amount, customer_payment_history, outstanding_receivables, credit_repayment_period_days, recommended_credit_limit, monthly_fuel_spend, daily_outage_hours, solar_system_cost, inverter_system_cost, financing_months, financing_apr, energy_tco_years, generator_tco, solar_tco, inverter_tco, solar_payback_months, inverter_payback_months, energy_monthly_payment, energy_monthly_saving, recommended_energy_option, desired_monthly_drawing, personal_monthly_obligations, recommended_monthly_drawing, drawing_schedule, drawing_installment_amount, contribution_amount, contribution_frequency, group_members, payout_position, monthly_contribution, payout_amount, lowest_projected_savings, recommended_contribution_amount, recommended_payout_position, rotating_savings_projection, loan_offers, loan_offer_results, recommended_loan_offer, rent_amount, renewal_date, can_move, moving_cost, months_until_renewal, monthly_rent_set_aside, rent_funding_gap, recommended_lease_option, lease_sinking_fund_plan, rule_pack_version, rule_trace, counterfactual_targets, financial_history, created_at')
         .eq('user_id', userId)
         .order('created_at', { ascending: false }); // Default to newest first from DB
       if (error) throw error;
@@ -8,6 +8,7 @@ import FinancialHealthScoreCard from '@/components/FinancialHealthScoreCard';
 import { useQuery } from '@tanstack/react-query';
 import DecisionDetailsDialog from '@/components/DecisionDetailsDialog';
 import { Link } from 'react-router-dom'; // Import Link for navigation
+import { calculateFinancialHealth } from '@/lib/financial-health';
 
 const InsightsPage = () => {
   const { userDisplayName, isLoading: sessionLoading, supabase, session } = useSession();
@@ -51,7 +52,7 @@ const InsightsPage = () => {
       if (!userId) return [];
       const { data, error } = await supabase
         .from('decisions')
-        .select('id, question, recommendation, reasoning, actionable_steps, financial_snapshot, estimated_salary, estimated_inventory_cost, inventory_turnover_days, supplier_credit_terms_days, average_receivables_turnover_days, outstanding_supplier_debts, supplier_discount_percentage, storage_cost_percentage_of_order, proposed_marketing_budget, is_localized_promotion, historic_foot_traffic_increase_observed, sales_increase_last_campaign_1, sales_increase_last_campaign_2, is_volatile_industry, is_growth_stage, is_seasonal_windfall_month, debt_apr, consecutive_negative_cash_flow_months, current_reserve_allocation_percentage_emergency, current_reserve_allocation_percentage_growth, fixed_operating_expenses, net_profit, equipment_cost, estimated_roi_percentage, is_essential_replacement, current_equipment_utilization_percentage, created_at')
+        .select('id, question, recommendation, reasoning, actionable_steps, financial_snapshot, estimated_salary, employment_type, expected_revenue_uplift, hire_equipment_cost, employer_statutory_contributions, hire_one_off_cost, loaded_monthly_hire_cost, hire_payback_months, estimated_inventory_cost, inventory_turnover_days, supplier_credit_terms_days, average_receivables_turnover_days, outstanding_supplier_debts, supplier_discount_percentage, storage_cost_percentage_of_order, proposed_marketing_budget, is_localized_promotion, historic_foot_traffic_increase_observed, sales_increase_last_campaign_1, sales_increase_last_campaign_2, revenue_gain_last_campaign, marketing_spend_last_campaign, customer_acquisition_cost, customer_lifetime_value, is_festive_or_peak_season, projected_demand_increase_factor, has_tested_multiple_channels, digital_cac, offline_cac, experimental_channel_spend, low_performing_channel_spend, high_performing_channel_roi, is_volatile_industry, is_growth_stage, is_seasonal_windfall_month, debt_apr, consecutive_negative_cash_flow_months, current_reserve_allocation_percentage_emergency, current_reserve_allocation_percentage_growth, fixed_operating_expenses, net_profit, equipment_cost, estimated_roi_percentage, is_essential_replacement, current_equipment_utilization_percentage, equipment_monthly_cash_benefit, equipment_useful_life_years, equipment_salvage_value, lease_monthly_payment, hire_purchase_monthly_payment, hire_purchase_deposit, hire_purchase_months, equipment_discount_rate_percentage, equipment_monthly_depreciation, equipment_option_results, recommended_equipment_option, current_unit_price, proposed_unit_price, unit_cost, expected_volume_change_percentage, competitor_unit_price, current_margin_percentage, new_margin_percentage, break_even_volume_change_percentage, gross_profit_change_percentage, credit_amount, customer_payment_history, outstanding_receivables, credit_repayment_period_days, recommended_credit_limit, monthly_fuel_spend, daily_outage_hours, solar_system_cost, inverter_system_cost, financing_months, financing_apr, energy_tco_years, generator_tco, solar_tco, inverter_tco, solar_payback_months, inverter_payback_months, energy_monthly_payment, energy_monthly_saving, recommended_energy_option, desired_monthly_drawing, personal_monthly_obligations, recommended_monthly_drawing, drawing_schedule, drawing_installment_amount, contribution_amount, contribution_frequency, group_members, payout_position, monthly_contribution, payout_amount, lowest_projected_savings, recommended_contribution_amount, recommended_payout_position, rotating_savings_projection, loan_offers, loan_offer_results, recommended_loan_offer, rent_amount, renewal_date, can_move, moving_cost, months_until_renewal, monthly_rent_set_aside, rent_funding_gap, recommended_lease_option, lease_sinking_fund_plan, rule_pack_version, rule_trace, counterfactual_targets, financial_history, created_at')
         .eq('user_id', userId)
         .order('created_at', { ascending: false })
         .limit(3); // Fetch top 3 recent decisions for recommendations
@@ -81,7 +82,6 @@ const InsightsPage = () => {
 
   const totalRevenue = latestFinancialData?.monthly_revenue || 0;
   const totalExpenses = latestFinancialData?.monthly_expenses || 0;
-  const currentSavings = latestFinancialData?.current_savings || 0;
   const netProfit = totalRevenue - totalExpenses;
   const profitMargin = totalRevenue > 0 ? (netProfit / totalRevenue) * 100 : 0;
 
@@ -96,22 +96,8 @@ const InsightsPage = () => {
     return null; // No icon for 'same' or 'none'
   };
 
-  // Improved financial health score logic
-  let healthScore: 'stable' | 'caution' | 'risky' = 'caution';
-  let healthMessage = "No recent financial data. Please add your monthly revenue, expenses, and savings to get a personalized health score.";
-
-  if (latestFinancialData) {
-    if (netProfit <= 0 || currentSavings < (0.5 * totalExpenses)) {
-      healthScore = 'risky';
-      healthMessage = "Your business is facing significant financial challenges. Focus on immediate revenue generation and aggressive cost reduction to improve stability.";
-    } else if (netProfit > 0 && (profitMargin < 10 || currentSavings < totalExpenses)) {
-      healthScore = 'caution';
-      healthMessage = "Your business is profitable, but there are areas for improvement. Consider optimizing expenses, increasing profit margins, or building a stronger savings buffer.";
-    } else if (netProfit > 0 && profitMargin >= 10 && currentSavings >= totalExpenses) {
-      healthScore = 'stable';
-      healthMessage = "Your business is in a stable financial position with healthy profits and sufficient reserves. You're well-positioned for growth and strategic investments.";
-    }
-  }
+  // Financial health score (shared with the scenario planner)
+  const { score: healthScore, message: healthMessage } = calculateFinancialHealth(latestFinancialData);
 
   const getRecommendationBadge = (recommendation: string) => {
     switch (recommendation) {
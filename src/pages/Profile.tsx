@@ -24,6 +24,7 @@ import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from '@/components/ui/tooltip'; // Ensure TooltipProvider is imported if not already globally
 import { useQuery } from '@tanstack/react-query'; // Import useQuery
+import BusinessFactsCard from '@/components/BusinessFactsCard';
 
 const Profile = () => {
   const { session, supabase, isLoading, userDisplayName } = useSession();
@@ -423,6 +424,8 @@ const Profile = () => {
             </CardContent>
           </Card>
 
+          <BusinessFactsCard />
+
           <Card className="shadow-card mb-6 bg-gradient-subtle"> {/* Applied gradient here */}
             <CardHeader>
               <CardTitle className="text-xl">Business Overview</CardTitle>
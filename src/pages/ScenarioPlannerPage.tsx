@@ -0,0 +1,520 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Info, Loader2, RotateCcw, TrendingDown, TrendingUp } from 'lucide-react';
+import { useSession } from '@/components/auth/SessionContextProvider';
+import FinancialHealthScoreCard from '@/components/FinancialHealthScoreCard';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { calculateFinancialHealth } from '@/lib/financial-health';
+import { DecisionIntent, FinancialData, WhatIfResponseData, WhatIfVariantResult } from '@/types/supabase-edge-functions';
+
+type PlannerFieldKind = 'currency' | 'percentage' | 'days' | 'count' | 'multiple' | 'boolean' | 'enum';
+
+type PlannerField = {
+  key: string;
+  label: string;
+  kind: PlannerFieldKind;
+  min?: number; // For answers the engine only accepts above 0
+  max?: number; // For currency fields this is a multiple of the revenue-based slider range
+  options?: { value: string; label: string }[];
+};
+
+type PlannerPayload = Record<string, number | boolean | string>;
+
+const EMPLOYMENT_TYPE_OPTIONS = [
+  { value: 'full_time', label: 'Full-time staff' },
+  { value: 'part_time', label: 'Part-time staff' },
+  { value: 'apprentice', label: 'Apprentice' },
+  { value: 'contract', label: 'Contractor' },
+];
+
+const TREND_OPTIONS = [
+  { value: 'consistent_growth', label: 'Consistent growth' },
+  { value: 'positive_fluctuating', label: 'Positive but fluctuating' },
+  { value: 'declining_unstable', label: 'Declining or unstable' },
+];
+
+// Fields shared by several intents are shown once instead of under every intent
+const SHARED_FIELDS: PlannerField[] = [
+  { key: 'outstanding_supplier_debts', label: 'Outstanding supplier debts', kind: 'currency' },
+  { key: 'debt_apr', label: 'Debt interest rate (APR)', kind: 'percentage', max: 60 },
+  { key: 'consecutive_negative_cash_flow_months', label: 'Months of negative cash flow in a row', kind: 'count', max: 12 },
+];
+
+const PLANNER_INTENTS: { intent: DecisionIntent; label: string; fields: PlannerField[] }[] = [
+  {
+    intent: 'hiring',
+    label: 'Hiring',
+    fields: [
+      { key: 'estimated_salary', label: 'Monthly salary of new staff', kind: 'currency' },
+      { key: 'employment_type', label: 'How they are taken on', kind: 'enum', options: EMPLOYMENT_TYPE_OPTIONS },
+      { key: 'expected_revenue_uplift', label: 'Extra monthly revenue once up to speed', kind: 'currency' },
+      { key: 'hire_equipment_cost', label: 'One-off equipment, tools or uniforms', kind: 'currency' },
+    ],
+  },
+  {
+    intent: 'inventory',
+    label: 'Inventory',
+    fields: [
+      { key: 'estimated_inventory_cost', label: 'Inventory purchase cost', kind: 'currency' },
+      { key: 'inventory_turnover_days', label: 'Days to sell current stock', kind: 'days', max: 180 },
+      { key: 'supplier_credit_terms_days', label: 'Supplier credit terms', kind: 'days', max: 90 },
+      { key: 'average_receivables_turnover_days', label: 'Days customers take to pay', kind: 'days', max: 90 },
+      { key: 'supplier_discount_percentage', label: 'Bulk discount offered', kind: 'percentage', max: 50 },
+      { key: 'storage_cost_percentage_of_order', label: 'Storage cost (% of order)', kind: 'percentage', max: 30 },
+    ],
+  },
+  {
+    intent: 'marketing',
+    label: 'Marketing',
+    fields: [
+      { key: 'proposed_marketing_budget', label: 'Marketing budget', kind: 'currency' },
+      { key: 'is_localized_promotion', label: 'Localized promotion', kind: 'boolean' },
+      { key: 'historic_foot_traffic_increase_observed', label: 'Past promotions increased foot traffic', kind: 'boolean' },
+      { key: 'marketing_spend_last_campaign', label: 'Spend on last campaign', kind: 'currency' },
+      { key: 'revenue_gain_last_campaign', label: 'Extra revenue from last campaign', kind: 'currency' },
+      { key: 'customer_acquisition_cost', label: 'Cost to win one customer', kind: 'currency', max: 0.1 },
+      { key: 'customer_lifetime_value', label: 'Profit from a customer over time', kind: 'currency', max: 0.5 },
+      { key: 'experimental_channel_spend', label: 'Budget for untried channels', kind: 'currency' },
+      { key: 'has_tested_multiple_channels', label: 'Tried both online and offline marketing', kind: 'boolean' },
+      { key: 'digital_cac', label: 'Cost per customer online', kind: 'currency', max: 0.1 },
+      { key: 'offline_cac', label: 'Cost per customer offline', kind: 'currency', max: 0.1 },
+      { key: 'low_performing_channel_spend', label: 'Budget for the weaker channel', kind: 'currency' },
+      { key: 'high_performing_channel_roi', label: 'Revenue per ₦1 on the best channel', kind: 'multiple', max: 10 },
+      { key: 'is_festive_or_peak_season', label: 'Festive or peak season', kind: 'boolean' },
+      { key: 'projected_demand_increase_factor', label: 'Expected rise in seasonal demand', kind: 'multiple', max: 3 },
+    ],
+  },
+  {
+    intent: 'savings',
+    label: 'Savings',
+    fields: [
+      { key: 'is_volatile_industry', label: 'Volatile industry', kind: 'boolean' },
+      { key: 'is_growth_stage', label: 'Business is in a growth stage', kind: 'boolean' },
+      { key: 'is_seasonal_windfall_month', label: 'Seasonal windfall month', kind: 'boolean' },
+    ],
+  },
+  {
+    intent: 'equipment',
+    label: 'Equipment',
+    fields: [
+      { key: 'equipment_cost', label: 'Equipment cost', kind: 'currency' },
+      { key: 'estimated_roi_percentage', label: 'Expected ROI', kind: 'percentage', max: 200 },
+      { key: 'current_equipment_utilization_percentage', label: 'Current equipment utilization', kind: 'percentage', max: 100 },
+      { key: 'is_essential_replacement', label: 'Essential replacement', kind: 'boolean' },
+      { key: 'equipment_monthly_cash_benefit', label: 'Extra profit or savings per month', kind: 'currency', max: 0.5 },
+      { key: 'equipment_useful_life_years', label: 'Useful life (years)', kind: 'count', min: 1, max: 20 },
+      { key: 'equipment_salvage_value', label: 'Resale value at end of life', kind: 'currency' },
+      { key: 'lease_monthly_payment', label: 'Lease payment per month (0 if not offered)', kind: 'currency', max: 0.5 },
+      { key: 'hire_purchase_monthly_payment', label: 'Hire purchase installment (0 if not offered)', kind: 'currency', max: 0.5 },
+      { key: 'hire_purchase_deposit', label: 'Hire purchase deposit', kind: 'currency' },
+      { key: 'hire_purchase_months', label: 'Hire purchase months', kind: 'count', min: 1, max: 36 },
+    ],
+  },
+  {
+    intent: 'loan_management',
+    label: 'Loans & Debt',
+    fields: [
+      { key: 'total_business_liabilities', label: 'Total business liabilities', kind: 'currency', max: 3 },
+      { key: 'total_business_assets', label: 'Total business assets', kind: 'currency', max: 5 },
+      { key: 'total_monthly_debt_repayments', label: 'Monthly debt repayments', kind: 'currency' },
+      { key: 'loan_purpose_is_revenue_generating', label: 'Loan is for a revenue-generating purpose', kind: 'boolean' },
+    ],
+  },
+  {
+    intent: 'business_expansion',
+    label: 'Business Expansion',
+    fields: [
+      { key: 'expansion_cost', label: 'Expansion cost', kind: 'currency', max: 5 },
+      { key: 'capital_available_percentage_of_cost', label: 'Capital available (% of cost)', kind: 'percentage', max: 100 },
+      { key: 'profit_growth_consistent_6_months', label: 'Profit grew consistently for 6 months', kind: 'boolean' },
+      { key: 'market_research_validates_demand', label: 'Market research validates demand', kind: 'boolean' },
+      { key: 'profit_margin_trend', label: 'Profit margin trend', kind: 'enum', options: TREND_OPTIONS },
+      { key: 'revenue_growth_trend', label: 'Revenue growth trend', kind: 'enum', options: TREND_OPTIONS },
+    ],
+  },
+];
+
+const DEFAULT_FINANCIALS: FinancialData = {
+  monthly_revenue: 500000,
+  monthly_expenses: 400000,
+  current_savings: 200000,
+};
+
+// Starting values for every field the engine would otherwise ask for
+const DEFAULT_PAYLOAD: PlannerPayload = {
+  outstanding_supplier_debts: 0,
+  debt_apr: 0,
+  consecutive_negative_cash_flow_months: 0,
+  estimated_salary: 50000,
+  employment_type: 'full_time',
+  expected_revenue_uplift: 100000,
+  hire_equipment_cost: 0,
+  estimated_inventory_cost: 200000,
+  inventory_turnover_days: 30,
+  supplier_credit_terms_days: 30,
+  average_receivables_turnover_days: 15,
+  supplier_discount_percentage: 0,
+  storage_cost_percentage_of_order: 0,
+  proposed_marketing_budget: 30000,
+  is_localized_promotion: true,
+  historic_foot_traffic_increase_observed: false,
+  marketing_spend_last_campaign: 20000,
+  revenue_gain_last_campaign: 60000,
+  customer_acquisition_cost: 2000,
+  customer_lifetime_value: 10000,
+  experimental_channel_spend: 5000,
+  has_tested_multiple_channels: false,
+  digital_cac: 2000,
+  offline_cac: 3000,
+  low_performing_channel_spend: 5000,
+  high_performing_channel_roi: 2,
+  is_festive_or_peak_season: false,
+  projected_demand_increase_factor: 1.2,
+  is_volatile_industry: false,
+  is_growth_stage: false,
+  is_seasonal_windfall_month: false,
+  equipment_cost: 300000,
+  estimated_roi_percentage: 20,
+  current_equipment_utilization_percentage: 70,
+  is_essential_replacement: false,
+  equipment_monthly_cash_benefit: 20000,
+  equipment_useful_life_years: 5,
+  equipment_salvage_value: 30000,
+  lease_monthly_payment: 0,
+  hire_purchase_monthly_payment: 0,
+  hire_purchase_deposit: 0,
+  hire_purchase_months: 12,
+  total_business_liabilities: 200000,
+  total_business_assets: 1000000,
+  total_monthly_debt_repayments: 20000,
+  loan_purpose_is_revenue_generating: true,
+  expansion_cost: 1000000,
+  capital_available_percentage_of_cost: 50,
+  profit_growth_consistent_6_months: false,
+  market_research_validates_demand: false,
+  profit_margin_trend: 'positive_fluctuating',
+  revenue_growth_trend: 'positive_fluctuating',
+};
+
+const SLIDER_DEBOUNCE_MS = 400;
+
+const formatFieldValue = (field: PlannerField, value: number | boolean | string) => {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string') return value.replace(/_/g, ' ');
+  switch (field.kind) {
+    case 'currency': return `₦${value.toLocaleString()}`;
+    case 'percentage': return `${value}%`;
+    case 'days': return `${value} days`;
+    case 'multiple': return `${Number(value.toFixed(1))}x`;
+    default: return `${value}`;
+  }
+};
+
+const getRecommendationBadge = (recommendation: string | null) => {
+  switch (recommendation) {
+    case 'APPROVE':
+      return <Badge variant="default" className="bg-success hover:bg-success/90">Approve</Badge>;
+    case 'WAIT':
+      return <Badge variant="secondary" className="bg-warning hover:bg-warning/90">Wait</Badge>;
+    case 'REJECT':
+      return <Badge variant="destructive" className="hover:bg-destructive/90">Reject</Badge>;
+    default:
+      return <Badge variant="outline">Needs info</Badge>;
+  }
+};
+
+const getFirstReason = (result: WhatIfVariantResult) => {
+  if (result.data_needed) return result.data_needed.prompt;
+  const reasoning = result.decision?.reasoning;
+  if (Array.isArray(reasoning)) return reasoning[0] ?? '';
+  return reasoning ?? '';
+};
+
+const ScenarioPlannerPage = () => {
+  const { isLoading: sessionLoading, supabase, session } = useSession();
+  const userId = session?.user?.id;
+
+  const [financials, setFinancials] = useState<FinancialData>(DEFAULT_FINANCIALS);
+  const [payload, setPayload] = useState<PlannerPayload>(DEFAULT_PAYLOAD);
+  const [hasInitialized, setHasInitialized] = useState(false);
+  const [debouncedScenario, setDebouncedScenario] = useState({ financials, payload });
+
+  const { data: latestFinancialData, isLoading: financialLoading, error: financialError } = useQuery({
+    queryKey: ['plannerLatestFinancialEntry', userId],
+    queryFn: async () => {
+      if (!userId) return null;
+      const { data, error } = await supabase
+        .from('financial_entries')
+        .select('monthly_revenue, monthly_expenses, current_savings')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .single();
+      if (error && error.code !== 'PGRST116') throw error; // No rows is not an error here
+      return data as FinancialData | null;
+    },
+    enabled: !!userId,
+  });
+
+  const baselineFinancials = latestFinancialData ?? DEFAULT_FINANCIALS;
+
+  // Start the sliders from the latest recorded figures once they arrive
+  useEffect(() => {
+    if (!financialLoading && !hasInitialized) {
+      setFinancials(baselineFinancials);
+      setHasInitialized(true);
+    }
+  }, [financialLoading, hasInitialized, baselineFinancials]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedScenario({ financials, payload }), SLIDER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [financials, payload]);
+
+  // Slider ranges scale with the size of the business
+  const currencyMax = useMemo(() => {
+    const largest = Math.max(baselineFinancials.monthly_revenue, baselineFinancials.monthly_expenses, baselineFinancials.current_savings);
+    return Math.max(1000000, Math.ceil((largest * 3) / 100000) * 100000);
+  }, [baselineFinancials]);
+  const currencyStep = currencyMax >= 10000000 ? 10000 : 1000;
+
+  const { data: scenarioResults, isFetching: scenarioFetching, error: scenarioError } = useQuery({
+    queryKey: ['scenarioPlanner', userId, debouncedScenario],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke('decision-engine', {
+        body: {
+          intent: PLANNER_INTENTS[0].intent,
+          question: 'Scenario planner',
+          what_if: true,
+          include_counterfactuals: false,
+          payload: debouncedScenario.payload,
+          variants: PLANNER_INTENTS.map(({ intent, label }) => ({
+            label,
+            intent,
+            financial_data: debouncedScenario.financials,
+          })),
+        },
+      });
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error?.details || 'The decision engine could not evaluate this scenario.');
+      return data.data as WhatIfResponseData;
+    },
+    enabled: !!userId && hasInitialized,
+    placeholderData: keepPreviousData,
+  });
+
+  const { score: healthScore, message: healthMessage } = calculateFinancialHealth(financials);
+
+  const updateFinancial = (key: keyof FinancialData, value: number) => {
+    setFinancials(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updatePayload = (key: string, value: number | boolean | string) => {
+    setPayload(prev => ({ ...prev, [key]: value }));
+  };
+
+  const applyRevenueChange = (factor: number) => {
+    setFinancials(prev => ({ ...prev, monthly_revenue: Math.round(baselineFinancials.monthly_revenue * factor) }));
+  };
+
+  const resetScenario = () => {
+    setFinancials(baselineFinancials);
+    setPayload(DEFAULT_PAYLOAD);
+  };
+
+  const renderField = (field: PlannerField) => {
+    const value = payload[field.key];
+
+    if (field.kind === 'boolean') {
+      return (
+        <div key={field.key} className="flex items-center justify-between gap-4">
+          <Label htmlFor={`planner-${field.key}`} className="text-sm font-normal">{field.label}</Label>
+          <Switch
+            id={`planner-${field.key}`}
+            checked={value as boolean}
+            onCheckedChange={(checked) => updatePayload(field.key, checked)}
+          />
+        </div>
+      );
+    }
+
+    if (field.kind === 'enum') {
+      return (
+        <div key={field.key} className="space-y-2">
+          <Label className="text-sm font-normal">{field.label}</Label>
+          <Select value={value as string} onValueChange={(selected) => updatePayload(field.key, selected)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {field.options?.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      );
+    }
+
+    const max = field.kind === 'currency' ? currencyMax * (field.max ?? 1) : field.max ?? 100;
+    const step = field.kind === 'currency' ? currencyStep : field.kind === 'multiple' ? 0.1 : 1;
+    return (
+      <div key={field.key} className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <Label className="font-normal">{field.label}</Label>
+          <span className="font-medium text-foreground">{formatFieldValue(field, value)}</span>
+        </div>
+        <Slider
+          value={[Math.min(value as number, max)]}
+          min={field.min ?? 0}
+          max={max}
+          step={step}
+          onValueChange={([newValue]) => updatePayload(field.key, newValue)}
+        />
+      </div>
+    );
+  };
+
+  if (sessionLoading || financialLoading) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-4">
+        <p className="text-muted-foreground">Loading scenario planner...</p>
+      </div>
+    );
+  }
+
+  if (financialError) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-4 text-destructive">
+        <p>Error loading data: {financialError.message}</p>
+      </div>
+    );
+  }
+
+  const financialFields: { key: keyof FinancialData; label: string }[] = [
+    { key: 'monthly_revenue', label: 'Monthly revenue' },
+    { key: 'monthly_expenses', label: 'Monthly expenses' },
+    { key: 'current_savings', label: 'Current savings' },
+  ];
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="max-w-6xl mx-auto p-4 md:p-6">
+        <h1 className="text-3xl font-bold text-primary mb-2">Scenario Planner</h1>
+        <p className="text-muted-foreground mb-6">
+          Move the sliders to see how KudiGuard's advice would change. Nothing here is saved to your decision history.
+        </p>
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <Card className="shadow-card bg-gradient-subtle">
+              <CardHeader>
+                <CardTitle className="text-xl">Your Numbers</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-5">
+                {!latestFinancialData && (
+                  <div className="flex items-start text-sm text-muted-foreground">
+                    <Info className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                    <p>No financial data recorded yet, so the planner starts from example figures.</p>
+                  </div>
+                )}
+                {financialFields.map(({ key, label }) => (
+                  <div key={key} className="space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <Label className="font-normal">{label}</Label>
+                      <span className="font-medium text-foreground">₦{financials[key].toLocaleString()}</span>
+                    </div>
+                    <Slider
+                      value={[Math.min(financials[key], currencyMax)]}
+                      min={0}
+                      max={currencyMax}
+                      step={currencyStep}
+                      onValueChange={([newValue]) => updateFinancial(key, newValue)}
+                    />
+                  </div>
+                ))}
+                <div className="flex flex-wrap gap-2 pt-2">
+                  <Button variant="outline" size="sm" onClick={() => applyRevenueChange(0.7)}>
+                    <TrendingDown className="h-4 w-4 mr-2" /> Slow month (-30%)
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => applyRevenueChange(1.1)}>
+                    <TrendingUp className="h-4 w-4 mr-2" /> Price increase (+10%)
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={resetScenario}>
+                    <RotateCcw className="h-4 w-4 mr-2" /> Reset
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-card bg-gradient-subtle">
+              <CardHeader>
+                <CardTitle className="text-xl">Decision Details</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Accordion type="multiple" defaultValue={['shared']}>
+                  <AccordionItem value="shared">
+                    <AccordionTrigger>Debt & Cash Flow</AccordionTrigger>
+                    <AccordionContent className="space-y-5 pt-2">
+                      {SHARED_FIELDS.map(renderField)}
+                    </AccordionContent>
+                  </AccordionItem>
+                  {PLANNER_INTENTS.map(({ intent, label, fields }) => (
+                    <AccordionItem key={intent} value={intent}>
+                      <AccordionTrigger>{label}</AccordionTrigger>
+                      <AccordionContent className="space-y-5 pt-2">
+                        {fields.map(renderField)}
+                      </AccordionContent>
+                    </AccordionItem>
+                  ))}
+                </Accordion>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="lg:col-span-3 space-y-6">
+            <FinancialHealthScoreCard score={healthScore} message={healthMessage} />
+
+            <Card className="shadow-card bg-gradient-subtle">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-xl">What KudiGuard Would Say</CardTitle>
+                {scenarioFetching && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+              </CardHeader>
+              <CardContent>
+                {scenarioError ? (
+                  <p className="text-destructive text-sm">Error evaluating scenario: {scenarioError.message}</p>
+                ) : !scenarioResults ? (
+                  <p className="text-muted-foreground text-sm">Evaluating your scenario...</p>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {scenarioResults.variants.map(result => (
+                      <div key={result.intent} className="rounded-md border border-border p-4">
+                        <div className="flex items-center justify-between mb-2">
+                          <h3 className="font-semibold text-foreground">{result.label}</h3>
+                          {getRecommendationBadge(result.recommendation)}
+                        </div>
+                        <p className="text-sm text-muted-foreground">{getFirstReason(result)}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {scenarioResults && (
+                  <p className="text-xs text-muted-foreground mt-4">Evaluated with rule pack v{scenarioResults.rule_pack_version}</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioPlannerPage;
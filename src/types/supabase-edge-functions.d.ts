@@ -53,7 +53,7 @@ declare module "https://esm.sh/@google/generative-ai@0.15.0" {
   // Define a minimal interface for GoogleGenerativeAI
   export class GoogleGenerativeAI {
     constructor(apiKey: string);
-    getGenerativeModel(options: { model: string }): {
+    getGenerativeModel(options: { model: string }, requestOptions?: { timeout?: number }): {
       generateContent(prompt: string): Promise<{ response: { text(): string } }>;
     };
   }
@@ -71,12 +71,117 @@ export type ProfileData = {
   business_type: string;
 };
 
+export type RuleTraceEntry = {
+  rule_id: string;
+  description: string;
+  inputs: Record<string, number | boolean | string | null>;
+  operator: 'gt' | 'gte' | 'lt' | 'lte';
+  threshold: number;
+  actual: number;
+  unit: 'currency' | 'percentage' | 'ratio' | 'multiple' | 'months' | 'days' | 'count';
+  passed: boolean;
+  weight: number;
+};
+
+export type CounterfactualTarget = {
+  field: string;
+  label: string;
+  unit: 'currency' | 'percentage' | 'days' | 'setting';
+  current_value: number | boolean | string | null;
+  target_value: number | boolean | string;
+  change: number | null;
+  combined: boolean;
+  description: string;
+};
+
+// One month of an ajo/esusu cycle in the rotating_savings projection
+export type RotatingSavingsMonth = {
+  month: number;
+  contributions: number;
+  payout: number;
+  closing_savings: number;
+};
+
+// One month of the lease_renewal sinking-fund plan
+export type LeaseSinkingFundMonth = {
+  month: string; // YYYY-MM
+  set_aside: number;
+  projected_savings: number;
+};
+
+// One concrete offer for the loan_offer_comparison intent
+export type LoanOffer = {
+  lender?: string;
+  principal: number;
+  interest_rate_percentage: number;
+  rate_period: 'monthly' | 'annual';
+  interest_method: 'flat' | 'reducing';
+  upfront_fees: number;
+  tenor_months: number;
+  repayment_frequency: 'weekly' | 'monthly';
+};
+
+export type EquipmentOption = 'buy' | 'hire_purchase' | 'lease';
+
+// Cash effect and value of one way of paying for equipment, ranked against the others
+export type EquipmentOptionResult = {
+  option: EquipmentOption;
+  upfront_cash: number;
+  monthly_payment: number;
+  payment_months: number;
+  monthly_net_cash_flow: number;
+  total_paid: number;
+  npv: number;
+  payback_months: number | null;
+  affordable: boolean;
+  rank: number;
+};
+
+// An offer's computed cost and affordability, ranked against the other offers
+export type LoanOfferResult = {
+  offer_index: number; // Position in loan_offers
+  lender: string;
+  principal: number;
+  upfront_fees: number;
+  tenor_months: number;
+  repayment_frequency: 'weekly' | 'monthly';
+  installment_amount: number;
+  total_repayment: number;
+  total_cost: number;
+  effective_apr_percentage: number;
+  monthly_repayment: number;
+  repayment_burden_percentage: number | null;
+  affordable: boolean;
+  rank: number;
+};
+
+export type TrendClassification = 'consistent_growth' | 'positive_fluctuating' | 'declining_unstable';
+
+export type FinancialHistorySummary = {
+  months_available: number;
+  months: (FinancialData & { month: string; net_cash_flow: number })[]; // Oldest first
+  rolling_average_months: number;
+  rolling_average: { monthly_revenue: number; monthly_expenses: number; net_cash_flow: number };
+  revenue_volatility: number | null;
+  revenue_growth_trend: TrendClassification | null;
+  profit_margin_trend: TrendClassification | null;
+  consecutive_negative_cash_flow_months: number | null;
+  derived_fields?: string[]; // Payload fields filled from history instead of asking the user
+};
+
 export type DecisionResult = {
   recommendation: 'APPROVE' | 'WAIT' | 'REJECT';
   reasoning: string | string[];
   actionable_steps: string[];
   financial_snapshot: FinancialData;
   estimated_salary?: number | null;
+  employment_type?: 'full_time' | 'part_time' | 'apprentice' | 'contract' | null;
+  expected_revenue_uplift?: number | null;
+  hire_equipment_cost?: number | null;
+  employer_statutory_contributions?: number | null;
+  hire_one_off_cost?: number | null;
+  loaded_monthly_hire_cost?: number | null;
+  hire_payback_months?: number | null;
   estimated_inventory_cost?: number | null;
   inventory_turnover_days?: number | null;
   supplier_credit_terms_days?: number | null;
@@ -89,6 +194,18 @@ export type DecisionResult = {
   historic_foot_traffic_increase_observed?: boolean | null;
   sales_increase_last_campaign_1?: number | null;
   sales_increase_last_campaign_2?: number | null;
+  revenue_gain_last_campaign?: number | null;
+  marketing_spend_last_campaign?: number | null;
+  customer_acquisition_cost?: number | null;
+  customer_lifetime_value?: number | null;
+  is_festive_or_peak_season?: boolean | null;
+  projected_demand_increase_factor?: number | null;
+  has_tested_multiple_channels?: boolean | null;
+  digital_cac?: number | null;
+  offline_cac?: number | null;
+  experimental_channel_spend?: number | null;
+  low_performing_channel_spend?: number | null;
+  high_performing_channel_roi?: number | null;
   is_volatile_industry?: boolean | null;
   is_growth_stage?: boolean | null;
   is_seasonal_windfall_month?: boolean | null;
@@ -102,6 +219,17 @@ export type DecisionResult = {
   estimated_roi_percentage?: number | null;
   is_essential_replacement?: boolean | null;
   current_equipment_utilization_percentage?: number | null;
+  equipment_monthly_cash_benefit?: number | null;
+  equipment_useful_life_years?: number | null;
+  equipment_salvage_value?: number | null;
+  lease_monthly_payment?: number | null;
+  hire_purchase_monthly_payment?: number | null;
+  hire_purchase_deposit?: number | null;
+  hire_purchase_months?: number | null;
+  equipment_discount_rate_percentage?: number | null;
+  equipment_monthly_depreciation?: number | null;
+  equipment_option_results?: EquipmentOptionResult[] | null;
+  recommended_equipment_option?: EquipmentOption | null;
   total_business_liabilities?: number | null;
   total_business_assets?: number | null;
   total_monthly_debt_repayments?: number | null;
@@ -112,16 +240,128 @@ export type DecisionResult = {
   expansion_cost?: number | null;
   profit_margin_trend?: 'consistent_growth' | 'positive_fluctuating' | 'declining_unstable' | null;
   revenue_growth_trend?: 'consistent_growth' | 'positive_fluctuating' | 'declining_unstable' | null;
+  current_unit_price?: number | null;
+  proposed_unit_price?: number | null;
+  unit_cost?: number | null;
+  expected_volume_change_percentage?: number | null;
+  competitor_unit_price?: number | null;
+  current_margin_percentage?: number | null;
+  new_margin_percentage?: number | null;
+  break_even_volume_change_percentage?: number | null;
+  gross_profit_change_percentage?: number | null;
+  credit_amount?: number | null;
+  customer_payment_history?: 'always_on_time' | 'sometimes_late' | 'often_late' | 'new_customer' | null;
+  outstanding_receivables?: number | null;
+  credit_repayment_period_days?: number | null;
+  recommended_credit_limit?: number | null;
+  monthly_fuel_spend?: number | null;
+  daily_outage_hours?: number | null;
+  solar_system_cost?: number | null;
+  inverter_system_cost?: number | null;
+  financing_months?: number | null;
+  financing_apr?: number | null;
+  energy_tco_years?: number | null;
+  generator_tco?: number | null;
+  solar_tco?: number | null;
+  inverter_tco?: number | null;
+  solar_payback_months?: number | null;
+  inverter_payback_months?: number | null;
+  energy_monthly_payment?: number | null; // Amortized repayment for the recommended system; 0 when paid in cash
+  energy_monthly_saving?: number | null; // Fuel saved by the recommended system, net of its maintenance
+  recommended_energy_option?: 'generator' | 'solar' | 'grid_inverter' | null;
+  desired_monthly_drawing?: number | null;
+  personal_monthly_obligations?: number | null;
+  recommended_monthly_drawing?: number | null;
+  drawing_schedule?: 'monthly' | 'twice_monthly' | 'weekly' | null;
+  drawing_installment_amount?: number | null;
+  contribution_amount?: number | null;
+  contribution_frequency?: 'daily' | 'weekly' | 'monthly' | null;
+  group_members?: number | null;
+  payout_position?: number | null;
+  monthly_contribution?: number | null;
+  payout_amount?: number | null;
+  lowest_projected_savings?: number | null;
+  recommended_contribution_amount?: number | null;
+  recommended_payout_position?: number | null;
+  rotating_savings_projection?: RotatingSavingsMonth[] | null;
+  loan_offers?: LoanOffer[] | null;
+  loan_offer_results?: LoanOfferResult[] | null;
+  recommended_loan_offer?: number | null; // Position of the best offer in loan_offers
+  rent_amount?: number | null;
+  renewal_date?: string | null;
+  can_move?: boolean | null;
+  moving_cost?: number | null;
+  months_until_renewal?: number | null;
+  monthly_rent_set_aside?: number | null;
+  rent_funding_gap?: number | null;
+  recommended_lease_option?: 'renew' | 'move' | 'negotiate' | null;
+  lease_sinking_fund_plan?: LeaseSinkingFundMonth[] | null;
+  rule_pack_version?: string | null; // Version of the rule pack the engine evaluated
+  rule_trace?: RuleTraceEntry[] | null;
+  counterfactual_targets?: CounterfactualTarget[] | null;
+  financial_history?: FinancialHistorySummary | null;
   feedback?: number | null; // Updated to number | null for star rating
 };
 
 export type DataNeededResponse = {
   field: string;
   prompt: string;
-  type: 'number' | 'boolean' | 'text_enum';
+  type: 'number' | 'boolean' | 'text_enum' | 'loan_offers' | 'date'; // 'loan_offers' is only answered in the form; 'date' is YYYY-MM-DD
   options?: string[];
   intent_context: { intent: string; decision_type: string; current_payload?: Record<string, any>; };
   canBeZeroOrNone?: boolean;
+  canBeNegative?: boolean; // For signed answers such as an expected drop in sales volume
+  unit?: 'currency'; // Naira amounts, so typed answers such as '50k' are read as money
+  stored_value?: number | boolean | string; // Remembered business fact awaiting confirmation
+  stored_value_updated_at?: string;
+  depends_on?: MissingFieldDependency; // Only needed when another missing field has this answer
+  extracted?: { confidence: number; source_text: string | null }; // Read from the question and awaiting confirmation; the value is in stored_value
+};
+
+export type MissingFieldDependency = {
+  field: string;
+  operator: 'equals' | 'gt';
+  value: number | boolean | string;
+};
+
+export type BusinessFact = {
+  field: string;
+  value: number | boolean | string;
+  source: 'chat' | 'settings';
+  updated_at: string;
+};
+
+// A remembered fact as listed by the decision-engine, with the age limit it is judged by
+export type BusinessFactStatus = BusinessFact & {
+  max_age_days: number | null;
+  is_stale: boolean;
+};
+
+// What-if (dry-run) mode of the decision-engine: nothing is written to `decisions`
+export type DecisionIntent = 'hiring' | 'inventory' | 'marketing' | 'savings' | 'equipment' | 'loan_management' | 'business_expansion' | 'pricing' | 'customer_credit' | 'energy_cost' | 'owner_drawings' | 'rotating_savings' | 'loan_offer_comparison' | 'lease_renewal';
+
+export type WhatIfVariant = {
+  label?: string;
+  intent?: DecisionIntent;
+  financial_data?: Partial<FinancialData>;
+  payload?: Record<string, unknown>;
+};
+
+export type WhatIfVariantResult = {
+  label: string;
+  intent: DecisionIntent;
+  financial_snapshot: FinancialData;
+  payload: Record<string, unknown>;
+  recommendation: DecisionResult['recommendation'] | null;
+  decision: DecisionResult | null;
+  data_needed: DataNeededResponse | null;
+};
+
+export type WhatIfResponseData = {
+  what_if: true;
+  rule_pack_version: string;
+  financial_history: FinancialHistorySummary | null;
+  variants: WhatIfVariantResult[];
 };
 
 export type DecisionFunctionReturn = {
@@ -135,9 +375,26 @@ export type IntentParserInput = {
 };
 
 export type ParsedIntent = {
-  intent: 'hiring' | 'inventory' | 'marketing' | 'savings' | 'equipment' | 'loan_management' | 'business_expansion' | 'unknown';
+  intent: 'hiring' | 'inventory' | 'marketing' | 'savings' | 'equipment' | 'loan_management' | 'business_expansion' | 'pricing' | 'customer_credit' | 'energy_cost' | 'owner_drawings' | 'rotating_savings' | 'loan_offer_comparison' | 'lease_renewal' | 'unknown';
   question: string;
   payload: Record<string, any>;
+  parser?: 'llm' | 'local'; // 'local' when the keyword fallback answered, so understanding is limited
+  provider?: 'gemini' | 'openai_compatible' | 'stub' | null; // LLM provider that answered; null for the local parser
+  field_extractions?: Record<string, FieldExtraction>;
+  intents?: ParsedDecision[]; // Every decision asked about, in order; the first is also given at the top level
+};
+
+export type ParsedDecision = {
+  intent: Exclude<ParsedIntent['intent'], 'unknown'>;
+  question: string;
+  payload: Record<string, unknown>;
+  field_extractions: Record<string, FieldExtraction>;
+};
+
+// How sure the parser is of a payload value, and the part of the question it was read from
+export type FieldExtraction = {
+  confidence: number; // 0 to 1
+  source_span: { start: number; end: number; text: string } | null; // null when the value was worked out rather than quoted
 };
 
 export type IntentParserResponse = {
@@ -155,6 +412,17 @@ export type IntentParserResponse = {
   };
 };
 
+// Input for the chat-orchestrator, which advances a saved chat by one user turn
+// An answer to a missing field; loan offers are submitted as a list and naira amounts as typed ("50k")
+export type FieldAnswer = number | boolean | string | LoanOffer[];
+
+export type ChatOrchestratorInput = {
+  chat_id: string;
+  message?: string;
+  answers?: Record<string, FieldAnswer>; // Answers to every pending missing field at once
+  one_question_at_a_time?: boolean;
+};
+
 // Extend ERROR_CODES with GEMINI_API_ERROR
 declare module "https://deno.land/x/zod@v3.23.0/mod.ts" {
   interface ZodIssueCode {
@@ -0,0 +1,1346 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { v4 as uuidv4 } from "https://esm.sh/uuid@9.0.1";
+import { z } from "https://deno.land/x/zod@v3.23.0/mod.ts";
+
+// --- constants.ts content (re-declared for self-containment) ---
+export const API_VERSION = "v1.0";
+
+export const ERROR_CODES = {
+  INVALID_INPUT: "INVALID_INPUT",
+  UNAUTHORIZED_ACCESS: "UNAUTHORIZED_ACCESS",
+  DB_CONNECTION_FAILED: "DB_CONNECTION_FAILED",
+  UNHANDLED_EXCEPTION: "UNHANDLED_EXCEPTION",
+  SERVICE_UNAVAILABLE: "SERVICE_UNAVAILABLE",
+  FORBIDDEN_ACCESS: "FORBIDDEN_ACCESS",
+  CHAT_NOT_FOUND: "CHAT_NOT_FOUND",
+  CHAT_UPDATE_FAILED: "CHAT_UPDATE_FAILED",
+  CHAT_UPDATE_CONFLICT: "CHAT_UPDATE_CONFLICT",
+} as const;
+
+export type ErrorCode = typeof ERROR_CODES[keyof typeof ERROR_CODES];
+
+export const SEVERITY = {
+  LOW: "LOW", // User error, invalid input
+  MEDIUM: "MEDIUM", // Non-critical rule error, external service issue with fallback
+  HIGH: "HIGH", // DB/system failure, unhandled exception
+} as const;
+
+export type Severity = typeof SEVERITY[keyof typeof SEVERITY];
+
+export const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+} as const;
+
+// --- utils.ts content (re-declared for self-containment) ---
+export function generateRequestId(): string {
+  return uuidv4();
+}
+
+export function redactSensitiveData(data: unknown): unknown {
+  if (!data || typeof data !== 'object') return data;
+
+  const sensitiveKeys = ['password', 'email', 'authHeader', 'access_token', 'refresh_token', 'jwt', 'api_key'];
+  const redactedData: Record<string, unknown> = { ...(data as Record<string, unknown>) };
+
+  for (const key of sensitiveKeys) {
+    if (redactedData[key]) {
+      redactedData[key] = '[REDACTED]';
+    }
+  }
+
+  for (const key in redactedData) {
+    if (typeof redactedData[key] === 'object' && redactedData[key] !== null) {
+      redactedData[key] = redactSensitiveData(redactedData[key]);
+    }
+  }
+
+  return redactedData;
+}
+
+export function getSupabaseClient(authHeader: string, serviceRole = false): SupabaseClient {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+  const supabaseKey = serviceRole
+    ? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    : Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Supabase URL and Key must be provided as environment variables.');
+  }
+
+  return createClient(
+    supabaseUrl,
+    supabaseKey,
+    {
+      global: {
+        headers: { Authorization: authHeader },
+      },
+      auth: {
+        persistSession: false,
+      }
+    }
+  );
+}
+
+// --- errors.ts content (re-declared for self-containment) ---
+export class CustomError extends Error {
+  code: ErrorCode;
+  severity: Severity;
+  statusCode: number;
+  details: string;
+  originalError?: unknown;
+
+  constructor(
+    code: ErrorCode,
+    message: string,
+    severity: Severity = SEVERITY.HIGH,
+    statusCode: number = 500,
+    originalError?: unknown
+  ) {
+    super(message);
+    this.name = 'CustomError';
+    this.code = code;
+    this.severity = severity;
+    this.statusCode = statusCode;
+    this.details = message;
+    this.originalError = originalError;
+    Object.setPrototypeOf(this, CustomError.prototype);
+  }
+}
+
+export class InputValidationError extends CustomError {
+  constructor(message: string, details: string, originalError?: unknown) {
+    super(ERROR_CODES.INVALID_INPUT, message, SEVERITY.LOW, 400, originalError);
+    this.name = 'InputValidationError';
+    this.details = details;
+    Object.setPrototypeOf(this, InputValidationError.prototype);
+  }
+}
+
+export class AuthError extends CustomError {
+  constructor(message: string = "Unauthorized", originalError?: unknown) {
+    super(ERROR_CODES.UNAUTHORIZED_ACCESS, message, SEVERITY.LOW, 401, originalError);
+    this.name = 'AuthError';
+    Object.setPrototypeOf(this, AuthError.prototype);
+  }
+}
+
+interface ErrorResponse {
+  success: false;
+  data: null;
+  error: {
+    code: ErrorCode;
+    severity: Severity;
+    details: string;
+  };
+  meta: {
+    requestId: string;
+    timestamp: string;
+    version: string;
+  };
+}
+
+interface LogEntry {
+  requestId: string;
+  vendorId: string | null;
+  errorCode: ErrorCode;
+  severity: Severity;
+  errorSummary: string;
+  timestamp: string;
+  stack?: string;
+  payload?: unknown;
+  originalError?: unknown;
+}
+
+async function logError(
+  supabaseClient: SupabaseClient,
+  logEntry: LogEntry
+) {
+  const { requestId, vendorId, errorCode, severity, errorSummary, timestamp, stack, payload, originalError } = logEntry;
+
+  console.error(JSON.stringify({
+    level: severity === SEVERITY.HIGH ? 'error' : 'warn',
+    message: errorSummary,
+    requestId,
+    vendorId,
+    errorCode,
+    severity,
+    timestamp,
+    stack: stack || (originalError instanceof Error ? originalError.stack : undefined),
+    payload: redactSensitiveData(payload),
+    originalError: originalError ? String(originalError) : undefined,
+  }));
+
+  try {
+    const { error: dbError } = await supabaseClient
+      .from('decision_audit')
+      .insert({
+        request_id: requestId,
+        vendor_id: vendorId,
+        error_code: errorCode,
+        severity: severity,
+        error_summary: errorSummary,
+        timestamp: timestamp,
+      });
+
+    if (dbError) {
+      console.error(`Failed to insert audit log for request ${requestId}:`, dbError.message);
+    }
+  } catch (e) {
+    console.error(`Exception while inserting audit log for request ${requestId}:`, e);
+  }
+}
+
+export async function handleError(
+  error: unknown,
+  requestId: string,
+  vendorId: string | null,
+  supabaseClient: SupabaseClient,
+  requestPayload: unknown = {},
+): Promise<Response> {
+  let customError: CustomError;
+  let statusCode: number;
+
+  if (error instanceof CustomError) {
+    customError = error;
+    statusCode = error.statusCode;
+  } else if (error instanceof Error) {
+    customError = new CustomError(
+      ERROR_CODES.UNHANDLED_EXCEPTION,
+      `An unexpected error occurred: ${error.message}`,
+      SEVERITY.HIGH,
+      500,
+      error
+    );
+    statusCode = 500;
+  } else {
+    customError = new CustomError(
+      ERROR_CODES.UNHANDLED_EXCEPTION,
+      `An unknown error occurred: ${String(error)}`,
+      SEVERITY.HIGH,
+      500,
+      error
+    );
+    statusCode = 500;
+  }
+
+  await logError(supabaseClient, {
+    requestId,
+    vendorId,
+    errorCode: customError.code,
+    severity: customError.severity,
+    errorSummary: customError.details,
+    timestamp: new Date().toISOString(),
+    stack: customError.stack,
+    payload: requestPayload,
+    originalError: customError.originalError,
+  });
+
+  const errorResponse: ErrorResponse = {
+    success: false,
+    data: null,
+    error: {
+      code: customError.code,
+      severity: customError.severity,
+      details: customError.details,
+    },
+    meta: {
+      requestId,
+      timestamp: new Date().toISOString(),
+      version: API_VERSION,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+    status: statusCode,
+  });
+}
+
+// --- schemas.ts content for chat-orchestrator function ---
+// Offer limits and LoanOfferSchema exactly as declared in the decision-engine (re-declared for self-containment)
+const MIN_LOAN_OFFERS = 2;
+const MAX_LOAN_OFFERS = 5;
+
+// One concrete loan offer for the loan_offer_comparison intent
+const LoanOfferSchema = z.object({
+  lender: z.string().max(100).optional(),
+  principal: z.number().positive(),
+  interest_rate_percentage: z.number().min(0).max(1000),
+  rate_period: z.enum(['monthly', 'annual']), // Microfinance and app lenders usually quote monthly rates
+  interest_method: z.enum(['flat', 'reducing']),
+  upfront_fees: z.number().min(0), // Processing, management and insurance fees deducted or paid at the start
+  tenor_months: z.number().positive().max(120),
+  repayment_frequency: z.enum(['weekly', 'monthly']),
+}).refine(offer => offer.upfront_fees < offer.principal, { message: "Upfront fees must be less than the amount borrowed." });
+
+export const FieldAnswerSchema = z.union([z.number(), z.boolean(), z.string(), z.array(LoanOfferSchema)]);
+
+export const ChatOrchestratorInputSchema = z.object({
+  chat_id: z.string().uuid("Invalid chat ID format."),
+  message: z.string().trim().min(1).max(2000).optional(), // Free text or a quick reply
+  answers: z.record(FieldAnswerSchema).optional(), // Answers to the pending missing fields, submitted as one form
+  one_question_at_a_time: z.boolean().optional(), // Ask for missing fields one by one instead of as a form
+}).refine(input => input.message !== undefined || input.answers !== undefined, {
+  message: "Either a message or answers must be provided.",
+});
+
+export type FieldAnswer = z.infer<typeof FieldAnswerSchema>;
+
+// Mirrors the decision-engine's DataNeededResponse
+export type DataNeededResponse = {
+  field: string;
+  prompt: string;
+  type: 'number' | 'boolean' | 'text_enum' | 'loan_offers' | 'date';
+  options?: string[];
+  intent_context: { intent: string; decision_type: string; current_payload?: Record<string, unknown>; };
+  canBeZeroOrNone?: boolean;
+  canBeNegative?: boolean;
+  unit?: 'currency';
+  stored_value?: FieldAnswer;
+  stored_value_updated_at?: string;
+  depends_on?: { field: string; operator: 'equals' | 'gt'; value: FieldAnswer };
+  extracted?: { confidence: number; source_text: string | null }; // Read from the question and awaiting confirmation; the value is in stored_value
+};
+
+// Unit of every numeric payload field, exactly as declared in the decision-engine (re-declared for self-containment)
+type PayloadFieldUnit = 'currency' | 'percentage' | 'ratio' | 'multiple' | 'months' | 'days' | 'count' | 'hours' | 'years';
+const PAYLOAD_FIELD_UNITS: Record<string, PayloadFieldUnit> = {
+  estimated_salary: 'currency',
+  expected_revenue_uplift: 'currency',
+  hire_equipment_cost: 'currency',
+  estimated_inventory_cost: 'currency',
+  inventory_turnover_days: 'days',
+  supplier_credit_terms_days: 'days',
+  average_receivables_turnover_days: 'days',
+  outstanding_supplier_debts: 'currency',
+  supplier_discount_percentage: 'percentage',
+  storage_cost_percentage_of_order: 'percentage',
+  proposed_marketing_budget: 'currency',
+  sales_increase_last_campaign_1: 'percentage',
+  sales_increase_last_campaign_2: 'percentage',
+  revenue_gain_last_campaign: 'currency',
+  marketing_spend_last_campaign: 'currency',
+  customer_acquisition_cost: 'currency',
+  customer_lifetime_value: 'currency',
+  projected_demand_increase_factor: 'multiple',
+  digital_cac: 'currency',
+  offline_cac: 'currency',
+  experimental_channel_spend: 'currency',
+  low_performing_channel_spend: 'currency',
+  high_performing_channel_roi: 'multiple',
+  debt_apr: 'percentage',
+  consecutive_negative_cash_flow_months: 'months',
+  current_reserve_allocation_percentage_emergency: 'percentage',
+  current_reserve_allocation_percentage_growth: 'percentage',
+  equipment_cost: 'currency',
+  estimated_roi_percentage: 'percentage',
+  equipment_monthly_cash_benefit: 'currency',
+  equipment_useful_life_years: 'years',
+  equipment_salvage_value: 'currency',
+  lease_monthly_payment: 'currency',
+  hire_purchase_monthly_payment: 'currency',
+  hire_purchase_deposit: 'currency',
+  hire_purchase_months: 'months',
+  current_equipment_utilization_percentage: 'percentage',
+  total_business_liabilities: 'currency',
+  total_business_assets: 'currency',
+  total_monthly_debt_repayments: 'currency',
+  capital_available_percentage_of_cost: 'percentage',
+  expansion_cost: 'currency',
+  current_unit_price: 'currency',
+  proposed_unit_price: 'currency',
+  unit_cost: 'currency',
+  expected_volume_change_percentage: 'percentage',
+  competitor_unit_price: 'currency',
+  credit_amount: 'currency',
+  outstanding_receivables: 'currency',
+  credit_repayment_period_days: 'days',
+  monthly_fuel_spend: 'currency',
+  daily_outage_hours: 'hours',
+  solar_system_cost: 'currency',
+  inverter_system_cost: 'currency',
+  financing_months: 'months',
+  financing_apr: 'percentage',
+  desired_monthly_drawing: 'currency',
+  personal_monthly_obligations: 'currency',
+  contribution_amount: 'currency',
+  group_members: 'count',
+  payout_position: 'count',
+  rent_amount: 'currency',
+  moving_cost: 'currency',
+};
+
+// Mirrors the intent-parser's FieldExtraction
+type FieldExtraction = { confidence: number; source_span: { start: number; end: number; text: string } | null };
+
+// The pending request also keeps every field asked for, so form answers can be checked against it
+export type PendingDataRequest = DataNeededResponse & { missing_fields?: DataNeededResponse[] };
+
+export type ChatMessage = {
+  id: string;
+  seq: number; // Server-assigned order within the chat
+  sender: 'user' | 'ai';
+  text: string;
+  timestamp: string;
+  decisionData?: Record<string, unknown>;
+  dataNeeded?: DataNeededResponse;
+  missingFields?: DataNeededResponse[];
+  originalQuestion?: string;
+  collectedPayload?: Record<string, unknown>;
+  quickReplies?: string[];
+};
+
+// A message before it is appended; chat_messages assigns the id, seq and timestamp
+export type MessageDraft = Omit<ChatMessage, 'id' | 'seq' | 'timestamp'>;
+
+type ChatMessageRow = {
+  id: string;
+  seq: number;
+  sender: 'user' | 'ai';
+  text: string;
+  decision_data: Record<string, unknown> | null;
+  data_needed: DataNeededResponse | null;
+  missing_fields: DataNeededResponse[] | null;
+  original_question: string | null;
+  collected_payload: Record<string, unknown> | null;
+  quick_replies: string[] | null;
+  created_at: string;
+};
+
+const CHAT_MESSAGE_COLUMNS = 'id, seq, sender, text, decision_data, data_needed, missing_fields, original_question, collected_payload, quick_replies, created_at';
+
+export type ChatState = {
+  id: string;
+  pending_data_request: PendingDataRequest | null;
+  current_intent: string | null;
+  current_question: string | null;
+  current_payload: Record<string, unknown>;
+  last_user_query_text: string | null;
+  last_user_query_intent: string | null;
+  last_user_query_payload: Record<string, unknown> | null;
+  title: string | null;
+  linked_decisions: LinkedDecisions | null;
+};
+
+// A question about several decisions is worked through one decision at a time, then checked for joint affordability
+type LinkedDecisionStep = {
+  intent: string;
+  question: string;
+  payload: Record<string, unknown>;
+  field_extractions?: Record<string, FieldExtraction>;
+};
+
+type LinkedDecisionOutcome = {
+  question: string;
+  recommendation: string;
+  upfront_cost: number; // Cash paid once if the user goes ahead
+  monthly_cost: number; // Cash paid every month if the user goes ahead
+  financial_snapshot: { monthly_revenue: number; monthly_expenses: number; current_savings: number } | null;
+};
+
+export type LinkedDecisions = {
+  active: LinkedDecisionStep;
+  remaining: LinkedDecisionStep[];
+  completed: LinkedDecisionOutcome[];
+};
+
+type ChatStateUpdate = Partial<Omit<ChatState, 'id'>>;
+
+// What one user turn produces: the AI replies to append and the state columns to change
+type TurnResult = {
+  replies: MessageDraft[];
+  state: ChatStateUpdate;
+};
+
+type EdgeFunctionResult = {
+  success: boolean;
+  data: Record<string, unknown> | null;
+  error: { code?: string; details?: string; message?: string } | null;
+};
+
+const DEFAULT_CHAT_TITLE = 'New Chat';
+const THANKS_MESSAGES = ['thank you', 'thanks', 'thank you!', 'thanks!'];
+const YES_ANSWERS = ['yes', 'true', 'y'];
+const NO_ANSWERS = ['no', 'false', 'n'];
+const CONFIRM_ANSWERS = ['correct', 'yes', 'y', "that's correct", 'that is correct', 'confirm'];
+// Values read from a question are confirmed before the engine runs when the parser was unsure of them,
+// or when they are bigger than a year of revenue (usually a misread "k" or "m")
+const CONFIRMATION_CONFIDENCE_THRESHOLD = 0.7;
+const LARGE_AMOUNT_REVENUE_MULTIPLE = 12;
+// Savings left after every linked decision's upfront costs should still cover this many months of expenses
+const JOINT_RESERVE_MONTHS = 1;
+// Shown when the intent-parser fell back to keyword matching
+const LIMITED_UNDERSTANDING_NOTE = "Heads up: my full language understanding is unavailable right now, so I matched your question by keywords and may have missed some details. If I picked the wrong topic, type 'cancel' and ask again in simple words, e.g. 'Should I hire a staff member for ₦50,000 a month?'";
+
+const CLEARED_REQUEST_STATE: ChatStateUpdate = {
+  pending_data_request: null,
+  current_intent: null,
+  current_question: null,
+  current_payload: {},
+};
+
+// --- naira_amount.ts content (re-declared for self-containment) ---
+// Money as Nigerians type it: "₦250,000", "N50k", "1.5m", "2 milli", "150 thousand",
+// "fifty thousand naira", "half a million", "one meter" (₦1m).
+const AMOUNT_SCALE_WORDS: Record<string, number> = {
+  k: 1e3, thousand: 1e3, thou: 1e3,
+  m: 1e6, mil: 1e6, milli: 1e6, million: 1e6, meter: 1e6, meters: 1e6, metre: 1e6, metres: 1e6,
+  b: 1e9, bn: 1e9, billion: 1e9,
+};
+const NUMBER_WORD_VALUES: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+const NUMERIC_AMOUNT_PATTERN = /(₦|\bngn\s?|\bn\s?(?=\d))?\s?(?:(?<!\w)(-))?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?(?:\s?(k|thousand|thou|million|milli|mil|meters?|metres?|m|billion|bn|b)\b)?(\s?naira)?/g;
+const WORD_AMOUNT_PATTERN = /\b(?:(?:zero|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety|hundred|thousand|thou|k|million|milli|mil|meters?|metres?|billion|bn|half|a|and)\b[\s-]*)+(?:naira\b)?/g;
+
+export type AmountExpression = {
+  start: number;
+  end: number;
+  value: number;
+  hasMoneyCue: boolean; // ₦, N, naira or a k/m/thousand/million scale
+  alternatives: [number, number] | null; // Set when a bare decimal such as "1.5" or "1.500" could be thousands or millions
+};
+
+const parseNumberWords = (words: string[]): number | null => {
+  let total = 0;
+  let current = 0;
+  let sawNumber = false;
+  for (const word of words) {
+    if (word in NUMBER_WORD_VALUES) {
+      current += NUMBER_WORD_VALUES[word];
+      sawNumber = true;
+    } else if (word === 'half') {
+      current += 0.5;
+      sawNumber = true;
+    } else if (word === 'a') {
+      if (current === 0) current = 1; // "a million"; skipped in "half a million"
+    } else if (word === 'hundred') {
+      current = (current || 1) * 100;
+      sawNumber = true;
+    } else if (word === 'thousand' || word === 'million' || word === 'billion' || (word in AMOUNT_SCALE_WORDS && current > 0)) {
+      // Slang and abbreviations ("one meter", "fifty k") only count after a number word
+      total += (current || 1) * AMOUNT_SCALE_WORDS[word];
+      current = 0;
+      sawNumber = true;
+    }
+  }
+  return sawNumber ? total + current : null;
+};
+
+// Every amount in the text, in order of appearance
+export function scanAmountExpressions(rawText: string): AmountExpression[] {
+  const text = rawText.toLowerCase();
+  const expressions: AmountExpression[] = [];
+
+  for (const match of text.matchAll(NUMERIC_AMOUNT_PATTERN)) {
+    const [whole, currency, minus, digits, decimals, scale, nairaWord] = match;
+    const start = (match.index ?? 0) + (whole.length - whole.trimStart().length);
+    const magnitude = parseFloat(`${digits.replace(/,/g, '')}${decimals ? `.${decimals}` : ''}`);
+    const value = (minus ? -1 : 1) * magnitude * (scale ? AMOUNT_SCALE_WORDS[scale] : 1);
+    // "1.500" may be a mistyped ₦1,500 or ₦1.5m, and "2.5" is rarely meant as two naira fifty
+    const isBareDecimal = !scale && !digits.includes(',') && decimals !== undefined && magnitude < 1000 &&
+      (decimals.length === 3 || magnitude < 100);
+    expressions.push({
+      start,
+      end: (match.index ?? 0) + whole.length,
+      value,
+      hasMoneyCue: Boolean(currency || scale || nairaWord),
+      alternatives: isBareDecimal ? [Math.round(magnitude * 1e3), Math.round(magnitude * 1e6)] : null,
+    });
+  }
+
+  const numericExpressions = [...expressions];
+  for (const match of text.matchAll(WORD_AMOUNT_PATTERN)) {
+    const words = match[0].split(/[\s-]+/).filter(Boolean);
+    const value = parseNumberWords(words);
+    const start = match.index ?? 0;
+    const end = start + match[0].trimEnd().length;
+    // The scale in "150 thousand" or "₦2 million" already belongs to the number before it
+    if (value === null || numericExpressions.some(numeric => start < numeric.end && numeric.start < end)) continue;
+    expressions.push({
+      start,
+      end,
+      value,
+      hasMoneyCue: words.some(word => word === 'naira' || word in AMOUNT_SCALE_WORDS),
+      alternatives: null,
+    });
+  }
+
+  return expressions.sort((a, b) => a.start - b.start);
+}
+
+export type NairaAmountResult =
+  | { status: 'amount'; value: number }
+  | { status: 'ambiguous'; alternatives: [number, number] }
+  | { status: 'none' };
+
+// The first amount in an answer. With `currency`, bare decimals are reported as ambiguous instead of guessed;
+// with `whole`, the text must be nothing but the amount (e.g. "50k", not "2027-03-01").
+export function parseNairaAmount(text: string, options: { currency?: boolean; whole?: boolean } = {}): NairaAmountResult {
+  const [first] = scanAmountExpressions(text);
+  if (!first) return { status: 'none' };
+  if (options.whole) {
+    const rest = `${text.slice(0, first.start)}${text.slice(first.end)}`.toLowerCase().replace(/₦|\bnaira\b|\bngn\b/g, '');
+    if (!/^[\s.,!?]*$/.test(rest)) return { status: 'none' };
+  }
+  if (options.currency && first.alternatives) return { status: 'ambiguous', alternatives: first.alternatives };
+  return { status: 'amount', value: first.value };
+}
+
+// --- conversation.ts content ---
+function createMessage(sender: MessageDraft['sender'], text: string, extras: Partial<MessageDraft> = {}): MessageDraft {
+  return { sender, text, ...extras };
+}
+
+function errorReply(errorMessage: string): MessageDraft {
+  return createMessage('ai', `Error: ${errorMessage}`, { quickReplies: ['Try again', 'Add New Data'] });
+}
+
+function formatAnswer(value: FieldAnswer): string {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return `${value.length} offers (${value.map((offer, index) => offer.lender || `Offer ${index + 1}`).join(', ')})`;
+  return String(value).replace(/_/g, ' ');
+}
+
+function toChatMessage(row: ChatMessageRow): ChatMessage {
+  return {
+    id: row.id,
+    seq: row.seq,
+    sender: row.sender,
+    text: row.text,
+    timestamp: row.created_at,
+    decisionData: row.decision_data ?? undefined,
+    dataNeeded: row.data_needed ?? undefined,
+    missingFields: row.missing_fields ?? undefined,
+    originalQuestion: row.original_question ?? undefined,
+    collectedPayload: row.collected_payload ?? undefined,
+    quickReplies: row.quick_replies ?? undefined,
+  };
+}
+
+// Messages are only ever inserted, so concurrent turns on the same chat cannot overwrite each other
+async function appendMessages(supabase: SupabaseClient, chatId: string, userId: string, drafts: MessageDraft[]): Promise<ChatMessage[]> {
+  if (drafts.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .insert(drafts.map(draft => ({
+      chat_id: chatId,
+      user_id: userId,
+      sender: draft.sender,
+      text: draft.text,
+      decision_data: draft.decisionData ?? null,
+      data_needed: draft.dataNeeded ?? null,
+      missing_fields: draft.missingFields ?? null,
+      original_question: draft.originalQuestion ?? null,
+      collected_payload: draft.collectedPayload ?? null,
+      quick_replies: draft.quickReplies ?? null,
+    })))
+    .select(CHAT_MESSAGE_COLUMNS);
+
+  if (error) {
+    throw new CustomError(ERROR_CODES.CHAT_UPDATE_FAILED, `Failed to save messages for chat ${chatId}: ${error.message}`, SEVERITY.HIGH, 500, error);
+  }
+  return (data as ChatMessageRow[]).map(toChatMessage).sort((a, b) => a.seq - b.seq);
+}
+
+// Writes the chat's state only if updated_at is still what this request last saw, so two turns running
+// against the same chat cannot silently overwrite each other's answers
+async function saveChatState(
+  supabase: SupabaseClient,
+  chatId: string,
+  userId: string,
+  expectedUpdatedAt: string,
+  columns: ChatStateUpdate & { updated_at: string },
+): Promise<void> {
+  const { data, error } = await supabase
+    .from('chats')
+    .update(columns)
+    .eq('id', chatId)
+    .eq('user_id', userId)
+    .eq('updated_at', expectedUpdatedAt)
+    .select('id');
+
+  if (error) {
+    throw new CustomError(ERROR_CODES.CHAT_UPDATE_FAILED, `Failed to save chat ${chatId}: ${error.message}`, SEVERITY.HIGH, 500, error);
+  }
+  if (!data || data.length === 0) {
+    throw new CustomError(ERROR_CODES.CHAT_UPDATE_CONFLICT, `Chat ${chatId} was changed by another request. Reload the chat and try again.`, SEVERITY.LOW, 409);
+  }
+}
+
+// Accepts YYYY-MM-DD or the usual Nigerian DD/MM/YYYY and returns YYYY-MM-DD
+export function parseDateAnswer(rawInput: string): string | undefined {
+  const input = rawInput.trim();
+  const isoMatch = input.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const dayFirstMatch = input.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (!isoMatch && !dayFirstMatch) return undefined;
+  const [year, month, day] = isoMatch
+    ? [isoMatch[1], isoMatch[2], isoMatch[3]]
+    : [dayFirstMatch![3], dayFirstMatch![2], dayFirstMatch![1]];
+  const isoDate = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === isoDate ? isoDate : undefined;
+}
+
+const isNairaField = (pending: DataNeededResponse): boolean => pending.type === 'number' && pending.unit === 'currency';
+
+// The two readings of a naira answer such as "1.5" or "1.500", or null when it can only mean one amount
+export function findAmbiguousAmount(pending: DataNeededResponse, rawInput: string): [number, number] | null {
+  if (!isNairaField(pending)) return null;
+  const amount = parseNairaAmount(rawInput, { currency: true });
+  return amount.status === 'ambiguous' ? amount.alternatives : null;
+}
+
+// Parses a typed reply to the pending field; returns undefined when it can't be understood
+export function parsePendingAnswer(pending: DataNeededResponse, rawInput: string): FieldAnswer | undefined {
+  const lowerCaseInput = rawInput.trim().toLowerCase();
+
+  if (pending.stored_value !== undefined && lowerCaseInput === 'still correct') {
+    return pending.stored_value; // Confirms the remembered business fact
+  }
+
+  if (pending.type === 'boolean') {
+    if (YES_ANSWERS.includes(lowerCaseInput)) return true;
+    if (NO_ANSWERS.includes(lowerCaseInput)) return false;
+    return undefined;
+  }
+
+  if (pending.type === 'loan_offers') {
+    return undefined; // Offers can only be entered in the form
+  }
+
+  if (pending.type === 'date') {
+    return parseDateAnswer(rawInput);
+  }
+
+  if (pending.type === 'number') {
+    if (lowerCaseInput === 'none' && pending.canBeZeroOrNone !== false) return 0;
+    const amount = parseNairaAmount(rawInput, { currency: isNairaField(pending) });
+    if (amount.status !== 'amount') return undefined;
+    const parsedValue = pending.canBeNegative ? amount.value : Math.abs(amount.value);
+    if (parsedValue === 0 && pending.canBeZeroOrNone === false) return undefined;
+    return parsedValue;
+  }
+
+  const normalizedInput = lowerCaseInput.replace(/\s+/g, '_');
+  if (!normalizedInput) return undefined;
+  return pending.options?.find(option => option.toLowerCase().includes(normalizedInput));
+}
+
+// Naira amounts come from the form as typed ("50k", "₦1.5m") and are read like a chat reply
+const readFormAmount = (field: string, rawInput: string): FieldAnswer => {
+  const amount = parseNairaAmount(rawInput, { currency: true, whole: true });
+  if (amount.status === 'ambiguous') {
+    const [asThousands, asMillions] = amount.alternatives.map(value => `₦${value.toLocaleString()}`);
+    throw new InputValidationError("Invalid answers.", `'${rawInput}' for '${field}' could mean ${asThousands} or ${asMillions}.`);
+  }
+  return amount.status === 'amount' ? amount.value : rawInput; // Left as text so the check below rejects it
+};
+
+// Checks form answers against the fields that were asked for, with the same limits as the form
+export function validateFormAnswers(pending: PendingDataRequest, answers: Record<string, FieldAnswer>): Record<string, FieldAnswer> {
+  const fields = pending.missing_fields ?? [pending];
+  const validated: Record<string, FieldAnswer> = {};
+
+  for (const [field, answer] of Object.entries(answers)) {
+    const spec = fields.find(candidate => candidate.field === field);
+    if (!spec) {
+      throw new InputValidationError("Invalid answers.", `'${field}' was not requested.`);
+    }
+    const value = isNairaField(spec) && typeof answer === 'string' ? readFormAmount(field, answer) : answer;
+    const isValid = spec.type === 'boolean'
+      ? typeof value === 'boolean'
+      : spec.type === 'number'
+        ? typeof value === 'number' && Number.isFinite(value) && (value >= 0 || spec.canBeNegative === true) && !(value === 0 && spec.canBeZeroOrNone === false)
+        : spec.type === 'loan_offers'
+          ? Array.isArray(value) && value.length >= MIN_LOAN_OFFERS && value.length <= MAX_LOAN_OFFERS
+          : spec.type === 'date'
+            ? typeof value === 'string' && parseDateAnswer(value) === value
+            : typeof value === 'string' && (spec.options ?? []).includes(value);
+    if (!isValid) {
+      throw new InputValidationError("Invalid answers.", `'${Array.isArray(value) ? `${value.length} offers` : String(value)}' is not a valid answer for '${field}'.`);
+    }
+    validated[field] = value;
+  }
+
+  if (Object.keys(validated).length === 0) {
+    throw new InputValidationError("Invalid answers.", "At least one answer must be provided.");
+  }
+  return validated;
+}
+
+const formatNaira = (value: number): string => `${value < 0 ? '-' : ''}₦${Math.abs(Math.round(value)).toLocaleString()}`;
+
+const formatExtractedValue = (field: DataNeededResponse): string =>
+  typeof field.stored_value === 'number' && isNairaField(field) ? formatNaira(field.stored_value) : formatAnswer(field.stored_value as FieldAnswer);
+
+// Fields taken from the question that the user should check, as prefilled form fields
+export function findFieldsToConfirm(
+  intent: string,
+  question: string,
+  payload: Record<string, unknown>,
+  extractions: Record<string, FieldExtraction>,
+  monthlyRevenue: number | null,
+): DataNeededResponse[] {
+  const fields: DataNeededResponse[] = [];
+  for (const [field, value] of Object.entries(payload)) {
+    const extraction = extractions[field];
+    // Only single values can be edited in the confirmation form; loan offers and choices get their own questions
+    const isDate = typeof value === 'string' && parseDateAnswer(value) === value;
+    if (!extraction || !(typeof value === 'number' || typeof value === 'boolean' || isDate)) continue;
+    const isUnsure = extraction.confidence < CONFIRMATION_CONFIDENCE_THRESHOLD;
+    // The engine has not asked for these fields yet, so naira amounts are told apart by the engine's field units
+    const isNairaAmount = typeof value === 'number' && PAYLOAD_FIELD_UNITS[field] === 'currency';
+    const isLargeAmount = isNairaAmount &&
+      monthlyRevenue !== null && monthlyRevenue > 0 && value > monthlyRevenue * LARGE_AMOUNT_REVENUE_MULTIPLE;
+    if (!isUnsure && !isLargeAmount) continue;
+    const label = `${field.charAt(0).toUpperCase()}${field.slice(1).replace(/_/g, ' ')}`;
+    fields.push({
+      field,
+      prompt: isNairaAmount ? `${label} (₦)` : label,
+      type: typeof value === 'number' ? 'number' : typeof value === 'boolean' ? 'boolean' : 'date',
+      ...(isNairaAmount ? { unit: 'currency' as const } : {}),
+      intent_context: { intent, decision_type: intent, current_payload: payload },
+      canBeNegative: typeof value === 'number' && value < 0,
+      stored_value: value as FieldAnswer,
+      extracted: { confidence: extraction.confidence, source_text: extraction.source_span?.text ?? null },
+    });
+  }
+  return fields;
+}
+
+function confirmationReply(fields: DataNeededResponse[], question: string, payload: Record<string, unknown>): MessageDraft {
+  const understood = fields
+    .map(field => `• ${field.field.replace(/_/g, ' ')}: ${formatExtractedValue(field)}`)
+    .join('\n');
+  return createMessage('ai', `Before I work this out, please check what I understood:\n${understood}\nIs that correct? Change anything I got wrong below.`, {
+    dataNeeded: fields[0],
+    missingFields: fields,
+    originalQuestion: question,
+    collectedPayload: payload,
+    quickReplies: ['Correct', 'Cancel'],
+  });
+}
+
+const toCashAmount = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+// Cash a decision ties up if the user goes ahead, read from the decision-engine result
+export function estimateCashCommitment(intent: string, decision: Record<string, unknown>): { upfront: number; monthly: number } {
+  switch (intent) {
+    case 'hiring':
+      return { upfront: toCashAmount(decision.hire_one_off_cost), monthly: toCashAmount(decision.estimated_salary) + toCashAmount(decision.employer_statutory_contributions) };
+    case 'inventory':
+      return { upfront: toCashAmount(decision.estimated_inventory_cost), monthly: 0 };
+    case 'marketing':
+      return { upfront: toCashAmount(decision.proposed_marketing_budget), monthly: 0 };
+    case 'equipment': {
+      const options = Array.isArray(decision.equipment_option_results) ? decision.equipment_option_results as { option: string; upfront_cash: number; monthly_payment: number }[] : [];
+      const chosen = options.find(option => option.option === decision.recommended_equipment_option);
+      return chosen ? { upfront: chosen.upfront_cash, monthly: chosen.monthly_payment } : { upfront: toCashAmount(decision.equipment_cost), monthly: 0 };
+    }
+    case 'business_expansion':
+      return { upfront: toCashAmount(decision.expansion_cost), monthly: 0 };
+    case 'customer_credit':
+      return { upfront: toCashAmount(decision.credit_amount), monthly: 0 };
+    case 'energy_cost': {
+      const systemCost = decision.recommended_energy_option === 'solar'
+        ? toCashAmount(decision.solar_system_cost)
+        : decision.recommended_energy_option === 'grid_inverter' ? toCashAmount(decision.inverter_system_cost) : 0;
+      const isFinanced = toCashAmount(decision.financing_months) > 0;
+      // The repayment is partly or fully paid for by the fuel the system replaces; a negative amount frees up cash
+      return {
+        upfront: isFinanced ? 0 : systemCost,
+        monthly: toCashAmount(decision.energy_monthly_payment) - toCashAmount(decision.energy_monthly_saving),
+      };
+    }
+    case 'owner_drawings':
+      return { upfront: 0, monthly: toCashAmount(decision.desired_monthly_drawing) };
+    case 'rotating_savings':
+      return { upfront: 0, monthly: toCashAmount(decision.monthly_contribution) };
+    case 'loan_offer_comparison': {
+      const offers = Array.isArray(decision.loan_offer_results) ? decision.loan_offer_results as { offer_index: number; monthly_repayment: number }[] : [];
+      const chosen = offers.find(offer => offer.offer_index === decision.recommended_loan_offer);
+      return { upfront: 0, monthly: chosen ? chosen.monthly_repayment : 0 };
+    }
+    case 'lease_renewal':
+      return { upfront: 0, monthly: toCashAmount(decision.monthly_rent_set_aside) };
+    default:
+      return { upfront: 0, monthly: 0 }; // Savings, loan management and pricing advice commits no new cash
+  }
+}
+
+function toLinkedDecisionOutcome(step: LinkedDecisionStep, decision: Record<string, unknown>): LinkedDecisionOutcome {
+  const { upfront, monthly } = estimateCashCommitment(step.intent, decision);
+  return {
+    question: step.question,
+    recommendation: String(decision.recommendation),
+    upfront_cost: upfront,
+    monthly_cost: monthly,
+    financial_snapshot: (decision.financial_snapshot as LinkedDecisionOutcome['financial_snapshot'] | undefined) ?? null,
+  };
+}
+
+// Each decision can pass on its own while the approved ones together leave too little cash
+export function buildJointAffordabilitySummary(outcomes: LinkedDecisionOutcome[]): string {
+  const describeCost = (outcome: LinkedDecisionOutcome) => {
+    const costs = [
+      outcome.upfront_cost > 0 ? `${formatNaira(outcome.upfront_cost)} upfront` : null,
+      outcome.monthly_cost > 0 ? `${formatNaira(outcome.monthly_cost)} a month` : null,
+    ].filter(Boolean);
+    return costs.length > 0 ? ` (${costs.join(', ')})` : '';
+  };
+  const lines = [
+    `Here's how your ${outcomes.length} decisions fit together:`,
+    ...outcomes.map((outcome, index) => `${index + 1}. ${outcome.question} — ${outcome.recommendation}${describeCost(outcome)}`),
+  ];
+
+  const approved = outcomes.filter(outcome => outcome.recommendation === 'APPROVE');
+  const snapshot = [...outcomes].reverse().find(outcome => outcome.financial_snapshot)?.financial_snapshot;
+  if (approved.length < 2 || !snapshot) {
+    lines.push(approved.length === 0
+      ? "None of them was approved on its own, so follow each recommendation above before going ahead."
+      : approved.length === 1
+      ? "Only one of them was approved on its own, so there is nothing extra to check together."
+      : "I couldn't check them together because your financial data was missing.");
+    return lines.join('\n');
+  }
+
+  const upfrontTotal = approved.reduce((total, outcome) => total + outcome.upfront_cost, 0);
+  const monthlyTotal = approved.reduce((total, outcome) => total + outcome.monthly_cost, 0);
+  const netIncome = snapshot.monthly_revenue - snapshot.monthly_expenses;
+  const savingsAfter = snapshot.current_savings - upfrontTotal;
+  const reserveNeeded = snapshot.monthly_expenses * JOINT_RESERVE_MONTHS;
+  const netIncomeAfter = netIncome - monthlyTotal;
+  const needs = monthlyTotal < 0
+    ? `${formatNaira(upfrontTotal)} upfront and free up ${formatNaira(-monthlyTotal)} a month`
+    : `${formatNaira(upfrontTotal)} upfront and ${formatNaira(monthlyTotal)} a month`;
+
+  if (savingsAfter >= reserveNeeded && netIncomeAfter >= 0) {
+    lines.push(`Together the approved ones need ${needs}. That leaves ${formatNaira(savingsAfter)} in savings and ${formatNaira(netIncomeAfter)} a month of profit, so you can afford them together.`);
+    return lines.join('\n');
+  }
+
+  lines.push(`Each approved one passes on its own, but together they need ${needs}.`);
+  if (savingsAfter < reserveNeeded) {
+    lines.push(`That would leave ${formatNaira(savingsAfter)} in savings, less than ${JOINT_RESERVE_MONTHS === 1 ? 'a month' : `${JOINT_RESERVE_MONTHS} months`} of expenses (${formatNaira(reserveNeeded)}).`);
+  }
+  if (netIncomeAfter < 0) {
+    lines.push(`Your monthly profit of ${formatNaira(netIncome)} would not cover the new monthly costs.`);
+  }
+  lines.push(`Start with "${approved[0].question}" and come back to the rest once your cash has recovered.`);
+  return lines.join('\n');
+}
+
+async function invokeFunction(supabase: SupabaseClient, functionName: string, body: Record<string, unknown>): Promise<EdgeFunctionResult> {
+  const { data, error } = await supabase.functions.invoke(functionName, { body });
+  if (error) {
+    // Non-2xx responses still carry the standard error envelope in the response body
+    const errorBody = await error.context?.json?.().catch(() => null);
+    if (errorBody && typeof errorBody === 'object' && 'success' in errorBody) {
+      return errorBody as EdgeFunctionResult;
+    }
+    return { success: false, data: null, error: { details: error.message || `${functionName} is unavailable.` } };
+  }
+  return data as EdgeFunctionResult;
+}
+
+async function fetchLatestMonthlyRevenue(supabase: SupabaseClient, userId: string): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('financial_entries')
+    .select('monthly_revenue')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  // Without revenue the size check is skipped; the decision engine reports missing financial data itself
+  if (error || !data) return null;
+  return Number(data.monthly_revenue);
+}
+
+async function runDecisionEngine(
+  supabase: SupabaseClient,
+  intent: string,
+  question: string,
+  payload: Record<string, unknown>,
+  oneQuestionAtATime: boolean,
+): Promise<TurnResult> {
+  const result = await invokeFunction(supabase, 'decision-engine', { intent, question, payload });
+
+  if (!result?.success || !result.data) {
+    let errorMessage = "An unknown error occurred from the AI.";
+    if (result?.error?.code === 'DECISION_NOT_FOUND') {
+      errorMessage = "I can't provide a recommendation without your financial data. Please add your monthly revenue, expenses, and savings first.";
+    } else if (result?.error?.details) {
+      errorMessage = result.error.details;
+    } else if (result?.error?.message) {
+      errorMessage = result.error.message;
+    }
+    return { replies: [errorReply(errorMessage)], state: CLEARED_REQUEST_STATE };
+  }
+
+  const dataNeeded = result.data.data_needed as DataNeededResponse | undefined;
+  if (dataNeeded) {
+    const missingFields = (result.data.missing_fields as DataNeededResponse[] | undefined) || [dataNeeded];
+    const collectedPayload = dataNeeded.intent_context.current_payload || {};
+    const reply = createMessage(
+      'ai',
+      missingFields.length > 1 && !oneQuestionAtATime
+        ? `I need ${missingFields.length} more details to answer this. Fill them in below, or switch to one question at a time.`
+        : dataNeeded.prompt,
+      {
+        dataNeeded,
+        // Loan offers can't be typed as a single reply, so they always get the form
+        missingFields: missingFields.length > 1 || missingFields.some(field => field.type === 'loan_offers') ? missingFields : undefined,
+        originalQuestion: question,
+        collectedPayload,
+        quickReplies: dataNeeded.stored_value !== undefined ? ['Still correct', 'Cancel', 'Add New Data'] : ['Cancel', 'Add New Data'],
+      },
+    );
+    return {
+      replies: [reply],
+      state: {
+        pending_data_request: { ...dataNeeded, missing_fields: missingFields },
+        current_intent: intent,
+        current_question: question,
+        current_payload: collectedPayload,
+        last_user_query_payload: collectedPayload,
+      },
+    };
+  }
+
+  return {
+    replies: [createMessage('ai', "I've analyzed your financial data. Here is my recommendation:", {
+      decisionData: result.data,
+      quickReplies: ['Start New Chat', 'Add New Data'],
+    })],
+    state: {
+      ...CLEARED_REQUEST_STATE,
+      last_user_query_text: null,
+      last_user_query_intent: null,
+      last_user_query_payload: null,
+    },
+  };
+}
+
+// Runs one parsed decision, first asking the user to confirm any doubtful values read from their question
+async function startDecision(
+  supabase: SupabaseClient,
+  userId: string,
+  step: LinkedDecisionStep,
+  oneQuestionAtATime: boolean,
+): Promise<TurnResult> {
+  const queryState: ChatStateUpdate = {
+    current_intent: step.intent,
+    current_question: step.question,
+    current_payload: step.payload,
+    last_user_query_text: step.question,
+    last_user_query_intent: step.intent,
+    last_user_query_payload: step.payload,
+  };
+
+  const fieldsToConfirm = findFieldsToConfirm(
+    step.intent,
+    step.question,
+    step.payload,
+    step.field_extractions || {},
+    await fetchLatestMonthlyRevenue(supabase, userId),
+  );
+  const turn: TurnResult = fieldsToConfirm.length > 0
+    ? {
+      replies: [confirmationReply(fieldsToConfirm, step.question, step.payload)],
+      state: { pending_data_request: { ...fieldsToConfirm[0], missing_fields: fieldsToConfirm } },
+    }
+    : await runDecisionEngine(supabase, step.intent, step.question, step.payload, oneQuestionAtATime);
+  return { replies: turn.replies, state: { ...queryState, ...turn.state } };
+}
+
+// Advances the conversation by one free-text message or quick reply
+async function handleMessage(
+  supabase: SupabaseClient,
+  userId: string,
+  chat: ChatState,
+  message: string,
+  oneQuestionAtATime: boolean,
+): Promise<TurnResult> {
+  const lowerCaseInput = message.toLowerCase();
+  const pending = chat.pending_data_request;
+
+  if (THANKS_MESSAGES.includes(lowerCaseInput)) {
+    return {
+      replies: [createMessage('ai', "You're most welcome! I'm here to help your business thrive. Is there anything else I can assist you with?", {
+        quickReplies: ['Start New Chat', 'Add New Data'],
+      })],
+      state: {},
+    };
+  }
+
+  if (lowerCaseInput === 'cancel' && pending) {
+    return {
+      replies: [createMessage('ai', "Okay, I've cancelled the current data request. How else can I help?", {
+        quickReplies: ['Start New Chat', 'Add New Data'],
+      })],
+      state: { ...CLEARED_REQUEST_STATE, linked_decisions: null },
+    };
+  }
+
+  if (lowerCaseInput === 'try again') {
+    if (!chat.last_user_query_intent || !chat.last_user_query_text) {
+      return {
+        replies: [createMessage('ai', "I don't have a previous query to retry. Please ask me a new question.", {
+          quickReplies: ['Start New Chat', 'Add New Data'],
+        })],
+        state: {},
+      };
+    }
+    const retryPayload = chat.last_user_query_payload || {};
+    const turn = await runDecisionEngine(supabase, chat.last_user_query_intent, chat.last_user_query_text, retryPayload, oneQuestionAtATime);
+    return {
+      replies: turn.replies,
+      state: {
+        pending_data_request: null,
+        current_intent: chat.last_user_query_intent,
+        current_question: chat.last_user_query_text,
+        current_payload: retryPayload,
+        ...turn.state,
+      },
+    };
+  }
+
+  // The values read from the question were confirmed as shown
+  if (pending?.extracted && chat.current_intent && chat.current_question && CONFIRM_ANSWERS.includes(lowerCaseInput)) {
+    const turn = await runDecisionEngine(supabase, chat.current_intent, chat.current_question, chat.current_payload, oneQuestionAtATime);
+    return { replies: turn.replies, state: { pending_data_request: null, ...turn.state } };
+  }
+
+  if (pending && chat.current_intent && chat.current_question) {
+    const ambiguousAmount = findAmbiguousAmount(pending, message);
+    if (ambiguousAmount) {
+      const [asThousands, asMillions] = ambiguousAmount.map(value => `₦${value.toLocaleString()}`);
+      return {
+        replies: [createMessage('ai', `Just to be sure, is that ${asThousands} or ${asMillions}?`, { quickReplies: [asThousands, asMillions, 'Cancel'] })],
+        state: {},
+      };
+    }
+
+    const parsedValue = parsePendingAnswer(pending, message);
+    if (parsedValue === undefined) {
+      const retryText = pending.type === 'text_enum'
+        ? `I couldn't understand your choice. Please select one of the following options: ${pending.options?.join(', ')}.`
+        : pending.type === 'loan_offers'
+        ? "Please enter your loan offers in the form above, one row per offer."
+        : pending.type === 'date'
+        ? "I couldn't understand the date. Please enter it as DD/MM/YYYY, e.g. 01/03/2027."
+        : `I couldn't understand the value. Please provide a valid input for ${pending.field.replace(/_/g, ' ')} (e.g., '50000', '50k', '1.5m', 'Yes/No', or select from options).`;
+      return { replies: [createMessage('ai', retryText, { quickReplies: ['Cancel', 'Try again'] })], state: {} };
+    }
+
+    const updatedPayload = { ...chat.current_payload, [pending.field]: parsedValue };
+    const turn = await runDecisionEngine(supabase, chat.current_intent, chat.current_question, updatedPayload, oneQuestionAtATime);
+    return { replies: turn.replies, state: { pending_data_request: null, current_payload: updatedPayload, ...turn.state } };
+  }
+
+  const intentResult = await invokeFunction(supabase, 'intent-parser', { user_query: message });
+  if (!intentResult?.success || !intentResult.data) {
+    return {
+      replies: [errorReply(intentResult?.error?.details || "I couldn't understand your request. Please try rephrasing.")],
+      state: {},
+    };
+  }
+
+  const parsedIntent = intentResult.data as LinkedDecisionStep & { parser?: 'llm' | 'local'; intents?: LinkedDecisionStep[] };
+  const isLimitedUnderstanding = parsedIntent.parser === 'local';
+  if (parsedIntent.intent === 'unknown') {
+    const limitedHint = isLimitedUnderstanding ? " My full language understanding is unavailable right now, so please use simple words such as 'hire', 'stock', 'price' or 'loan'." : '';
+    return {
+      replies: [createMessage('ai', `I'm currently specialized in hiring, inventory, marketing, savings, equipment, loans, business expansion, pricing, customer credit, generator and solar, owner pay, ajo/esusu, loan offer comparison, or shop rent renewal decisions. Please ask me a question related to these topics.${limitedHint}`, {
+        quickReplies: ['Try again', 'Add New Data'],
+      })],
+      state: {},
+    };
+  }
+
+  // Every decision asked about, in order; older parsers only return the top-level one
+  const decisions: LinkedDecisionStep[] = parsedIntent.intents?.length
+    ? parsedIntent.intents
+    : [{ intent: parsedIntent.intent, question: parsedIntent.question, payload: parsedIntent.payload || {}, field_extractions: parsedIntent.field_extractions }];
+  const [firstDecision, ...laterDecisions] = decisions;
+  const hasDefaultTitle = chat.title === null || chat.title === DEFAULT_CHAT_TITLE;
+  const introReplies = [
+    ...(isLimitedUnderstanding ? [createMessage('ai', LIMITED_UNDERSTANDING_NOTE)] : []),
+    ...(laterDecisions.length > 0
+      ? [createMessage('ai', `You asked about ${decisions.length} decisions. I'll go through them one at a time, then check whether you can afford them together:\n${decisions.map((decision, index) => `${index + 1}. ${decision.question}`).join('\n')}`)]
+      : []),
+  ];
+  const turn = await startDecision(supabase, userId, firstDecision, oneQuestionAtATime);
+  return {
+    replies: [...introReplies, ...turn.replies],
+    state: {
+      title: hasDefaultTitle && parsedIntent.question ? parsedIntent.question : chat.title,
+      linked_decisions: laterDecisions.length > 0 ? { active: firstDecision, remaining: laterDecisions, completed: [] } : null,
+      ...turn.state,
+    },
+  };
+}
+
+// Once a linked decision has its recommendation, starts the next one; after the last, adds the joint affordability summary
+async function continueLinkedDecisions(
+  supabase: SupabaseClient,
+  userId: string,
+  chat: ChatState,
+  turn: TurnResult,
+  oneQuestionAtATime: boolean,
+): Promise<TurnResult> {
+  let linked = turn.state.linked_decisions !== undefined ? turn.state.linked_decisions : chat.linked_decisions;
+  let { replies, state } = turn;
+
+  while (linked) {
+    const decision = replies[replies.length - 1]?.decisionData;
+    if (!decision) break; // Still collecting data for the active decision, or it failed and can be retried
+    const completed = [...linked.completed, toLinkedDecisionOutcome(linked.active, decision)];
+    const [next, ...remaining] = linked.remaining;
+    if (!next) {
+      replies = [...replies, createMessage('ai', buildJointAffordabilitySummary(completed), { quickReplies: ['Start New Chat', 'Add New Data'] })];
+      linked = null;
+      break;
+    }
+    const nextTurn = await startDecision(supabase, userId, next, oneQuestionAtATime);
+    replies = [...replies, createMessage('ai', `Next: ${next.question}`), ...nextTurn.replies];
+    state = { ...state, ...nextTurn.state };
+    linked = { active: next, remaining, completed };
+  }
+
+  return { replies, state: { ...state, linked_decisions: linked } };
+}
+
+// Main Edge Function Logic
+serve(async (req: Request) => {
+  const requestId = generateRequestId();
+  let userId: string | null = null;
+  let body: unknown = {};
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: CORS_HEADERS });
+  }
+
+  const authHeader = req.headers.get('Authorization')!;
+  const supabase = getSupabaseClient(authHeader);
+
+  try {
+    // 1. Authentication & Authorization
+    const { data: { user: authUser }, error: userError } = await supabase.auth.getUser();
+    if (userError || !authUser) {
+      throw new AuthError("User not authenticated.");
+    }
+    userId = authUser.id as string;
+    console.log(`[${requestId}] User authenticated: ${userId}`);
+
+    // 2. Input Validation
+    body = await req.json();
+    console.log(`[${requestId}] Received request body:`, redactSensitiveData(body));
+    const validationResult = ChatOrchestratorInputSchema.safeParse(body);
+    if (!validationResult.success) {
+      throw new InputValidationError("Invalid input.", validationResult.error.toString());
+    }
+    const { chat_id, message, answers, one_question_at_a_time = false } = validationResult.data;
+
+    // 3. Load the conversation
+    const { data: chatRow, error: chatError } = await supabase
+      .from('chats')
+      .select('id, pending_data_request, current_intent, current_question, current_payload, last_user_query_text, last_user_query_intent, last_user_query_payload, title, linked_decisions, updated_at')
+      .eq('id', chat_id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (chatError) {
+      throw new CustomError(ERROR_CODES.DB_CONNECTION_FAILED, `Failed to load chat ${chat_id}: ${chatError.message}`, SEVERITY.HIGH, 500, chatError);
+    }
+    if (!chatRow) {
+      throw new CustomError(ERROR_CODES.CHAT_NOT_FOUND, `Chat ${chat_id} not found.`, SEVERITY.LOW, 404);
+    }
+
+    const { updated_at: loadedUpdatedAt, ...chatColumns } = chatRow;
+    const chat: ChatState = {
+      ...chatColumns,
+      pending_data_request: chatRow.pending_data_request || null,
+      current_payload: chatRow.current_payload || {},
+      last_user_query_payload: chatRow.last_user_query_payload || null,
+      title: chatRow.title || null,
+      linked_decisions: chatRow.linked_decisions || null,
+    };
+
+    // 4. Record the user's message, then advance the conversation
+    let userDraft: MessageDraft;
+    let runTurn: () => Promise<TurnResult>;
+
+    if (answers !== undefined) {
+      const { pending_data_request: pending, current_intent: intent, current_question: question } = chat;
+      if (!pending || !intent || !question) {
+        throw new InputValidationError("Invalid input.", "This chat is not waiting for any answers.");
+      }
+      const validatedAnswers = validateFormAnswers(pending, answers);
+      userDraft = createMessage('user', Object.entries(validatedAnswers)
+        .map(([field, value]) => `${field.replace(/_/g, ' ')}: ${formatAnswer(value)}`)
+        .join('\n'));
+      const updatedPayload = { ...chat.current_payload, ...validatedAnswers };
+      runTurn = async () => {
+        const engineTurn = await runDecisionEngine(supabase, intent, question, updatedPayload, one_question_at_a_time);
+        return { replies: engineTurn.replies, state: { pending_data_request: null, current_payload: updatedPayload, ...engineTurn.state } };
+      };
+    } else {
+      userDraft = createMessage('user', message as string);
+      runTurn = () => handleMessage(supabase, userId as string, chat, message as string, one_question_at_a_time);
+    }
+
+    // Claim the turn before writing anything: a request that loaded the same state finds updated_at moved on
+    // and stops here instead of overwriting this turn's answers with its own
+    const turnStartedAt = new Date().toISOString();
+    await saveChatState(supabase, chat_id, userId, loadedUpdatedAt, { updated_at: turnStartedAt });
+
+    const [userMessage] = await appendMessages(supabase, chat_id, userId, [userDraft]);
+    const turn = await continueLinkedDecisions(supabase, userId, chat, await runTurn(), one_question_at_a_time);
+    const replies = await appendMessages(supabase, chat_id, userId, turn.replies);
+    console.log(`[${requestId}] Conversation advanced with ${replies.length} AI message(s).`);
+
+    // 5. Persist the new state
+    const updatedChat: ChatState = { ...chat, ...turn.state };
+
+    await saveChatState(supabase, chat_id, userId, turnStartedAt, {
+      pending_data_request: updatedChat.pending_data_request,
+      current_intent: updatedChat.current_intent,
+      current_question: updatedChat.current_question,
+      current_payload: updatedChat.current_payload,
+      last_user_query_text: updatedChat.last_user_query_text,
+      last_user_query_intent: updatedChat.last_user_query_intent,
+      last_user_query_payload: updatedChat.last_user_query_payload,
+      title: updatedChat.title,
+      linked_decisions: updatedChat.linked_decisions,
+      updated_at: new Date().toISOString(),
+    });
+
+    // 6. Format and Return Response
+    const responsePayload = {
+      success: true,
+      data: { chat: updatedChat, messages: [userMessage, ...replies] },
+      error: null,
+      meta: {
+        requestId,
+        timestamp: new Date().toISOString(),
+        version: API_VERSION,
+      },
+    };
+
+    return new Response(JSON.stringify(responsePayload), {
+      headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+      status: 200,
+    });
+
+  } catch (error) {
+    console.error(`[${requestId}] RAW ERROR CAUGHT IN MAIN HANDLER:`, error);
+    return handleError(error, requestId, userId, supabase, body);
+  }
+});
@@ -74,6 +74,13 @@ export function redactSensitiveData(data: any): any {
   return redactedData;
 }
 
+// Payload answers arrive as untyped JSON; a value of the wrong type counts as not yet answered
+export const getPayloadNumber = (payload: Record<string, unknown>, field: string): number | null =>
+  typeof payload[field] === 'number' ? payload[field] as number : null;
+
+export const getPayloadBoolean = (payload: Record<string, unknown>, field: string): boolean | null =>
+  typeof payload[field] === 'boolean' ? payload[field] as boolean : null;
+
 export function getSupabaseClient(authHeader: string, serviceRole = false): SupabaseClient {
   const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
   const supabaseKey = serviceRole 
@@ -304,59 +311,243 @@ export async function handleError(
 }
 
 // --- schemas.ts content ---
+export const DecisionIntentSchema = z.enum([
+  'hiring', 
+  'inventory', 
+  'marketing',
+  'savings', 
+  'equipment',
+  'loan_management',
+  'business_expansion',
+  'pricing',
+  'customer_credit',
+  'energy_cost',
+  'owner_drawings',
+  'rotating_savings',
+  'loan_offer_comparison',
+  'lease_renewal',
+]);
+
+export const MIN_LOAN_OFFERS = 2;
+export const MAX_LOAN_OFFERS = 5;
+
+// One concrete loan offer for the loan_offer_comparison intent
+export const LoanOfferSchema = z.object({
+  lender: z.string().max(100).optional(),
+  principal: z.number().positive(),
+  interest_rate_percentage: z.number().min(0).max(1000),
+  rate_period: z.enum(['monthly', 'annual']), // Microfinance and app lenders usually quote monthly rates
+  interest_method: z.enum(['flat', 'reducing']),
+  upfront_fees: z.number().min(0), // Processing, management and insurance fees deducted or paid at the start
+  tenor_months: z.number().positive().max(120),
+  repayment_frequency: z.enum(['weekly', 'monthly']),
+}).refine(offer => offer.upfront_fees < offer.principal, { message: "Upfront fees must be less than the amount borrowed." });
+
+export const DecisionPayloadSchema = z.object({
+  estimated_salary: z.number().min(0).optional(),
+  employment_type: z.enum(['full_time', 'part_time', 'apprentice', 'contract']).optional(),
+  expected_revenue_uplift: z.number().min(0).optional(),
+  hire_equipment_cost: z.number().min(0).optional(),
+  // Fields for inventory management
+  estimated_inventory_cost: z.number().min(0).optional(),
+  inventory_turnover_days: z.number().min(0).optional(),
+  supplier_credit_terms_days: z.number().min(0).optional(),
+  average_receivables_turnover_days: z.number().min(0).optional(),
+  outstanding_supplier_debts: z.number().min(0).optional(),
+  supplier_discount_percentage: z.number().min(0).max(100).optional(),
+  storage_cost_percentage_of_order: z.number().min(0).max(100).optional(),
+  // Fields for marketing & customer growth
+  proposed_marketing_budget: z.number().min(0).optional(),
+  is_localized_promotion: z.boolean().optional(),
+  historic_foot_traffic_increase_observed: z.boolean().optional(),
+  sales_increase_last_campaign_1: z.number().min(0).optional(),
+  sales_increase_last_campaign_2: z.number().min(0).optional(),
+  revenue_gain_last_campaign: z.number().min(0).optional(),
+  marketing_spend_last_campaign: z.number().min(0).optional(),
+  customer_acquisition_cost: z.number().min(0).optional(),
+  customer_lifetime_value: z.number().min(0).optional(),
+  is_festive_or_peak_season: z.boolean().optional(),
+  projected_demand_increase_factor: z.number().min(0).max(20).optional(),
+  has_tested_multiple_channels: z.boolean().optional(),
+  digital_cac: z.number().min(0).optional(),
+  offline_cac: z.number().min(0).optional(),
+  experimental_channel_spend: z.number().min(0).optional(),
+  low_performing_channel_spend: z.number().min(0).optional(),
+  high_performing_channel_roi: z.number().min(0).optional(),
+  // Fields for savings management
+  is_volatile_industry: z.boolean().optional(),
+  is_growth_stage: z.boolean().optional(),
+  is_seasonal_windfall_month: z.boolean().optional(),
+  debt_apr: z.number().min(0).optional(), // Annual Percentage Rate for debt
+  consecutive_negative_cash_flow_months: z.number().min(0).optional(),
+  current_reserve_allocation_percentage_emergency: z.number().min(0).max(100).optional(), // For Rule 4.1, 5.1
+  current_reserve_allocation_percentage_growth: z.number().min(0).max(100).optional(), // For Rule 5.1
+  // Fields for equipment purchase
+  equipment_cost: z.number().min(0).optional(),
+  estimated_roi_percentage: z.number().min(0).max(1000).optional(), // ROI can be high
+  equipment_monthly_cash_benefit: z.number().min(0).optional(),
+  equipment_useful_life_years: z.number().min(0).max(50).optional(),
+  equipment_salvage_value: z.number().min(0).optional(),
+  lease_monthly_payment: z.number().min(0).optional(),
+  hire_purchase_monthly_payment: z.number().min(0).optional(),
+  hire_purchase_deposit: z.number().min(0).optional(),
+  hire_purchase_months: z.number().int().min(0).max(120).optional(),
+  is_essential_replacement: z.boolean().optional(),
+  current_equipment_utilization_percentage: z.number().min(0).max(100).optional(),
+  // New fields for loan_management
+  total_business_liabilities: z.number().min(0).optional(),
+  total_business_assets: z.number().min(0).optional(),
+  total_monthly_debt_repayments: z.number().min(0).optional(),
+  loan_purpose_is_revenue_generating: z.boolean().optional(),
+  // New fields for business_expansion
+  profit_growth_consistent_6_months: z.boolean().optional(),
+  market_research_validates_demand: z.boolean().optional(),
+  capital_available_percentage_of_cost: z.number().min(0).max(100).optional(),
+  expansion_cost: z.number().min(0).optional(),
+  profit_margin_trend: z.enum(['consistent_growth', 'positive_fluctuating', 'declining_unstable']).optional(),
+  revenue_growth_trend: z.enum(['consistent_growth', 'positive_fluctuating', 'declining_unstable']).optional(),
+  // Fields for pricing
+  current_unit_price: z.number().min(0).optional(),
+  proposed_unit_price: z.number().min(0).optional(),
+  unit_cost: z.number().min(0).optional(),
+  expected_volume_change_percentage: z.number().min(-100).max(1000).optional(), // Negative when fewer units are expected to sell
+  competitor_unit_price: z.number().min(0).optional(), // 0 when unknown
+  // Fields for customer_credit
+  credit_amount: z.number().min(0).optional(),
+  customer_payment_history: z.enum(['always_on_time', 'sometimes_late', 'often_late', 'new_customer']).optional(),
+  outstanding_receivables: z.number().min(0).optional(), // Total currently owed by all customers
+  credit_repayment_period_days: z.number().min(0).optional(),
+  // Fields for energy_cost
+  monthly_fuel_spend: z.number().min(0).optional(),
+  daily_outage_hours: z.number().min(0).max(24).optional(),
+  solar_system_cost: z.number().min(0).optional(),
+  inverter_system_cost: z.number().min(0).optional(), // 0 when no grid-charged inverter is being considered
+  financing_months: z.number().min(0).max(120).optional(), // 0 when paying cash
+  financing_apr: z.number().min(0).max(200).optional(),
+  // Fields for owner_drawings
+  desired_monthly_drawing: z.number().min(0).optional(),
+  personal_monthly_obligations: z.number().min(0).optional(),
+  // Fields for rotating_savings (ajo/esusu)
+  contribution_amount: z.number().min(0).optional(),
+  contribution_frequency: z.enum(['daily', 'weekly', 'monthly']).optional(),
+  group_members: z.number().int().min(0).max(500).optional(),
+  payout_position: z.number().int().min(0).max(500).optional(),
+  // Fields for loan_offer_comparison; offers are checked against LoanOfferSchema by the decision function,
+  // so partly extracted offers can still be completed in the form
+  loan_offers: z.array(z.record(z.string(), z.unknown())).max(MAX_LOAN_OFFERS).optional(),
+  // Fields for lease_renewal
+  rent_amount: z.number().min(0).optional(),
+  renewal_date: z.string().max(10).optional(), // YYYY-MM-DD; checked by the decision function
+  can_move: z.boolean().optional(),
+  moving_cost: z.number().min(0).optional(),
+});
+
+type DecisionPayloadInput = z.infer<typeof DecisionPayloadSchema>;
+type NumericPayloadField = {
+  [K in keyof DecisionPayloadInput]-?: NonNullable<DecisionPayloadInput[K]> extends number ? K : never;
+}[keyof DecisionPayloadInput];
+
+// Rule units plus the durations only answers use
+export type PayloadFieldUnit = RuleUnit | 'hours' | 'years';
+
+// Unit of every numeric payload field. The chat-orchestrator re-declares this map to tell naira amounts
+// from counts, rates and durations in values read from a question, before the engine has asked for them.
+export const PAYLOAD_FIELD_UNITS: Record<NumericPayloadField, PayloadFieldUnit> = {
+  estimated_salary: 'currency',
+  expected_revenue_uplift: 'currency',
+  hire_equipment_cost: 'currency',
+  estimated_inventory_cost: 'currency',
+  inventory_turnover_days: 'days',
+  supplier_credit_terms_days: 'days',
+  average_receivables_turnover_days: 'days',
+  outstanding_supplier_debts: 'currency',
+  supplier_discount_percentage: 'percentage',
+  storage_cost_percentage_of_order: 'percentage',
+  proposed_marketing_budget: 'currency',
+  sales_increase_last_campaign_1: 'percentage',
+  sales_increase_last_campaign_2: 'percentage',
+  revenue_gain_last_campaign: 'currency',
+  marketing_spend_last_campaign: 'currency',
+  customer_acquisition_cost: 'currency',
+  customer_lifetime_value: 'currency',
+  projected_demand_increase_factor: 'multiple',
+  digital_cac: 'currency',
+  offline_cac: 'currency',
+  experimental_channel_spend: 'currency',
+  low_performing_channel_spend: 'currency',
+  high_performing_channel_roi: 'multiple',
+  debt_apr: 'percentage',
+  consecutive_negative_cash_flow_months: 'months',
+  current_reserve_allocation_percentage_emergency: 'percentage',
+  current_reserve_allocation_percentage_growth: 'percentage',
+  equipment_cost: 'currency',
+  estimated_roi_percentage: 'percentage',
+  equipment_monthly_cash_benefit: 'currency',
+  equipment_useful_life_years: 'years',
+  equipment_salvage_value: 'currency',
+  lease_monthly_payment: 'currency',
+  hire_purchase_monthly_payment: 'currency',
+  hire_purchase_deposit: 'currency',
+  hire_purchase_months: 'months',
+  current_equipment_utilization_percentage: 'percentage',
+  total_business_liabilities: 'currency',
+  total_business_assets: 'currency',
+  total_monthly_debt_repayments: 'currency',
+  capital_available_percentage_of_cost: 'percentage',
+  expansion_cost: 'currency',
+  current_unit_price: 'currency',
+  proposed_unit_price: 'currency',
+  unit_cost: 'currency',
+  expected_volume_change_percentage: 'percentage',
+  competitor_unit_price: 'currency',
+  credit_amount: 'currency',
+  outstanding_receivables: 'currency',
+  credit_repayment_period_days: 'days',
+  monthly_fuel_spend: 'currency',
+  daily_outage_hours: 'hours',
+  solar_system_cost: 'currency',
+  inverter_system_cost: 'currency',
+  financing_months: 'months',
+  financing_apr: 'percentage',
+  desired_monthly_drawing: 'currency',
+  personal_monthly_obligations: 'currency',
+  contribution_amount: 'currency',
+  group_members: 'count',
+  payout_position: 'count',
+  rent_amount: 'currency',
+  moving_cost: 'currency',
+};
+
+// Partial override of the vendor's latest financial entry, used by what-if runs
+export const FinancialDataOverrideSchema = z.object({
+  monthly_revenue: z.number().min(0).optional(),
+  monthly_expenses: z.number().min(0).optional(),
+  current_savings: z.number().min(0).optional(),
+});
+
+export const WhatIfVariantSchema = z.object({
+  label: z.string().max(100).optional(),
+  intent: DecisionIntentSchema.optional(), // Defaults to the request intent
+  financial_data: FinancialDataOverrideSchema.optional(),
+  payload: DecisionPayloadSchema.optional(), // Merged over the request payload
+});
+
+export const MAX_WHAT_IF_VARIANTS = 10;
+
 export const DecisionEngineInputSchema = z.object({
-  intent: z.enum([
-    'hiring', 
-    'inventory', 
-    'marketing',
-    'savings', 
-    'equipment',
-    'loan_management',
-    'business_expansion',
-  ]),
+  intent: DecisionIntentSchema,
   question: z.string(),
-  payload: z.object({
-    estimated_salary: z.number().min(0).optional(),
-    // Fields for inventory management
-    estimated_inventory_cost: z.number().min(0).optional(),
-    inventory_turnover_days: z.number().min(0).optional(),
-    supplier_credit_terms_days: z.number().min(0).optional(),
-    average_receivables_turnover_days: z.number().min(0).optional(),
-    outstanding_supplier_debts: z.number().min(0).optional(),
-    supplier_discount_percentage: z.number().min(0).max(100).optional(),
-    storage_cost_percentage_of_order: z.number().min(0).max(100).optional(),
-    // Fields for marketing & customer growth
-    proposed_marketing_budget: z.number().min(0).optional(),
-    is_localized_promotion: z.boolean().optional(),
-    historic_foot_traffic_increase_observed: z.boolean().optional(),
-    sales_increase_last_campaign_1: z.number().min(0).optional(),
-    sales_increase_last_campaign_2: z.number().min(0).optional(),
-    // Fields for savings management
-    is_volatile_industry: z.boolean().optional(),
-    is_growth_stage: z.boolean().optional(),
-    is_seasonal_windfall_month: z.boolean().optional(),
-    debt_apr: z.number().min(0).optional(), // Annual Percentage Rate for debt
-    consecutive_negative_cash_flow_months: z.number().min(0).optional(),
-    current_reserve_allocation_percentage_emergency: z.number().min(0).max(100).optional(), // For Rule 4.1, 5.1
-    current_reserve_allocation_percentage_growth: z.number().min(0).max(100).optional(), // For Rule 5.1
-    // Fields for equipment purchase
-    equipment_cost: z.number().min(0).optional(),
-    estimated_roi_percentage: z.number().min(0).max(1000).optional(), // ROI can be high
-    is_essential_replacement: z.boolean().optional(),
-    current_equipment_utilization_percentage: z.number().min(0).max(100).optional(),
-    // New fields for loan_management
-    total_business_liabilities: z.number().min(0).optional(),
-    total_business_assets: z.number().min(0).optional(),
-    total_monthly_debt_repayments: z.number().min(0).optional(),
-    loan_purpose_is_revenue_generating: z.boolean().optional(),
-    // New fields for business_expansion
-    profit_growth_consistent_6_months: z.boolean().optional(),
-    market_research_validates_demand: z.boolean().optional(),
-    capital_available_percentage_of_cost: z.number().min(0).max(100).optional(),
-    expansion_cost: z.number().min(0).optional(),
-    profit_margin_trend: z.enum(['consistent_growth', 'positive_fluctuating', 'declining_unstable']).optional(),
-    revenue_growth_trend: z.enum(['consistent_growth', 'positive_fluctuating', 'declining_unstable']).optional(),
-  }).optional(),
+  rule_pack_version: z.string().optional(), // Pins a specific rule pack; defaults to RULE_PACK_VERSION or the latest pack
+  include_counterfactuals: z.boolean().optional(), // Search for what it would take to APPROVE (default true; skipped when comparing several variants)
+  what_if: z.boolean().optional(), // Evaluate without saving to `decisions`
+  financial_data: FinancialDataOverrideSchema.optional(), // What-if override for a single run
+  variants: z.array(WhatIfVariantSchema).min(1).max(MAX_WHAT_IF_VARIANTS).optional(), // What-if runs compared side by side
+  payload: DecisionPayloadSchema.optional(),
+});
+
+// Lists the remembered business facts, judged by the same age limits the decisions use
+export const BusinessFactsRequestSchema = z.object({
+  action: z.literal('list_business_facts'),
 });
 
 // Define types for the financial data and profile data
@@ -377,7 +568,16 @@ export type DecisionResult = {
   reasoning: string | string[]; // Changed to allow array of strings
   actionable_steps: string[];
   financial_snapshot: FinancialData;
+  rule_trace?: RuleTraceEntry[]; // Every rule evaluated, in order
+  counterfactual_targets?: CounterfactualTarget[]; // Smallest changes that would flip WAIT/REJECT to APPROVE
   estimated_salary?: number | null;
+  employment_type?: 'full_time' | 'part_time' | 'apprentice' | 'contract' | null;
+  expected_revenue_uplift?: number | null;
+  hire_equipment_cost?: number | null;
+  employer_statutory_contributions?: number | null; // Derived: monthly employer pension and NSITF
+  hire_one_off_cost?: number | null; // Derived: onboarding, training and equipment
+  loaded_monthly_hire_cost?: number | null; // Derived: salary, contributions and one-off costs spread over a year
+  hire_payback_months?: number | null; // Derived: null when the extra revenue never covers the cost
   estimated_inventory_cost?: number | null;
   inventory_turnover_days?: number | null;
   supplier_credit_terms_days?: number | null;
@@ -391,6 +591,18 @@ export type DecisionResult = {
   historic_foot_traffic_increase_observed?: boolean | null;
   sales_increase_last_campaign_1?: number | null;
   sales_increase_last_campaign_2?: number | null;
+  revenue_gain_last_campaign?: number | null;
+  marketing_spend_last_campaign?: number | null;
+  customer_acquisition_cost?: number | null;
+  customer_lifetime_value?: number | null;
+  is_festive_or_peak_season?: boolean | null;
+  projected_demand_increase_factor?: number | null; // Expected demand multiple during the season (1.5 = 50% more)
+  has_tested_multiple_channels?: boolean | null;
+  digital_cac?: number | null;
+  offline_cac?: number | null;
+  experimental_channel_spend?: number | null; // Part of the budget going to untested channels
+  low_performing_channel_spend?: number | null;
+  high_performing_channel_roi?: number | null; // Revenue per ₦1 spent on the best channel
   // New fields for savings management
   is_volatile_industry?: boolean | null;
   is_growth_stage?: boolean | null;
@@ -406,6 +618,17 @@ export type DecisionResult = {
   estimated_roi_percentage?: number | null;
   is_essential_replacement?: boolean | null;
   current_equipment_utilization_percentage?: number | null;
+  equipment_monthly_cash_benefit?: number | null;
+  equipment_useful_life_years?: number | null;
+  equipment_salvage_value?: number | null;
+  lease_monthly_payment?: number | null;
+  hire_purchase_monthly_payment?: number | null;
+  hire_purchase_deposit?: number | null;
+  hire_purchase_months?: number | null;
+  equipment_discount_rate_percentage?: number | null; // Discount rate the option NPVs were computed at
+  equipment_monthly_depreciation?: number | null; // Derived: straight-line, price less salvage over the useful life
+  equipment_option_results?: EquipmentOptionResult[] | null; // Derived: buy, hire purchase and lease, best first
+  recommended_equipment_option?: EquipmentOption | null;
   // New fields for loan_management
   total_business_liabilities?: number | null;
   total_business_assets?: number | null;
@@ -418,16 +641,84 @@ export type DecisionResult = {
   expansion_cost?: number | null;
   profit_margin_trend?: 'consistent_growth' | 'positive_fluctuating' | 'declining_unstable' | null;
   revenue_growth_trend?: 'consistent_growth' | 'positive_fluctuating' | 'declining_unstable' | null;
+  // Fields for pricing
+  current_unit_price?: number | null;
+  proposed_unit_price?: number | null;
+  unit_cost?: number | null;
+  expected_volume_change_percentage?: number | null;
+  competitor_unit_price?: number | null;
+  current_margin_percentage?: number | null; // Derived: gross margin at the current price
+  new_margin_percentage?: number | null; // Derived: gross margin at the proposed price
+  break_even_volume_change_percentage?: number | null; // Derived: volume change that keeps gross profit unchanged
+  gross_profit_change_percentage?: number | null; // Derived: projected change in gross profit from this product
+  // Fields for customer_credit
+  credit_amount?: number | null;
+  customer_payment_history?: 'always_on_time' | 'sometimes_late' | 'often_late' | 'new_customer' | null;
+  outstanding_receivables?: number | null;
+  credit_repayment_period_days?: number | null;
+  recommended_credit_limit?: number | null; // Derived: most the vendor can safely give this customer (0 when refused)
+  // Fields for energy_cost
+  monthly_fuel_spend?: number | null;
+  daily_outage_hours?: number | null;
+  solar_system_cost?: number | null;
+  inverter_system_cost?: number | null;
+  financing_months?: number | null;
+  financing_apr?: number | null;
+  energy_tco_years?: number | null; // Horizon used for the total cost of ownership figures
+  generator_tco?: number | null; // Derived: total cost of keeping the generator over the horizon
+  solar_tco?: number | null; // Derived
+  inverter_tco?: number | null; // Derived; null when no inverter quote was given
+  solar_payback_months?: number | null; // Derived; null when fuel savings never cover the running costs
+  inverter_payback_months?: number | null; // Derived
+  energy_monthly_payment?: number | null; // Derived: amortized repayment for the recommended system; 0 when paid in cash
+  energy_monthly_saving?: number | null; // Derived: fuel saved by the recommended system, net of its maintenance
+  recommended_energy_option?: 'generator' | 'solar' | 'grid_inverter' | null; // Derived: option with the lowest total cost
+  // Fields for owner_drawings
+  desired_monthly_drawing?: number | null;
+  personal_monthly_obligations?: number | null;
+  recommended_monthly_drawing?: number | null; // Derived: sustainable amount (0 when refused)
+  drawing_schedule?: 'monthly' | 'twice_monthly' | 'weekly' | null; // Derived: how often to pay it
+  drawing_installment_amount?: number | null; // Derived: amount paid on each scheduled date
+  // Fields for rotating_savings
+  contribution_amount?: number | null;
+  contribution_frequency?: 'daily' | 'weekly' | 'monthly' | null;
+  group_members?: number | null;
+  payout_position?: number | null;
+  monthly_contribution?: number | null; // Derived
+  payout_amount?: number | null; // Derived: the pot collected on the member's turn
+  lowest_projected_savings?: number | null; // Derived: low point of savings during the cycle
+  recommended_contribution_amount?: number | null; // Derived: largest affordable contribution (0 when refused)
+  recommended_payout_position?: number | null; // Derived: latest turn that keeps the reserve
+  rotating_savings_projection?: RotatingSavingsMonth[] | null; // Derived: month-by-month cash flow over the cycle
+  // Fields for loan_offer_comparison
+  loan_offers?: z.infer<typeof LoanOfferSchema>[] | null;
+  loan_offer_results?: LoanOfferResult[] | null; // Derived: offers ranked by affordability and effective APR
+  recommended_loan_offer?: number | null; // Derived: position of the best offer in loan_offers (null when refused)
+  // Fields for lease_renewal
+  rent_amount?: number | null;
+  renewal_date?: string | null; // YYYY-MM-DD
+  can_move?: boolean | null;
+  moving_cost?: number | null;
+  months_until_renewal?: number | null; // Derived: whole months left to save
+  monthly_rent_set_aside?: number | null; // Derived: monthly saving needed to have the rent and keep the reserve
+  rent_funding_gap?: number | null; // Derived: shortfall even if all profit until renewal is kept
+  recommended_lease_option?: LeaseOption | null; // Derived
+  lease_sinking_fund_plan?: LeaseSinkingFundMonth[] | null; // Derived: month-by-month saving plan
 };
 
 // Define a type for the data needed response
 export type DataNeededResponse = {
   field: string;
   prompt: string;
-  type: 'number' | 'boolean' | 'text_enum'; // Added 'text_enum' type
+  type: 'number' | 'boolean' | 'text_enum' | 'loan_offers' | 'date'; // 'loan_offers' is a list answered in the form; 'date' is YYYY-MM-DD
   options?: string[]; // Added options for 'text_enum'
   intent_context: { intent: string; decision_type: string; current_payload?: Record<string, any>; };
   canBeZeroOrNone?: boolean; // New field to indicate if '0' or 'none' is a valid input
+  canBeNegative?: boolean; // For signed answers such as an expected drop in sales volume
+  unit?: 'currency'; // Naira amounts, so typed answers such as '50k' are read as money
+  stored_value?: number | boolean | string; // Remembered business fact awaiting confirmation
+  stored_value_updated_at?: string;
+  depends_on?: MissingFieldDependency; // Only needed when another missing field has this answer
 };
 
 // Define the return type for decision functions
@@ -441,14 +732,371 @@ const getNumberOrDefault = (value: number | null | undefined): number => value ?
 const getBooleanOrDefault = (value: boolean | null | undefined): boolean => value ?? false;
 // Removed getStringOrDefault as it was unused
 
+// --- rules/rule_packs.ts content ---
+// Every threshold the decision functions apply lives in a versioned rule pack.
+// Rules are phrased as "healthy" conditions: a rule passes when the vendor's
+// actual value satisfies `actual <operator> threshold`.
+export type RuleOperator = 'gt' | 'gte' | 'lt' | 'lte';
+export type RuleUnit = 'currency' | 'percentage' | 'ratio' | 'multiple' | 'months' | 'days' | 'count';
+
+export type RuleDefinition = {
+  description: string;
+  operator: RuleOperator;
+  threshold: number;
+  unit: RuleUnit; // Unit of the threshold (and of the actual value for unscaled rules)
+  weight: number;
+};
+
+// One entry per rule evaluated for a decision, returned and stored as `rule_trace`.
+export type RuleTraceEntry = {
+  rule_id: string;
+  description: string;
+  inputs: Record<string, number | boolean | string | null>;
+  operator: RuleOperator;
+  threshold: number; // The value the actual was compared against (already scaled for relative rules)
+  actual: number;
+  unit: RuleUnit;
+  passed: boolean;
+  weight: number;
+};
+
+export type RulePack = {
+  version: string;
+  effective_from: string;
+  rules: Record<string, RuleDefinition>; // Keyed by "<intent>.<rule_id>"
+  parameters: Record<string, number>; // Non-comparison values (allocation shares, score cut-offs), keyed the same way
+};
+
+export const RULE_PACKS: Record<string, RulePack> = {
+  '1.0.0': {
+    version: '1.0.0',
+    effective_from: '2026-10-01',
+    rules: {
+      // Hiring
+      'hiring.net_income_positive': { description: 'Net income is positive', operator: 'gt', threshold: 0, unit: 'currency', weight: 1 },
+      'hiring.savings_buffer_months': { description: 'Savings cover at least this many months of expenses', operator: 'gte', threshold: 1, unit: 'months', weight: 1 },
+      'hiring.salary_affordability_multiple': { description: 'Net income is at least this multiple of the salary', operator: 'gte', threshold: 3, unit: 'multiple', weight: 1 },
+      // Inventory
+      'inventory.supplier_debt_to_revenue_ratio': { description: 'Outstanding supplier debts stay within this share of monthly revenue', operator: 'lte', threshold: 0.40, unit: 'ratio', weight: 1 },
+      'inventory.net_income_non_negative': { description: 'Net income is not negative', operator: 'gte', threshold: 0, unit: 'currency', weight: 1 },
+      'inventory.turnover_days': { description: 'Stock sells out in fewer than this many days', operator: 'lt', threshold: 30, unit: 'days', weight: 1 },
+      'inventory.cash_cover_ratio': { description: 'Savings cover at least this multiple of the order value', operator: 'gte', threshold: 1.20, unit: 'multiple', weight: 1 },
+      'inventory.fmcg_supplier_credit_terms_days': { description: 'FMCG supplier credit terms are at most this many days', operator: 'lte', threshold: 30, unit: 'days', weight: 1 },
+      'inventory.fmcg_receivables_turnover_days': { description: 'FMCG customers pay in fewer than this many days', operator: 'lt', threshold: 25, unit: 'days', weight: 1 },
+      'inventory.bulk_discount_percentage': { description: 'Supplier bulk discount is at least this percentage', operator: 'gte', threshold: 15, unit: 'percentage', weight: 0 },
+      'inventory.bulk_storage_cost_percentage': { description: 'Bulk storage cost is at most this percentage of the order', operator: 'lte', threshold: 5, unit: 'percentage', weight: 0 },
+      // Marketing
+      'marketing.debt_ratio': { description: 'Outstanding debts stay within this share of monthly revenue', operator: 'lte', threshold: 0.40, unit: 'ratio', weight: 1 },
+      'marketing.cash_buffer_months': { description: 'Savings cover at least this many months of expenses', operator: 'gte', threshold: 2, unit: 'months', weight: 1 },
+      'marketing.localized_budget_ratio': { description: 'Localized promotion budget stays within this share of revenue', operator: 'lte', threshold: 0.05, unit: 'ratio', weight: 1 },
+      'marketing.campaign_sales_increase_percentage': { description: 'Each of the last two campaigns lifted sales by at least this percentage', operator: 'gte', threshold: 10, unit: 'percentage', weight: 1 },
+      'marketing.budget_to_revenue_ratio': { description: 'Marketing budget stays within this share of revenue', operator: 'lte', threshold: 0.15, unit: 'ratio', weight: 1 },
+      'marketing.profit_margin_override': { description: 'Profit margin above this ratio allows a larger budget', operator: 'gt', threshold: 0.20, unit: 'ratio', weight: 1 },
+      // Savings
+      'savings.negative_cash_flow_months': { description: 'Consecutive negative cash flow months stay below this count', operator: 'lt', threshold: 2, unit: 'count', weight: 1 },
+      'savings.critical_reserve_months': { description: 'Savings cover at least this many months of fixed expenses', operator: 'gte', threshold: 1, unit: 'months', weight: 1 },
+      'savings.reserve_months': { description: 'Savings meet the minimum reserve in months of fixed expenses', operator: 'gte', threshold: 2, unit: 'months', weight: 1 },
+      'savings.reserve_months_volatile': { description: 'Savings meet the volatile-industry reserve in months of fixed expenses', operator: 'gte', threshold: 4, unit: 'months', weight: 1 },
+      'savings.high_interest_apr': { description: 'Highest debt APR stays at or below this percentage', operator: 'lte', threshold: 18, unit: 'percentage', weight: 1 },
+      'savings.high_interest_debt_ratio': { description: 'Debt stays within this share of revenue while carrying high-interest debt', operator: 'lte', threshold: 0.20, unit: 'ratio', weight: 1 },
+      'savings.debt_ratio': { description: 'Debt stays within this share of monthly revenue', operator: 'lte', threshold: 0.30, unit: 'ratio', weight: 1 },
+      'savings.growth_stage_profit_margin': { description: 'Profit margin (%) needed to raise the growth-stage allocation', operator: 'gte', threshold: 20, unit: 'percentage', weight: 0 },
+      'savings.growth_reserve_profit_margin': { description: 'Profit margin (%) needed before growth reserves are used', operator: 'gte', threshold: 15, unit: 'percentage', weight: 0 },
+      'savings.reinvestment_profit_multiple': { description: 'Net profit exceeds this multiple of fixed expenses before reinvesting', operator: 'gt', threshold: 2, unit: 'multiple', weight: 0 },
+      'savings.reinvestment_reserve_months': { description: 'Savings cover at least this many months of fixed expenses before reinvesting', operator: 'gte', threshold: 3, unit: 'months', weight: 0 },
+      // Equipment
+      'equipment.net_income_positive': { description: 'Net income is positive', operator: 'gt', threshold: 0, unit: 'currency', weight: 1 },
+      'equipment.minimum_savings_buffer_months': { description: 'Savings cover at least this many months of expenses for a non-essential purchase', operator: 'gte', threshold: 0.5, unit: 'months', weight: 1 },
+      'equipment.minimum_roi_percentage': { description: 'Expected ROI is at least this percentage for a non-essential purchase', operator: 'gte', threshold: 5, unit: 'percentage', weight: 1 },
+      'equipment.savings_buffer_months': { description: 'Savings cover at least this many months of expenses', operator: 'gte', threshold: 2, unit: 'months', weight: 1 },
+      'equipment.roi_percentage': { description: 'Expected 12-month ROI is at least this percentage', operator: 'gte', threshold: 20, unit: 'percentage', weight: 1 },
+      'equipment.utilization_percentage': { description: 'Existing equipment utilization is at least this percentage', operator: 'gte', threshold: 70, unit: 'percentage', weight: 1 },
+      'equipment.essential_replacement_buffer_months': { description: 'Savings cover at least this many months of expenses for an essential replacement', operator: 'gte', threshold: 1, unit: 'months', weight: 1 },
+      // Loan management
+      'loan_management.debt_to_equity_max': { description: 'Debt-to-Equity ratio stays at or below this level', operator: 'lte', threshold: 2.0, unit: 'multiple', weight: 1 },
+      'loan_management.apr_max': { description: 'Highest debt APR stays at or below this percentage', operator: 'lte', threshold: 25, unit: 'percentage', weight: 1 },
+      'loan_management.repayment_capacity_max': { description: 'Monthly repayments stay at or below this percentage of net profit', operator: 'lte', threshold: 40, unit: 'percentage', weight: 1 },
+      'loan_management.negative_cash_flow_months': { description: 'Consecutive negative cash flow months stay at or below this count', operator: 'lte', threshold: 0, unit: 'count', weight: 1 },
+      'loan_management.debt_to_equity_comfortable': { description: 'Debt-to-Equity ratio is below this level', operator: 'lt', threshold: 1.0, unit: 'multiple', weight: 1 },
+      'loan_management.apr_comfortable': { description: 'Highest debt APR is at or below this percentage', operator: 'lte', threshold: 15, unit: 'percentage', weight: 1 },
+      'loan_management.repayment_capacity_comfortable': { description: 'Monthly repayments are below this percentage of net profit', operator: 'lt', threshold: 20, unit: 'percentage', weight: 1 },
+      // Business expansion
+      'business_expansion.net_profit_positive': { description: 'Net profit is positive', operator: 'gt', threshold: 0, unit: 'currency', weight: 1 },
+      'business_expansion.capital_available_minimum': { description: 'At least this percentage of the expansion cost is available', operator: 'gte', threshold: 50, unit: 'percentage', weight: 1 },
+      'business_expansion.capital_available_strong': { description: 'At least this percentage of the expansion cost is available for a strong case', operator: 'gte', threshold: 70, unit: 'percentage', weight: 1 },
+      // Pricing
+      'pricing.new_unit_margin_positive': { description: 'The proposed price is above the unit cost', operator: 'gt', threshold: 0, unit: 'currency', weight: 1 },
+      'pricing.gross_profit_change_floor_percentage': { description: 'Projected gross profit falls by no more than this percentage', operator: 'gte', threshold: -10, unit: 'percentage', weight: 1 },
+      'pricing.gross_profit_change_percentage': { description: 'Projected gross profit does not fall', operator: 'gte', threshold: 0, unit: 'percentage', weight: 1 },
+      'pricing.minimum_margin_percentage': { description: 'Gross margin at the proposed price is at least this percentage', operator: 'gte', threshold: 10, unit: 'percentage', weight: 1 },
+      'pricing.competitor_price_premium_percentage': { description: 'The proposed price is at most this percentage above the competitor price', operator: 'lte', threshold: 15, unit: 'percentage', weight: 1 },
+      'pricing.price_cut_savings_buffer_months': { description: 'Savings cover at least this many months of expenses while a price cut builds volume', operator: 'gte', threshold: 1, unit: 'months', weight: 1 },
+      // Customer credit
+      'customer_credit.net_income_positive': { description: 'Net income is positive', operator: 'gt', threshold: 0, unit: 'currency', weight: 1 },
+      'customer_credit.savings_after_credit_months': { description: 'Savings left after giving the credit cover at least this many months of expenses', operator: 'gte', threshold: 1, unit: 'months', weight: 1 },
+      'customer_credit.receivables_to_revenue_ratio': { description: 'Total owed by customers, including this credit, stays within this share of monthly revenue', operator: 'lte', threshold: 0.30, unit: 'ratio', weight: 1 },
+      'customer_credit.repayment_period_days': { description: 'The customer repays within this many days', operator: 'lte', threshold: 30, unit: 'days', weight: 1 },
+      // Energy cost
+      'energy_cost.inverter_max_outage_hours': { description: 'Daily grid outage hours are low enough for a grid-charged inverter to recharge', operator: 'lte', threshold: 12, unit: 'count', weight: 0 },
+      'energy_cost.payback_months': { description: 'The system pays for itself through fuel savings within this many months', operator: 'lte', threshold: 36, unit: 'months', weight: 1 },
+      'energy_cost.financing_payment_to_fuel_savings_ratio': { description: 'Monthly repayments stay within this share of the monthly fuel saving', operator: 'lte', threshold: 1, unit: 'ratio', weight: 1 },
+      'energy_cost.savings_after_purchase_months': { description: 'Savings left after a cash purchase cover at least this many months of expenses', operator: 'gte', threshold: 1, unit: 'months', weight: 1 },
+      // Owner drawings (reserve checks reuse the savings rules)
+      'owner_drawings.net_profit_positive': { description: 'Net profit is positive', operator: 'gt', threshold: 0, unit: 'currency', weight: 1 },
+      'owner_drawings.drawing_to_net_profit_ratio': { description: 'The monthly drawing stays within this share of net profit', operator: 'lte', threshold: 0.5, unit: 'ratio', weight: 1 },
+      // Rotating savings (reserve checks reuse the savings rules)
+      'rotating_savings.net_income_positive': { description: 'Net income is positive', operator: 'gt', threshold: 0, unit: 'currency', weight: 1 },
+      'rotating_savings.contribution_to_net_income_ratio': { description: 'Monthly contributions stay within this share of net income', operator: 'lte', threshold: 0.4, unit: 'ratio', weight: 1 },
+      // Loan offer comparison
+      'loan_offer_comparison.net_income_positive': { description: 'Net income is positive', operator: 'gt', threshold: 0, unit: 'currency', weight: 1 },
+      'loan_offer_comparison.repayment_burden_percentage': { description: 'Monthly repayments on the offer stay at or below this percentage of net income', operator: 'lte', threshold: 40, unit: 'percentage', weight: 1 },
+      'loan_offer_comparison.effective_apr_percentage': { description: 'The best affordable offer costs at most this effective annual rate, fees included', operator: 'lte', threshold: 50, unit: 'percentage', weight: 1 },
+      // Lease renewal (the reserve itself is checked with the savings rules)
+      'lease_renewal.net_profit_positive': { description: 'Net profit is positive', operator: 'gt', threshold: 0, unit: 'currency', weight: 1 },
+      'lease_renewal.set_aside_to_net_profit_ratio': { description: 'The monthly rent set-aside stays within this share of net profit', operator: 'lte', threshold: 0.6, unit: 'ratio', weight: 1 },
+    },
+    parameters: {
+      'hiring.approve_min_score': 3,
+      'hiring.wait_min_score': 1,
+      'savings.default_allocation_share': 0.10,
+      'savings.growth_stage_allocation_share': 0.15,
+      'savings.windfall_allocation_share': 0.30,
+      'savings.emergency_fund_share': 0.30,
+      'savings.growth_fund_share': 0.40,
+      'savings.reinvestment_share': 0.20,
+      'equipment.approve_min_conditions': 3,
+      // Upper edges of the cautious (WAIT) bands; values between these and the hard limits are not held against the vendor
+      'loan_management.apr_caution_band_max': 20,
+      'loan_management.repayment_capacity_caution_band_max': 35,
+      'business_expansion.approve_min_conditions': 3,
+      // Share of the vendor's credit capacity offered, by the customer's payment record
+      'customer_credit.limit_share_always_on_time': 1,
+      'customer_credit.limit_share_sometimes_late': 0.5,
+      'customer_credit.limit_share_new_customer': 0.25,
+      'customer_credit.limit_share_often_late': 0,
+      // Energy cost assumptions: shares of generator running cost each system replaces, and upkeep as a share of system cost
+      'energy_cost.tco_years': 5,
+      'energy_cost.generator_maintenance_share': 0.2,
+      'energy_cost.solar_offset_share': 0.85,
+      'energy_cost.solar_annual_maintenance_share': 0.03,
+      'energy_cost.inverter_offset_share': 0.6,
+      'energy_cost.inverter_long_outage_offset_share': 0.25,
+      'energy_cost.inverter_annual_maintenance_share': 0.1,
+      'owner_drawings.reserve_rebuild_months': 6, // Months over which a reserve shortfall is rebuilt from profit
+      'rotating_savings.daily_contributions_per_month': 26, // Market days
+      'rotating_savings.weekly_contributions_per_month': 52 / 12,
+      'rotating_savings.monthly_contributions_per_month': 1,
+      'loan_offer_comparison.high_fee_share': 0.05, // Upfront fees at or above this share of the principal are called out
+      'lease_renewal.max_months_until_renewal': 36,
+    },
+  },
+};
+
+// Later packs copy the previous pack and override what changed, so a decision made under an
+// earlier version can always be reproduced.
+RULE_PACKS['1.1.0'] = {
+  version: '1.1.0',
+  effective_from: '2026-10-19',
+  rules: {
+    ...RULE_PACKS['1.0.0'].rules,
+    // Hiring: judged on the fully loaded cost of the hire and its payback rather than the salary alone
+    'hiring.loaded_cost_affordability_multiple': { description: 'Net income is at least this multiple of the fully loaded monthly cost of the hire', operator: 'gte', threshold: 3, unit: 'multiple', weight: 1 },
+    'hiring.uplift_covers_cost': { description: 'Profit on the expected extra revenue exceeds the monthly cost of employment', operator: 'gt', threshold: 0, unit: 'currency', weight: 1 },
+    'hiring.payback_months': { description: 'The hire pays back onboarding, equipment and ramp-up costs within this many months', operator: 'lte', threshold: 12, unit: 'months', weight: 1 },
+    // Marketing: campaign ROI, customer economics, channel mix and peak-season budgets
+    'marketing.campaign_roi_multiple': { description: 'Revenue gained from the last campaign is at least this multiple of its cost', operator: 'gte', threshold: 3, unit: 'multiple', weight: 1 },
+    'marketing.ltv_to_cac_ratio': { description: 'Customer lifetime value is at least this multiple of the cost of acquiring a customer', operator: 'gte', threshold: 3, unit: 'multiple', weight: 1 },
+    'marketing.experimental_budget_share': { description: 'Spend on untested channels stays within this share of the budget', operator: 'lte', threshold: 0.20, unit: 'ratio', weight: 1 },
+    'marketing.channel_cac_gap_multiple': { description: 'One channel costs at least this multiple per customer of the other before spend is moved', operator: 'gte', threshold: 1.5, unit: 'multiple', weight: 0 },
+    'marketing.low_performing_spend_share': { description: 'Spend on the costlier channel stays within this share of the budget', operator: 'lte', threshold: 0.30, unit: 'ratio', weight: 1 },
+    'marketing.high_performing_channel_roi': { description: 'The best channel returns at least this multiple before extra budget goes to it', operator: 'gte', threshold: 2, unit: 'multiple', weight: 0 },
+    'marketing.peak_demand_increase_factor': { description: 'Expected demand multiple that justifies a larger peak-season budget', operator: 'gte', threshold: 1.2, unit: 'multiple', weight: 1 },
+    'marketing.peak_season_budget_ratio': { description: 'Peak-season marketing budget stays within this share of revenue', operator: 'lte', threshold: 0.25, unit: 'ratio', weight: 1 },
+    // Equipment: buying compared with hire purchase and leasing, which adds two approval conditions
+    'equipment.savings_after_upfront_months': { description: 'Savings left after the upfront payment cover at least this many months of expenses', operator: 'gte', threshold: 1, unit: 'months', weight: 1 },
+    'equipment.payment_to_net_income_ratio': { description: 'Monthly lease or hire purchase payment stays within this share of net income', operator: 'lte', threshold: 0.3, unit: 'ratio', weight: 1 },
+    'equipment.npv_non_negative': { description: 'The best option is worth at least what it costs over the useful life', operator: 'gte', threshold: 0, unit: 'currency', weight: 1 },
+  },
+  parameters: {
+    ...RULE_PACKS['1.0.0'].parameters,
+    'hiring.employer_pension_rate': 0.10, // Employer minimum under the Pension Reform Act 2014
+    'hiring.nsitf_rate': 0.01, // Employee Compensation Act contribution
+    'hiring.training_salary_multiple_full_time': 0.5, // Onboarding and training, in months of salary
+    'hiring.training_salary_multiple_part_time': 0.25,
+    'hiring.training_salary_multiple_apprentice': 1,
+    'hiring.training_salary_multiple_contract': 0.1,
+    'hiring.ramp_up_months_full_time': 2, // Months before the hire adds sales
+    'hiring.ramp_up_months_part_time': 2,
+    'hiring.ramp_up_months_apprentice': 6,
+    'hiring.ramp_up_months_contract': 1,
+    'hiring.one_off_cost_amortization_months': 12,
+    'hiring.revenue_uplift_margin': 0.35, // Share of extra revenue left after the cost of goods sold
+    'equipment.approve_min_conditions': 5,
+    'equipment.discount_rate_percentage': 25, // Yearly return the money could earn elsewhere, close to Nigerian lending rates
+  },
+};
+
+export const DEFAULT_RULE_PACK_VERSION = '1.1.0';
+
+export type RuleEvaluator = {
+  version: string;
+  has: (ruleId: string) => boolean; // Rules added by later packs are only applied when the pack defines them
+  rule: (ruleId: string) => RuleDefinition;
+  check: (ruleId: string, actual: number, inputs?: RuleTraceEntry['inputs']) => boolean;
+  checkScaled: (ruleId: string, actual: number, base: number, inputs?: RuleTraceEntry['inputs']) => boolean;
+  param: (name: string) => number;
+  trace: RuleTraceEntry[];
+};
+
+export function loadRulePack(version?: string): RulePack {
+  const requestedVersion = version || Deno.env.get('RULE_PACK_VERSION') || DEFAULT_RULE_PACK_VERSION;
+  const pack = RULE_PACKS[requestedVersion];
+  if (!pack) {
+    throw new CustomError(
+      ERROR_CODES.CALC_RULE_NOT_FOUND,
+      `Rule pack version '${requestedVersion}' is not available.`,
+      SEVERITY.MEDIUM,
+      400
+    );
+  }
+  return pack;
+}
+
+// Scopes rule lookups to one intent, so decision functions refer to rules by their short id.
+// Every check is recorded in `trace` in evaluation order.
+export function createRuleEvaluator(pack: RulePack, intent: string): RuleEvaluator {
+  const trace: RuleTraceEntry[] = [];
+
+  const has = (ruleId: string): boolean => `${intent}.${ruleId}` in pack.rules;
+
+  const rule = (ruleId: string): RuleDefinition => {
+    const definition = pack.rules[`${intent}.${ruleId}`];
+    if (!definition) {
+      throw new CustomError(
+        ERROR_CODES.CALC_RULE_NOT_FOUND,
+        `Rule '${intent}.${ruleId}' is not defined in rule pack ${pack.version}.`,
+        SEVERITY.MEDIUM,
+        500
+      );
+    }
+    return definition;
+  };
+
+  const compare = (operator: RuleOperator, actual: number, limit: number): boolean => {
+    switch (operator) {
+      case 'gt': return actual > limit;
+      case 'gte': return actual >= limit;
+      case 'lt': return actual < limit;
+      case 'lte': return actual <= limit;
+    }
+  };
+
+  const record = (
+    ruleId: string,
+    actual: number,
+    limit: number,
+    unit: RuleUnit,
+    inputs: RuleTraceEntry['inputs'],
+  ): boolean => {
+    const { description, operator, weight } = rule(ruleId);
+    const passed = compare(operator, actual, limit);
+    trace.push({ rule_id: `${intent}.${ruleId}`, description, inputs, operator, threshold: limit, actual, unit, passed, weight });
+    return passed;
+  };
+
+  const check = (ruleId: string, actual: number, inputs: RuleTraceEntry['inputs'] = {}): boolean => {
+    const { threshold, unit } = rule(ruleId);
+    return record(ruleId, actual, threshold, unit, inputs);
+  };
+
+  // For rules expressed relative to a base amount, e.g. "savings >= 2 x monthly expenses".
+  // The trace stores the scaled limit, so both sides are in naira.
+  const checkScaled = (ruleId: string, actual: number, base: number, inputs: RuleTraceEntry['inputs'] = {}): boolean => {
+    const { threshold } = rule(ruleId);
+    return record(ruleId, actual, threshold * base, 'currency', inputs);
+  };
+
+  const param = (name: string): number => {
+    const value = pack.parameters[`${intent}.${name}`];
+    if (value === undefined) {
+      throw new CustomError(
+        ERROR_CODES.CALC_RULE_NOT_FOUND,
+        `Parameter '${intent}.${name}' is not defined in rule pack ${pack.version}.`,
+        SEVERITY.MEDIUM,
+        500
+      );
+    }
+    return value;
+  };
+
+  return { version: pack.version, has, rule, check, checkScaled, param, trace };
+}
+
+// Intents that keep a business reserve judge it by the same rules as the savings intent
+export function createReserveRuleEvaluator(pack: RulePack): RuleEvaluator {
+  return createRuleEvaluator(pack, 'savings');
+}
+
 // --- decisions/hiring.ts content ---
+type EmploymentType = 'full_time' | 'part_time' | 'apprentice' | 'contract';
+
+const EMPLOYMENT_TYPES: EmploymentType[] = ['full_time', 'part_time', 'apprentice', 'contract'];
+// Apprentices are paid a stipend and contractors handle their own pension, so only employees attract pension and NSITF
+const STATUTORY_EMPLOYMENT_TYPES: EmploymentType[] = ['full_time', 'part_time'];
+
+type HireCost = {
+  expectedRevenueUplift: number;
+  statutoryContributions: number;
+  monthlyEmploymentCost: number;
+  oneOffCost: number;
+  loadedMonthlyCost: number;
+  rampUpMonths: number;
+  monthlyContribution: number; // Profit on the extra revenue, less the monthly cost of employment
+  paybackMonths: number | null; // Null when the hire never pays for itself
+};
+
+// Fully loaded cost of employment, using the hiring parameters of rule pack 1.1.0 onwards
+function calculateHireCost(
+  rules: RuleEvaluator,
+  estimatedSalary: number,
+  employmentType: EmploymentType,
+  expectedRevenueUplift: number,
+  hireEquipmentCost: number,
+): HireCost {
+  const statutoryRate = STATUTORY_EMPLOYMENT_TYPES.includes(employmentType)
+    ? rules.param('employer_pension_rate') + rules.param('nsitf_rate')
+    : 0;
+  const statutoryContributions = Math.round(estimatedSalary * statutoryRate);
+  const monthlyEmploymentCost = estimatedSalary + statutoryContributions;
+  // Onboarding and training are counted as a share of salary; equipment is the amount given
+  const oneOffCost = Math.round(estimatedSalary * rules.param(`training_salary_multiple_${employmentType}`) + hireEquipmentCost);
+  const loadedMonthlyCost = Math.round(monthlyEmploymentCost + oneOffCost / rules.param('one_off_cost_amortization_months'));
+
+  // No extra revenue comes in while the hire is learning the job
+  const rampUpMonths = rules.param(`ramp_up_months_${employmentType}`);
+  const monthlyContribution = expectedRevenueUplift * rules.param('revenue_uplift_margin') - monthlyEmploymentCost;
+  const paybackMonths = monthlyContribution > 0
+    ? Math.ceil(rampUpMonths + (oneOffCost + rampUpMonths * monthlyEmploymentCost) / monthlyContribution)
+    : null;
+
+  return { expectedRevenueUplift, statutoryContributions, monthlyEmploymentCost, oneOffCost, loadedMonthlyCost, rampUpMonths, monthlyContribution, paybackMonths };
+}
+
 export function makeHiringDecision(
   financialData: FinancialData,
   currentPayload: Record<string, any>,
   _question: string, // Marked as unused
   requestId: string,
+  rulePack: RulePack,
 ): DecisionFunctionReturn {
+  const rules = createRuleEvaluator(rulePack, 'hiring');
   let estimatedSalary = getNumberOrDefault(currentPayload?.estimated_salary);
+  const employmentType: EmploymentType | null = EMPLOYMENT_TYPES.includes(currentPayload?.employment_type) ? currentPayload.employment_type : null;
+  const expectedRevenueUplift: number | null = typeof currentPayload?.expected_revenue_uplift === 'number' ? currentPayload.expected_revenue_uplift : null;
+  const hireEquipmentCost: number | null = typeof currentPayload?.hire_equipment_cost === 'number' ? currentPayload.hire_equipment_cost : null;
+  const intentContext = { intent: "hiring", decision_type: "hiring_affordability", current_payload: currentPayload };
+  // From rule pack 1.1.0 the hire is costed in full (contributions, onboarding, equipment, payback); earlier packs judge the salary alone
+  const costsFullHire = rules.has('loaded_cost_affordability_multiple');
 
   // If estimated_salary is not provided, request it from the user
   if (estimatedSalary <= 0) { // Check for 0 or less, as salary must be positive
@@ -458,7 +1106,8 @@ export function makeHiringDecision(
       dataNeeded: {
         field: "estimated_salary",
         prompt: "What is the estimated monthly salary for the new hire (in ₦)? (Must be greater than 0)",
-        type: 'number', // Specify type
+        type: 'number',
+        unit: 'currency', // Specify type
         intent_context: { 
           intent: "hiring", 
           decision_type: "hiring_affordability",
@@ -468,10 +1117,53 @@ export function makeHiringDecision(
       }
     };
   }
+  if (costsFullHire && employmentType === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "employment_type",
+        prompt: "How will you take this person on?",
+        type: 'text_enum',
+        options: EMPLOYMENT_TYPES,
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+  if (costsFullHire && (expectedRevenueUplift === null || expectedRevenueUplift < 0)) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "expected_revenue_uplift",
+        prompt: "Once they are up to speed, how much extra revenue do you expect this hire to bring in each month (in ₦)? (Type '0' if the role won't directly add sales, e.g. a cleaner)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
+  }
+  if (costsFullHire && (hireEquipmentCost === null || hireEquipmentCost < 0)) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "hire_equipment_cost",
+        prompt: "What will you spend once on equipment, tools or uniforms for the new hire (in ₦)? (Type '0' if none)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
+  }
 
   const { monthly_revenue, monthly_expenses, current_savings } = financialData;
   const net_income = monthly_revenue - monthly_expenses;
-  
+
+  const hireCost = costsFullHire && employmentType !== null && expectedRevenueUplift !== null && hireEquipmentCost !== null
+    ? calculateHireCost(rules, estimatedSalary, employmentType, expectedRevenueUplift, hireEquipmentCost)
+    : null;
+
   const reasons: string[] = []; // Changed to string array
   let score = 0;
   let recommendation: 'APPROVE' | 'WAIT' | 'REJECT';
@@ -479,41 +1171,88 @@ export function makeHiringDecision(
   let actionable_steps: string[];
 
   // Rule 1: Positive Net Income
-  if (net_income > 0) {
+  if (rules.check('net_income_positive', net_income, { monthly_revenue, monthly_expenses })) {
     score += 1;
   } else {
     reasons.push(`Your business is not currently profitable (Net Income: ₦${net_income.toLocaleString()}).`);
   }
 
-  // Rule 2: Savings Buffer
-  if (current_savings >= monthly_expenses) {
+  // Rule 2: Savings Buffer (after paying the one-off hiring costs, when the hire is costed in full)
+  const bufferMonths = rules.rule('savings_buffer_months').threshold;
+  if (hireCost) {
+    const { oneOffCost } = hireCost;
+    if (rules.checkScaled('savings_buffer_months', current_savings - oneOffCost, monthly_expenses, { current_savings, hire_one_off_cost: oneOffCost, monthly_expenses })) {
+      score += 1;
+    } else {
+      reasons.push(`After the one-off hiring costs (₦${oneOffCost.toLocaleString()}), your savings (₦${(current_savings - oneOffCost).toLocaleString()}) would be less than ${bufferMonths} month(s) of expenses (₦${(bufferMonths * monthly_expenses).toLocaleString()}). Build a stronger safety net first.`);
+    }
+  } else if (rules.checkScaled('savings_buffer_months', current_savings, monthly_expenses, { current_savings, monthly_expenses })) {
     score += 1;
   } else {
-    reasons.push(`Your savings (₦${current_savings.toLocaleString()}) are less than one month of expenses (₦${monthly_expenses.toLocaleString()}). Build a stronger safety net first.`);
+    reasons.push(`Your savings (₦${current_savings.toLocaleString()}) are less than ${bufferMonths} month(s) of expenses (₦${(bufferMonths * monthly_expenses).toLocaleString()}). Build a stronger safety net first.`);
   }
 
-  // Rule 3: Affordability
-  if (net_income >= 3 * estimatedSalary) {
-    score += 1;
+  // Rule 3: Affordability from today's profit, before any extra revenue arrives
+  if (hireCost) {
+    const { loadedMonthlyCost } = hireCost;
+    const costMultiple = rules.rule('loaded_cost_affordability_multiple').threshold;
+    if (rules.checkScaled('loaded_cost_affordability_multiple', net_income, loadedMonthlyCost, { net_income, estimated_salary: estimatedSalary, loaded_monthly_hire_cost: loadedMonthlyCost })) {
+      score += 1;
+    } else {
+      reasons.push(`Your net income (₦${net_income.toLocaleString()}) is not at least ${costMultiple}x the full monthly cost of the hire (₦${(costMultiple * loadedMonthlyCost).toLocaleString()}). That cost is ₦${loadedMonthlyCost.toLocaleString()} a month, not just the ₦${estimatedSalary.toLocaleString()} salary.`);
+    }
   } else {
-    reasons.push(`Your net income (₦${net_income.toLocaleString()}) is not at least 3x the estimated salary (₦${(3 * estimatedSalary).toLocaleString()}) for a new hire.`);
+    const salaryMultiple = rules.rule('salary_affordability_multiple').threshold;
+    if (rules.checkScaled('salary_affordability_multiple', net_income, estimatedSalary, { net_income, estimated_salary: estimatedSalary })) {
+      score += 1;
+    } else {
+      reasons.push(`Your net income (₦${net_income.toLocaleString()}) is not at least ${salaryMultiple}x the estimated salary (₦${(salaryMultiple * estimatedSalary).toLocaleString()}) for a new hire.`);
+    }
+  }
+
+  // Rule 4: A hire expected to bring in sales should pay back its cost within the rule pack limit
+  let paybackOk = true;
+  if (hireCost && hireCost.expectedRevenueUplift > 0) {
+    const { expectedRevenueUplift: upliftAmount, monthlyEmploymentCost, monthlyContribution, oneOffCost, rampUpMonths, paybackMonths } = hireCost;
+    const maxPaybackMonths = rules.rule('payback_months').threshold;
+    if (!rules.check('uplift_covers_cost', monthlyContribution, { expected_revenue_uplift: upliftAmount, monthly_employment_cost: monthlyEmploymentCost })) {
+      paybackOk = false;
+      reasons.push(`The profit on ₦${upliftAmount.toLocaleString()} of extra monthly sales will not cover the hire's monthly cost of ₦${monthlyEmploymentCost.toLocaleString()}, so they would never pay for themselves.`);
+    } else if (paybackMonths !== null && !rules.check('payback_months', paybackMonths, { expected_revenue_uplift: upliftAmount, hire_one_off_cost: oneOffCost, ramp_up_months: rampUpMonths })) {
+      paybackOk = false;
+      reasons.push(`The hire would take about ${paybackMonths} months to pay for themselves, longer than ${maxPaybackMonths} months.`);
+    }
   }
 
   // Determine final recommendation
-  if (score === 3) {
+  if (score >= rules.param('approve_min_score') && paybackOk) {
     recommendation = 'APPROVE';
-    reasoning = 'Your business shows strong financial health to support a new hire. You have positive net income, a sufficient savings buffer, and can comfortably afford the estimated salary.';
-    actionable_steps = [
-      'Start by hiring on a contract or part-time basis to test the impact.',
-      'Create a clear job description with defined responsibilities.',
-      'Ensure you have a process for payroll and tax compliance.'
-    ];
-  } else if (score >= 1) {
+    if (hireCost) {
+      const { statutoryContributions, loadedMonthlyCost, paybackMonths } = hireCost;
+      reasoning = `Your business shows strong financial health to support a new hire. You have positive net income, a sufficient savings buffer, and can comfortably afford the full cost of ₦${loadedMonthlyCost.toLocaleString()} a month (salary, ${statutoryContributions > 0 ? 'pension and NSITF, ' : ''}onboarding and equipment)${paybackMonths !== null ? `, and the hire should pay for themselves in about ${paybackMonths} months` : ''}.`;
+      actionable_steps = [
+        ...(employmentType === 'full_time' ? ['Start by hiring on a contract or part-time basis to test the impact.'] : []),
+        'Create a clear job description with defined responsibilities.',
+        ...(statutoryContributions > 0
+          ? [`Register with a pension administrator and NSITF, and budget ₦${statutoryContributions.toLocaleString()} a month for the contributions.`]
+          : ['Ensure you have a process for payroll and tax compliance.']),
+        ...(hireCost.expectedRevenueUplift > 0 ? ['Track the extra sales the new hire brings in against what you expected.'] : []),
+      ];
+    } else {
+      reasoning = 'Your business shows strong financial health to support a new hire. You have positive net income, a sufficient savings buffer, and can comfortably afford the estimated salary.';
+      actionable_steps = [
+        'Start by hiring on a contract or part-time basis to test the impact.',
+        'Create a clear job description with defined responsibilities.',
+        'Ensure you have a process for payroll and tax compliance.'
+      ];
+    }
+  } else if (score >= rules.param('wait_min_score')) {
     recommendation = 'WAIT';
     reasoning = reasons; // Return array of reasons
     actionable_steps = [
       'Focus on increasing revenue or decreasing non-essential costs to improve net income.',
       'Build your emergency savings to cover at least 1-3 months of expenses.',
+      ...(employmentType === 'full_time' ? ['Consider a part-time, apprentice or contract arrangement, which costs less to take on.'] : []),
       'Re-evaluate your hiring needs in 1-2 months.'
     ];
   } else {
@@ -532,7 +1271,15 @@ export function makeHiringDecision(
       reasoning,
       actionable_steps: Array.from(new Set(actionable_steps)), // Ensure unique steps
       financial_snapshot: financialData,
+      rule_trace: rules.trace,
       estimated_salary: estimatedSalary,
+      employment_type: employmentType,
+      expected_revenue_uplift: expectedRevenueUplift,
+      hire_equipment_cost: hireEquipmentCost,
+      employer_statutory_contributions: hireCost?.statutoryContributions ?? null,
+      hire_one_off_cost: hireCost?.oneOffCost ?? null,
+      loaded_monthly_hire_cost: hireCost?.loadedMonthlyCost ?? null,
+      hire_payback_months: hireCost?.paybackMonths ?? null,
     }
   };
 }
@@ -544,8 +1291,10 @@ export function makeInventoryDecision(
   _currentPayload: Record<string, any>, // Marked as unused
   _question: string, // Marked as unused
   requestId: string,
+  rulePack: RulePack,
 ): DecisionFunctionReturn {
   console.log(`[${requestId}] makeInventoryDecision: Start. currentPayload:`, _currentPayload);
+  const rules = createRuleEvaluator(rulePack, 'inventory');
 
   let estimatedInventoryCost: number | null = _currentPayload.hasOwnProperty('estimated_inventory_cost') ? _currentPayload.estimated_inventory_cost : null;
   let inventoryTurnoverDays: number | null = _currentPayload.hasOwnProperty('inventory_turnover_days') ? _currentPayload.inventory_turnover_days : null;
@@ -574,7 +1323,8 @@ export function makeInventoryDecision(
       dataNeeded: {
         field: "estimated_inventory_cost",
         prompt: "What is the estimated cost of the new inventory you want to purchase (in ₦)? (Must be greater than 0)",
-        type: 'number', // Specify type
+        type: 'number',
+        unit: 'currency', // Specify type
         intent_context: { 
           intent: "inventory", 
           decision_type: "inventory_purchase",
@@ -606,7 +1356,8 @@ export function makeInventoryDecision(
       dataNeeded: {
         field: "outstanding_supplier_debts",
         prompt: "What is your total outstanding debt to suppliers (in ₦)? (Type '0' if none)",
-        type: 'number', // Specify type
+        type: 'number',
+        unit: 'currency', // Specify type
         intent_context: { 
           intent: "inventory", 
           decision_type: "inventory_purchase",
@@ -714,12 +1465,13 @@ export function makeInventoryDecision(
 
 
   // Rule 3: Reject conditions (highest priority)
-  if (finalOutstandingSupplierDebts > (0.40 * monthly_revenue)) { // Outstanding supplier debts > 40% of monthly revenue
+  const supplierDebtRule = rules.rule('supplier_debt_to_revenue_ratio');
+  if (!rules.checkScaled('supplier_debt_to_revenue_ratio', finalOutstandingSupplierDebts, monthly_revenue, { outstanding_supplier_debts: finalOutstandingSupplierDebts, monthly_revenue })) {
     rejectScore++;
-    reasons.push(`Your outstanding supplier debts (₦${finalOutstandingSupplierDebts.toLocaleString()}) are more than 40% of your monthly revenue (₦${monthly_revenue.toLocaleString()}).`);
+    reasons.push(`Your outstanding supplier debts (₦${finalOutstandingSupplierDebts.toLocaleString()}) are more than ${supplierDebtRule.threshold * 100}% of your monthly revenue (₦${monthly_revenue.toLocaleString()}).`);
   }
   // Simplified: Cash flow shows 2 consecutive negative months -> check if latest net income is negative
-  if (net_income < 0) {
+  if (!rules.check('net_income_non_negative', net_income, { monthly_revenue, monthly_expenses })) {
     rejectScore++;
     reasons.push(`Your business currently has a negative net income (₦${net_income.toLocaleString()}).`);
   }
@@ -735,37 +1487,43 @@ export function makeInventoryDecision(
   } else {
     // If not rejected, evaluate other rules for APPROVE/WAIT
     
-    // Rule 1: Restock if inventory turnover < 30 days AND cash reserves cover 120% of order value.
-    const cashReservesCoverOrder = current_savings >= (1.20 * finalEstimatedInventoryCost);
-    if (finalInventoryTurnoverDays < 30 && cashReservesCoverOrder) {
+    // Rule 1: Restock if inventory turnover is fast AND cash reserves cover the order value with headroom.
+    const coverMultiple = rules.rule('cash_cover_ratio').threshold;
+    const turnoverIsFast = rules.check('turnover_days', finalInventoryTurnoverDays, { inventory_turnover_days: finalInventoryTurnoverDays });
+    const cashReservesCoverOrder = rules.checkScaled('cash_cover_ratio', current_savings, finalEstimatedInventoryCost, { current_savings, estimated_inventory_cost: finalEstimatedInventoryCost });
+    if (turnoverIsFast && cashReservesCoverOrder) {
       approveScore++;
-      reasons.push(`Your inventory turnover is fast (${finalInventoryTurnoverDays} days) and your cash reserves (₦${current_savings.toLocaleString()}) comfortably cover 120% of the order value (₦${(1.20 * finalEstimatedInventoryCost).toLocaleString()}).`);
+      reasons.push(`Your inventory turnover is fast (${finalInventoryTurnoverDays} days) and your cash reserves (₦${current_savings.toLocaleString()}) comfortably cover ${Math.round(coverMultiple * 100)}% of the order value (₦${(coverMultiple * finalEstimatedInventoryCost).toLocaleString()}).`);
     } else {
-      if (finalInventoryTurnoverDays >= 30) reasons.push(`Your inventory turnover is slow (${finalInventoryTurnoverDays} days).`);
-      if (!cashReservesCoverOrder) reasons.push(`Your cash reserves (₦${current_savings.toLocaleString()}) do not cover 120% of the order value (₦${(1.20 * finalEstimatedInventoryCost).toLocaleString()}).`);
+      if (!turnoverIsFast) reasons.push(`Your inventory turnover is slow (${finalInventoryTurnoverDays} days).`);
+      if (!cashReservesCoverOrder) reasons.push(`Your cash reserves (₦${current_savings.toLocaleString()}) do not cover ${Math.round(coverMultiple * 100)}% of the order value (₦${(coverMultiple * finalEstimatedInventoryCost).toLocaleString()}).`);
       waitScore++;
     }
 
-    // Rule 2: For FMCG vendors, allow restock on credit if supplier terms ≤ 30 days and average receivables turnover < 25 days.
+    // Rule 2: For FMCG vendors, allow restock on credit if supplier terms are short and customers pay quickly.
     if (isFmcgVendor && finalSupplierCreditTermsDays > 0 && finalAverageReceivablesTurnoverDays > 0) { // Ensure these are valid numbers
-      if (finalSupplierCreditTermsDays <= 30 && finalAverageReceivablesTurnoverDays < 25) {
+      const creditTermsOk = rules.check('fmcg_supplier_credit_terms_days', finalSupplierCreditTermsDays, { supplier_credit_terms_days: finalSupplierCreditTermsDays });
+      const receivablesOk = rules.check('fmcg_receivables_turnover_days', finalAverageReceivablesTurnoverDays, { average_receivables_turnover_days: finalAverageReceivablesTurnoverDays });
+      if (creditTermsOk && receivablesOk) {
         approveScore++; // This rule can also contribute to approval
         reasons.push(`As an FMCG vendor, your supplier credit terms (${finalSupplierCreditTermsDays} days) are favorable and your receivables turnover is efficient (${finalAverageReceivablesTurnoverDays} days).`);
       } else {
-        if (finalSupplierCreditTermsDays > 30) reasons.push(`As an FMCG vendor, your supplier credit terms (${finalSupplierCreditTermsDays} days) are longer than ideal.`);
-        if (finalAverageReceivablesTurnoverDays >= 25) reasons.push(`As an FMCG vendor, your average receivables turnover (${finalAverageReceivablesTurnoverDays} days) is slower than recommended.`);
+        if (!creditTermsOk) reasons.push(`As an FMCG vendor, your supplier credit terms (${finalSupplierCreditTermsDays} days) are longer than ideal.`);
+        if (!receivablesOk) reasons.push(`As an FMCG vendor, your average receivables turnover (${finalAverageReceivablesTurnoverDays} days) is slower than recommended.`);
         waitScore++;
       }
     }
 
-    // Additional Case: Bulk-purchase recommendation if supplier discount ≥ 15% and storage cost ≤ 5% of order value.
+    // Additional Case: Bulk-purchase recommendation if the supplier discount is large and storage cost is low.
     if (finalSupplierDiscountPercentage > 0 && finalStorageCostPercentageOfOrder >= 0) { // Ensure these are valid numbers
-      if (finalSupplierDiscountPercentage >= 15 && finalStorageCostPercentageOfOrder <= 5) {
+      const discountOk = rules.check('bulk_discount_percentage', finalSupplierDiscountPercentage, { supplier_discount_percentage: finalSupplierDiscountPercentage });
+      const storageOk = rules.check('bulk_storage_cost_percentage', finalStorageCostPercentageOfOrder, { storage_cost_percentage_of_order: finalStorageCostPercentageOfOrder });
+      if (discountOk && storageOk) {
         reasons.push(`Consider a bulk purchase due to a significant supplier discount (${finalSupplierDiscountPercentage}%) and low storage costs (${finalStorageCostPercentageOfOrder}%).`);
         actionable_steps.push('Explore the possibility of a bulk purchase to maximize savings from the supplier discount.');
       } else {
-        if (finalSupplierDiscountPercentage < 15) reasons.push(`The supplier discount (${finalSupplierDiscountPercentage}%) is not substantial enough for a bulk purchase recommendation.`);
-        if (finalStorageCostPercentageOfOrder > 5) reasons.push(`Storage costs (${finalStorageCostPercentageOfOrder}%) are too high to justify a bulk purchase at this time.`);
+        if (!discountOk) reasons.push(`The supplier discount (${finalSupplierDiscountPercentage}%) is not substantial enough for a bulk purchase recommendation.`);
+        if (!storageOk) reasons.push(`Storage costs (${finalStorageCostPercentageOfOrder}%) are too high to justify a bulk purchase at this time.`);
       }
     }
 
@@ -791,6 +1549,7 @@ export function makeInventoryDecision(
       reasoning,
       actionable_steps,
       financial_snapshot: financialData,
+      rule_trace: rules.trace,
       estimated_inventory_cost: finalEstimatedInventoryCost,
       inventory_turnover_days: finalInventoryTurnoverDays,
       supplier_credit_terms_days: supplierCreditTermsDays, 
@@ -808,14 +1567,32 @@ export function makeMarketingDecision(
   currentPayload: Record<string, any>,
   question: string,
   requestId: string,
+  rulePack: RulePack,
 ): DecisionFunctionReturn {
   console.log(`[${requestId}] makeMarketingDecision: Start. currentPayload:`, currentPayload);
+  const rules = createRuleEvaluator(rulePack, 'marketing');
 
   let proposedMarketingBudget: number | null = currentPayload.hasOwnProperty('proposed_marketing_budget') ? currentPayload.proposed_marketing_budget : null;
   let salesIncreaseLastCampaign1: number | null = currentPayload.hasOwnProperty('sales_increase_last_campaign_1') ? currentPayload.sales_increase_last_campaign_1 : null;
   let salesIncreaseLastCampaign2: number | null = currentPayload.hasOwnProperty('sales_increase_last_campaign_2') ? currentPayload.sales_increase_last_campaign_2 : null;
   let isLocalizedPromotion: boolean | null = currentPayload.hasOwnProperty('is_localized_promotion') ? currentPayload.is_localized_promotion : null;
   let historicFootTrafficIncreaseObserved: boolean | null = currentPayload.hasOwnProperty('historic_foot_traffic_increase_observed') ? currentPayload.historic_foot_traffic_increase_observed : null;
+  // Campaign ROI, customer economics and channel mix are weighed from rule pack 1.1.0. Earlier packs have no rules
+  // for them, so the answers are treated as not applicable and never asked.
+  const weighsChannelMix = rules.has('campaign_roi_multiple');
+  const marketingSpendLastCampaign = weighsChannelMix ? getPayloadNumber(currentPayload, 'marketing_spend_last_campaign') : 0;
+  const revenueGainLastCampaign = getPayloadNumber(currentPayload, 'revenue_gain_last_campaign');
+  const customerAcquisitionCost = weighsChannelMix ? getPayloadNumber(currentPayload, 'customer_acquisition_cost') : 0;
+  const customerLifetimeValue = getPayloadNumber(currentPayload, 'customer_lifetime_value');
+  const experimentalChannelSpend = weighsChannelMix ? getPayloadNumber(currentPayload, 'experimental_channel_spend') : 0;
+  const hasTestedMultipleChannels = weighsChannelMix ? getPayloadBoolean(currentPayload, 'has_tested_multiple_channels') : false;
+  const digitalCac = getPayloadNumber(currentPayload, 'digital_cac');
+  const offlineCac = getPayloadNumber(currentPayload, 'offline_cac');
+  const lowPerformingChannelSpend = getPayloadNumber(currentPayload, 'low_performing_channel_spend');
+  const highPerformingChannelRoi = getPayloadNumber(currentPayload, 'high_performing_channel_roi');
+  const isFestiveOrPeakSeason = weighsChannelMix ? getPayloadBoolean(currentPayload, 'is_festive_or_peak_season') : false;
+  const projectedDemandIncreaseFactor = getPayloadNumber(currentPayload, 'projected_demand_increase_factor');
+  const intentContext = { intent: "marketing", decision_type: "marketing_growth", current_payload: currentPayload };
 
   const { monthly_revenue, monthly_expenses, current_savings } = financialData;
   const net_income = monthly_revenue - monthly_expenses;
@@ -835,6 +1612,7 @@ export function makeMarketingDecision(
         field: "proposed_marketing_budget",
         prompt: "What is your proposed marketing budget for this initiative (in ₦)? (Type '0' if you don't have a specific budget yet)",
         type: 'number',
+        unit: 'currency',
         intent_context: {
           intent: "marketing",
           decision_type: "marketing_growth",
@@ -884,6 +1662,162 @@ export function makeMarketingDecision(
     }
   }
 
+  // Campaign ROI, customer economics and channel mix
+  if (marketingSpendLastCampaign === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "marketing_spend_last_campaign",
+        prompt: "How much did you spend on your last marketing campaign (in ₦)? (Type '0' if you have not run one)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
+  }
+  if (marketingSpendLastCampaign > 0 && revenueGainLastCampaign === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "revenue_gain_last_campaign",
+        prompt: "Roughly how much extra revenue did that campaign bring in (in ₦)? (Type '0' if you saw no increase)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
+  }
+  if (customerAcquisitionCost === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "customer_acquisition_cost",
+        prompt: "On average, how much marketing do you spend to win one new customer (in ₦)? (Type '0' if you don't know)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
+  }
+  if (customerAcquisitionCost > 0 && customerLifetimeValue === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "customer_lifetime_value",
+        prompt: "How much profit does a typical customer bring you over all the time they keep buying from you (in ₦)?",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
+  }
+  if (experimentalChannelSpend === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "experimental_channel_spend",
+        prompt: "How much of this budget will go to channels you have never tried before (in ₦)? (Type '0' if none)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
+  }
+  if (hasTestedMultipleChannels === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "has_tested_multiple_channels",
+        prompt: "Have you tried both online (social media, WhatsApp, ads) and offline (flyers, radio, market-day promotions) marketing?",
+        type: 'boolean',
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+  if (hasTestedMultipleChannels) {
+    if (digitalCac === null) {
+      return {
+        decision: null,
+        dataNeeded: {
+          field: "digital_cac",
+          prompt: "Roughly how much does it cost you to win one customer through online marketing (in ₦)? (Type '0' if you don't know)",
+          type: 'number',
+          unit: 'currency',
+          intent_context: intentContext,
+          canBeZeroOrNone: true,
+        }
+      };
+    }
+    if (offlineCac === null) {
+      return {
+        decision: null,
+        dataNeeded: {
+          field: "offline_cac",
+          prompt: "Roughly how much does it cost you to win one customer through offline marketing (in ₦)? (Type '0' if you don't know)",
+          type: 'number',
+          unit: 'currency',
+          intent_context: intentContext,
+          canBeZeroOrNone: true,
+        }
+      };
+    }
+    if (lowPerformingChannelSpend === null) {
+      return {
+        decision: null,
+        dataNeeded: {
+          field: "low_performing_channel_spend",
+          prompt: "How much of this budget is planned for your weaker channel, the one that brings fewer customers per naira (in ₦)? (Type '0' if none)",
+          type: 'number',
+          unit: 'currency',
+          intent_context: intentContext,
+          canBeZeroOrNone: true,
+        }
+      };
+    }
+    if (highPerformingChannelRoi === null) {
+      return {
+        decision: null,
+        dataNeeded: {
+          field: "high_performing_channel_roi",
+          prompt: "For your best channel, how much revenue comes back for every ₦1 spent? (e.g., '3' for ₦3. Type '0' if you don't know)",
+          type: 'number',
+          intent_context: intentContext,
+          canBeZeroOrNone: true,
+        }
+      };
+    }
+  }
+  if (isFestiveOrPeakSeason === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "is_festive_or_peak_season",
+        prompt: "Is this campaign for a festive or peak season (e.g., Christmas, Sallah, Easter, back-to-school)?",
+        type: 'boolean',
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+  if (isFestiveOrPeakSeason && (projectedDemandIncreaseFactor === null || projectedDemandIncreaseFactor <= 0)) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "projected_demand_increase_factor",
+        prompt: "How much do you expect demand to rise during this season? (e.g., '1.5' for 50% more customers than usual)",
+        type: 'number',
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+
   // Boolean data next
   if (isLocalizedPromotion === null) {
     return {
@@ -928,18 +1862,34 @@ export function makeMarketingDecision(
   const finalSalesIncreaseLastCampaign2 = getNumberOrDefault(salesIncreaseLastCampaign2);
   const finalIsLocalizedPromotion = getBooleanOrDefault(isLocalizedPromotion);
   const finalHistoricFootTrafficIncreaseObserved = getBooleanOrDefault(historicFootTrafficIncreaseObserved);
+  const channelMixFields = {
+    marketing_spend_last_campaign: marketingSpendLastCampaign,
+    revenue_gain_last_campaign: marketingSpendLastCampaign > 0 ? revenueGainLastCampaign : null,
+    customer_acquisition_cost: customerAcquisitionCost > 0 ? customerAcquisitionCost : null,
+    customer_lifetime_value: customerAcquisitionCost > 0 ? customerLifetimeValue : null,
+    experimental_channel_spend: experimentalChannelSpend,
+    has_tested_multiple_channels: hasTestedMultipleChannels,
+    digital_cac: hasTestedMultipleChannels && digitalCac ? digitalCac : null,
+    offline_cac: hasTestedMultipleChannels && offlineCac ? offlineCac : null,
+    low_performing_channel_spend: hasTestedMultipleChannels ? lowPerformingChannelSpend : null,
+    high_performing_channel_roi: hasTestedMultipleChannels && highPerformingChannelRoi ? highPerformingChannelRoi : null,
+    is_festive_or_peak_season: isFestiveOrPeakSeason,
+    projected_demand_increase_factor: isFestiveOrPeakSeason ? projectedDemandIncreaseFactor : null,
+  };
 
   // --- Rule Evaluation ---
 
-  // Rule 3: Block if debt ratio > 0.4 or if cash buffer < 2 months. (Highest priority - REJECT)
+  // Rule 3: Block if the debt ratio or cash buffer is outside the rule pack limits. (Highest priority - REJECT)
   const debtRatio = monthly_revenue > 0 ? (getNumberOrDefault(currentPayload.outstanding_supplier_debts) / monthly_revenue) : 0;
   const cashBufferMonths = monthly_expenses > 0 ? (current_savings / monthly_expenses) : 0;
+  const maxDebtRatio = rules.rule('debt_ratio').threshold;
+  const minBufferMonths = rules.rule('cash_buffer_months').threshold;
 
-  if (debtRatio > 0.4) {
-    reasons.push(`Your debt ratio (${(debtRatio * 100).toFixed(1)}%) is high (above 40% of monthly revenue).`);
+  if (!rules.check('debt_ratio', debtRatio, { outstanding_supplier_debts: getNumberOrDefault(currentPayload.outstanding_supplier_debts), monthly_revenue })) {
+    reasons.push(`Your debt ratio (${(debtRatio * 100).toFixed(1)}%) is high (above ${Math.round(maxDebtRatio * 100)}% of monthly revenue).`);
     recommendation = 'REJECT';
-  } else if (cashBufferMonths < 2) {
-    reasons.push(`Your cash buffer (${cashBufferMonths.toFixed(1)} months) is less than 2 months of expenses.`);
+  } else if (!rules.check('cash_buffer_months', cashBufferMonths, { current_savings, monthly_expenses })) {
+    reasons.push(`Your cash buffer (${cashBufferMonths.toFixed(1)} months) is less than ${minBufferMonths} months of expenses.`);
     recommendation = 'REJECT';
   }
 
@@ -956,11 +1906,13 @@ export function makeMarketingDecision(
         reasoning,
         actionable_steps,
         financial_snapshot: financialData,
+        rule_trace: rules.trace,
         proposed_marketing_budget: finalProposedMarketingBudget,
         is_localized_promotion: finalIsLocalizedPromotion,
         historic_foot_traffic_increase_observed: finalHistoricFootTrafficIncreaseObserved,
         sales_increase_last_campaign_1: finalSalesIncreaseLastCampaign1,
         sales_increase_last_campaign_2: finalSalesIncreaseLastCampaign2,
+        ...(weighsChannelMix ? channelMixFields : {}),
       }
     };
   }
@@ -970,34 +1922,109 @@ export function makeMarketingDecision(
   let waitScore = 0;
 
   // Additional Case: Approve localized promotions
-  if (finalIsLocalizedPromotion && finalProposedMarketingBudget <= (0.05 * monthly_revenue) && finalHistoricFootTrafficIncreaseObserved) {
+  const localizedBudgetShare = rules.rule('localized_budget_ratio').threshold;
+  const localizedBudgetOk = finalIsLocalizedPromotion &&
+    rules.checkScaled('localized_budget_ratio', finalProposedMarketingBudget, monthly_revenue, { proposed_marketing_budget: finalProposedMarketingBudget, monthly_revenue });
+  if (finalIsLocalizedPromotion && localizedBudgetOk && finalHistoricFootTrafficIncreaseObserved) {
     approveScore++;
-    reasons.push(`This is a localized promotion with a budget within 5% of revenue and historic success in increasing foot traffic.`);
+    reasons.push(`This is a localized promotion with a budget within ${Math.round(localizedBudgetShare * 100)}% of revenue and historic success in increasing foot traffic.`);
     actionable_steps.push('Monitor foot traffic and sales closely during the promotion.', 'Gather customer feedback to refine future localized efforts.');
   } else if (finalIsLocalizedPromotion) {
-    if (finalProposedMarketingBudget > (0.05 * monthly_revenue)) reasons.push(`The budget for this localized promotion (₦${finalProposedMarketingBudget.toLocaleString()}) exceeds 5% of your monthly revenue (₦${(0.05 * monthly_revenue).toLocaleString()}).`);
+    if (!localizedBudgetOk) reasons.push(`The budget for this localized promotion (₦${finalProposedMarketingBudget.toLocaleString()}) exceeds ${Math.round(localizedBudgetShare * 100)}% of your monthly revenue (₦${(localizedBudgetShare * monthly_revenue).toLocaleString()}).`);
     if (!finalHistoricFootTrafficIncreaseObserved) reasons.push(`No historic foot traffic increase observed for similar localized promotions.`);
     waitScore++;
   }
 
-  // Rule 2: Approve scaling if last 2 campaigns → ≥ 10% increase in sales.
-  if (impliesScaling && finalSalesIncreaseLastCampaign1 >= 10 && finalSalesIncreaseLastCampaign2 >= 10) {
+  // Rule 2: Approve scaling if the last 2 campaigns each lifted sales by the rule pack minimum.
+  const minCampaignIncrease = rules.rule('campaign_sales_increase_percentage').threshold;
+  const campaign1Ok = impliesScaling && rules.check('campaign_sales_increase_percentage', finalSalesIncreaseLastCampaign1, { campaign: 'last', sales_increase_last_campaign_1: finalSalesIncreaseLastCampaign1 });
+  const campaign2Ok = impliesScaling && rules.check('campaign_sales_increase_percentage', finalSalesIncreaseLastCampaign2, { campaign: 'second_to_last', sales_increase_last_campaign_2: finalSalesIncreaseLastCampaign2 });
+  if (impliesScaling && campaign1Ok && campaign2Ok) {
     approveScore++;
     reasons.push(`Your last two campaigns showed strong sales growth (Campaign 1: ${finalSalesIncreaseLastCampaign1}%, Campaign 2: ${finalSalesIncreaseLastCampaign2}%).`);
     actionable_steps.push('Analyze what made the previous campaigns successful and replicate those elements.', 'Consider A/B testing new marketing channels or messages.');
   } else if (impliesScaling) {
-    if (finalSalesIncreaseLastCampaign1 < 10) reasons.push(`Sales increase from last campaign (${finalSalesIncreaseLastCampaign1}%) was less than 10%.`);
-    if (finalSalesIncreaseLastCampaign2 < 10) reasons.push(`Sales increase from second-to-last campaign (${finalSalesIncreaseLastCampaign2}%) was less than 10%.`);
+    if (!campaign1Ok) reasons.push(`Sales increase from last campaign (${finalSalesIncreaseLastCampaign1}%) was less than ${minCampaignIncrease}%.`);
+    if (!campaign2Ok) reasons.push(`Sales increase from second-to-last campaign (${finalSalesIncreaseLastCampaign2}%) was less than ${minCampaignIncrease}%.`);
     waitScore++;
   }
 
-  // Rule 1: Allocate ≤ 15% of revenue to marketing unless profit margin > 20%.
+  // Rule 4: The last campaign must have paid for itself several times over before spending again.
+  if (marketingSpendLastCampaign > 0 && revenueGainLastCampaign !== null) {
+    const campaignRoi = revenueGainLastCampaign / marketingSpendLastCampaign;
+    const minCampaignRoi = rules.rule('campaign_roi_multiple').threshold;
+    if (rules.check('campaign_roi_multiple', campaignRoi, { revenue_gain_last_campaign: revenueGainLastCampaign, marketing_spend_last_campaign: marketingSpendLastCampaign })) {
+      approveScore++;
+      reasons.push(`Your last campaign brought in ₦${campaignRoi.toFixed(1)} of revenue for every ₦1 spent.`);
+    } else {
+      reasons.push(`Your last campaign brought in only ₦${campaignRoi.toFixed(1)} of revenue for every ₦1 spent; at least ₦${minCampaignRoi} is needed to cover the cost of the goods sold as well as the marketing.`);
+      actionable_steps.push('Find out why the last campaign underperformed (wrong audience, channel, offer or timing) before repeating it.');
+      waitScore++;
+    }
+  }
+
+  // Rule 5: A customer should be worth several times what it costs to win them.
+  if (customerAcquisitionCost > 0 && customerLifetimeValue !== null) {
+    const ltvToCac = customerLifetimeValue / customerAcquisitionCost;
+    const minLtvToCac = rules.rule('ltv_to_cac_ratio').threshold;
+    if (rules.check('ltv_to_cac_ratio', ltvToCac, { customer_lifetime_value: customerLifetimeValue, customer_acquisition_cost: customerAcquisitionCost })) {
+      approveScore++;
+      reasons.push(`Each customer is worth ${ltvToCac.toFixed(1)}x what it costs to win them.`);
+    } else {
+      reasons.push(`Each customer is worth only ${ltvToCac.toFixed(1)}x what it costs to win them (₦${customerAcquisitionCost.toLocaleString()}); aim for at least ${minLtvToCac}x.`);
+      actionable_steps.push('Bring customers back more often (loyalty offers, WhatsApp broadcasts to past buyers) so each one is worth more.');
+      waitScore++;
+    }
+  }
+
+  // Rule 6: Keep untested channels to a small share of the budget, and move spend away from the costlier channel.
+  if (finalProposedMarketingBudget > 0 && experimentalChannelSpend > 0) {
+    const maxExperimentalShare = rules.rule('experimental_budget_share').threshold;
+    if (!rules.checkScaled('experimental_budget_share', experimentalChannelSpend, finalProposedMarketingBudget, { experimental_channel_spend: experimentalChannelSpend, proposed_marketing_budget: finalProposedMarketingBudget })) {
+      reasons.push(`₦${experimentalChannelSpend.toLocaleString()} of the budget is going to channels you have never tried; keep that within ${Math.round(maxExperimentalShare * 100)}% (₦${Math.round(maxExperimentalShare * finalProposedMarketingBudget).toLocaleString()}) until they prove themselves.`);
+      waitScore++;
+    }
+  }
+  if (hasTestedMultipleChannels && digitalCac && offlineCac) {
+    const [strongChannel, weakChannel] = digitalCac <= offlineCac ? ['online', 'offline'] : ['offline', 'online'];
+    const strongCac = Math.min(digitalCac, offlineCac);
+    const weakCac = Math.max(digitalCac, offlineCac);
+    const channelGapSignificant = rules.check('channel_cac_gap_multiple', weakCac / strongCac, { digital_cac: digitalCac, offline_cac: offlineCac });
+    if (channelGapSignificant && lowPerformingChannelSpend && finalProposedMarketingBudget > 0) {
+      const maxWeakShare = rules.rule('low_performing_spend_share').threshold;
+      if (!rules.checkScaled('low_performing_spend_share', lowPerformingChannelSpend, finalProposedMarketingBudget, { low_performing_channel_spend: lowPerformingChannelSpend, proposed_marketing_budget: finalProposedMarketingBudget })) {
+        const amountToMove = Math.round(lowPerformingChannelSpend - maxWeakShare * finalProposedMarketingBudget);
+        reasons.push(`Customers from ${weakChannel} marketing cost you ₦${weakCac.toLocaleString()} each, against ₦${strongCac.toLocaleString()} ${strongChannel}, yet ₦${lowPerformingChannelSpend.toLocaleString()} of the budget is planned for ${weakChannel}.`);
+        actionable_steps.push(`Move about ₦${amountToMove.toLocaleString()} from ${weakChannel} to ${strongChannel} marketing.`);
+        waitScore++;
+      }
+    } else if (channelGapSignificant) {
+      actionable_steps.push(`Keep most of the budget on ${strongChannel} marketing, where customers cost ₦${strongCac.toLocaleString()} each against ₦${weakCac.toLocaleString()} ${weakChannel}.`);
+    }
+  }
+  if (hasTestedMultipleChannels && highPerformingChannelRoi &&
+    rules.check('high_performing_channel_roi', highPerformingChannelRoi, { high_performing_channel_roi: highPerformingChannelRoi })) {
+    actionable_steps.push(`Put any extra budget into your best channel first; it returns ₦${highPerformingChannelRoi} for every ₦1 spent.`);
+  }
+
+  // Rule 1: Keep the marketing allocation within the revenue share unless the profit margin is strong.
   const marketingBudgetPercentage = monthly_revenue > 0 ? (finalProposedMarketingBudget / monthly_revenue) : 0;
-  if (marketingBudgetPercentage <= 0.15 || profit_margin > 0.20) {
+  const maxBudgetShare = rules.rule('budget_to_revenue_ratio').threshold;
+  const marginOverride = rules.rule('profit_margin_override').threshold;
+  // Festive seasons with a clear rise in demand justify a larger share of revenue
+  const peakSeasonBudgetOk = isFestiveOrPeakSeason && projectedDemandIncreaseFactor !== null &&
+    rules.check('peak_demand_increase_factor', projectedDemandIncreaseFactor, { projected_demand_increase_factor: projectedDemandIncreaseFactor }) &&
+    rules.check('peak_season_budget_ratio', marketingBudgetPercentage, { proposed_marketing_budget: finalProposedMarketingBudget, monthly_revenue });
+  if (rules.check('budget_to_revenue_ratio', marketingBudgetPercentage, { proposed_marketing_budget: finalProposedMarketingBudget, monthly_revenue }) ||
+    rules.check('profit_margin_override', profit_margin, { net_income, monthly_revenue })) {
     approveScore++;
-    reasons.push(`Your proposed marketing budget is within 15% of revenue (${(marketingBudgetPercentage * 100).toFixed(1)}%) or your profit margin is healthy (${(profit_margin * 100).toFixed(1)}%).`);
+    reasons.push(`Your proposed marketing budget is within ${Math.round(maxBudgetShare * 100)}% of revenue (${(marketingBudgetPercentage * 100).toFixed(1)}%) or your profit margin is healthy (${(profit_margin * 100).toFixed(1)}%).`);
+  } else if (peakSeasonBudgetOk) {
+    approveScore++;
+    reasons.push(`Demand is expected to rise ${projectedDemandIncreaseFactor}x this season, so a budget of ${(marketingBudgetPercentage * 100).toFixed(1)}% of revenue (up to ${Math.round(rules.rule('peak_season_budget_ratio').threshold * 100)}%) is reasonable.`);
+    actionable_steps.push('Stock up before the season starts so the extra customers do not find empty shelves.');
   } else {
-    reasons.push(`Your proposed marketing budget (${(marketingBudgetPercentage * 100).toFixed(1)}%) exceeds 15% of revenue and your profit margin (${(profit_margin * 100).toFixed(1)}%) is not yet above 20%.`);
+    reasons.push(`Your proposed marketing budget (${(marketingBudgetPercentage * 100).toFixed(1)}%) exceeds ${Math.round(maxBudgetShare * 100)}% of revenue and your profit margin (${(profit_margin * 100).toFixed(1)}%) is not yet above ${Math.round(marginOverride * 100)}%.`);
     waitScore++;
   }
 
@@ -1023,11 +2050,13 @@ export function makeMarketingDecision(
       reasoning,
       actionable_steps,
       financial_snapshot: financialData,
+      rule_trace: rules.trace,
       proposed_marketing_budget: finalProposedMarketingBudget,
       is_localized_promotion: finalIsLocalizedPromotion,
       historic_foot_traffic_increase_observed: finalHistoricFootTrafficIncreaseObserved,
       sales_increase_last_campaign_1: finalSalesIncreaseLastCampaign1,
       sales_increase_last_campaign_2: finalSalesIncreaseLastCampaign2,
+      ...(weighsChannelMix ? channelMixFields : {}),
     }
   };
 }
@@ -1039,8 +2068,10 @@ export function makeSavingsDecision(
   currentPayload: Record<string, any>,
   _question: string, // Marked as unused
   requestId: string,
+  rulePack: RulePack,
 ): DecisionFunctionReturn {
   console.log(`[${requestId}] makeSavingsDecision: Start. currentPayload:`, currentPayload);
+  const rules = createRuleEvaluator(rulePack, 'savings');
 
   let isVolatileIndustry: boolean | null = currentPayload.hasOwnProperty('is_volatile_industry') ? currentPayload.is_volatile_industry : null;
   let isGrowthStage: boolean | null = currentPayload.hasOwnProperty('is_growth_stage') ? currentPayload.is_growth_stage : null;
@@ -1135,6 +2166,7 @@ export function makeSavingsDecision(
         field: "outstanding_supplier_debts",
         prompt: "What is your total outstanding debt to suppliers (in ₦)? (Type '0' if none)",
         type: 'number',
+        unit: 'currency',
         intent_context: {
           intent: "savings",
           decision_type: "savings_strategy",
@@ -1193,19 +2225,20 @@ export function makeSavingsDecision(
 
   console.log(`[${requestId}] makeSavingsDecision: Starting rule evaluation. Initial recommendation: ${recommendation}`);
 
-  // Rule 6.1: Suspend extra savings allocations if 2 consecutive months of negative cash flow. (Highest priority for "WAIT")
-  if (finalConsecutiveNegativeCashFlowMonths >= 2) {
+  // Rule 6.1: Suspend extra savings allocations after repeated months of negative cash flow. (Highest priority for "WAIT")
+  if (!rules.check('negative_cash_flow_months', finalConsecutiveNegativeCashFlowMonths, { consecutive_negative_cash_flow_months: finalConsecutiveNegativeCashFlowMonths })) {
     recommendation = 'WAIT';
     reasons.push(`You've had negative cash flow for ${finalConsecutiveNegativeCashFlowMonths} consecutive months. Prioritize stabilizing cash flow before increasing savings.`);
     actionable_steps.push('Focus on increasing revenue and reducing non-essential expenses immediately.', 'Review all outgoing payments and negotiate terms if possible.', 'Avoid new investments until cash flow is positive for at least one month.');
     console.log(`[${requestId}] Rule 6.1 triggered. Recommendation: ${recommendation}`);
   }
 
-  // Rule 1.3: Critical alert if reserves fall below 1 month of expenses. (Highest priority for "REJECT")
-  if (current_savings < fixed_operating_expenses) {
+  // Rule 1.3: Critical alert if reserves fall below the critical reserve. (Highest priority for "REJECT")
+  const criticalReserveMonths = rules.rule('critical_reserve_months').threshold;
+  if (!rules.checkScaled('critical_reserve_months', current_savings, fixed_operating_expenses, { current_savings, fixed_operating_expenses })) {
     recommendation = 'REJECT';
-    reasons.push(`Your current savings (₦${current_savings.toLocaleString()}) are below 1 month of fixed operating expenses (₦${fixed_operating_expenses.toLocaleString()}). This is a critical alert.`);
-    actionable_steps.push('Immediately cut non-essential expenses.', 'Explore short-term revenue generation strategies.', 'Prioritize building your emergency fund to at least 1 month of expenses.');
+    reasons.push(`Your current savings (₦${current_savings.toLocaleString()}) are below ${criticalReserveMonths} month(s) of fixed operating expenses (₦${(criticalReserveMonths * fixed_operating_expenses).toLocaleString()}). This is a critical alert.`);
+    actionable_steps.push('Immediately cut non-essential expenses.', 'Explore short-term revenue generation strategies.', `Prioritize building your emergency fund to at least ${criticalReserveMonths} month(s) of expenses.`);
     console.log(`[${requestId}] Rule 1.3 triggered. Recommendation: ${recommendation}`);
   }
 
@@ -1213,14 +2246,15 @@ export function makeSavingsDecision(
   if (recommendation !== 'REJECT' && recommendation !== 'WAIT') {
     console.log(`[${requestId}] Proceeding with non-critical rules. Current recommendation: ${recommendation}`);
     // Rule 1.1 & 1.2: Minimum Reserve Thresholds
-    let requiredReserveMonths = 2;
+    const reserveRuleId = finalIsVolatileIndustry ? 'reserve_months_volatile' : 'reserve_months';
+    const requiredReserveMonths = rules.rule(reserveRuleId).threshold;
     if (finalIsVolatileIndustry) {
-      requiredReserveMonths = 4;
       reasons.push(`As your business is in a volatile industry, a higher reserve buffer is recommended.`);
     }
     const requiredReserveAmount = requiredReserveMonths * fixed_operating_expenses;
+    const meetsReserve = rules.checkScaled(reserveRuleId, current_savings, fixed_operating_expenses, { current_savings, fixed_operating_expenses, is_volatile_industry: finalIsVolatileIndustry });
 
-    if (current_savings < requiredReserveAmount) {
+    if (!meetsReserve) {
       recommendation = 'WAIT';
       reasons.push(`Your current savings (₦${current_savings.toLocaleString()}) are below the recommended minimum of ${requiredReserveMonths} months of fixed operating expenses (₦${requiredReserveAmount.toLocaleString()}).`);
       actionable_steps.push(`Prioritize building your savings to at least ₦${requiredReserveAmount.toLocaleString()}.`);
@@ -1229,26 +2263,26 @@ export function makeSavingsDecision(
 
     // Rule 3.1 & 3.2 & 3.3: Debt vs. Savings Balance
     // Prioritize high-interest debt repayment over general savings if APR is high
-    if (finalDebtApr > 18 && debt_ratio > 0.2) { // High APR and moderate debt ratio
+    if (!rules.check('high_interest_apr', finalDebtApr, { debt_apr: finalDebtApr }) && !rules.check('high_interest_debt_ratio', debt_ratio, { outstanding_supplier_debts: finalOutstandingSupplierDebts, monthly_revenue })) { // High APR and moderate debt ratio
       if (recommendation === 'APPROVE') recommendation = 'WAIT'; // Downgrade if not already REJECT/WAIT
-      reasons.push(`Your highest debt APR (${finalDebtApr}%) is high and your debt ratio (${(debt_ratio * 100).toFixed(1)}%) is above 20%. Prioritize aggressively paying down this high-interest debt.`);
+      reasons.push(`Your highest debt APR (${finalDebtApr}%) is high and your debt ratio (${(debt_ratio * 100).toFixed(1)}%) is above ${Math.round(rules.rule('high_interest_debt_ratio').threshold * 100)}%. Prioritize aggressively paying down this high-interest debt.`);
       actionable_steps.push('Focus on aggressively paying down high-interest debt first, as it offers a guaranteed return.', 'Maintain a minimum 5% of net profit allocation to savings even while servicing debt to preserve some liquidity.');
       console.log(`[${requestId}] Rule 3.1/3.2 triggered (high interest debt). Recommendation: ${recommendation}`);
-    } else if (finalDebtApr > 0 && debt_ratio > 0.3) { // Moderate debt ratio with any debt
+    } else if (finalDebtApr > 0 && !rules.check('debt_ratio', debt_ratio, { outstanding_supplier_debts: finalOutstandingSupplierDebts, monthly_revenue })) { // Moderate debt ratio with any debt
       if (recommendation === 'APPROVE') recommendation = 'WAIT'; // Downgrade if not already REJECT/WAIT
-      reasons.push(`Your debt ratio (${(debt_ratio * 100).toFixed(1)}%) is above 30%. Consider prioritizing debt repayment.`);
+      reasons.push(`Your debt ratio (${(debt_ratio * 100).toFixed(1)}%) is above ${Math.round(rules.rule('debt_ratio').threshold * 100)}%. Consider prioritizing debt repayment.`);
       actionable_steps.push('Review debt repayment strategies to reduce your overall debt burden.', 'Maintain a minimum 10% of net profit allocation to savings.');
       console.log(`[${requestId}] Rule 3.2 triggered (non-critical). Recommendation: ${recommendation}`);
     }
 
     // Rule 2: Monthly Allocation
-    let targetAllocationPercentage = 0.10;
-    if (finalIsGrowthStage && profit_margin >= 20) {
-      targetAllocationPercentage = 0.15;
+    let targetAllocationPercentage = rules.param('default_allocation_share');
+    if (finalIsGrowthStage && rules.check('growth_stage_profit_margin', profit_margin, { net_profit, monthly_revenue })) {
+      targetAllocationPercentage = rules.param('growth_stage_allocation_share');
       reasons.push(`Your business is in a growth stage with a healthy profit margin (${profit_margin.toFixed(1)}%).`);
     }
     if (finalIsSeasonalWindfallMonth) {
-      targetAllocationPercentage = Math.max(targetAllocationPercentage, 0.30);
+      targetAllocationPercentage = Math.max(targetAllocationPercentage, rules.param('windfall_allocation_share'));
       reasons.push(`This is a seasonal windfall month. Allocate a higher percentage of profit to savings.`);
     }
 
@@ -1262,28 +2296,36 @@ export function makeSavingsDecision(
     }
 
     // Rule 4.1: Emergency Fund Strategy
-    const dedicatedEmergencyFundTarget = current_savings * 0.30;
-    actionable_steps.push(`Carve out ₦${dedicatedEmergencyFundTarget.toLocaleString()} (30% of current savings) as a dedicated emergency fund.`);
+    const emergencyFundShare = rules.param('emergency_fund_share');
+    const dedicatedEmergencyFundTarget = current_savings * emergencyFundShare;
+    actionable_steps.push(`Carve out ₦${dedicatedEmergencyFundTarget.toLocaleString()} (${Math.round(emergencyFundShare * 100)}% of current savings) as a dedicated emergency fund.`);
     actionable_steps.push('Keep emergency reserves in liquid or low-risk instruments (bank deposits, treasury bills).');
 
     // Rule 5.1: Growth & Investment Reserves
-    if (current_savings >= requiredReserveAmount) {
-      const growthFundAllocation = current_savings * 0.40;
-      actionable_steps.push(`Consider allocating ₦${growthFundAllocation.toLocaleString()} (40% of current savings) to a dedicated Growth/Expansion Fund.`);
+    if (meetsReserve) {
+      const growthFundShare = rules.param('growth_fund_share');
+      const growthFundAllocation = current_savings * growthFundShare;
+      actionable_steps.push(`Consider allocating ₦${growthFundAllocation.toLocaleString()} (${Math.round(growthFundShare * 100)}% of current savings) to a dedicated Growth/Expansion Fund.`);
     }
 
     // Rule 5.2 & 5.3: Growth reserves usage conditions
-    if (current_savings >= requiredReserveAmount && profit_margin >= 15) {
-      actionable_steps.push('Growth reserves can be used for expansion if your profit margin remains above 15% and your overall financial health is strong.');
+    const growthReserveMargin = rules.rule('growth_reserve_profit_margin').threshold;
+    if (meetsReserve && rules.check('growth_reserve_profit_margin', profit_margin, { net_profit, monthly_revenue })) {
+      actionable_steps.push(`Growth reserves can be used for expansion if your profit margin remains above ${growthReserveMargin}% and your overall financial health is strong.`);
     } else {
-      reasons.push('Growth reserves should not be used for expansion if your profit margin is below 15% or if it would deplete your emergency buffer.');
+      reasons.push(`Growth reserves should not be used for expansion if your profit margin is below ${growthReserveMargin}% or if it would deplete your emergency buffer.`);
       console.log(`[${requestId}] Rule 5.2/5.3 triggered (conditions not met).`);
     }
 
     // Rule 8: Profit Reinvestment (New Rule)
-    if (recommendation === 'APPROVE' && net_profit > (2 * fixed_operating_expenses) && current_savings >= (3 * fixed_operating_expenses)) {
-      const reinvestmentAmount = net_profit * 0.20; // Suggest 20% of net profit for reinvestment
-      actionable_steps.push(`Consider reinvesting up to ₦${reinvestmentAmount.toLocaleString()} (20% of your net profit) into strategic business growth initiatives, such as new equipment, marketing, or staff training.`);
+    if (
+      recommendation === 'APPROVE' &&
+      rules.checkScaled('reinvestment_profit_multiple', net_profit, fixed_operating_expenses, { net_profit, fixed_operating_expenses }) &&
+      rules.checkScaled('reinvestment_reserve_months', current_savings, fixed_operating_expenses, { current_savings, fixed_operating_expenses })
+    ) {
+      const reinvestmentShare = rules.param('reinvestment_share');
+      const reinvestmentAmount = net_profit * reinvestmentShare;
+      actionable_steps.push(`Consider reinvesting up to ₦${reinvestmentAmount.toLocaleString()} (${Math.round(reinvestmentShare * 100)}% of your net profit) into strategic business growth initiatives, such as new equipment, marketing, or staff training.`);
       reasons.push(`Your business has strong profitability (Net Profit: ₦${net_profit.toLocaleString()}) and a healthy savings buffer (₦${current_savings.toLocaleString()}), making it an ideal time to consider strategic reinvestment for growth.`);
     }
 
@@ -1329,6 +2371,7 @@ export function makeSavingsDecision(
       reasoning: finalReasoning,
       actionable_steps,
       financial_snapshot: financialData,
+      rule_trace: rules.trace,
       is_volatile_industry: finalIsVolatileIndustry,
       is_growth_stage: finalIsGrowthStage,
       is_seasonal_windfall_month: finalIsSeasonalWindfallMonth,
@@ -1342,19 +2385,147 @@ export function makeSavingsDecision(
 }
 
 // --- decisions/equipment.ts content ---
+export type EquipmentOption = 'buy' | 'hire_purchase' | 'lease';
+
+// Cash effect and value of one way of getting the equipment
+export type EquipmentOptionResult = {
+  option: EquipmentOption;
+  upfront_cash: number; // Purchase price, hire-purchase deposit, or nothing for a lease
+  monthly_payment: number;
+  payment_months: number;
+  monthly_net_cash_flow: number; // Monthly benefit minus the payment while payments last
+  total_paid: number;
+  npv: number; // Net present value over the useful life, salvage value included where you own the equipment
+  payback_months: number | null; // Months to earn back the upfront cash; null when there is none or it is never earned back
+  affordable: boolean;
+  rank: number; // 1 is the best affordable option
+};
+
+const EQUIPMENT_OPTION_LABELS: Record<EquipmentOption, string> = {
+  buy: 'buying with cash',
+  hire_purchase: 'hire purchase',
+  lease: 'leasing',
+};
+
+// Monthly cash flows from today (month 0) to the end of the useful life, discounted at `monthlyRate`
+const evaluateEquipmentOption = (
+  option: EquipmentOption,
+  upfrontCash: number,
+  monthlyPayment: number,
+  paymentMonths: number,
+  monthlyBenefit: number,
+  usefulLifeMonths: number,
+  salvageValue: number,
+  monthlyRate: number,
+) => {
+  let npv = -upfrontCash;
+  let cumulativeCash = -upfrontCash;
+  let paybackMonths: number | null = null;
+  for (let month = 1; month <= usefulLifeMonths; month++) {
+    const cashFlow = monthlyBenefit - (month <= paymentMonths ? monthlyPayment : 0);
+    npv += cashFlow / Math.pow(1 + monthlyRate, month);
+    cumulativeCash += cashFlow;
+    if (paybackMonths === null && upfrontCash > 0 && cumulativeCash >= 0) paybackMonths = month;
+  }
+  // Leased equipment goes back to the owner, so only buying and hire purchase keep the salvage value
+  if (option !== 'lease') npv += salvageValue / Math.pow(1 + monthlyRate, usefulLifeMonths);
+  return {
+    option,
+    upfront_cash: Math.round(upfrontCash),
+    monthly_payment: Math.round(monthlyPayment),
+    payment_months: paymentMonths,
+    monthly_net_cash_flow: Math.round(monthlyBenefit - monthlyPayment),
+    total_paid: Math.round(upfrontCash + monthlyPayment * paymentMonths),
+    npv: Math.round(npv),
+    payback_months: paybackMonths,
+  };
+};
+
+type EquipmentOptionInputs = {
+  equipmentCost: number;
+  monthlyCashBenefit: number;
+  usefulLifeYears: number;
+  salvageValue: number;
+  leaseMonthlyPayment: number; // 0 when leasing is not offered
+  hirePurchaseMonthlyPayment: number; // 0 when hire purchase is not offered
+  hirePurchaseDeposit: number;
+  hirePurchaseMonths: number;
+};
+
+type EquipmentOptionComparison = {
+  monthlyCashBenefit: number;
+  usefulLifeYears: number;
+  discountRatePercentage: number;
+  monthlyDepreciation: number;
+  results: EquipmentOptionResult[]; // Best first
+  summary: string;
+};
+
+const formatNpv = (npv: number) => `${npv < 0 ? '-' : ''}₦${Math.abs(npv).toLocaleString()}`;
+
+// Buying, hire purchase and leasing compared by NPV and cash flow, using the equipment rules of rule pack 1.1.0 onwards
+function compareEquipmentOptions(rules: RuleEvaluator, financialData: FinancialData, inputs: EquipmentOptionInputs): EquipmentOptionComparison {
+  const { equipmentCost, monthlyCashBenefit, usefulLifeYears, salvageValue, leaseMonthlyPayment, hirePurchaseMonthlyPayment, hirePurchaseDeposit, hirePurchaseMonths } = inputs;
+  const { monthly_revenue, monthly_expenses, current_savings } = financialData;
+  const net_income = monthly_revenue - monthly_expenses;
+
+  const discountRatePercentage = rules.param('discount_rate_percentage');
+  const monthlyDiscountRate = Math.pow(1 + discountRatePercentage / 100, 1 / 12) - 1;
+  const usefulLifeMonths = Math.max(1, Math.round(usefulLifeYears * 12));
+  // Straight-line depreciation: what to set aside each month to replace the equipment when it wears out
+  const monthlyDepreciation = Math.round((equipmentCost - salvageValue) / usefulLifeMonths);
+  const optionCandidates = [
+    evaluateEquipmentOption('buy', equipmentCost, 0, 0, monthlyCashBenefit, usefulLifeMonths, salvageValue, monthlyDiscountRate),
+    ...(hirePurchaseMonthlyPayment > 0
+      ? [evaluateEquipmentOption('hire_purchase', hirePurchaseDeposit, hirePurchaseMonthlyPayment, Math.min(hirePurchaseMonths, usefulLifeMonths), monthlyCashBenefit, usefulLifeMonths, salvageValue, monthlyDiscountRate)]
+      : []),
+    // A lease is paid for as long as the equipment is in use
+    ...(leaseMonthlyPayment > 0
+      ? [evaluateEquipmentOption('lease', 0, leaseMonthlyPayment, usefulLifeMonths, monthlyCashBenefit, usefulLifeMonths, salvageValue, monthlyDiscountRate)]
+      : []),
+  ];
+  const evaluatedOptions = optionCandidates.map(candidate => {
+    const savingsOk = rules.checkScaled('savings_after_upfront_months', current_savings - candidate.upfront_cash, monthly_expenses, { option: candidate.option, current_savings, upfront_cash: candidate.upfront_cash, monthly_expenses });
+    const paymentOk = candidate.monthly_payment === 0 || (net_income > 0 &&
+      rules.check('payment_to_net_income_ratio', candidate.monthly_payment / net_income, { option: candidate.option, monthly_payment: candidate.monthly_payment, net_income }));
+    return { ...candidate, affordable: savingsOk && paymentOk };
+  });
+  // Affordable options first, then the highest net present value
+  const equipmentOptionResults: EquipmentOptionResult[] = [...evaluatedOptions]
+    .sort((a, b) => Number(b.affordable) - Number(a.affordable) || b.npv - a.npv)
+    .map((result, index) => ({ ...result, rank: index + 1 }));
+  const summary = equipmentOptionResults.length > 1
+    ? `Net present value over ${usefulLifeYears} year(s) at a ${discountRatePercentage}% yearly discount rate: ${equipmentOptionResults.map(result => `${EQUIPMENT_OPTION_LABELS[result.option]} ${formatNpv(result.npv)}`).join('; ')}.`
+    : `Net present value of buying over ${usefulLifeYears} year(s) at a ${discountRatePercentage}% yearly discount rate: ${formatNpv(equipmentOptionResults[0].npv)}.`;
+
+  return { monthlyCashBenefit, usefulLifeYears, discountRatePercentage, monthlyDepreciation, results: equipmentOptionResults, summary };
+}
+
 export function makeEquipmentDecision(
   financialData: FinancialData,
   _profileData: ProfileData, // Marked as unused
   currentPayload: Record<string, any>,
   _question: string, // Marked as unused
   requestId: string,
+  rulePack: RulePack,
 ): DecisionFunctionReturn {
   console.log(`[${requestId}] makeEquipmentDecision: Start. currentPayload:`, currentPayload);
+  const rules = createRuleEvaluator(rulePack, 'equipment');
 
   let equipmentCost: number | null = currentPayload.hasOwnProperty('equipment_cost') ? currentPayload.equipment_cost : null;
   let estimatedRoiPercentage: number | null = currentPayload.hasOwnProperty('estimated_roi_percentage') ? currentPayload.estimated_roi_percentage : null;
   let isEssentialReplacement: boolean | null = currentPayload.hasOwnProperty('is_essential_replacement') ? currentPayload.is_essential_replacement : null;
   let currentEquipmentUtilizationPercentage: number | null = currentPayload.hasOwnProperty('current_equipment_utilization_percentage') ? currentPayload.current_equipment_utilization_percentage : null;
+  const monthlyCashBenefit = getPayloadNumber(currentPayload, 'equipment_monthly_cash_benefit');
+  const usefulLifeYears = getPayloadNumber(currentPayload, 'equipment_useful_life_years');
+  const salvageValue = getPayloadNumber(currentPayload, 'equipment_salvage_value');
+  const leaseMonthlyPayment = getPayloadNumber(currentPayload, 'lease_monthly_payment');
+  const hirePurchaseMonthlyPayment = getPayloadNumber(currentPayload, 'hire_purchase_monthly_payment');
+  const hirePurchaseDeposit = getPayloadNumber(currentPayload, 'hire_purchase_deposit');
+  const hirePurchaseMonths = getPayloadNumber(currentPayload, 'hire_purchase_months');
+  const intentContext = { intent: "equipment", decision_type: "equipment_purchase", current_payload: currentPayload };
+  // From rule pack 1.1.0 buying is compared with hire purchase and leasing; earlier packs judge the purchase price alone
+  const comparesFinancingOptions = rules.has('npv_non_negative');
 
   const { monthly_revenue, monthly_expenses, current_savings } = financialData;
   const net_income = monthly_revenue - monthly_expenses;
@@ -1372,6 +2543,7 @@ export function makeEquipmentDecision(
         field: "equipment_cost",
         prompt: "What is the total cost of the equipment you are considering (in ₦)? (Must be greater than 0)",
         type: 'number',
+        unit: 'currency',
         intent_context: {
           intent: "equipment",
           decision_type: "equipment_purchase",
@@ -1429,7 +2601,96 @@ export function makeEquipmentDecision(
       }
     };
   }
-  console.log(`[${requestId}] makeEquipmentDecision: After Data Gathering. currentPayload:`, currentPayload);
+  if (comparesFinancingOptions && (monthlyCashBenefit === null || monthlyCashBenefit < 0)) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "equipment_monthly_cash_benefit",
+        prompt: "How much extra profit or cost savings will this equipment bring in each month (in ₦)? (Type '0' if it only replaces equipment you already rely on)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
+  }
+  if (comparesFinancingOptions && (usefulLifeYears === null || usefulLifeYears <= 0)) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "equipment_useful_life_years",
+        prompt: "For how many years do you expect the equipment to keep working well? (Must be greater than 0)",
+        type: 'number',
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+  if (comparesFinancingOptions && (salvageValue === null || salvageValue < 0 || salvageValue > equipmentCost)) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "equipment_salvage_value",
+        prompt: `How much could you sell the equipment for at the end of its useful life (in ₦)? (No more than the ₦${equipmentCost.toLocaleString()} price. Type '0' if nothing)`,
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
+  }
+  if (comparesFinancingOptions && (leaseMonthlyPayment === null || leaseMonthlyPayment < 0)) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "lease_monthly_payment",
+        prompt: "If you can lease or rent the equipment instead, what is the monthly payment (in ₦)? (Type '0' if leasing is not an option)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
+  }
+  if (comparesFinancingOptions && (hirePurchaseMonthlyPayment === null || hirePurchaseMonthlyPayment < 0)) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "hire_purchase_monthly_payment",
+        prompt: "If the seller offers hire purchase (pay small-small and own it at the end), what is the monthly installment (in ₦)? (Type '0' if hire purchase is not an option)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
+  }
+  if (comparesFinancingOptions && (hirePurchaseMonthlyPayment ?? 0) > 0 && (hirePurchaseDeposit === null || hirePurchaseDeposit < 0)) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "hire_purchase_deposit",
+        prompt: "How much deposit is due upfront on the hire purchase (in ₦)? (Type '0' if none)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
+  }
+  if (comparesFinancingOptions && (hirePurchaseMonthlyPayment ?? 0) > 0 && (hirePurchaseMonths === null || hirePurchaseMonths <= 0)) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "hire_purchase_months",
+        prompt: "Over how many months would you pay the hire purchase installments? (Must be greater than 0)",
+        type: 'number',
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+  console.log(`[${requestId}] makeEquipmentDecision: After Data Gathering. currentPayload:`, currentPayload);
 
   // --- Final Validation and Defaulting ---
   const finalEquipmentCost = getNumberOrDefault(equipmentCost);
@@ -1437,16 +2698,31 @@ export function makeEquipmentDecision(
   const finalIsEssentialReplacement = getBooleanOrDefault(isEssentialReplacement);
   const finalCurrentEquipmentUtilizationPercentage = getNumberOrDefault(currentEquipmentUtilizationPercentage);
 
+  const optionComparison = comparesFinancingOptions && monthlyCashBenefit !== null && usefulLifeYears !== null && salvageValue !== null &&
+    leaseMonthlyPayment !== null && hirePurchaseMonthlyPayment !== null
+    ? compareEquipmentOptions(rules, financialData, {
+      equipmentCost: finalEquipmentCost,
+      monthlyCashBenefit,
+      usefulLifeYears,
+      salvageValue,
+      leaseMonthlyPayment,
+      hirePurchaseMonthlyPayment,
+      hirePurchaseDeposit: hirePurchaseDeposit ?? 0,
+      hirePurchaseMonths: hirePurchaseMonths ?? 0,
+    })
+    : null;
+  const bestOption = optionComparison?.results[0] ?? null;
+
   // --- Rule Evaluation ---
 
   // 1. REJECT (Highest Priority)
-  if (net_income <= 0) {
+  if (!rules.check('net_income_positive', net_income, { monthly_revenue, monthly_expenses })) {
     recommendation = 'REJECT';
     reasons.push(`Your business is currently not profitable (Net Income: ₦${net_income.toLocaleString()}).`);
-  } else if (savings_buffer_months < 0.5 && !finalIsEssentialReplacement) {
+  } else if (!rules.check('minimum_savings_buffer_months', savings_buffer_months, { current_savings, monthly_expenses }) && !finalIsEssentialReplacement) {
     recommendation = 'REJECT';
-    reasons.push(`Your savings (₦${current_savings.toLocaleString()}) are less than half a month of expenses (₦${monthly_expenses.toLocaleString()}), and this is not a critical replacement.`);
-  } else if (finalEstimatedRoiPercentage < 5 && !finalIsEssentialReplacement) {
+    reasons.push(`Your savings (₦${current_savings.toLocaleString()}) are less than ${rules.rule('minimum_savings_buffer_months').threshold} month(s) of expenses (₦${monthly_expenses.toLocaleString()}), and this is not a critical replacement.`);
+  } else if (!rules.check('minimum_roi_percentage', finalEstimatedRoiPercentage, { estimated_roi_percentage: finalEstimatedRoiPercentage }) && !finalIsEssentialReplacement) {
     recommendation = 'REJECT';
     reasons.push(`The estimated ROI (${finalEstimatedRoiPercentage}%) is very low, and this is not a critical replacement.`);
   }
@@ -1462,41 +2738,69 @@ export function makeEquipmentDecision(
     let approveConditionsMet = 0;
     let waitConditionsTriggered = 0;
 
-    // Condition: Positive cash flow (already checked by net_income > 0)
-    // Condition: Savings buffer >= 2 months
-    if (savings_buffer_months >= 2) {
+    // Condition: Positive cash flow (already checked by the net income rule)
+    // Condition: Savings buffer
+    const targetBufferMonths = rules.rule('savings_buffer_months').threshold;
+    if (rules.check('savings_buffer_months', savings_buffer_months, { current_savings, monthly_expenses })) {
       approveConditionsMet++;
     } else {
-      reasons.push(`Your savings buffer (${savings_buffer_months.toFixed(1)} months) is less than 2 months of operating expenses.`);
+      reasons.push(`Your savings buffer (${savings_buffer_months.toFixed(1)} months) is less than ${targetBufferMonths} months of operating expenses.`);
       waitConditionsTriggered++;
     }
 
-    // Condition: ROI >= 20%
-    if (finalEstimatedRoiPercentage >= 20) {
+    // Condition: ROI target
+    if (rules.check('roi_percentage', finalEstimatedRoiPercentage, { estimated_roi_percentage: finalEstimatedRoiPercentage })) {
       approveConditionsMet++;
     } else {
-      reasons.push(`The estimated ROI (${finalEstimatedRoiPercentage}%) is below the target of 20%.`);
+      reasons.push(`The estimated ROI (${finalEstimatedRoiPercentage}%) is below the target of ${rules.rule('roi_percentage').threshold}%.`);
       waitConditionsTriggered++;
     }
 
-    // Condition: Equipment utilization >= 70% (or 0 if new/not applicable)
-    if (finalCurrentEquipmentUtilizationPercentage >= 70 || finalCurrentEquipmentUtilizationPercentage === 0) {
+    // Condition: Equipment utilization target (or 0 if new/not applicable)
+    if (rules.check('utilization_percentage', finalCurrentEquipmentUtilizationPercentage, { current_equipment_utilization_percentage: finalCurrentEquipmentUtilizationPercentage }) || finalCurrentEquipmentUtilizationPercentage === 0) {
       approveConditionsMet++;
     } else {
-      reasons.push(`Your existing equipment utilization (${finalCurrentEquipmentUtilizationPercentage}%) is below 70%.`);
+      reasons.push(`Your existing equipment utilization (${finalCurrentEquipmentUtilizationPercentage}%) is below ${rules.rule('utilization_percentage').threshold}%.`);
       waitConditionsTriggered++;
     }
 
+    if (optionComparison && bestOption) {
+      const { monthlyCashBenefit: benefit, usefulLifeYears: lifeYears, discountRatePercentage, results } = optionComparison;
+
+      // Condition: the best way of paying for it fits your cash flow
+      if (bestOption.affordable) {
+        approveConditionsMet++;
+      } else {
+        const upfrontBufferMonths = rules.rule('savings_after_upfront_months').threshold;
+        const prefix = results.length > 1
+          ? `None of your options fits your cash flow: even ${EQUIPMENT_OPTION_LABELS[bestOption.option]}`
+          : 'Buying outright does not fit your cash flow: it';
+        reasons.push(bestOption.upfront_cash > current_savings - upfrontBufferMonths * monthly_expenses
+          ? `${prefix} would leave your savings below ${upfrontBufferMonths} month(s) of expenses after paying ₦${bestOption.upfront_cash.toLocaleString()} upfront.`
+          : `${prefix} would take more than ${Math.round(rules.rule('payment_to_net_income_ratio').threshold * 100)}% of your net income (₦${net_income.toLocaleString()}) in monthly payments of ₦${bestOption.monthly_payment.toLocaleString()}.`);
+        waitConditionsTriggered++;
+      }
+
+      // Condition: the equipment earns more than it costs over its life (replacements that only keep you running are compared on cost alone)
+      if (benefit === 0 || rules.check('npv_non_negative', bestOption.npv, { option: bestOption.option, monthly_cash_benefit: benefit, discount_rate_percentage: discountRatePercentage })) {
+        approveConditionsMet++;
+      } else {
+        reasons.push(`At the ₦${benefit.toLocaleString()} a month it brings in, the equipment is worth less than it costs over its ${lifeYears}-year life, whichever way you pay (best option: ${EQUIPMENT_OPTION_LABELS[bestOption.option]}, net present value ${formatNpv(bestOption.npv)}).`);
+        waitConditionsTriggered++;
+      }
+    }
+
     // Special APPROVE condition for essential replacement
-    if (finalIsEssentialReplacement && net_income > 0 && savings_buffer_months >= 1) {
+    const essentialBufferMonths = rules.rule('essential_replacement_buffer_months').threshold;
+    if (finalIsEssentialReplacement && net_income > 0 && (bestOption?.affordable ?? true) && rules.check('essential_replacement_buffer_months', savings_buffer_months, { current_savings, monthly_expenses })) {
       recommendation = 'APPROVE';
-      reasons.push(`This is a critical replacement, and your business has positive net income (₦${net_income.toLocaleString()}) with at least 1 month of savings buffer (₦${current_savings.toLocaleString()}).`);
+      reasons.push(`This is a critical replacement, and your business has positive net income (₦${net_income.toLocaleString()}) with at least ${essentialBufferMonths} month(s) of savings buffer (₦${current_savings.toLocaleString()}).`);
       actionable_steps.push(
         'Thoroughly research suppliers and negotiate the best possible terms and warranties.',
         'Develop a clear plan for integrating the new equipment into your operations and training staff.',
         'Monitor the actual revenue increase and cost savings to track the real ROI against your estimates.'
       );
-    } else if (approveConditionsMet >= 3) { // All primary APPROVE conditions met
+    } else if (approveConditionsMet >= rules.param('approve_min_conditions')) { // All primary APPROVE conditions met
       recommendation = 'APPROVE';
       actionable_steps.push(
         'Thoroughly research suppliers and negotiate the best possible terms and warranties.',
@@ -1506,8 +2810,11 @@ export function makeEquipmentDecision(
     } else {
       recommendation = 'WAIT';
       actionable_steps.push(
+        ...(!optionComparison || !bestOption || bestOption.affordable ? [] : [optionComparison.results.length > 1
+          ? 'Ask the seller for a smaller deposit or a longer hire purchase period so payments fit within your monthly profit.'
+          : 'Ask the seller whether they offer hire purchase or leasing, so you do not pay the full price upfront.']),
         'Increase your net income to build a stronger financial base.',
-        'Boost your savings buffer to cover at least 2 months of operating expenses.',
+        `Boost your savings buffer to cover at least ${targetBufferMonths} months of operating expenses.`,
         'Re-evaluate the estimated ROI. Can you find ways to increase the revenue impact or reduce the cost?',
         'If existing equipment utilization is low, focus on maximizing its use before investing in new assets.',
         'Consider alternative financing options or a smaller, less costly equipment model.',
@@ -1516,6 +2823,19 @@ export function makeEquipmentDecision(
     }
   }
 
+  if (recommendation === 'APPROVE' && optionComparison && bestOption) {
+    const { monthlyDepreciation } = optionComparison;
+    const bestPlan = bestOption.option === 'buy'
+      ? `Buy it for ₦${bestOption.upfront_cash.toLocaleString()} cash`
+      : bestOption.option === 'hire_purchase'
+        ? `Take the hire purchase: pay ₦${bestOption.upfront_cash.toLocaleString()} deposit, then ₦${bestOption.monthly_payment.toLocaleString()} a month for ${bestOption.payment_months} months`
+        : `Lease it for ₦${bestOption.monthly_payment.toLocaleString()} a month`;
+    actionable_steps.unshift(`${bestPlan}; this is the best-value option you can afford.`);
+    if (bestOption.option !== 'lease' && monthlyDepreciation > 0) {
+      actionable_steps.push(`Set aside about ₦${monthlyDepreciation.toLocaleString()} a month so you can replace the equipment when it wears out.`);
+    }
+  }
+
   // Construct final reasoning string
   let finalReasoning: string | string[];
   if (recommendation === 'APPROVE') {
@@ -1523,8 +2843,13 @@ export function makeEquipmentDecision(
     if (reasons.length > 0) {
       finalReasoning += ` Key strengths: ${reasons.join(' ')}.`;
     }
+    if (optionComparison && bestOption) {
+      const bestLabel = EQUIPMENT_OPTION_LABELS[bestOption.option];
+      // With no extra income to compare, the option with the highest NPV is simply the cheapest
+      finalReasoning += ` ${bestLabel.charAt(0).toUpperCase()}${bestLabel.slice(1)} ${optionComparison.monthlyCashBenefit > 0 ? 'gives you the most value' : 'costs the least in today\'s money'}. ${optionComparison.summary}`;
+    }
   } else {
-    finalReasoning = reasons; // For WAIT/REJECT, return array of specific reasons
+    finalReasoning = recommendation === 'WAIT' && optionComparison ? [...reasons, optionComparison.summary] : reasons; // For WAIT/REJECT, return array of specific reasons
   }
 
   // Ensure actionable steps are unique
@@ -1539,10 +2864,22 @@ export function makeEquipmentDecision(
       reasoning: finalReasoning,
       actionable_steps,
       financial_snapshot: financialData,
+      rule_trace: rules.trace,
       equipment_cost: finalEquipmentCost,
       estimated_roi_percentage: finalEstimatedRoiPercentage,
       is_essential_replacement: finalIsEssentialReplacement,
       current_equipment_utilization_percentage: finalCurrentEquipmentUtilizationPercentage,
+      equipment_monthly_cash_benefit: monthlyCashBenefit,
+      equipment_useful_life_years: usefulLifeYears,
+      equipment_salvage_value: salvageValue,
+      lease_monthly_payment: leaseMonthlyPayment,
+      hire_purchase_monthly_payment: hirePurchaseMonthlyPayment,
+      hire_purchase_deposit: (hirePurchaseMonthlyPayment ?? 0) > 0 ? hirePurchaseDeposit : null,
+      hire_purchase_months: (hirePurchaseMonthlyPayment ?? 0) > 0 ? hirePurchaseMonths : null,
+      equipment_discount_rate_percentage: optionComparison?.discountRatePercentage ?? null,
+      equipment_monthly_depreciation: optionComparison?.monthlyDepreciation ?? null,
+      equipment_option_results: optionComparison?.results ?? null,
+      recommended_equipment_option: recommendation === 'REJECT' || !bestOption ? null : bestOption.option,
     }
   };
 }
@@ -1554,8 +2891,10 @@ export function makeDebtLoanDecision(
   currentPayload: Record<string, any>,
   _question: string, // Marked as unused
   requestId: string,
+  rulePack: RulePack,
 ): DecisionFunctionReturn {
   console.log(`[${requestId}] makeDebtLoanDecision: Start. currentPayload:`, currentPayload);
+  const rules = createRuleEvaluator(rulePack, 'loan_management');
 
   let totalBusinessLiabilities: number | null = currentPayload.hasOwnProperty('total_business_liabilities') ? currentPayload.total_business_liabilities : null;
   let totalBusinessAssets: number | null = currentPayload.hasOwnProperty('total_business_assets') ? currentPayload.total_business_assets : null;
@@ -1579,6 +2918,7 @@ export function makeDebtLoanDecision(
         field: "total_business_liabilities",
         prompt: "What is your total business liabilities (all debts, in ₦)? (Type '0' if none)",
         type: 'number',
+        unit: 'currency',
         intent_context: {
           intent: "loan_management",
           decision_type: "debt_assessment",
@@ -1595,6 +2935,7 @@ export function makeDebtLoanDecision(
         field: "total_business_assets",
         prompt: "What is your total business assets (cash, inventory, equipment, etc., in ₦)? (Must be greater than 0)",
         type: 'number',
+        unit: 'currency',
         intent_context: {
           intent: "loan_management",
           decision_type: "debt_assessment",
@@ -1611,6 +2952,7 @@ export function makeDebtLoanDecision(
         field: "total_monthly_debt_repayments",
         prompt: "What are your total monthly debt repayments (for all existing loans, in ₦)? (Type '0' if none)",
         type: 'number',
+        unit: 'currency',
         intent_context: {
           intent: "loan_management",
           decision_type: "debt_assessment",
@@ -1696,19 +3038,22 @@ export function makeDebtLoanDecision(
   // --- Rule Evaluation ---
 
   // Not Advisable (REJECT) Conditions (Highest Priority)
-  if (debtToEquityRatio > 2.0) {
+  const maxDebtToEquity = rules.rule('debt_to_equity_max').threshold;
+  const maxApr = rules.rule('apr_max').threshold;
+  const maxRepaymentCapacity = rules.rule('repayment_capacity_max').threshold;
+  if (!rules.check('debt_to_equity_max', debtToEquityRatio, { total_business_liabilities: finalTotalBusinessLiabilities, total_business_assets: finalTotalBusinessAssets })) {
     recommendation = 'REJECT';
-    reasons.push(`Your Debt-to-Equity ratio (${debtToEquityRatio.toFixed(2)}) is very high (above 2.0), indicating significant over-leverage.`);
+    reasons.push(`Your Debt-to-Equity ratio (${debtToEquityRatio.toFixed(2)}) is very high (above ${maxDebtToEquity.toFixed(1)}), indicating significant over-leverage.`);
   }
-  if (finalDebtApr > 25) {
+  if (!rules.check('apr_max', finalDebtApr, { debt_apr: finalDebtApr })) {
     recommendation = 'REJECT';
-    reasons.push(`Your highest debt APR (${finalDebtApr}%) is extremely high (above 25%), making debt very costly.`);
+    reasons.push(`Your highest debt APR (${finalDebtApr}%) is extremely high (above ${maxApr}%), making debt very costly.`);
   }
-  if (repaymentCapacityPercentage > 40) {
+  if (!rules.check('repayment_capacity_max', repaymentCapacityPercentage, { total_monthly_debt_repayments: finalTotalMonthlyDebtRepayments, net_profit })) {
     recommendation = 'REJECT';
-    reasons.push(`Your total monthly debt repayments (${repaymentCapacityPercentage.toFixed(1)}% of net profit) are too high (above 40%), risking a severe cash flow squeeze.`);
+    reasons.push(`Your total monthly debt repayments (${repaymentCapacityPercentage.toFixed(1)}% of net profit) are too high (above ${maxRepaymentCapacity}%), risking a severe cash flow squeeze.`);
   }
-  if (finalConsecutiveNegativeCashFlowMonths > 0) {
+  if (!rules.check('negative_cash_flow_months', finalConsecutiveNegativeCashFlowMonths, { consecutive_negative_cash_flow_months: finalConsecutiveNegativeCashFlowMonths })) {
     recommendation = 'REJECT';
     reasons.push(`You have experienced negative cash flow for ${finalConsecutiveNegativeCashFlowMonths} consecutive months, indicating income instability and high repayment risk.`);
   }
@@ -1724,18 +3069,23 @@ export function makeDebtLoanDecision(
     // If not REJECTED, evaluate for CAUTIOUS or RECOMMENDED
     let cautiousConditionsMet = 0;
 
-    // Cautious (WAIT) Conditions
-    if (debtToEquityRatio >= 1.0 && debtToEquityRatio <= 2.0) {
+    // Cautious (WAIT) Conditions: outside the comfortable bands but within the caution bands
+    const comfortableDebtToEquity = rules.rule('debt_to_equity_comfortable').threshold;
+    const comfortableApr = rules.rule('apr_comfortable').threshold;
+    const comfortableRepaymentCapacity = rules.rule('repayment_capacity_comfortable').threshold;
+    const aprCautionBandMax = rules.param('apr_caution_band_max');
+    const repaymentCapacityCautionBandMax = rules.param('repayment_capacity_caution_band_max');
+    if (!rules.check('debt_to_equity_comfortable', debtToEquityRatio, { total_business_liabilities: finalTotalBusinessLiabilities, total_business_assets: finalTotalBusinessAssets })) {
       cautiousConditionsMet++;
-      reasons.push(`Your Debt-to-Equity ratio (${debtToEquityRatio.toFixed(2)}) is between 1.0 and 2.0, suggesting a moderate level of leverage.`);
+      reasons.push(`Your Debt-to-Equity ratio (${debtToEquityRatio.toFixed(2)}) is between ${comfortableDebtToEquity.toFixed(1)} and ${maxDebtToEquity.toFixed(1)}, suggesting a moderate level of leverage.`);
     }
-    if (finalDebtApr > 15 && finalDebtApr <= 20) {
+    if (!rules.check('apr_comfortable', finalDebtApr, { debt_apr: finalDebtApr }) && finalDebtApr <= aprCautionBandMax) {
       cautiousConditionsMet++;
-      reasons.push(`Your highest debt APR (${finalDebtApr}%) is between 15% and 20%, which is manageable but requires careful monitoring.`);
+      reasons.push(`Your highest debt APR (${finalDebtApr}%) is between ${comfortableApr}% and ${aprCautionBandMax}%, which is manageable but requires careful monitoring.`);
     }
-    if (repaymentCapacityPercentage >= 20 && repaymentCapacityPercentage <= 35) {
+    if (!rules.check('repayment_capacity_comfortable', repaymentCapacityPercentage, { total_monthly_debt_repayments: finalTotalMonthlyDebtRepayments, net_profit }) && repaymentCapacityPercentage <= repaymentCapacityCautionBandMax) {
       cautiousConditionsMet++;
-      reasons.push(`Your total monthly debt repayments (${repaymentCapacityPercentage.toFixed(1)}% of net profit) are between 20% and 35% of your net profit, indicating some repayment stress.`);
+      reasons.push(`Your total monthly debt repayments (${repaymentCapacityPercentage.toFixed(1)}% of net profit) are between ${comfortableRepaymentCapacity}% and ${repaymentCapacityCautionBandMax}% of your net profit, indicating some repayment stress.`);
     }
 
     if (cautiousConditionsMet > 0) {
@@ -1749,9 +3099,9 @@ export function makeDebtLoanDecision(
     } else {
       // Recommended (APPROVE) Conditions (Default if no other rules triggered)
       recommendation = 'APPROVE';
-      reasons.push(`Your Debt-to-Equity ratio (${debtToEquityRatio.toFixed(2)}) is healthy (below 1.0).`);
-      reasons.push(`Your highest debt APR (${finalDebtApr}%) is favorable (below 15%).`);
-      reasons.push(`Your total monthly debt repayments (${repaymentCapacityPercentage.toFixed(1)}% of net profit) are well within your capacity (below 20%).`);
+      reasons.push(`Your Debt-to-Equity ratio (${debtToEquityRatio.toFixed(2)}) is healthy (below ${comfortableDebtToEquity.toFixed(1)}).`);
+      reasons.push(`Your highest debt APR (${finalDebtApr}%) is favorable (at or below ${comfortableApr}%).`);
+      reasons.push(`Your total monthly debt repayments (${repaymentCapacityPercentage.toFixed(1)}% of net profit) are well within your capacity (below ${comfortableRepaymentCapacity}%).`);
       if (finalLoanPurposeIsRevenueGenerating) {
         reasons.push(`The loan purpose is revenue-generating, which supports strategic growth.`);
       } else {
@@ -1788,6 +3138,7 @@ export function makeDebtLoanDecision(
       reasoning: finalReasoning,
       actionable_steps,
       financial_snapshot: financialData,
+      rule_trace: rules.trace,
       total_business_liabilities: finalTotalBusinessLiabilities,
       total_business_assets: finalTotalBusinessAssets,
       total_monthly_debt_repayments: finalTotalMonthlyDebtRepayments,
@@ -1805,8 +3156,10 @@ export function makeBusinessExpansionDecision(
   currentPayload: Record<string, any>,
   _question: string, // Marked as unused
   requestId: string,
+  rulePack: RulePack,
 ): DecisionFunctionReturn {
   console.log(`[${requestId}] makeBusinessExpansionDecision: Start. currentPayload:`, currentPayload);
+  const rules = createRuleEvaluator(rulePack, 'business_expansion');
 
   let profitGrowthConsistent6Months: boolean | null = currentPayload.hasOwnProperty('profit_growth_consistent_6_months') ? currentPayload.profit_growth_consistent_6_months : null;
   let marketResearchValidatesDemand: boolean | null = currentPayload.hasOwnProperty('market_research_validates_demand') ? currentPayload.market_research_validates_demand : null;
@@ -1830,6 +3183,7 @@ export function makeBusinessExpansionDecision(
         field: "expansion_cost",
         prompt: "What is the estimated total cost for this business expansion (in ₦)? (Must be greater than 0)",
         type: 'number',
+        unit: 'currency',
         intent_context: {
           intent: "business_expansion",
           decision_type: "expansion_assessment",
@@ -1935,7 +3289,9 @@ export function makeBusinessExpansionDecision(
   // --- Rule Evaluation ---
 
   // Not Advisable (REJECT) Conditions (Highest Priority)
-  if (net_profit <= 0) {
+  const minimumCapitalPercentage = rules.rule('capital_available_minimum').threshold;
+  const strongCapitalPercentage = rules.rule('capital_available_strong').threshold;
+  if (!rules.check('net_profit_positive', net_profit, { monthly_revenue, monthly_expenses })) {
     recommendation = 'REJECT';
     reasons.push(`Your business is currently not profitable (Net Income: ₦${net_profit.toLocaleString()}). Expansion would add further strain.`);
   } else if (finalProfitMarginTrend === 'declining_unstable' || finalRevenueGrowthTrend === 'declining_unstable') {
@@ -1944,16 +3300,16 @@ export function makeBusinessExpansionDecision(
   } else if (!finalMarketResearchValidatesDemand) {
     recommendation = 'REJECT';
     reasons.push(`There is no validated market research data to support demand for this expansion.`);
-  } else if (finalCapitalAvailablePercentageOfCost < 50) {
+  } else if (!rules.check('capital_available_minimum', finalCapitalAvailablePercentageOfCost, { capital_available_percentage_of_cost: finalCapitalAvailablePercentageOfCost, expansion_cost: finalExpansionCost })) {
     recommendation = 'REJECT';
-    reasons.push(`You only have ${finalCapitalAvailablePercentageOfCost}% of the required capital (₦${finalExpansionCost.toLocaleString()}) available, which is less than 50%.`);
+    reasons.push(`You only have ${finalCapitalAvailablePercentageOfCost}% of the required capital (₦${finalExpansionCost.toLocaleString()}) available, which is less than ${minimumCapitalPercentage}%.`);
   }
 
   if (recommendation === 'REJECT') {
     actionable_steps = [
       'Focus on stabilizing and improving your current business profitability and cash flow.',
       'Conduct thorough market research to validate demand and identify potential risks.',
-      'Build up your capital reserves to at least 50% of the estimated expansion cost before reconsidering.',
+      `Build up your capital reserves to at least ${minimumCapitalPercentage}% of the estimated expansion cost before reconsidering.`,
       'Explore smaller, less capital-intensive growth strategies first.'
     ];
   } else {
@@ -1970,9 +3326,10 @@ export function makeBusinessExpansionDecision(
       recommendedConditionsMet++;
       reasons.push(`Market research clearly validates demand for this expansion.`);
     }
-    if (finalCapitalAvailablePercentageOfCost >= 70) {
+    const hasStrongCapital = rules.check('capital_available_strong', finalCapitalAvailablePercentageOfCost, { capital_available_percentage_of_cost: finalCapitalAvailablePercentageOfCost, expansion_cost: finalExpansionCost });
+    if (hasStrongCapital) {
       recommendedConditionsMet++;
-      reasons.push(`You have ${finalCapitalAvailablePercentageOfCost}% of the required capital (₦${finalExpansionCost.toLocaleString()}) available, which is ≥ 70%.`);
+      reasons.push(`You have ${finalCapitalAvailablePercentageOfCost}% of the required capital (₦${finalExpansionCost.toLocaleString()}) available, which is ≥ ${strongCapitalPercentage}%.`);
     }
     if (finalProfitMarginTrend === 'consistent_growth' && finalRevenueGrowthTrend === 'consistent_growth') {
       recommendedConditionsMet++;
@@ -1984,12 +3341,12 @@ export function makeBusinessExpansionDecision(
       cautiousConditionsMet++;
       reasons.push(`Your profit margin trend is ${finalProfitMarginTrend} and/or revenue growth trend is ${finalRevenueGrowthTrend}, indicating some fluctuation.`);
     }
-    if (finalCapitalAvailablePercentageOfCost >= 50 && finalCapitalAvailablePercentageOfCost < 70) {
+    if (!hasStrongCapital) { // Already above the minimum, otherwise rejected
       cautiousConditionsMet++;
-      reasons.push(`You have ${finalCapitalAvailablePercentageOfCost}% of the required capital (₦${finalExpansionCost.toLocaleString()}) available, which is between 50% and 69%.`);
+      reasons.push(`You have ${finalCapitalAvailablePercentageOfCost}% of the required capital (₦${finalExpansionCost.toLocaleString()}) available, which is between ${minimumCapitalPercentage}% and ${strongCapitalPercentage}%.`);
     }
 
-    if (recommendedConditionsMet >= 3) { // Strong approval
+    if (recommendedConditionsMet >= rules.param('approve_min_conditions')) { // Strong approval
       recommendation = 'APPROVE';
       actionable_steps = [
         'Develop a detailed business plan for the expansion, including financial projections and timelines.',
@@ -2037,6 +3394,7 @@ export function makeBusinessExpansionDecision(
       reasoning: finalReasoning,
       actionable_steps,
       financial_snapshot: financialData,
+      rule_trace: rules.trace,
       profit_growth_consistent_6_months: finalProfitGrowthConsistent6Months,
       market_research_validates_demand: finalMarketResearchValidatesDemand,
       capital_available_percentage_of_cost: finalCapitalAvailablePercentageOfCost,
@@ -2048,127 +3406,2535 @@ export function makeBusinessExpansionDecision(
 }
 
 
-// --- Main decision-engine logic ---
+// --- decisions/pricing.ts content ---
+const roundToOneDecimal = (value: number): number => Math.round(value * 10) / 10;
 
-serve(async (req: Request) => { // Explicitly type req
-  const requestId = generateRequestId();
-  let user: any = null;
-  
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: CORS_HEADERS });
+export function makePricingDecision(
+  financialData: FinancialData,
+  currentPayload: Record<string, unknown>,
+  _question: string, // Marked as unused
+  requestId: string,
+  rulePack: RulePack,
+): DecisionFunctionReturn {
+  console.log(`[${requestId}] makePricingDecision: Start. currentPayload:`, currentPayload);
+  const rules = createRuleEvaluator(rulePack, 'pricing');
+
+  const currentUnitPrice = getPayloadNumber(currentPayload, 'current_unit_price');
+  const proposedUnitPrice = getPayloadNumber(currentPayload, 'proposed_unit_price');
+  const unitCost = getPayloadNumber(currentPayload, 'unit_cost');
+  const expectedVolumeChangePercentage = getPayloadNumber(currentPayload, 'expected_volume_change_percentage');
+  const competitorUnitPrice = getPayloadNumber(currentPayload, 'competitor_unit_price');
+
+  const intentContext = { intent: "pricing", decision_type: "price_change", current_payload: currentPayload };
+
+  // --- Data Gathering Sequence for Pricing ---
+  if (currentUnitPrice === null || currentUnitPrice <= 0) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "current_unit_price",
+        prompt: "What do you currently charge for one unit of this product or service (in ₦)? (Must be greater than 0)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+  if (proposedUnitPrice === null || proposedUnitPrice <= 0) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "proposed_unit_price",
+        prompt: "What new price are you considering for one unit (in ₦)? (Must be greater than 0)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+  if (unitCost === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "unit_cost",
+        prompt: "How much does one unit cost you to buy or make (in ₦)? (Type '0' if there is no direct cost)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
+  }
+  if (expectedVolumeChangePercentage === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "expected_volume_change_percentage",
+        prompt: "By what percentage do you expect the number of units you sell each month to change at the new price? (e.g., '-10' for 10% fewer, '15' for 15% more, or '0' for no change)",
+        type: 'number',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+        canBeNegative: true,
+      }
+    };
+  }
+  if (competitorUnitPrice === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "competitor_unit_price",
+        prompt: "What do your closest competitors charge for a similar unit (in ₦)? (Type '0' if you don't know)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
   }
 
-  const authHeader = req.headers.get('Authorization')!;
-  const supabase = getSupabaseClient(authHeader);
+  // --- Margin and Break-even Calculations ---
+  const { monthly_expenses, current_savings } = financialData;
+  const isPriceCut = proposedUnitPrice < currentUnitPrice;
+  const currentUnitMargin = currentUnitPrice - unitCost;
+  const newUnitMargin = proposedUnitPrice - unitCost;
+  const currentMarginPercentage = roundToOneDecimal((currentUnitMargin / currentUnitPrice) * 100);
+  const newMarginPercentage = roundToOneDecimal((newUnitMargin / proposedUnitPrice) * 100);
+  // Volume change at which gross profit stays the same; only meaningful when both prices are above cost
+  const breakEvenVolumeChangePercentage = currentUnitMargin > 0 && newUnitMargin > 0
+    ? roundToOneDecimal((currentUnitMargin / newUnitMargin - 1) * 100)
+    : null;
+  const grossProfitChangePercentage = currentUnitMargin > 0
+    ? roundToOneDecimal(((1 + expectedVolumeChangePercentage / 100) * newUnitMargin / currentUnitMargin - 1) * 100)
+    : null;
+  const breakEvenDescription = breakEvenVolumeChangePercentage === null
+    ? null
+    : breakEvenVolumeChangePercentage <= 0
+      ? `you can sell up to ${Math.abs(breakEvenVolumeChangePercentage)}% fewer units and still earn the same gross profit`
+      : `you need to sell at least ${breakEvenVolumeChangePercentage}% more units to earn the same gross profit`;
+  const priceInputs = { current_unit_price: currentUnitPrice, proposed_unit_price: proposedUnitPrice, unit_cost: unitCost };
+  const volumeInputs = { ...priceInputs, expected_volume_change_percentage: expectedVolumeChangePercentage };
 
-  try {
-    // 1. Authentication & Authorization
-    const { data: { user: authUser }, error: userError } = await supabase.auth.getUser();
-    if (userError || !authUser) {
-      throw new AuthError("User not authenticated.");
+  const reasons: string[] = [];
+  const strengths: string[] = [];
+  let recommendation: 'APPROVE' | 'WAIT' | 'REJECT';
+  let actionable_steps: string[];
+
+  // --- Rule Evaluation ---
+
+  // 1. REJECT (Highest Priority)
+  if (!rules.check('new_unit_margin_positive', newUnitMargin, priceInputs)) {
+    recommendation = 'REJECT';
+    reasons.push(`At ₦${proposedUnitPrice.toLocaleString()} you would be selling at or below your unit cost of ₦${unitCost.toLocaleString()}, so every sale would lose money.`);
+  } else if (grossProfitChangePercentage !== null && !rules.check('gross_profit_change_floor_percentage', grossProfitChangePercentage, volumeInputs)) {
+    recommendation = 'REJECT';
+    reasons.push(`With a ${expectedVolumeChangePercentage}% change in units sold, your gross profit from this product would fall by about ${Math.abs(grossProfitChangePercentage)}%. At the new price, ${breakEvenDescription}.`);
+  } else {
+    // 2. APPROVE only when every condition holds, otherwise WAIT
+    let conditionsFailed = 0;
+
+    if (grossProfitChangePercentage === null) {
+      strengths.push(`The new price turns a unit that currently sells at or below cost into a profitable one (${newMarginPercentage}% margin).`);
+    } else if (rules.check('gross_profit_change_percentage', grossProfitChangePercentage, volumeInputs)) {
+      strengths.push(`Your gross profit from this product is projected to grow by ${grossProfitChangePercentage}% with a ${expectedVolumeChangePercentage}% change in units sold; at the new price, ${breakEvenDescription}.`);
+    } else {
+      conditionsFailed++;
+      reasons.push(`Your gross profit from this product is projected to fall by about ${Math.abs(grossProfitChangePercentage)}% with a ${expectedVolumeChangePercentage}% change in units sold; at the new price, ${breakEvenDescription}.`);
     }
-    user = authUser;
-    console.log(`[${requestId}] User authenticated: ${user.id}`);
 
-    // 2. Input Validation
-    const body = await req.json();
-    console.log(`[${requestId}] Received request body:`, redactSensitiveData(body));
-    const validationResult = DecisionEngineInputSchema.safeParse(body);
-    if (!validationResult.success) {
-      throw new InputValidationError("Invalid input.", validationResult.error.toString());
+    const minimumMargin = rules.rule('minimum_margin_percentage').threshold;
+    if (rules.check('minimum_margin_percentage', newMarginPercentage, priceInputs)) {
+      strengths.push(`Your margin would move from ${currentMarginPercentage}% to ${newMarginPercentage}%.`);
+    } else {
+      conditionsFailed++;
+      reasons.push(`Your margin at the new price (${newMarginPercentage}%) would be below ${minimumMargin}%, leaving little room for waste, transport or price rises from suppliers.`);
     }
-    const { intent, question } = validationResult.data;
-    let currentPayload = validationResult.data.payload || {}; // Make payload mutable and initialize safely
-    console.log(`[${requestId}] Validated input - Intent: ${intent}, Question: "${question}", Payload:`, currentPayload);
 
-    // 3. Fetch Latest Financial Data and User Profile
-    const { data: financialData, error: financialError } = await supabase
-      .from('financial_entries')
-      .select('monthly_revenue, monthly_expenses, current_savings')
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .single();
+    if (competitorUnitPrice > 0) {
+      const competitorPremiumPercentage = roundToOneDecimal(((proposedUnitPrice - competitorUnitPrice) / competitorUnitPrice) * 100);
+      const maxPremium = rules.rule('competitor_price_premium_percentage').threshold;
+      if (!rules.check('competitor_price_premium_percentage', competitorPremiumPercentage, { proposed_unit_price: proposedUnitPrice, competitor_unit_price: competitorUnitPrice })) {
+        conditionsFailed++;
+        reasons.push(`At ₦${proposedUnitPrice.toLocaleString()} you would be ${competitorPremiumPercentage}% above competitors (₦${competitorUnitPrice.toLocaleString()}), more than the ${maxPremium}% premium customers usually accept.`);
+      }
+    }
 
-    if (financialError || !financialData) {
-      throw new CustomError(
-        ERROR_CODES.DECISION_NOT_FOUND,
-        "No financial data found. Please add your financial information first.",
-        SEVERITY.LOW,
-        404
-      );
+    if (isPriceCut) {
+      const bufferMonths = rules.rule('price_cut_savings_buffer_months').threshold;
+      if (!rules.checkScaled('price_cut_savings_buffer_months', current_savings, monthly_expenses, { current_savings, monthly_expenses })) {
+        conditionsFailed++;
+        reasons.push(`Your savings (₦${current_savings.toLocaleString()}) are less than ${bufferMonths} month(s) of expenses (₦${(bufferMonths * monthly_expenses).toLocaleString()}), so there is little cushion if the extra sales take time to come.`);
+      }
     }
-    console.log(`[${requestId}] Fetched financial data:`, financialData);
 
-    const { data: profileData, error: profileError } = await supabase
-      .from('profiles')
-      .select('is_fmcg_vendor, business_type') // Include business_type
-      .eq('id', user.id)
-      .single();
+    recommendation = conditionsFailed === 0 ? 'APPROVE' : 'WAIT';
+  }
 
-    if (profileError || !profileData) {
-      throw new CustomError(
-        ERROR_CODES.PROFILE_FETCH_FAILED,
-        "User profile not found. Please complete your onboarding.",
-        SEVERITY.LOW,
-        404
-      );
-    }
-    const isFmcgVendor = profileData.is_fmcg_vendor === true; // Ensure it's a boolean
-    const businessType = profileData.business_type || 'Other'; // Default if not set
-    console.log(`[${requestId}] Fetched profile data - isFmcgVendor: ${isFmcgVendor}, business_type: ${businessType}`);
+  if (recommendation === 'APPROVE') {
+    actionable_steps = [
+      isPriceCut
+        ? 'Tell customers about the lower price so the extra volume actually comes in.'
+        : 'Give regular customers notice of the new price and explain any added value.',
+      'Track units sold every week for the first month and compare them with what you expected.',
+      breakEvenDescription !== null
+        ? `Remember that ${breakEvenDescription}; if sales fall short of that, revisit the price.`
+        : 'Review the price again if your unit cost changes.',
+    ];
+  } else if (recommendation === 'WAIT') {
+    actionable_steps = [
+      'Test the new price on one product line, branch or day of the week before changing it everywhere.',
+      'Look for ways to lower your unit cost, such as bulk buying or cheaper suppliers, to protect your margin.',
+      ...(competitorUnitPrice > 0 && proposedUnitPrice > competitorUnitPrice
+        ? ['Add visible value, such as better packaging, delivery or credit for trusted customers, to justify a price above competitors.']
+        : []),
+      ...(isPriceCut
+        ? [`Build your savings to cover at least ${rules.rule('price_cut_savings_buffer_months').threshold} month(s) of expenses before relying on a price cut to grow volume.`]
+        : []),
+    ];
+  } else {
+    actionable_steps = [
+      'Keep your current price, or choose a smaller change that your expected sales volume can support.',
+      'Recalculate your unit cost including transport, packaging and wastage before setting a new price.',
+      'Never price below your unit cost; each extra sale would only deepen the loss.',
+    ];
+  }
 
-    // 4. Call appropriate Decision Logic
-    let decisionResult: DecisionFunctionReturn;
+  let finalReasoning: string | string[];
+  if (recommendation === 'APPROVE') {
+    finalReasoning = `This price change is likely to improve your profit from this product. ${strengths.join(' ')}`;
+  } else {
+    finalReasoning = reasons;
+  }
 
-    switch (intent) {
-      case 'hiring':
-        decisionResult = makeHiringDecision(financialData, currentPayload, question, requestId);
-        break;
-      case 'inventory':
-        decisionResult = makeInventoryDecision(financialData, { is_fmcg_vendor: isFmcgVendor, business_type: businessType }, currentPayload, question, requestId);
-        break;
-      case 'marketing': // New marketing decision
-        decisionResult = makeMarketingDecision(financialData, currentPayload, question, requestId);
-        break;
-      case 'savings': // New savings decision
-        decisionResult = makeSavingsDecision(financialData, { is_fmcg_vendor: isFmcgVendor, business_type: businessType }, currentPayload, question, requestId);
-        break;
-      case 'equipment': // New equipment decision
-        decisionResult = makeEquipmentDecision(financialData, { is_fmcg_vendor: isFmcgVendor, business_type: businessType }, currentPayload, question, requestId);
-        break;
-      case 'loan_management': // New loan_management decision
-        decisionResult = makeDebtLoanDecision(financialData, { is_fmcg_vendor: isFmcgVendor, business_type: businessType }, currentPayload, question, requestId);
-        break;
-      case 'business_expansion': // New business_expansion decision
-        decisionResult = makeBusinessExpansionDecision(financialData, { is_fmcg_vendor: isFmcgVendor, business_type: businessType }, currentPayload, question, requestId);
-        break;
-      default:
-        throw new InputValidationError("Unsupported Intent", `Intent '${intent}' is not yet supported.`);
+  return {
+    decision: {
+      recommendation,
+      reasoning: finalReasoning,
+      actionable_steps: Array.from(new Set(actionable_steps)),
+      financial_snapshot: financialData,
+      rule_trace: rules.trace,
+      current_unit_price: currentUnitPrice,
+      proposed_unit_price: proposedUnitPrice,
+      unit_cost: unitCost,
+      expected_volume_change_percentage: expectedVolumeChangePercentage,
+      competitor_unit_price: competitorUnitPrice,
+      current_margin_percentage: currentMarginPercentage,
+      new_margin_percentage: newMarginPercentage,
+      break_even_volume_change_percentage: breakEvenVolumeChangePercentage,
+      gross_profit_change_percentage: grossProfitChangePercentage,
     }
+  };
+}
 
-    // If data is needed, return the data_needed response
-    if (decisionResult.dataNeeded) {
-      return new Response(JSON.stringify({
-        success: true,
-        data: {
-          data_needed: decisionResult.dataNeeded,
-        },
-        error: null,
-        meta: {
-          requestId,
-          timestamp: new Date().toISOString(),
-          version: API_VERSION,
-        },
-      }), {
-        headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
-        status: 200,
-      });
-    }
+// --- decisions/customer_credit.ts content ---
+const CUSTOMER_PAYMENT_HISTORY_OPTIONS = ['always_on_time', 'sometimes_late', 'often_late', 'new_customer'] as const;
+type CustomerPaymentHistory = typeof CUSTOMER_PAYMENT_HISTORY_OPTIONS[number];
 
-    // If a full decision is made, save it
-    const decision = decisionResult.decision!; // Assert non-null as dataNeeded is false
-    console.log(`[${requestId}] Decision made - Recommendation: ${decision.recommendation}, Reasoning: "${decision.reasoning}", Steps:`, decision.actionable_steps);
+const roundDownToHundred = (value: number): number => Math.max(0, Math.floor(value / 100) * 100);
+
+export function makeCustomerCreditDecision(
+  financialData: FinancialData,
+  currentPayload: Record<string, unknown>,
+  _question: string, // Marked as unused
+  requestId: string,
+  rulePack: RulePack,
+): DecisionFunctionReturn {
+  console.log(`[${requestId}] makeCustomerCreditDecision: Start. currentPayload:`, currentPayload);
+  const rules = createRuleEvaluator(rulePack, 'customer_credit');
+
+  const creditAmount = getPayloadNumber(currentPayload, 'credit_amount');
+  const outstandingReceivables = getPayloadNumber(currentPayload, 'outstanding_receivables');
+  const creditRepaymentPeriodDays = getPayloadNumber(currentPayload, 'credit_repayment_period_days');
+  const paymentHistory = CUSTOMER_PAYMENT_HISTORY_OPTIONS.includes(currentPayload.customer_payment_history as CustomerPaymentHistory)
+    ? currentPayload.customer_payment_history as CustomerPaymentHistory
+    : null;
+
+  const intentContext = { intent: "customer_credit", decision_type: "credit_assessment", current_payload: currentPayload };
+
+  // --- Data Gathering Sequence for Customer Credit ---
+  if (creditAmount === null || creditAmount <= 0) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "credit_amount",
+        prompt: "How much does the customer want to buy on credit (in ₦)? (Must be greater than 0)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+  if (paymentHistory === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "customer_payment_history",
+        prompt: "How has this customer paid you in the past?",
+        type: 'text_enum',
+        options: [...CUSTOMER_PAYMENT_HISTORY_OPTIONS],
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+  if (outstandingReceivables === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "outstanding_receivables",
+        prompt: "How much do all your customers owe you right now, in total (in ₦)? (Type '0' if nobody owes you)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
+  }
+  if (creditRepaymentPeriodDays === null || creditRepaymentPeriodDays <= 0) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "credit_repayment_period_days",
+        prompt: "In how many days would the customer pay you back? (Must be greater than 0)",
+        type: 'number',
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+
+  // --- Credit Capacity Calculations ---
+  const { monthly_revenue, monthly_expenses, current_savings } = financialData;
+  const netIncome = monthly_revenue - monthly_expenses;
+  const totalReceivablesAfterCredit = outstandingReceivables + creditAmount;
+  const savingsAfterCredit = current_savings - creditAmount;
+
+  const savingsBufferMonths = rules.rule('savings_after_credit_months').threshold;
+  const receivablesRatio = rules.rule('receivables_to_revenue_ratio').threshold;
+  const maxRepaymentDays = rules.rule('repayment_period_days').threshold;
+  const historyShare = rules.param(`limit_share_${paymentHistory}`);
+
+  // The most this business can lend without breaking its savings buffer or receivables ceiling,
+  // scaled down for customers without a clean payment record
+  const capacityFromSavings = current_savings - savingsBufferMonths * monthly_expenses;
+  const capacityFromReceivables = receivablesRatio * monthly_revenue - outstandingReceivables;
+  const recommendedCreditLimit = Math.min(creditAmount, roundDownToHundred(Math.min(capacityFromSavings, capacityFromReceivables) * historyShare));
+
+  const reasons: string[] = [];
+  let recommendation: 'APPROVE' | 'WAIT' | 'REJECT';
+  let actionable_steps: string[];
+
+  // --- Rule Evaluation ---
+  const netIncomeOk = rules.check('net_income_positive', netIncome, { monthly_revenue, monthly_expenses });
+  const savingsOk = rules.checkScaled('savings_after_credit_months', savingsAfterCredit, monthly_expenses, { current_savings, credit_amount: creditAmount, monthly_expenses });
+  const receivablesOk = rules.checkScaled('receivables_to_revenue_ratio', totalReceivablesAfterCredit, monthly_revenue, { outstanding_receivables: outstandingReceivables, credit_amount: creditAmount, monthly_revenue });
+  const periodOk = rules.check('repayment_period_days', creditRepaymentPeriodDays, { credit_repayment_period_days: creditRepaymentPeriodDays });
+
+  if (!netIncomeOk) {
+    reasons.push(`Your business is currently spending more than it earns (net income: ₦${netIncome.toLocaleString()}), so you cannot afford to wait for money owed to you.`);
+  }
+  if (paymentHistory === 'often_late') {
+    reasons.push("This customer has often paid late or not paid at all, so there is a high risk you will not be paid back.");
+  }
+  if (!savingsOk) {
+    reasons.push(`After giving ₦${creditAmount.toLocaleString()} on credit, your savings (₦${Math.max(0, savingsAfterCredit).toLocaleString()}) would cover less than ${savingsBufferMonths} month(s) of expenses (₦${(savingsBufferMonths * monthly_expenses).toLocaleString()}).`);
+  }
+  if (!receivablesOk) {
+    reasons.push(`Customers would owe you ₦${totalReceivablesAfterCredit.toLocaleString()} in total, more than ${Math.round(receivablesRatio * 100)}% of your monthly revenue (₦${(receivablesRatio * monthly_revenue).toLocaleString()}).`);
+  }
+  if (!periodOk) {
+    reasons.push(`A repayment period of ${creditRepaymentPeriodDays} days ties up your money for longer than the ${maxRepaymentDays} days we recommend.`);
+  }
+  if (paymentHistory === 'sometimes_late' || paymentHistory === 'new_customer') {
+    reasons.push(paymentHistory === 'new_customer'
+      ? "This is a new customer with no payment record with you yet, so start with a small amount."
+      : "This customer has sometimes paid late, so limit how much you give on credit.");
+  }
+
+  // 1. REJECT (Highest Priority)
+  if (!netIncomeOk || paymentHistory === 'often_late' || recommendedCreditLimit <= 0) {
+    recommendation = 'REJECT';
+    if (recommendedCreditLimit <= 0 && netIncomeOk && paymentHistory !== 'often_late' && savingsOk && receivablesOk) {
+      reasons.push("Your current savings and receivables leave no room for more credit right now.");
+    }
+  // 2. APPROVE (full amount within limits)
+  } else if (recommendedCreditLimit >= creditAmount && savingsOk && receivablesOk && periodOk) {
+    recommendation = 'APPROVE';
+  // 3. WAIT (offer a smaller limit or tighter terms)
+  } else {
+    recommendation = 'WAIT';
+  }
+
+  if (recommendation === 'APPROVE') {
+    actionable_steps = [
+      'Write down the amount, the items and the repayment date, and have the customer sign or confirm it by message.',
+      `Agree on a repayment date within ${creditRepaymentPeriodDays} days and send a friendly reminder a few days before.`,
+      'Do not give this customer new credit until the current amount is fully repaid.',
+    ];
+  } else if (recommendation === 'WAIT') {
+    actionable_steps = [
+      ...(recommendedCreditLimit < creditAmount
+        ? [`Offer a credit limit of ₦${recommendedCreditLimit.toLocaleString()} instead of ₦${creditAmount.toLocaleString()}, and ask for the rest as cash.`]
+        : []),
+      'Ask for a deposit (for example, 30-50%) before releasing goods on credit.',
+      ...(!periodOk ? [`Shorten the repayment period to ${maxRepaymentDays} days or less, or split it into weekly payments.`] : []),
+      ...(!receivablesOk ? ['Collect money other customers already owe you before giving new credit.'] : []),
+      'Write down every credit sale and the date it is due.',
+    ];
+  } else {
+    actionable_steps = [
+      'Sell to this customer on cash only for now, or ask for full payment before delivery.',
+      ...(paymentHistory === 'often_late' ? ['If you must give credit, require a large deposit or a guarantor you trust.'] : []),
+      ...(outstandingReceivables > 0 ? [`Focus on collecting the ₦${outstandingReceivables.toLocaleString()} customers already owe you.`] : []),
+      'Build your savings so that late payments do not stop you from restocking.',
+    ];
+  }
+
+  let finalReasoning: string | string[];
+  if (recommendation === 'APPROVE') {
+    finalReasoning = `You can afford to give ₦${creditAmount.toLocaleString()} on credit. Your savings stay above ${savingsBufferMonths} month(s) of expenses, total money owed to you stays within ${Math.round(receivablesRatio * 100)}% of monthly revenue, and the amount fits the limit for this customer's payment record.`;
+  } else {
+    finalReasoning = reasons;
+  }
+
+  return {
+    decision: {
+      recommendation,
+      reasoning: finalReasoning,
+      actionable_steps: Array.from(new Set(actionable_steps)),
+      financial_snapshot: financialData,
+      rule_trace: rules.trace,
+      credit_amount: creditAmount,
+      customer_payment_history: paymentHistory,
+      outstanding_receivables: outstandingReceivables,
+      credit_repayment_period_days: creditRepaymentPeriodDays,
+      recommended_credit_limit: recommendation === 'REJECT' ? 0 : recommendedCreditLimit,
+    }
+  };
+}
+
+// --- decisions/energy_cost.ts content ---
+type EnergyOption = 'generator' | 'solar' | 'grid_inverter';
+
+const ENERGY_OPTION_LABELS: Record<EnergyOption, string> = {
+  generator: 'keeping your generator',
+  solar: 'solar',
+  grid_inverter: 'an inverter charged from the grid',
+};
+
+// Fixed monthly payment for a loan of `principal` over `months` at `aprPercentage` per year
+const amortizedMonthlyPayment = (principal: number, months: number, aprPercentage: number): number => {
+  const monthlyRate = aprPercentage / 100 / 12;
+  if (monthlyRate === 0) return principal / months;
+  return principal * monthlyRate / (1 - Math.pow(1 + monthlyRate, -months));
+};
+
+export function makeEnergyCostDecision(
+  financialData: FinancialData,
+  currentPayload: Record<string, unknown>,
+  _question: string, // Marked as unused
+  requestId: string,
+  rulePack: RulePack,
+): DecisionFunctionReturn {
+  console.log(`[${requestId}] makeEnergyCostDecision: Start. currentPayload:`, currentPayload);
+  const rules = createRuleEvaluator(rulePack, 'energy_cost');
+
+  const monthlyFuelSpend = getPayloadNumber(currentPayload, 'monthly_fuel_spend');
+  const dailyOutageHours = getPayloadNumber(currentPayload, 'daily_outage_hours');
+  const solarSystemCost = getPayloadNumber(currentPayload, 'solar_system_cost');
+  const inverterSystemCost = getPayloadNumber(currentPayload, 'inverter_system_cost');
+  const financingMonths = getPayloadNumber(currentPayload, 'financing_months');
+  let financingApr = getPayloadNumber(currentPayload, 'financing_apr');
+
+  const intentContext = { intent: "energy_cost", decision_type: "energy_source_comparison", current_payload: currentPayload };
+
+  // --- Data Gathering Sequence for Energy Cost ---
+  if (monthlyFuelSpend === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "monthly_fuel_spend",
+        prompt: "How much do you spend on diesel or petrol for your generator each month (in ₦)? (Type '0' if you don't use a generator)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
+  }
+  if (dailyOutageHours === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "daily_outage_hours",
+        prompt: "On a typical day, for how many hours is there no grid power (NEPA light) during your business hours? (0-24)",
+        type: 'number',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
+  }
+  if (solarSystemCost === null || solarSystemCost <= 0) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "solar_system_cost",
+        prompt: "What is the quoted price of the solar system (panels, inverter and batteries, installed) in ₦? (Must be greater than 0)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+  if (inverterSystemCost === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "inverter_system_cost",
+        prompt: "What is the quoted price of an inverter and batteries without solar panels, charged from the grid (in ₦)? (Type '0' if you are not considering one)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
+  }
+  if (financingMonths === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "financing_months",
+        prompt: "Over how many months would you pay for the system? (Type '0' if you will pay cash upfront)",
+        type: 'number',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
+  }
+  if (financingMonths > 0 && financingApr === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "financing_apr",
+        prompt: "What is the yearly interest rate (APR) on the financing, in %? (Type '0' if there is no interest)",
+        type: 'number',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
+  }
+  if (financingMonths === 0) financingApr = 0;
+  const apr = financingApr ?? 0;
+
+  // --- Payback and Total Cost of Ownership ---
+  const { monthly_expenses, current_savings } = financialData;
+  const tcoYears = rules.param('tco_years');
+  const tcoMonths = tcoYears * 12;
+  const isFinanced = financingMonths > 0;
+  // Servicing, oil changes and repairs come on top of fuel
+  const generatorMonthlyCost = monthlyFuelSpend * (1 + rules.param('generator_maintenance_share'));
+  const generatorTco = Math.round(generatorMonthlyCost * tcoMonths);
+
+  // Inverters can only recharge while grid power is on, so long outages leave them flat
+  const inverterOffsetShare = inverterSystemCost > 0
+    ? (rules.check('inverter_max_outage_hours', dailyOutageHours, { daily_outage_hours: dailyOutageHours })
+      ? rules.param('inverter_offset_share')
+      : rules.param('inverter_long_outage_offset_share'))
+    : 0;
+
+  const evaluateSystem = (systemCost: number, offsetShare: number, annualMaintenanceShare: number) => {
+    const monthlyPayment = isFinanced ? amortizedMonthlyPayment(systemCost, financingMonths, apr) : 0;
+    const totalPaid = isFinanced ? monthlyPayment * financingMonths : systemCost;
+    const monthlyRunningCost = generatorMonthlyCost * (1 - offsetShare) + (systemCost * annualMaintenanceShare) / 12;
+    const monthlySaving = generatorMonthlyCost - monthlyRunningCost;
+    return {
+      systemCost,
+      monthlyPayment: Math.round(monthlyPayment),
+      monthlySaving: Math.round(monthlySaving),
+      tco: Math.round(totalPaid + monthlyRunningCost * tcoMonths),
+      paybackMonths: monthlySaving > 0 ? Math.round((totalPaid / monthlySaving) * 10) / 10 : null,
+    };
+  };
+
+  const solar = evaluateSystem(solarSystemCost, rules.param('solar_offset_share'), rules.param('solar_annual_maintenance_share'));
+  const inverter = inverterSystemCost > 0
+    ? evaluateSystem(inverterSystemCost, inverterOffsetShare, rules.param('inverter_annual_maintenance_share'))
+    : null;
+
+  const options: { option: EnergyOption; tco: number }[] = [
+    { option: 'generator', tco: generatorTco },
+    { option: 'solar', tco: solar.tco },
+    ...(inverter ? [{ option: 'grid_inverter' as EnergyOption, tco: inverter.tco }] : []),
+  ];
+  const recommendedOption = options.reduce((best, candidate) => candidate.tco < best.tco ? candidate : best).option;
+  const chosen = recommendedOption === 'solar' ? solar : recommendedOption === 'grid_inverter' ? inverter : null;
+  const tcoSummary = options.map(({ option, tco }) => `${ENERGY_OPTION_LABELS[option]}: ₦${tco.toLocaleString()}`).join('; ');
+
+  const reasons: string[] = [];
+  const strengths: string[] = [];
+  let recommendation: 'APPROVE' | 'WAIT' | 'REJECT';
+  let actionable_steps: string[];
+
+  // --- Rule Evaluation ---
+  if (!chosen) {
+    // 1. REJECT: no alternative beats the generator over the horizon
+    recommendation = 'REJECT';
+    reasons.push(`Over ${tcoYears} years, keeping your generator is the cheapest option (${tcoSummary}).`);
+    if (solar.paybackMonths === null) {
+      reasons.push("Your current fuel spend is too low for solar savings to cover its running costs.");
+    }
+  } else {
+    strengths.push(`Over ${tcoYears} years, ${ENERGY_OPTION_LABELS[recommendedOption]} is the cheapest option (${tcoSummary}).`);
+    let conditionsFailed = 0;
+
+    const maxPayback = rules.rule('payback_months').threshold;
+    if (chosen.paybackMonths !== null && rules.check('payback_months', chosen.paybackMonths, { system_cost: chosen.systemCost, monthly_saving: chosen.monthlySaving })) {
+      strengths.push(`It pays for itself in about ${chosen.paybackMonths} months through fuel savings of about ₦${chosen.monthlySaving.toLocaleString()} a month.`);
+    } else {
+      conditionsFailed++;
+      reasons.push(`It would take about ${chosen.paybackMonths ?? 'more than ' + tcoMonths} months to pay for itself, longer than the ${maxPayback} months we recommend.`);
+    }
+
+    if (isFinanced) {
+      const ratioLimit = rules.rule('financing_payment_to_fuel_savings_ratio').threshold;
+      if (chosen.monthlySaving > 0 && rules.check('financing_payment_to_fuel_savings_ratio', chosen.monthlyPayment / chosen.monthlySaving, { monthly_payment: chosen.monthlyPayment, monthly_saving: chosen.monthlySaving })) {
+        strengths.push(`The monthly repayment (₦${chosen.monthlyPayment.toLocaleString()}) is covered by what you save on fuel.`);
+      } else {
+        conditionsFailed++;
+        reasons.push(`The monthly repayment (₦${chosen.monthlyPayment.toLocaleString()}) is more than ${Math.round(ratioLimit * 100)}% of your expected monthly fuel saving (₦${chosen.monthlySaving.toLocaleString()}), so it would squeeze your cash flow until the loan is paid off.`);
+      }
+    } else {
+      const bufferMonths = rules.rule('savings_after_purchase_months').threshold;
+      if (!rules.checkScaled('savings_after_purchase_months', current_savings - chosen.systemCost, monthly_expenses, { current_savings, system_cost: chosen.systemCost, monthly_expenses })) {
+        conditionsFailed++;
+        reasons.push(`Paying ₦${chosen.systemCost.toLocaleString()} in cash would leave your savings below ${bufferMonths} month(s) of expenses (₦${(bufferMonths * monthly_expenses).toLocaleString()}).`);
+      }
+    }
+
+    recommendation = conditionsFailed === 0 ? 'APPROVE' : 'WAIT';
+  }
+
+  if (recommendation === 'APPROVE') {
+    actionable_steps = [
+      `Get at least two written quotes for ${ENERGY_OPTION_LABELS[recommendedOption]} and check the battery warranty before paying.`,
+      'Keep your generator as a backup and service it less often now that it runs fewer hours.',
+      'Track your fuel spend for the next three months to confirm the savings.',
+    ];
+  } else if (recommendation === 'WAIT') {
+    actionable_steps = [
+      isFinanced
+        ? 'Ask for a longer repayment period or a lower interest rate so repayments stay below your fuel savings.'
+        : 'Consider paying in instalments or saving up for a few months before buying, so your cash buffer stays intact.',
+      'Ask installers for a smaller system that powers only your essential equipment.',
+      'Compare quotes from several installers; prices for the same capacity vary widely.',
+    ];
+  } else {
+    actionable_steps = [
+      'Keep using your generator, and service it regularly to reduce fuel use.',
+      'Buy fuel in bulk or with other traders nearby when prices are low.',
+      'Ask again when fuel prices rise or when you get a cheaper quote for solar.',
+    ];
+  }
+
+  let finalReasoning: string | string[];
+  if (recommendation === 'APPROVE') {
+    finalReasoning = `Switching to ${ENERGY_OPTION_LABELS[recommendedOption]} makes financial sense. ${strengths.join(' ')}`;
+  } else if (recommendation === 'WAIT') {
+    finalReasoning = [...strengths.slice(0, 1), ...reasons];
+  } else {
+    finalReasoning = reasons;
+  }
+
+  return {
+    decision: {
+      recommendation,
+      reasoning: finalReasoning,
+      actionable_steps: Array.from(new Set(actionable_steps)),
+      financial_snapshot: financialData,
+      rule_trace: rules.trace,
+      monthly_fuel_spend: monthlyFuelSpend,
+      daily_outage_hours: dailyOutageHours,
+      solar_system_cost: solarSystemCost,
+      inverter_system_cost: inverterSystemCost,
+      financing_months: financingMonths,
+      financing_apr: apr,
+      energy_tco_years: tcoYears,
+      generator_tco: generatorTco,
+      solar_tco: solar.tco,
+      inverter_tco: inverter?.tco ?? null,
+      solar_payback_months: solar.paybackMonths,
+      inverter_payback_months: inverter?.paybackMonths ?? null,
+      energy_monthly_payment: chosen?.monthlyPayment ?? null,
+      energy_monthly_saving: chosen?.monthlySaving ?? null,
+      recommended_energy_option: recommendedOption,
+    }
+  };
+}
+
+// --- decisions/owner_drawings.ts content ---
+type DrawingSchedule = 'monthly' | 'twice_monthly' | 'weekly';
+
+const DRAWING_INSTALLMENTS: Record<DrawingSchedule, number> = { monthly: 1, twice_monthly: 2, weekly: 4 };
+
+const roundDownToThousand = (value: number): number => Math.max(0, Math.floor(value / 1000) * 1000);
+
+export function makeOwnerDrawingsDecision(
+  financialData: FinancialData,
+  currentPayload: Record<string, unknown>,
+  _question: string, // Marked as unused
+  requestId: string,
+  rulePack: RulePack,
+): DecisionFunctionReturn {
+  console.log(`[${requestId}] makeOwnerDrawingsDecision: Start. currentPayload:`, currentPayload);
+  const rules = createRuleEvaluator(rulePack, 'owner_drawings');
+  const reserveRules = createReserveRuleEvaluator(rulePack);
+
+  const desiredMonthlyDrawing = getPayloadNumber(currentPayload, 'desired_monthly_drawing');
+  const personalMonthlyObligations = getPayloadNumber(currentPayload, 'personal_monthly_obligations');
+  const isVolatileIndustry = getPayloadBoolean(currentPayload, 'is_volatile_industry');
+
+  const intentContext = { intent: "owner_drawings", decision_type: "owner_pay", current_payload: currentPayload };
+
+  // --- Data Gathering Sequence for Owner Drawings ---
+  if (desiredMonthlyDrawing === null || desiredMonthlyDrawing <= 0) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "desired_monthly_drawing",
+        prompt: "How much would you like to pay yourself from the business each month (in ₦)? (Must be greater than 0)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+  if (personalMonthlyObligations === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "personal_monthly_obligations",
+        prompt: "How much do your essential personal costs (rent, school fees, feeding, family support) come to each month (in ₦)? (Type '0' if someone else covers them)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: true,
+      }
+    };
+  }
+  if (isVolatileIndustry === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "is_volatile_industry",
+        prompt: "Is your business in a volatile industry (e.g., agriculture, imports, event businesses)?",
+        type: 'boolean',
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+
+  // --- Sustainable Drawing Calculation ---
+  const { monthly_revenue, monthly_expenses, current_savings } = financialData;
+  const netProfit = monthly_revenue - monthly_expenses;
+  const reserveRuleId = isVolatileIndustry ? 'reserve_months_volatile' : 'reserve_months';
+  const requiredReserveMonths = reserveRules.rule(reserveRuleId).threshold;
+  const requiredReserveAmount = requiredReserveMonths * monthly_expenses;
+  const reserveShortfall = Math.max(0, requiredReserveAmount - current_savings);
+  const maxProfitShare = rules.rule('drawing_to_net_profit_ratio').threshold;
+  // Until the reserve is met, part of each month's profit goes to rebuilding it
+  const monthlyReserveTopUp = reserveShortfall / rules.param('reserve_rebuild_months');
+  const recommendedMonthlyDrawing = Math.min(desiredMonthlyDrawing, roundDownToThousand(Math.min(netProfit * maxProfitShare, netProfit - monthlyReserveTopUp)));
+
+  const reasons: string[] = [];
+  let recommendation: 'APPROVE' | 'WAIT' | 'REJECT';
+
+  // --- Rule Evaluation ---
+  const profitOk = rules.check('net_profit_positive', netProfit, { monthly_revenue, monthly_expenses });
+  const criticalReserveOk = reserveRules.checkScaled('critical_reserve_months', current_savings, monthly_expenses, { current_savings, fixed_operating_expenses: monthly_expenses });
+  const reserveOk = reserveRules.checkScaled(reserveRuleId, current_savings, monthly_expenses, { current_savings, fixed_operating_expenses: monthly_expenses, is_volatile_industry: isVolatileIndustry });
+  const shareOk = profitOk && rules.check('drawing_to_net_profit_ratio', desiredMonthlyDrawing / netProfit, { desired_monthly_drawing: desiredMonthlyDrawing, net_profit: netProfit });
+
+  // 1. REJECT (Highest Priority)
+  if (!profitOk || recommendedMonthlyDrawing <= 0) {
+    recommendation = 'REJECT';
+    if (!profitOk) {
+      reasons.push(`Your business is not making a profit right now (net profit: ₦${netProfit.toLocaleString()}), so any drawing would come out of your savings or stock money.`);
+    } else {
+      reasons.push(`After setting aside ₦${Math.round(monthlyReserveTopUp).toLocaleString()} a month to rebuild your reserve, there is no profit left to pay yourself this month.`);
+    }
+    if (!criticalReserveOk) {
+      reasons.push(`Your savings (₦${current_savings.toLocaleString()}) are below ${reserveRules.rule('critical_reserve_months').threshold} month(s) of business expenses.`);
+    }
+  // 2. APPROVE (desired drawing is sustainable)
+  } else if (shareOk && recommendedMonthlyDrawing >= desiredMonthlyDrawing) {
+    recommendation = 'APPROVE';
+  // 3. WAIT (pay a smaller amount for now)
+  } else {
+    recommendation = 'WAIT';
+    if (!shareOk) {
+      reasons.push(`₦${desiredMonthlyDrawing.toLocaleString()} is more than ${Math.round(maxProfitShare * 100)}% of your monthly net profit (₦${netProfit.toLocaleString()}); the rest should stay in the business for restocking and emergencies.`);
+    }
+    if (!reserveOk) {
+      reasons.push(`Your savings (₦${current_savings.toLocaleString()}) are below the recommended reserve of ${requiredReserveMonths} months of expenses (₦${requiredReserveAmount.toLocaleString()}), so about ₦${Math.round(monthlyReserveTopUp).toLocaleString()} a month should go to rebuilding it.`);
+    }
+    reasons.push(`A sustainable drawing for now is ₦${recommendedMonthlyDrawing.toLocaleString()} a month.`);
+  }
+
+  const finalDrawing = recommendation === 'REJECT' ? 0 : recommendedMonthlyDrawing;
+  if (recommendation !== 'REJECT' && personalMonthlyObligations > finalDrawing) {
+    reasons.push(`This does not fully cover your personal costs of ₦${personalMonthlyObligations.toLocaleString()} a month, so plan for the gap of ₦${(personalMonthlyObligations - finalDrawing).toLocaleString()} without taking extra from the business.`);
+  }
+
+  // Paying in smaller, more frequent amounts lets the owner stop early in a bad month
+  const drawingSchedule: DrawingSchedule = isVolatileIndustry ? 'weekly' : !reserveOk ? 'twice_monthly' : 'monthly';
+  const installmentAmount = roundDownToThousand(finalDrawing / DRAWING_INSTALLMENTS[drawingSchedule]);
+  const scheduleDescription = drawingSchedule === 'weekly'
+    ? `₦${installmentAmount.toLocaleString()} every week, after checking that week's sales`
+    : drawingSchedule === 'twice_monthly'
+      ? `₦${installmentAmount.toLocaleString()} twice a month, on the 1st and the 15th`
+      : `₦${installmentAmount.toLocaleString()} once a month, on the same day each month`;
+
+  let actionable_steps: string[];
+  if (recommendation === 'REJECT') {
+    actionable_steps = [
+      'Do not take money out of the business this month beyond what you cannot avoid.',
+      'Cut non-essential business and personal spending, and focus on increasing sales.',
+      'Keep business and personal money in separate accounts so you can see exactly what the business earns.',
+    ];
+  } else {
+    actionable_steps = [
+      `Pay yourself ${scheduleDescription}.`,
+      'Transfer your drawing to a separate personal account and do not take extra cash from the till.',
+      ...(reserveShortfall > 0 ? [`Move ₦${Math.round(monthlyReserveTopUp).toLocaleString()} a month into business savings until the reserve reaches ₦${requiredReserveAmount.toLocaleString()}.`] : []),
+      'Review your drawing every three months, or sooner if sales drop.',
+    ];
+  }
+
+  let finalReasoning: string | string[];
+  if (recommendation === 'APPROVE') {
+    finalReasoning = [
+      `You can safely pay yourself ₦${desiredMonthlyDrawing.toLocaleString()} a month. It is within ${Math.round(maxProfitShare * 100)}% of your net profit (₦${netProfit.toLocaleString()})${reserveOk ? ' and your business reserve is in place' : ' and still leaves room to rebuild your reserve'}.`,
+      ...reasons,
+    ];
+    if (finalReasoning.length === 1) finalReasoning = finalReasoning[0];
+  } else {
+    finalReasoning = reasons;
+  }
+
+  return {
+    decision: {
+      recommendation,
+      reasoning: finalReasoning,
+      actionable_steps: Array.from(new Set(actionable_steps)),
+      financial_snapshot: financialData,
+      rule_trace: [...reserveRules.trace, ...rules.trace],
+      net_profit: netProfit,
+      is_volatile_industry: isVolatileIndustry,
+      desired_monthly_drawing: desiredMonthlyDrawing,
+      personal_monthly_obligations: personalMonthlyObligations,
+      recommended_monthly_drawing: finalDrawing,
+      drawing_schedule: recommendation === 'REJECT' ? null : drawingSchedule,
+      drawing_installment_amount: recommendation === 'REJECT' ? null : installmentAmount,
+    }
+  };
+}
+
+// --- decisions/rotating_savings.ts content ---
+const CONTRIBUTION_FREQUENCY_OPTIONS = ['daily', 'weekly', 'monthly'] as const;
+type ContributionFrequency = typeof CONTRIBUTION_FREQUENCY_OPTIONS[number];
+
+export type RotatingSavingsMonth = {
+  month: number;
+  contributions: number;
+  payout: number;
+  closing_savings: number;
+};
+
+type RotatingSavingsProjection = {
+  months: RotatingSavingsMonth[];
+  lowestSavings: number;
+};
+
+// Month-by-month savings balance over one full ajo/esusu cycle: one contribution per period,
+// and the whole pot paid out to this member at the end of their payout period.
+const projectRotatingSavings = (
+  financialData: FinancialData,
+  contributionAmount: number,
+  periodsPerMonth: number,
+  groupMembers: number,
+  payoutPosition: number,
+): RotatingSavingsProjection => {
+  const netIncome = financialData.monthly_revenue - financialData.monthly_expenses;
+  const monthOfPeriod = (period: number) => Math.ceil(period / periodsPerMonth - 1e-9);
+  const cycleMonths = monthOfPeriod(groupMembers);
+  const months: RotatingSavingsMonth[] = [];
+  let balance = financialData.current_savings;
+  let lowestSavings = balance;
+  for (let month = 1; month <= cycleMonths; month++) {
+    let periods = 0;
+    for (let period = 1; period <= groupMembers; period++) {
+      if (monthOfPeriod(period) === month) periods++;
+    }
+    const contributions = Math.round(contributionAmount * periods);
+    const payout = monthOfPeriod(payoutPosition) === month ? Math.round(contributionAmount * groupMembers) : 0;
+    // Contributions leave before the payout arrives, so the low point is checked in between
+    lowestSavings = Math.min(lowestSavings, balance + netIncome - contributions);
+    balance = balance + netIncome - contributions + payout;
+    months.push({ month, contributions, payout, closing_savings: Math.round(balance) });
+  }
+  return { months, lowestSavings: Math.round(lowestSavings) };
+};
+
+export function makeRotatingSavingsDecision(
+  financialData: FinancialData,
+  currentPayload: Record<string, unknown>,
+  _question: string, // Marked as unused
+  requestId: string,
+  rulePack: RulePack,
+): DecisionFunctionReturn {
+  console.log(`[${requestId}] makeRotatingSavingsDecision: Start. currentPayload:`, currentPayload);
+  const rules = createRuleEvaluator(rulePack, 'rotating_savings');
+  const reserveRules = createReserveRuleEvaluator(rulePack);
+
+  const contributionAmount = getPayloadNumber(currentPayload, 'contribution_amount');
+  const groupMembers = getPayloadNumber(currentPayload, 'group_members');
+  const payoutPosition = getPayloadNumber(currentPayload, 'payout_position');
+  const contributionFrequency = CONTRIBUTION_FREQUENCY_OPTIONS.includes(currentPayload.contribution_frequency as ContributionFrequency)
+    ? currentPayload.contribution_frequency as ContributionFrequency
+    : null;
+
+  const intentContext = { intent: "rotating_savings", decision_type: "ajo_contribution", current_payload: currentPayload };
+
+  // --- Data Gathering Sequence for Rotating Savings ---
+  if (contributionAmount === null || contributionAmount <= 0) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "contribution_amount",
+        prompt: "How much would you contribute to the ajo/esusu each time (in ₦)? (Must be greater than 0)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+  if (contributionFrequency === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "contribution_frequency",
+        prompt: "How often are contributions made?",
+        type: 'text_enum',
+        options: [...CONTRIBUTION_FREQUENCY_OPTIONS],
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+  if (groupMembers === null || groupMembers < 2 || !Number.isInteger(groupMembers)) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "group_members",
+        prompt: "How many members are in the group? (Each member collects the pot once; must be at least 2)",
+        type: 'number',
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+  if (payoutPosition === null || payoutPosition < 1 || payoutPosition > groupMembers || !Number.isInteger(payoutPosition)) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "payout_position",
+        prompt: `Which turn would you collect the pot (1 for first, ${groupMembers} for last)?`,
+        type: 'number',
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+
+  // --- Cash-flow Projection ---
+  const { monthly_revenue, monthly_expenses } = financialData;
+  const netIncome = monthly_revenue - monthly_expenses;
+  const periodsPerMonth = rules.param(`${contributionFrequency}_contributions_per_month`);
+  const monthlyContribution = Math.round(contributionAmount * periodsPerMonth);
+  const payoutAmount = contributionAmount * groupMembers;
+  const reserveMonths = reserveRules.rule('critical_reserve_months').threshold;
+  const reserveAmount = reserveMonths * monthly_expenses;
+  const maxIncomeShare = rules.rule('contribution_to_net_income_ratio').threshold;
+
+  const project = (amount: number, position: number) =>
+    projectRotatingSavings(financialData, amount, periodsPerMonth, groupMembers, position);
+  const keepsReserve = (amount: number, position: number) => project(amount, position).lowestSavings >= reserveAmount;
+  const projection = project(contributionAmount, payoutPosition);
+
+  const reasons: string[] = [];
+  let recommendation: 'APPROVE' | 'WAIT' | 'REJECT';
+
+  // --- Rule Evaluation ---
+  const netIncomeOk = rules.check('net_income_positive', netIncome, { monthly_revenue, monthly_expenses });
+  const shareOk = netIncomeOk && rules.check('contribution_to_net_income_ratio', monthlyContribution / netIncome, { monthly_contribution: monthlyContribution, net_income: netIncome });
+  const reserveOk = reserveRules.checkScaled('critical_reserve_months', projection.lowestSavings, monthly_expenses, { lowest_projected_savings: projection.lowestSavings, fixed_operating_expenses: monthly_expenses });
+
+  // Latest turn that still keeps the reserve; later turns are easier to get and work as forced savings
+  let recommendedPayoutPosition = payoutPosition;
+  if (!reserveOk) {
+    recommendedPayoutPosition = 0;
+    for (let position = payoutPosition - 1; position >= 1; position--) {
+      if (keepsReserve(contributionAmount, position)) {
+        recommendedPayoutPosition = position;
+        break;
+      }
+    }
+  }
+
+  // Largest contribution that fits both the income share and the reserve at the chosen turn
+  let recommendedContributionAmount = contributionAmount;
+  if (netIncomeOk && (!shareOk || !reserveOk)) {
+    let affordable = Math.min(contributionAmount, (maxIncomeShare * netIncome) / periodsPerMonth);
+    if (!keepsReserve(affordable, payoutPosition)) {
+      let low = 0;
+      let high = affordable;
+      for (let iteration = 0; iteration < 24; iteration++) {
+        const mid = (low + high) / 2;
+        if (keepsReserve(mid, payoutPosition)) low = mid;
+        else high = mid;
+      }
+      affordable = low;
+    }
+    recommendedContributionAmount = roundDownToHundred(affordable);
+  }
+
+  // 1. REJECT (Highest Priority)
+  if (!netIncomeOk || (recommendedContributionAmount <= 0 && recommendedPayoutPosition === 0)) {
+    recommendation = 'REJECT';
+    if (!netIncomeOk) {
+      reasons.push(`Your business is spending more than it earns (net income: ₦${netIncome.toLocaleString()}), so regular contributions would drain your savings.`);
+    } else if (financialData.current_savings < reserveAmount) {
+      reasons.push(`Your savings (₦${financialData.current_savings.toLocaleString()}) are already below ${reserveMonths} month(s) of expenses (₦${reserveAmount.toLocaleString()}), so there is no room for contributions until your emergency reserve is rebuilt.`);
+    } else {
+      reasons.push(`Even a small contribution or an earlier turn would push your savings below ${reserveMonths} month(s) of expenses (₦${reserveAmount.toLocaleString()}) during the cycle.`);
+    }
+  // 2. APPROVE (affordable as proposed)
+  } else if (shareOk && reserveOk) {
+    recommendation = 'APPROVE';
+  // 3. WAIT (join with a smaller contribution or an earlier turn)
+  } else {
+    recommendation = 'WAIT';
+    if (!shareOk) {
+      reasons.push(`Contributions of about ₦${monthlyContribution.toLocaleString()} a month would take more than ${Math.round(maxIncomeShare * 100)}% of your monthly net income (₦${netIncome.toLocaleString()}).`);
+    }
+    if (!reserveOk) {
+      reasons.push(`Before your payout arrives, your savings would drop to about ₦${projection.lowestSavings.toLocaleString()}, below ${reserveMonths} month(s) of expenses (₦${reserveAmount.toLocaleString()}).`);
+    }
+  }
+
+  const frequencyLabel = contributionFrequency === 'daily' ? 'a day' : contributionFrequency === 'weekly' ? 'a week' : 'a month';
+  let actionable_steps: string[];
+  if (recommendation === 'APPROVE') {
+    actionable_steps = [
+      `Join with ₦${contributionAmount.toLocaleString()} ${frequencyLabel} and collect ₦${payoutAmount.toLocaleString()} on turn ${payoutPosition} of ${groupMembers}.`,
+      'Only join a group whose coordinator and members you know and trust, and keep a record of every contribution.',
+      'Decide now what the payout is for (restocking, rent, equipment) so it is not spent on day-to-day costs.',
+    ];
+  } else if (recommendation === 'WAIT') {
+    actionable_steps = [
+      ...(recommendedContributionAmount > 0 && recommendedContributionAmount < contributionAmount
+        ? [`Contribute ₦${recommendedContributionAmount.toLocaleString()} ${frequencyLabel} instead of ₦${contributionAmount.toLocaleString()}, or take half a hand if the group allows it.`]
+        : []),
+      ...(recommendedPayoutPosition > 0 && recommendedPayoutPosition < payoutPosition
+        ? [`Ask for turn ${recommendedPayoutPosition} or earlier, so the payout arrives before your savings run low.`]
+        : []),
+      'Only join a group whose coordinator and members you know and trust.',
+    ];
+  } else {
+    actionable_steps = [
+      'Do not join the group for now.',
+      'Improve your monthly profit or build your emergency savings first, then ask again.',
+      'If you want to save regularly, start with small amounts in a separate savings account you can reach in an emergency.',
+    ];
+  }
+
+  let finalReasoning: string | string[];
+  if (recommendation === 'APPROVE') {
+    finalReasoning = `You can afford this contribution. It takes about ₦${monthlyContribution.toLocaleString()} a month, within ${Math.round(maxIncomeShare * 100)}% of your net income, and your savings stay at or above ₦${projection.lowestSavings.toLocaleString()} through the cycle.`;
+  } else {
+    finalReasoning = reasons;
+  }
+
+  return {
+    decision: {
+      recommendation,
+      reasoning: finalReasoning,
+      actionable_steps: Array.from(new Set(actionable_steps)),
+      financial_snapshot: financialData,
+      rule_trace: [...reserveRules.trace, ...rules.trace],
+      contribution_amount: contributionAmount,
+      contribution_frequency: contributionFrequency,
+      group_members: groupMembers,
+      payout_position: payoutPosition,
+      monthly_contribution: monthlyContribution,
+      payout_amount: payoutAmount,
+      lowest_projected_savings: projection.lowestSavings,
+      recommended_contribution_amount: recommendation === 'REJECT' ? 0 : recommendedContributionAmount,
+      recommended_payout_position: recommendation === 'REJECT' || recommendedPayoutPosition === 0 ? null : recommendedPayoutPosition,
+      rotating_savings_projection: projection.months,
+    }
+  };
+}
+
+// --- decisions/loan_offer_comparison.ts content ---
+type LoanOffer = z.infer<typeof LoanOfferSchema>;
+
+export type LoanOfferResult = {
+  offer_index: number; // Position in loan_offers; lender names are optional and may repeat
+  lender: string;
+  principal: number;
+  upfront_fees: number;
+  tenor_months: number;
+  repayment_frequency: 'weekly' | 'monthly';
+  installment_amount: number;
+  total_repayment: number;
+  total_cost: number; // Interest plus fees
+  effective_apr_percentage: number; // Annual cost including fees, compounded
+  monthly_repayment: number;
+  repayment_burden_percentage: number | null; // Monthly repayment as a share of net income
+  affordable: boolean;
+  rank: number; // 1 is the cheapest affordable offer
+};
+
+// Placeholder offers let collectMissingFields move past the offers question
+const PLACEHOLDER_LOAN_OFFERS: LoanOffer[] = [1, 2].map(index => ({
+  lender: `Offer ${index}`,
+  principal: 1,
+  interest_rate_percentage: 0,
+  rate_period: 'monthly',
+  interest_method: 'flat',
+  upfront_fees: 0,
+  tenor_months: 1,
+  repayment_frequency: 'monthly',
+}));
+
+const REPAYMENTS_PER_YEAR: Record<LoanOffer['repayment_frequency'], number> = { weekly: 52, monthly: 12 };
+
+// Periodic rate at which the installments are worth what the borrower actually receives
+const solvePeriodicRate = (amountReceived: number, installment: number, periods: number): number => {
+  const presentValue = (rate: number) => rate === 0
+    ? installment * periods
+    : installment * (1 - Math.pow(1 + rate, -periods)) / rate;
+  if (presentValue(0) <= amountReceived) return 0;
+  let low = 0;
+  let high = 1;
+  for (let iteration = 0; iteration < 60; iteration++) {
+    const mid = (low + high) / 2;
+    if (presentValue(mid) > amountReceived) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+};
+
+const evaluateLoanOffer = (offer: LoanOffer, index: number, netIncome: number) => {
+  const periodsPerYear = REPAYMENTS_PER_YEAR[offer.repayment_frequency];
+  const periods = Math.max(1, Math.round(offer.tenor_months * periodsPerYear / 12));
+  const annualRate = (offer.rate_period === 'monthly' ? offer.interest_rate_percentage * 12 : offer.interest_rate_percentage) / 100;
+
+  let installment: number;
+  if (offer.interest_method === 'flat') {
+    // Flat interest is charged on the full principal for the whole tenor
+    installment = (offer.principal + offer.principal * annualRate * offer.tenor_months / 12) / periods;
+  } else {
+    const periodicRate = annualRate / periodsPerYear;
+    installment = periodicRate === 0
+      ? offer.principal / periods
+      : offer.principal * periodicRate / (1 - Math.pow(1 + periodicRate, -periods));
+  }
+
+  const totalRepayment = installment * periods;
+  const periodicRate = solvePeriodicRate(offer.principal - offer.upfront_fees, installment, periods);
+  const monthlyRepayment = installment * periodsPerYear / 12;
+  return {
+    offer_index: index,
+    lender: offer.lender?.trim() || `Offer ${index + 1}`,
+    principal: offer.principal,
+    upfront_fees: offer.upfront_fees,
+    tenor_months: offer.tenor_months,
+    repayment_frequency: offer.repayment_frequency,
+    installment_amount: Math.round(installment),
+    total_repayment: Math.round(totalRepayment),
+    total_cost: Math.round(totalRepayment - offer.principal + offer.upfront_fees),
+    effective_apr_percentage: roundToOneDecimal((Math.pow(1 + periodicRate, periodsPerYear) - 1) * 100),
+    monthly_repayment: Math.round(monthlyRepayment),
+    repayment_burden_percentage: netIncome > 0 ? roundToOneDecimal((monthlyRepayment / netIncome) * 100) : null,
+  };
+};
+
+export function makeLoanOfferComparisonDecision(
+  financialData: FinancialData,
+  currentPayload: Record<string, unknown>,
+  _question: string, // Marked as unused
+  requestId: string,
+  rulePack: RulePack,
+): DecisionFunctionReturn {
+  console.log(`[${requestId}] makeLoanOfferComparisonDecision: Start. currentPayload:`, currentPayload);
+  const rules = createRuleEvaluator(rulePack, 'loan_offer_comparison');
+
+  const offersResult = z.array(LoanOfferSchema).min(MIN_LOAN_OFFERS).max(MAX_LOAN_OFFERS).safeParse(currentPayload.loan_offers);
+
+  // --- Data Gathering Sequence for Loan Offer Comparison ---
+  if (!offersResult.success) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "loan_offers",
+        prompt: `Please enter the details of each loan offer you are comparing (at least ${MIN_LOAN_OFFERS}, up to ${MAX_LOAN_OFFERS}): the lender, amount, interest rate, whether interest is flat or reducing, upfront fees, tenor and how often you repay.`,
+        type: 'loan_offers',
+        intent_context: { intent: "loan_offer_comparison", decision_type: "loan_offer_ranking", current_payload: currentPayload },
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+  const offers = offersResult.data;
+
+  // --- Cost and Burden per Offer ---
+  const { monthly_revenue, monthly_expenses } = financialData;
+  const netIncome = monthly_revenue - monthly_expenses;
+  const netIncomeOk = rules.check('net_income_positive', netIncome, { monthly_revenue, monthly_expenses });
+  const maxBurden = rules.rule('repayment_burden_percentage').threshold;
+  const maxApr = rules.rule('effective_apr_percentage').threshold;
+
+  const evaluated = offers.map((offer, index) => {
+    const result = evaluateLoanOffer(offer, index, netIncome);
+    const affordable = netIncomeOk && result.repayment_burden_percentage !== null &&
+      rules.check('repayment_burden_percentage', result.repayment_burden_percentage, { lender: result.lender, monthly_repayment: result.monthly_repayment, net_income: netIncome });
+    return { ...result, affordable };
+  });
+
+  // Affordable offers first, then the lowest effective APR; total cost breaks ties
+  const ranked = [...evaluated].sort((a, b) =>
+    Number(b.affordable) - Number(a.affordable) ||
+    a.effective_apr_percentage - b.effective_apr_percentage ||
+    a.total_cost - b.total_cost);
+  const loanOfferResults: LoanOfferResult[] = ranked.map((result, index) => ({ ...result, rank: index + 1 }));
+  const best = loanOfferResults[0];
+
+  const reasons: string[] = [];
+  let recommendation: 'APPROVE' | 'WAIT' | 'REJECT';
+  let actionable_steps: string[];
+
+  // --- Rule Evaluation ---
+  if (!netIncomeOk || !best.affordable) {
+    // 1. REJECT: no offer can be repaid from current profit
+    recommendation = 'REJECT';
+    if (!netIncomeOk) {
+      reasons.push(`Your business is spending more than it earns (net income: ₦${netIncome.toLocaleString()}), so repayments would have to come from your savings or stock money.`);
+    } else {
+      reasons.push(`Every offer's repayments would take more than ${maxBurden}% of your monthly net income (₦${netIncome.toLocaleString()}). The lowest is ${loanOfferResults.reduce((lowest, result) => Math.min(lowest, result.repayment_burden_percentage ?? Infinity), Infinity)}%.`);
+    }
+  } else if (rules.check('effective_apr_percentage', best.effective_apr_percentage, { lender: best.lender, total_cost: best.total_cost })) {
+    // 2. APPROVE: the cheapest affordable offer is reasonably priced
+    recommendation = 'APPROVE';
+  } else {
+    // 3. WAIT: the cheapest affordable offer is still expensive
+    recommendation = 'WAIT';
+    reasons.push(`The cheapest offer you can afford (${best.lender}) still costs about ${best.effective_apr_percentage}% a year once fees are included, above the ${maxApr}% we consider reasonable.`);
+  }
+
+  const otherOffers = loanOfferResults.slice(1);
+  if (recommendation !== 'REJECT' && otherOffers.length > 0) {
+    const runnerUp = otherOffers[0];
+    reasons.push(`${best.lender} costs ₦${best.total_cost.toLocaleString()} in interest and fees (${best.effective_apr_percentage}% a year), compared with ₦${runnerUp.total_cost.toLocaleString()} (${runnerUp.effective_apr_percentage}% a year) for ${runnerUp.lender}.`);
+  }
+  const highFeeShare = rules.param('high_fee_share');
+  loanOfferResults.filter(result => result.upfront_fees > 0 && result.upfront_fees >= result.principal * highFeeShare).forEach(result => {
+    reasons.push(`${result.lender} takes ₦${result.upfront_fees.toLocaleString()} in upfront fees, so you only receive ₦${(result.principal - result.upfront_fees).toLocaleString()}.`);
+  });
+
+  if (recommendation === 'APPROVE') {
+    actionable_steps = [
+      `Go with ${best.lender}: repay ₦${best.installment_amount.toLocaleString()} ${best.repayment_frequency === 'weekly' ? 'every week' : 'every month'} for ${best.tenor_months} months.`,
+      'Ask for the full repayment schedule and all fees in writing before you sign.',
+      'Check that there are no extra charges for paying off the loan early.',
+    ];
+  } else if (recommendation === 'WAIT') {
+    actionable_steps = [
+      `Ask ${best.lender} for a lower rate, lower fees or a reducing-balance rate instead of flat interest.`,
+      'Compare offers from a cooperative or your bank; they are often cheaper than app lenders.',
+      'Borrow a smaller amount, or only what you need for the purpose that will pay it back.',
+    ];
+  } else {
+    actionable_steps = [
+      'Do not take any of these loans for now.',
+      'Ask for a longer tenor or a smaller amount so repayments fit within your monthly profit.',
+      'Work on raising your monthly profit before borrowing.',
+    ];
+  }
+
+  let finalReasoning: string | string[];
+  if (recommendation === 'APPROVE') {
+    finalReasoning = [
+      `${best.lender} is the best of your ${loanOfferResults.length} offers: it is the cheapest you can afford, and its repayments take ${best.repayment_burden_percentage}% of your monthly net income.`,
+      ...reasons,
+    ];
+  } else {
+    finalReasoning = reasons;
+  }
+
+  return {
+    decision: {
+      recommendation,
+      reasoning: finalReasoning,
+      actionable_steps: Array.from(new Set(actionable_steps)),
+      financial_snapshot: financialData,
+      rule_trace: rules.trace,
+      loan_offers: offers,
+      loan_offer_results: loanOfferResults,
+      recommended_loan_offer: recommendation === 'REJECT' ? null : best.offer_index,
+    }
+  };
+}
+
+// --- decisions/lease_renewal.ts content ---
+export type LeaseOption = 'renew' | 'move' | 'negotiate';
+
+// One month of saving towards the upfront rent
+export type LeaseSinkingFundMonth = {
+  month: string; // YYYY-MM
+  set_aside: number;
+  projected_savings: number; // Savings at month end, reserve included
+};
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseIsoDate = (value: unknown): Date | null => {
+  if (typeof value !== 'string' || !ISO_DATE_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value ? null : date;
+};
+
+// Whole months left before the date; 0 when it is this month or already past
+const wholeMonthsUntil = (date: Date, now: Date): number => Math.max(0,
+  (date.getUTCFullYear() - now.getUTCFullYear()) * 12 + date.getUTCMonth() - now.getUTCMonth() -
+  (date.getUTCDate() < now.getUTCDate() ? 1 : 0));
+
+const buildLeaseSinkingFundPlan = (currentSavings: number, target: number, monthlySetAside: number, months: number, now: Date): LeaseSinkingFundMonth[] => {
+  const plan: LeaseSinkingFundMonth[] = [];
+  let savings = currentSavings;
+  for (let index = 1; index <= months; index++) {
+    const setAside = Math.max(0, Math.min(monthlySetAside, target - savings));
+    savings += setAside;
+    plan.push({
+      month: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + index, 1)).toISOString().slice(0, 7),
+      set_aside: Math.round(setAside),
+      projected_savings: Math.round(savings),
+    });
+  }
+  return plan;
+};
+
+export function makeLeaseRenewalDecision(
+  financialData: FinancialData,
+  currentPayload: Record<string, unknown>,
+  _question: string, // Marked as unused
+  requestId: string,
+  rulePack: RulePack,
+): DecisionFunctionReturn {
+  console.log(`[${requestId}] makeLeaseRenewalDecision: Start. currentPayload:`, currentPayload);
+  const rules = createRuleEvaluator(rulePack, 'lease_renewal');
+  const reserveRules = createReserveRuleEvaluator(rulePack);
+  const now = new Date();
+
+  const rentAmount = getPayloadNumber(currentPayload, 'rent_amount');
+  const renewalDate = parseIsoDate(currentPayload.renewal_date);
+  const canMove = getPayloadBoolean(currentPayload, 'can_move');
+  const movingCost = getPayloadNumber(currentPayload, 'moving_cost');
+  const isVolatileIndustry = getPayloadBoolean(currentPayload, 'is_volatile_industry');
+  const maxMonthsAhead = rules.param('max_months_until_renewal');
+
+  const intentContext = { intent: "lease_renewal", decision_type: "rent_renewal", current_payload: currentPayload };
+
+  // --- Data Gathering Sequence for Lease Renewal ---
+  if (rentAmount === null || rentAmount <= 0) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "rent_amount",
+        prompt: "How much rent does your landlord want upfront for the renewal (in ₦)? Include agent, legal and service charges you have to pay at the same time. (Must be greater than 0)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+  if (renewalDate === null || wholeMonthsUntil(renewalDate, now) > maxMonthsAhead) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "renewal_date",
+        prompt: `When is the rent due for renewal? (A date within the next ${maxMonthsAhead} months, e.g. 2027-03-01)`,
+        type: 'date',
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+  if (canMove === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "can_move",
+        prompt: "Could you move to another shop instead of renewing, without losing most of your customers?",
+        type: 'boolean',
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+  if (canMove && (movingCost === null || movingCost <= 0)) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "moving_cost",
+        prompt: "What would moving cost in total (in ₦)? Include the new shop's upfront rent, agent and legal fees, transport and fitting out. (Must be greater than 0)",
+        type: 'number',
+        unit: 'currency',
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+  if (isVolatileIndustry === null) {
+    return {
+      decision: null,
+      dataNeeded: {
+        field: "is_volatile_industry",
+        prompt: "Is your business in a volatile industry (e.g., agriculture, imports, event businesses)?",
+        type: 'boolean',
+        intent_context: intentContext,
+        canBeZeroOrNone: false,
+      }
+    };
+  }
+
+  // --- Funding the Rent by the Renewal Date ---
+  const { monthly_revenue, monthly_expenses, current_savings } = financialData;
+  const netProfit = monthly_revenue - monthly_expenses;
+  const monthsUntilRenewal = wholeMonthsUntil(renewalDate, now);
+  const renewalDateLabel = renewalDate.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+  const reserveRuleId = isVolatileIndustry ? 'reserve_months_volatile' : 'reserve_months';
+  const requiredReserveMonths = reserveRules.rule(reserveRuleId).threshold;
+  const requiredReserveAmount = requiredReserveMonths * monthly_expenses;
+  // Savings after paying the rent if every month's profit until then is kept
+  const projectedSavings = current_savings + netProfit * monthsUntilRenewal;
+  const savingsAfterRent = projectedSavings - rentAmount;
+  const rentFundingGap = Math.max(0, requiredReserveAmount - savingsAfterRent);
+  // What has to come out of profit each month so the rent is ready and the reserve untouched
+  const neededFromProfit = Math.max(0, rentAmount + requiredReserveAmount - current_savings);
+  const monthlySetAside = monthsUntilRenewal > 0 ? Math.ceil(neededFromProfit / monthsUntilRenewal / 100) * 100 : neededFromProfit;
+
+  const reasons: string[] = [];
+  let recommendation: 'APPROVE' | 'WAIT' | 'REJECT';
+
+  // --- Rule Evaluation ---
+  const profitOk = rules.check('net_profit_positive', netProfit, { monthly_revenue, monthly_expenses });
+  const renewalCovered = reserveRules.checkScaled(reserveRuleId, savingsAfterRent, monthly_expenses, { projected_savings: projectedSavings, rent_amount: rentAmount, months_until_renewal: monthsUntilRenewal, is_volatile_industry: isVolatileIndustry });
+  const setAsideOk = neededFromProfit === 0 ||
+    (profitOk && monthsUntilRenewal > 0 && rules.check('set_aside_to_net_profit_ratio', monthlySetAside / netProfit, { monthly_set_aside: monthlySetAside, net_profit: netProfit }));
+  const moveCovered = canMove && movingCost !== null && movingCost < rentAmount &&
+    reserveRules.checkScaled(reserveRuleId, projectedSavings - movingCost, monthly_expenses, { projected_savings: projectedSavings, moving_cost: movingCost, is_volatile_industry: isVolatileIndustry });
+
+  // 1. APPROVE (savings and profit cover the rent with the reserve intact)
+  if (renewalCovered && setAsideOk) {
+    recommendation = 'APPROVE';
+  // 2. REJECT (no profit or no time left to build the rent)
+  } else if (!renewalCovered && (!profitOk || monthsUntilRenewal === 0)) {
+    recommendation = 'REJECT';
+    if (!profitOk) {
+      reasons.push(`Your business is not making a profit right now (net profit: ₦${netProfit.toLocaleString()}), so the rent would have to come out of your savings and stock money.`);
+    } else {
+      reasons.push(`The rent is due this month and your savings (₦${current_savings.toLocaleString()}) cannot cover ₦${rentAmount.toLocaleString()} while keeping ${requiredReserveMonths} months of expenses (₦${requiredReserveAmount.toLocaleString()}) in reserve.`);
+    }
+  // 3. WAIT (reachable only with a strict plan, a better deal or a move)
+  } else {
+    recommendation = 'WAIT';
+    if (!renewalCovered) {
+      reasons.push(`Even if you keep all your profit until ${renewalDateLabel}, you will be about ₦${Math.round(rentFundingGap).toLocaleString()} short of paying ₦${rentAmount.toLocaleString()} and keeping ${requiredReserveMonths} months of expenses (₦${requiredReserveAmount.toLocaleString()}) in reserve.`);
+    } else {
+      reasons.push(`Paying the rent on time means setting aside ₦${monthlySetAside.toLocaleString()} a month, more than ${Math.round(rules.rule('set_aside_to_net_profit_ratio').threshold * 100)}% of your monthly net profit (₦${netProfit.toLocaleString()}), which leaves little for restocking or emergencies.`);
+    }
+  }
+
+  const recommendedLeaseOption: LeaseOption = recommendation === 'APPROVE' ? 'renew' : moveCovered ? 'move' : 'negotiate';
+  if (recommendedLeaseOption === 'move' && movingCost !== null) {
+    reasons.push(`Moving would cost about ₦${movingCost.toLocaleString()}, ₦${(rentAmount - movingCost).toLocaleString()} less than renewing, and your reserve would stay in place.`);
+  } else if (recommendation !== 'APPROVE' && canMove && movingCost !== null) {
+    reasons.push(`Moving (about ₦${movingCost.toLocaleString()}) would not solve the problem: it ${movingCost >= rentAmount ? 'costs as much as renewing' : 'would also leave your reserve short'}.`);
+  }
+
+  // The month-by-month plan is only needed when savings alone do not already cover the rent
+  const sinkingFundPlan = neededFromProfit > 0 && monthsUntilRenewal > 0
+    ? buildLeaseSinkingFundPlan(current_savings, rentAmount + requiredReserveAmount, monthlySetAside, monthsUntilRenewal, now)
+    : null;
+
+  let actionable_steps: string[];
+  if (recommendation === 'APPROVE') {
+    actionable_steps = sinkingFundPlan
+      ? [
+        `Move ₦${monthlySetAside.toLocaleString()} into a separate rent account every month until ${renewalDateLabel}.`,
+        'Do not touch the rent account for stock or personal spending.',
+        'Confirm the renewal terms with your landlord in writing before paying.',
+      ]
+      : [
+        'You already have the rent; keep it in a separate account until the renewal date.',
+        'Confirm the renewal terms with your landlord in writing before paying.',
+      ];
+  } else {
+    actionable_steps = [
+      ...(recommendedLeaseOption === 'move'
+        ? ['Start looking for the new shop now, and tell your regular customers where you are moving.']
+        : ['Ask your landlord to accept the rent in two or more installments, or to give you more time.']),
+      ...(sinkingFundPlan && profitOk
+        ? [renewalCovered
+          ? `Start setting aside ₦${monthlySetAside.toLocaleString()} a month in a separate rent account now, as in the plan below.`
+          : `Put as much of your profit as you can spare, up to the ₦${monthlySetAside.toLocaleString()} a month in the plan below, into a separate rent account now.`]
+        : []),
+      'Cut non-essential spending and push sales before the renewal date.',
+      'Avoid borrowing at high interest to pay rent.',
+    ];
+  }
+
+  let finalReasoning: string | string[];
+  if (recommendation === 'APPROVE') {
+    finalReasoning = sinkingFundPlan
+      ? `You can renew. Setting aside ₦${monthlySetAside.toLocaleString()} a month for ${monthsUntilRenewal} month(s) gives you the ₦${rentAmount.toLocaleString()} by ${renewalDateLabel} and keeps ${requiredReserveMonths} months of expenses in reserve.`
+      : `You can renew. Your savings (₦${current_savings.toLocaleString()}) already cover the ₦${rentAmount.toLocaleString()} rent and keep ${requiredReserveMonths} months of expenses in reserve.`;
+  } else {
+    finalReasoning = reasons;
+  }
+
+  return {
+    decision: {
+      recommendation,
+      reasoning: finalReasoning,
+      actionable_steps: Array.from(new Set(actionable_steps)),
+      financial_snapshot: financialData,
+      rule_trace: [...reserveRules.trace, ...rules.trace],
+      net_profit: netProfit,
+      is_volatile_industry: isVolatileIndustry,
+      rent_amount: rentAmount,
+      renewal_date: renewalDate.toISOString().slice(0, 10),
+      can_move: canMove,
+      moving_cost: canMove ? movingCost : null,
+      months_until_renewal: monthsUntilRenewal,
+      monthly_rent_set_aside: sinkingFundPlan ? monthlySetAside : 0,
+      rent_funding_gap: Math.round(rentFundingGap),
+      recommended_lease_option: recommendedLeaseOption,
+      lease_sinking_fund_plan: sinkingFundPlan,
+    }
+  };
+}
+
+// --- decisions/dispatch.ts content ---
+export type DecisionIntent = z.infer<typeof DecisionIntentSchema>;
+
+export function runDecisionFunction(
+  intent: DecisionIntent,
+  financialData: FinancialData,
+  profileData: ProfileData,
+  currentPayload: Record<string, unknown>,
+  question: string,
+  requestId: string,
+  rulePack: RulePack,
+): DecisionFunctionReturn {
+  switch (intent) {
+    case 'hiring':
+      return makeHiringDecision(financialData, currentPayload, question, requestId, rulePack);
+    case 'inventory':
+      return makeInventoryDecision(financialData, profileData, currentPayload, question, requestId, rulePack);
+    case 'marketing':
+      return makeMarketingDecision(financialData, currentPayload, question, requestId, rulePack);
+    case 'savings':
+      return makeSavingsDecision(financialData, profileData, currentPayload, question, requestId, rulePack);
+    case 'equipment':
+      return makeEquipmentDecision(financialData, profileData, currentPayload, question, requestId, rulePack);
+    case 'loan_management':
+      return makeDebtLoanDecision(financialData, profileData, currentPayload, question, requestId, rulePack);
+    case 'business_expansion':
+      return makeBusinessExpansionDecision(financialData, profileData, currentPayload, question, requestId, rulePack);
+    case 'pricing':
+      return makePricingDecision(financialData, currentPayload, question, requestId, rulePack);
+    case 'customer_credit':
+      return makeCustomerCreditDecision(financialData, currentPayload, question, requestId, rulePack);
+    case 'energy_cost':
+      return makeEnergyCostDecision(financialData, currentPayload, question, requestId, rulePack);
+    case 'owner_drawings':
+      return makeOwnerDrawingsDecision(financialData, currentPayload, question, requestId, rulePack);
+    case 'rotating_savings':
+      return makeRotatingSavingsDecision(financialData, currentPayload, question, requestId, rulePack);
+    case 'loan_offer_comparison':
+      return makeLoanOfferComparisonDecision(financialData, currentPayload, question, requestId, rulePack);
+    case 'lease_renewal':
+      return makeLeaseRenewalDecision(financialData, currentPayload, question, requestId, rulePack);
+    default:
+      throw new InputValidationError("Unsupported Intent", `Intent '${intent}' is not yet supported.`);
+  }
+}
+
+// --- missing_fields.ts content ---
+// Decision functions ask for one field at a time. To return every missing field in one response,
+// the dispatcher is re-run with a placeholder answer for each field it asks for until it stops asking.
+export type MissingFieldDependency = {
+  field: string;
+  operator: 'equals' | 'gt';
+  value: number | boolean | string;
+};
+
+// Fields that are only needed depending on the answer to another field
+export const MISSING_FIELD_DEPENDENCIES: Record<string, MissingFieldDependency> = {
+  'marketing.historic_foot_traffic_increase_observed': { field: 'is_localized_promotion', operator: 'equals', value: true },
+  'marketing.revenue_gain_last_campaign': { field: 'marketing_spend_last_campaign', operator: 'gt', value: 0 },
+  'marketing.customer_lifetime_value': { field: 'customer_acquisition_cost', operator: 'gt', value: 0 },
+  'marketing.digital_cac': { field: 'has_tested_multiple_channels', operator: 'equals', value: true },
+  'marketing.offline_cac': { field: 'has_tested_multiple_channels', operator: 'equals', value: true },
+  'marketing.low_performing_channel_spend': { field: 'has_tested_multiple_channels', operator: 'equals', value: true },
+  'marketing.high_performing_channel_roi': { field: 'has_tested_multiple_channels', operator: 'equals', value: true },
+  'marketing.projected_demand_increase_factor': { field: 'is_festive_or_peak_season', operator: 'equals', value: true },
+  'inventory.storage_cost_percentage_of_order': { field: 'supplier_discount_percentage', operator: 'gt', value: 0 },
+  'equipment.hire_purchase_deposit': { field: 'hire_purchase_monthly_payment', operator: 'gt', value: 0 },
+  'equipment.hire_purchase_months': { field: 'hire_purchase_monthly_payment', operator: 'gt', value: 0 },
+  'energy_cost.financing_apr': { field: 'financing_months', operator: 'gt', value: 0 },
+  'lease_renewal.moving_cost': { field: 'can_move', operator: 'equals', value: true },
+};
+
+const MAX_MISSING_FIELDS = 20; // Guards against a decision function that keeps asking
+
+// Placeholder answers choose the branch that asks the most, so dependent fields are discovered too
+const getPlaceholderAnswer = (dataNeeded: DataNeededResponse): unknown => {
+  switch (dataNeeded.type) {
+    case 'boolean': return true;
+    case 'text_enum': return dataNeeded.options?.[0] ?? '';
+    case 'loan_offers': return PLACEHOLDER_LOAN_OFFERS;
+    case 'date': return new Date().toISOString().slice(0, 10);
+    default: return 1;
+  }
+};
+
+export function collectMissingFields(
+  intent: DecisionIntent,
+  financialData: FinancialData,
+  profileData: ProfileData,
+  currentPayload: Record<string, unknown>,
+  question: string,
+  requestId: string,
+  rulePack: RulePack,
+): DataNeededResponse[] {
+  const missingFields: DataNeededResponse[] = [];
+  const probePayload: Record<string, unknown> = { ...currentPayload };
+
+  while (missingFields.length < MAX_MISSING_FIELDS) {
+    const { dataNeeded } = runDecisionFunction(intent, financialData, profileData, probePayload, question, requestId, rulePack);
+    if (!dataNeeded || missingFields.some(missing => missing.field === dataNeeded.field)) break;
+
+    const dependency = MISSING_FIELD_DEPENDENCIES[`${intent}.${dataNeeded.field}`];
+    missingFields.push({
+      ...dataNeeded,
+      intent_context: { ...dataNeeded.intent_context, current_payload: currentPayload },
+      ...(dependency ? { depends_on: dependency } : {}),
+    });
+    probePayload[dataNeeded.field] = getPlaceholderAnswer(dataNeeded);
+  }
+  console.log(`[${requestId}] collectMissingFields: ${missingFields.length} field(s) missing for ${intent}:`, missingFields.map(missing => missing.field));
+  return missingFields;
+}
+
+// --- counterfactuals.ts content ---
+// Searches for the smallest change to one input (or, failing that, to all inputs together)
+// that turns a WAIT/REJECT into an APPROVE by re-running the same decision function.
+export type CounterfactualTarget = {
+  field: string;
+  label: string;
+  unit: 'currency' | 'percentage' | 'days' | 'setting';
+  current_value: number | boolean | string | null;
+  target_value: number | boolean | string;
+  change: number | null; // Signed difference for numeric levers
+  combined: boolean; // True when the target only works together with the other combined targets
+  description: string;
+};
+
+type NumericLever = {
+  kind: 'numeric';
+  field: string;
+  label: string;
+  source: 'financial' | 'payload';
+  unit: 'currency' | 'percentage' | 'days';
+  direction: 'increase' | 'decrease';
+  min?: number; // Lower bound for decreasing levers (defaults to 0)
+  max?: number; // Upper bound for increasing levers (defaults to a multiple of the business's size)
+  step: number; // Targets are rounded to this step
+};
+
+type SettingLever = {
+  kind: 'setting';
+  field: string;
+  label: string;
+  value: boolean | string;
+  description: string;
+};
+
+type CounterfactualLever = NumericLever | SettingLever;
+
+const COUNTERFACTUAL_SEARCH_ITERATIONS = 24; // Most bisection steps per lever; bisection stops once the target is within one step
+const COUNTERFACTUAL_SCAN_POINTS = 6; // Probes at 1/32, 1/16 ... 1/2 of the way to the bound before bisecting
+export const COUNTERFACTUAL_MAX_EVALUATIONS = 200; // Decision function runs allowed for one request
+
+// Shared by every search made for one request, so their combined cost stays within COUNTERFACTUAL_MAX_EVALUATIONS
+export type CounterfactualBudget = { remaining: number };
+
+export const createCounterfactualBudget = (): CounterfactualBudget => ({ remaining: COUNTERFACTUAL_MAX_EVALUATIONS });
+
+export const COUNTERFACTUAL_LEVERS: Partial<Record<DecisionIntent, CounterfactualLever[]>> = {
+  hiring: [
+    { kind: 'numeric', field: 'current_savings', label: 'Savings', source: 'financial', unit: 'currency', direction: 'increase', step: 1000 },
+    { kind: 'numeric', field: 'estimated_salary', label: 'Monthly salary', source: 'payload', unit: 'currency', direction: 'decrease', min: 1, step: 1000 },
+    { kind: 'numeric', field: 'expected_revenue_uplift', label: 'Expected extra monthly revenue', source: 'payload', unit: 'currency', direction: 'increase', step: 1000 },
+    { kind: 'numeric', field: 'monthly_expenses', label: 'Monthly expenses', source: 'financial', unit: 'currency', direction: 'decrease', step: 1000 },
+    { kind: 'numeric', field: 'monthly_revenue', label: 'Monthly revenue', source: 'financial', unit: 'currency', direction: 'increase', step: 1000 },
+  ],
+  equipment: [
+    { kind: 'numeric', field: 'current_savings', label: 'Savings', source: 'financial', unit: 'currency', direction: 'increase', step: 1000 },
+    { kind: 'numeric', field: 'monthly_expenses', label: 'Monthly expenses', source: 'financial', unit: 'currency', direction: 'decrease', step: 1000 },
+    { kind: 'numeric', field: 'monthly_revenue', label: 'Monthly revenue', source: 'financial', unit: 'currency', direction: 'increase', step: 1000 },
+    { kind: 'numeric', field: 'estimated_roi_percentage', label: 'Expected ROI', source: 'payload', unit: 'percentage', direction: 'increase', max: 1000, step: 1 },
+    { kind: 'numeric', field: 'current_equipment_utilization_percentage', label: 'Existing equipment utilization', source: 'payload', unit: 'percentage', direction: 'increase', max: 100, step: 1 },
+    { kind: 'numeric', field: 'equipment_monthly_cash_benefit', label: 'Monthly profit or savings from the equipment', source: 'payload', unit: 'currency', direction: 'increase', step: 1000 },
+  ],
+  business_expansion: [
+    { kind: 'numeric', field: 'capital_available_percentage_of_cost', label: 'Capital available', source: 'payload', unit: 'percentage', direction: 'increase', max: 100, step: 1 },
+    { kind: 'numeric', field: 'monthly_expenses', label: 'Monthly expenses', source: 'financial', unit: 'currency', direction: 'decrease', step: 1000 },
+    { kind: 'numeric', field: 'monthly_revenue', label: 'Monthly revenue', source: 'financial', unit: 'currency', direction: 'increase', step: 1000 },
+    { kind: 'setting', field: 'market_research_validates_demand', label: 'Market research', value: true, description: 'Validate demand with market research.' },
+    { kind: 'setting', field: 'profit_growth_consistent_6_months', label: 'Profit growth', value: true, description: 'Show consistent profit growth for 6 months.' },
+    { kind: 'setting', field: 'profit_margin_trend', label: 'Profit margin trend', value: 'consistent_growth', description: 'Get your profit margin onto a consistent growth trend.' },
+    { kind: 'setting', field: 'revenue_growth_trend', label: 'Revenue growth trend', value: 'consistent_growth', description: 'Get your revenue onto a consistent growth trend.' },
+  ],
+  pricing: [
+    { kind: 'numeric', field: 'unit_cost', label: 'Unit cost', source: 'payload', unit: 'currency', direction: 'decrease', step: 1 },
+    { kind: 'numeric', field: 'expected_volume_change_percentage', label: 'Expected change in units sold', source: 'payload', unit: 'percentage', direction: 'increase', max: 1000, step: 1 },
+    { kind: 'numeric', field: 'current_savings', label: 'Savings', source: 'financial', unit: 'currency', direction: 'increase', step: 1000 },
+  ],
+  customer_credit: [
+    { kind: 'numeric', field: 'credit_amount', label: 'Credit amount', source: 'payload', unit: 'currency', direction: 'decrease', min: 100, step: 100 },
+    { kind: 'numeric', field: 'outstanding_receivables', label: 'Money owed by customers', source: 'payload', unit: 'currency', direction: 'decrease', step: 1000 },
+    { kind: 'numeric', field: 'credit_repayment_period_days', label: 'Repayment period', source: 'payload', unit: 'days', direction: 'decrease', min: 1, step: 1 },
+    { kind: 'numeric', field: 'current_savings', label: 'Savings', source: 'financial', unit: 'currency', direction: 'increase', step: 1000 },
+  ],
+  energy_cost: [
+    { kind: 'numeric', field: 'current_savings', label: 'Savings', source: 'financial', unit: 'currency', direction: 'increase', step: 1000 },
+    { kind: 'numeric', field: 'solar_system_cost', label: 'Solar system price', source: 'payload', unit: 'currency', direction: 'decrease', min: 1, step: 1000 },
+    { kind: 'numeric', field: 'financing_apr', label: 'Financing interest rate', source: 'payload', unit: 'percentage', direction: 'decrease', step: 1 },
+  ],
+  owner_drawings: [
+    { kind: 'numeric', field: 'desired_monthly_drawing', label: 'Monthly drawing', source: 'payload', unit: 'currency', direction: 'decrease', min: 1000, step: 1000 },
+    { kind: 'numeric', field: 'monthly_expenses', label: 'Monthly expenses', source: 'financial', unit: 'currency', direction: 'decrease', step: 1000 },
+    { kind: 'numeric', field: 'monthly_revenue', label: 'Monthly revenue', source: 'financial', unit: 'currency', direction: 'increase', step: 1000 },
+    { kind: 'numeric', field: 'current_savings', label: 'Savings', source: 'financial', unit: 'currency', direction: 'increase', step: 1000 },
+  ],
+  rotating_savings: [
+    { kind: 'numeric', field: 'contribution_amount', label: 'Contribution', source: 'payload', unit: 'currency', direction: 'decrease', min: 100, step: 100 },
+    { kind: 'numeric', field: 'monthly_expenses', label: 'Monthly expenses', source: 'financial', unit: 'currency', direction: 'decrease', step: 1000 },
+    { kind: 'numeric', field: 'monthly_revenue', label: 'Monthly revenue', source: 'financial', unit: 'currency', direction: 'increase', step: 1000 },
+    { kind: 'numeric', field: 'current_savings', label: 'Savings', source: 'financial', unit: 'currency', direction: 'increase', step: 1000 },
+  ],
+  loan_offer_comparison: [
+    { kind: 'numeric', field: 'monthly_expenses', label: 'Monthly expenses', source: 'financial', unit: 'currency', direction: 'decrease', step: 1000 },
+    { kind: 'numeric', field: 'monthly_revenue', label: 'Monthly revenue', source: 'financial', unit: 'currency', direction: 'increase', step: 1000 },
+    { kind: 'numeric', field: 'current_savings', label: 'Savings', source: 'financial', unit: 'currency', direction: 'increase', step: 1000 },
+  ],
+  lease_renewal: [
+    { kind: 'numeric', field: 'rent_amount', label: 'Rent', source: 'payload', unit: 'currency', direction: 'decrease', min: 1000, step: 1000 },
+    { kind: 'numeric', field: 'current_savings', label: 'Savings', source: 'financial', unit: 'currency', direction: 'increase', step: 1000 },
+    { kind: 'numeric', field: 'monthly_revenue', label: 'Monthly revenue', source: 'financial', unit: 'currency', direction: 'increase', step: 1000 },
+    { kind: 'numeric', field: 'monthly_expenses', label: 'Monthly expenses', source: 'financial', unit: 'currency', direction: 'decrease', step: 1000 },
+  ],
+};
+
+type Scenario = { financialData: FinancialData; payload: Record<string, unknown> };
+
+const getLeverValue = (lever: CounterfactualLever, scenario: Scenario): unknown =>
+  lever.kind === 'numeric' && lever.source === 'financial'
+    ? scenario.financialData[lever.field as keyof FinancialData]
+    : scenario.payload[lever.field];
+
+const applyLever = (lever: CounterfactualLever, scenario: Scenario, value: number | boolean | string): Scenario => {
+  if (lever.kind === 'numeric' && lever.source === 'financial') {
+    return { ...scenario, financialData: { ...scenario.financialData, [lever.field]: value } };
+  }
+  return { ...scenario, payload: { ...scenario.payload, [lever.field]: value } };
+};
+
+// The furthest a numeric lever is allowed to move.
+const getLeverBound = (lever: NumericLever, current: number, financialData: FinancialData): number => {
+  if (lever.direction === 'decrease') return lever.min ?? 0;
+  if (lever.max !== undefined) return lever.max;
+  const scale = Math.max(current, financialData.monthly_revenue, financialData.monthly_expenses, 1);
+  return current + scale * 24;
+};
+
+// What a change to a numeric lever is measured against, so changes to levers with different units can be ranked
+const getLeverScale = (lever: NumericLever, current: number, financialData: FinancialData): number => {
+  if (lever.unit === 'percentage') return 100;
+  if (lever.unit === 'days') return Math.max(current, 1);
+  return Math.max(Math.abs(current), financialData.monthly_revenue, financialData.monthly_expenses, 1);
+};
+
+// Decision functions log every run; the many probe runs would flood the logs. The search is synchronous,
+// so no other request logs while console.log is muted.
+const withConsoleLogMuted = <T>(run: () => T): T => {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return run();
+  } finally {
+    console.log = log;
+  }
+};
+
+const formatLeverValue = (value: number, unit: NumericLever['unit']) =>
+  unit === 'currency' ? `₦${value.toLocaleString()}` : unit === 'days' ? `${value} days` : `${value}%`;
+
+const describeNumericTarget = (lever: NumericLever, current: number, target: number): string => {
+  const verb = lever.direction === 'increase' ? 'Increase' : 'Reduce';
+  const change = Math.abs(target - current);
+  const noun = lever.label.charAt(0).toLowerCase() + lever.label.slice(1);
+  return `${verb} ${noun} by ${formatLeverValue(change, lever.unit)} to ${formatLeverValue(target, lever.unit)}.`;
+};
+
+export function findCounterfactualTargets(
+  intent: DecisionIntent,
+  financialData: FinancialData,
+  profileData: ProfileData,
+  payload: Record<string, unknown>,
+  question: string,
+  requestId: string,
+  rulePack: RulePack,
+  budget: CounterfactualBudget = createCounterfactualBudget(),
+): CounterfactualTarget[] {
+  const levers = COUNTERFACTUAL_LEVERS[intent];
+  if (!levers) return [];
+
+  const base: Scenario = { financialData, payload };
+  // Once the budget is spent every probe fails, so the searches below stop with what they have found
+  const evaluate = (scenario: Scenario): DecisionFunctionReturn | null => {
+    if (budget.remaining <= 0) return null;
+    budget.remaining--;
+    return withConsoleLogMuted(() =>
+      runDecisionFunction(intent, scenario.financialData, profileData, scenario.payload, question, requestId, rulePack));
+  };
+  const isApproved = (scenario: Scenario): boolean => evaluate(scenario)?.decision?.recommendation === 'APPROVE';
+
+  const numericLevers = levers.filter((lever): lever is NumericLever => lever.kind === 'numeric');
+  const settingLevers = levers.filter((lever): lever is SettingLever =>
+    lever.kind === 'setting' && getLeverValue(lever, base) !== lever.value);
+
+  const numericState = numericLevers.map(lever => {
+    const current = getNumberOrDefault(getLeverValue(lever, base) as number | null | undefined);
+    return { lever, current, bound: getLeverBound(lever, current, financialData), scale: getLeverScale(lever, current, financialData) };
+  }).filter(({ current, bound }) => current !== bound);
+
+  const valueAt = ({ lever, current, bound }: typeof numericState[number], t: number): number => {
+    const raw = current + (bound - current) * t;
+    const rounded = lever.direction === 'increase'
+      ? Math.ceil(raw / lever.step) * lever.step
+      : Math.floor(raw / lever.step) * lever.step;
+    return lever.direction === 'increase' ? Math.min(rounded, bound) : Math.max(rounded, bound);
+  };
+
+  // Finds the smallest fraction t of the way from current to bound at which `accepts(t)` holds. The outcome need not
+  // change monotonically along a lever, so probes that double from a small change first find the earliest accepting
+  // interval, which is then bisected; the value returned always passes, though a smaller one may exist between probes.
+  const searchFraction = (state: typeof numericState[number], accepts: (t: number) => boolean): number | null => {
+    if (!accepts(1)) return null;
+    let low = 0;
+    let high = 1;
+    for (let point = 1; point < COUNTERFACTUAL_SCAN_POINTS; point++) {
+      const t = Math.pow(2, point - COUNTERFACTUAL_SCAN_POINTS);
+      if (accepts(t)) {
+        high = t;
+        break;
+      }
+      low = t;
+    }
+    for (let i = 0; i < COUNTERFACTUAL_SEARCH_ITERATIONS && Math.abs(valueAt(state, high) - valueAt(state, low)) > state.lever.step; i++) {
+      const mid = (low + high) / 2;
+      if (accepts(mid)) high = mid; else low = mid;
+    }
+    return high;
+  };
+
+  const targets: CounterfactualTarget[] = [];
+
+  for (const state of numericState) {
+    const t = searchFraction(state, fraction => isApproved(applyLever(state.lever, base, valueAt(state, fraction))));
+    if (t === null) continue;
+    const target = valueAt(state, t);
+    targets.push({
+      field: state.lever.field,
+      label: state.lever.label,
+      unit: state.lever.unit,
+      current_value: state.current,
+      target_value: target,
+      change: target - state.current,
+      combined: false,
+      description: describeNumericTarget(state.lever, state.current, target),
+    });
+  }
+
+  for (const lever of settingLevers) {
+    if (!isApproved(applyLever(lever, base, lever.value))) continue;
+    targets.push({
+      field: lever.field,
+      label: lever.label,
+      unit: 'setting',
+      current_value: (getLeverValue(lever, base) as CounterfactualTarget['current_value'] | undefined) ?? null,
+      target_value: lever.value,
+      change: null,
+      combined: false,
+      description: lever.description,
+    });
+  }
+
+  if (targets.length > 0) {
+    console.log(`[${requestId}] Counterfactual search found ${targets.length} single-change target(s) for ${intent}.`);
+    return targets;
+  }
+
+  // No single change is enough: greedily apply the cheapest change that improves the outcome
+  // (a better recommendation, or fewer failed rule weights) until the decision approves.
+  // Changes are ranked by their size relative to the lever's scale, so naira and percentages compare fairly.
+  const scoreOf = (scenario: Scenario): number => {
+    const result = evaluate(scenario);
+    if (!result?.decision) return -Infinity;
+    const rank = { REJECT: 0, WAIT: 1, APPROVE: 2 }[result.decision.recommendation];
+    const failedWeight = (result.decision.rule_trace ?? []).filter(entry => !entry.passed).reduce((sum, entry) => sum + entry.weight, 0);
+    return rank * 1000 - failedWeight;
+  };
+
+  let scenario = base;
+  let remainingNumeric = [...numericState];
+  let remainingSettings = [...settingLevers];
+  const steps: CounterfactualTarget[] = [];
+
+  for (let step = 0; step < levers.length && !isApproved(scenario); step++) {
+    const currentScore = scoreOf(scenario);
+    let best: { cost: number; t: number; numeric?: typeof numericState[number]; setting?: SettingLever } | null = null;
+
+    for (const state of remainingNumeric) {
+      const t = searchFraction(state, fraction => scoreOf(applyLever(state.lever, scenario, valueAt(state, fraction))) > currentScore);
+      if (t === null) continue;
+      const cost = Math.abs(valueAt(state, t) - state.current) / state.scale;
+      if (!best || cost < best.cost) best = { cost, t, numeric: state };
+    }
+
+    // Qualitative changes are only suggested when no numeric change helps.
+    if (!best) {
+      const setting = remainingSettings.find(lever => scoreOf(applyLever(lever, scenario, lever.value)) > currentScore);
+      if (setting) best = { cost: 1, t: 1, setting };
+    }
+    if (!best) break;
+
+    if (best.numeric) {
+      const state = best.numeric;
+      const target = valueAt(state, best.t);
+      scenario = applyLever(state.lever, scenario, target);
+      remainingNumeric = remainingNumeric.filter(other => other !== state);
+      steps.push({
+        field: state.lever.field,
+        label: state.lever.label,
+        unit: state.lever.unit,
+        current_value: state.current,
+        target_value: target,
+        change: target - state.current,
+        combined: true,
+        description: describeNumericTarget(state.lever, state.current, target),
+      });
+    } else if (best.setting) {
+      const lever = best.setting;
+      scenario = applyLever(lever, scenario, lever.value);
+      remainingSettings = remainingSettings.filter(other => other !== lever);
+      steps.push({
+        field: lever.field,
+        label: lever.label,
+        unit: 'setting',
+        current_value: (getLeverValue(lever, base) as CounterfactualTarget['current_value'] | undefined) ?? null,
+        target_value: lever.value,
+        change: null,
+        combined: true,
+        description: lever.description,
+      });
+    }
+  }
+
+  if (!isApproved(scenario)) {
+    console.log(`[${requestId}] Counterfactual search found no reachable APPROVE for ${intent} (${budget.remaining} evaluation(s) left).`);
+    return [];
+  }
+  console.log(`[${requestId}] Counterfactual search found a combined target with ${steps.length} change(s) for ${intent}.`);
+  return steps;
+}
+
+// --- what_if.ts content ---
+// What-if runs evaluate the same decision logic on overridden inputs and never write to `decisions`.
+export type WhatIfVariantResult = {
+  label: string;
+  intent: DecisionIntent;
+  financial_snapshot: FinancialData;
+  payload: Record<string, unknown>;
+  recommendation: DecisionResult['recommendation'] | null;
+  decision: DecisionResult | null;
+  data_needed: DataNeededResponse | null;
+};
+
+export function resolveFinancialData(
+  latest: FinancialData | null,
+  override: z.infer<typeof FinancialDataOverrideSchema> | undefined,
+): FinancialData {
+  const merged = { ...(latest ?? {}), ...(override ?? {}) } as Partial<FinancialData>;
+  if (merged.monthly_revenue === undefined || merged.monthly_expenses === undefined || merged.current_savings === undefined) {
+    throw new CustomError(
+      ERROR_CODES.DECISION_NOT_FOUND,
+      "No financial data found. Add your financial information or supply monthly_revenue, monthly_expenses and current_savings in the what-if override.",
+      SEVERITY.LOW,
+      404
+    );
+  }
+  return {
+    monthly_revenue: merged.monthly_revenue,
+    monthly_expenses: merged.monthly_expenses,
+    current_savings: merged.current_savings,
+  };
+}
+
+export function runWhatIfVariants(
+  variants: z.infer<typeof WhatIfVariantSchema>[],
+  defaults: { intent: DecisionIntent; payload: Record<string, unknown>; latestFinancialData: FinancialData | null },
+  profileData: ProfileData,
+  question: string,
+  requestId: string,
+  rulePack: RulePack,
+  includeCounterfactuals: boolean,
+): WhatIfVariantResult[] {
+  // Each search can cost up to COUNTERFACTUAL_MAX_EVALUATIONS runs, so only a single what-if run gets one;
+  // side-by-side variants already show what changing the inputs does
+  const searchesCounterfactuals = includeCounterfactuals && variants.length === 1;
+  return variants.map((variant, index) => {
+    const intent = variant.intent ?? defaults.intent;
+    const financialSnapshot = resolveFinancialData(defaults.latestFinancialData, variant.financial_data);
+    const payload = { ...defaults.payload, ...(variant.payload ?? {}) };
+    const label = variant.label ?? `Scenario ${index + 1}`;
+    console.log(`[${requestId}] What-if variant "${label}" (${intent}):`, { financialSnapshot, payload });
+
+    const result = runDecisionFunction(intent, financialSnapshot, profileData, payload, question, requestId, rulePack);
+    const decision = result.decision;
+    if (decision && decision.recommendation !== 'APPROVE' && searchesCounterfactuals) {
+      decision.counterfactual_targets = findCounterfactualTargets(intent, financialSnapshot, profileData, payload, question, requestId, rulePack);
+    }
+
+    return {
+      label,
+      intent,
+      financial_snapshot: financialSnapshot,
+      payload,
+      recommendation: decision?.recommendation ?? null,
+      decision: result.dataNeeded ? null : decision,
+      data_needed: result.dataNeeded ?? null,
+    };
+  });
+}
+
+// --- financial_history.ts content ---
+// Summarizes the vendor's recent months so one unusual entry does not drive every recommendation,
+// and derives the trend and cash-flow answers the decision functions would otherwise ask for.
+export type TrendClassification = 'consistent_growth' | 'positive_fluctuating' | 'declining_unstable';
+
+export type FinancialEntryRow = FinancialData & { created_at: string };
+
+export type MonthlyFinancials = FinancialData & {
+  month: string; // YYYY-MM
+  net_cash_flow: number;
+};
+
+export type FinancialHistorySummary = {
+  months_available: number;
+  months: MonthlyFinancials[]; // Oldest first, latest entry of each calendar month
+  rolling_average_months: number;
+  rolling_average: { monthly_revenue: number; monthly_expenses: number; net_cash_flow: number };
+  revenue_volatility: number | null; // Coefficient of variation of monthly revenue over the trend window
+  revenue_growth_trend: TrendClassification | null;
+  profit_margin_trend: TrendClassification | null;
+  consecutive_negative_cash_flow_months: number | null;
+  derived_fields?: string[]; // Payload fields filled from history instead of asking the user
+};
+
+export const FINANCIAL_HISTORY_ENTRY_LIMIT = 60; // Raw entries loaded; several may fall in one month
+export const FINANCIAL_HISTORY_MONTHS = 12;
+export const ROLLING_AVERAGE_MONTHS = 3;
+export const TREND_WINDOW_MONTHS = 6;
+export const MIN_MONTHS_FOR_TREND = 3;
+const HIGH_REVENUE_VOLATILITY = 0.5; // Above this, revenue is treated as unstable whatever its direction
+const REVENUE_FLAT_TOLERANCE = 0.01; // Share of average revenue per month still treated as flat
+const MARGIN_FLAT_TOLERANCE = 0.5; // Percentage points per month still treated as flat
+
+const average = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Months since year zero, so entries a few months apart sit at their real distance
+const monthOffset = (month: string): number => {
+  const [year, monthOfYear] = month.split('-').map(Number);
+  return year * 12 + monthOfYear - 1;
+};
+
+// Least-squares slope per month; `offsets` defaults to one month between values
+const linearSlope = (values: number[], offsets: number[] = values.map((_, index) => index)): number => {
+  const meanX = average(offsets);
+  const meanY = average(values);
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((value, index) => {
+    numerator += (offsets[index] - meanX) * (value - meanY);
+    denominator += (offsets[index] - meanX) ** 2;
+  });
+  return denominator === 0 ? 0 : numerator / denominator;
+};
+
+const coefficientOfVariation = (values: number[]): number | null => {
+  const mean = average(values);
+  if (mean <= 0) return null;
+  const variance = average(values.map(value => (value - mean) ** 2));
+  return Number((Math.sqrt(variance) / mean).toFixed(4));
+};
+
+const profitMarginPercentage = (month: MonthlyFinancials): number => {
+  if (month.monthly_revenue > 0) return (month.net_cash_flow / month.monthly_revenue) * 100;
+  return month.net_cash_flow < 0 ? -100 : 0;
+};
+
+export function classifyTrend(
+  values: number[],
+  flatTolerance: number,
+  volatility: number | null = null,
+  offsets?: number[],
+): TrendClassification | null {
+  if (values.length < MIN_MONTHS_FOR_TREND) return null;
+  if (volatility !== null && volatility > HIGH_REVENUE_VOLATILITY) return 'declining_unstable';
+  if (linearSlope(values, offsets) < -flatTolerance) return 'declining_unstable';
+  const neverDeclined = values.every((value, index) => index === 0 || value >= values[index - 1]);
+  if (neverDeclined && values[values.length - 1] > values[0]) return 'consistent_growth';
+  return 'positive_fluctuating';
+}
+
+export function buildFinancialHistory(entries: FinancialEntryRow[]): FinancialHistorySummary | null {
+  // Entries arrive newest first; keep the latest entry of each calendar month
+  const byMonth = new Map<string, MonthlyFinancials>();
+  for (const entry of entries) {
+    const month = entry.created_at.slice(0, 7);
+    if (byMonth.has(month)) continue;
+    if (byMonth.size === FINANCIAL_HISTORY_MONTHS) break;
+    byMonth.set(month, {
+      month,
+      monthly_revenue: entry.monthly_revenue,
+      monthly_expenses: entry.monthly_expenses,
+      current_savings: entry.current_savings,
+      net_cash_flow: entry.monthly_revenue - entry.monthly_expenses,
+    });
+  }
+  if (byMonth.size === 0) return null;
+
+  const months = Array.from(byMonth.values()).reverse();
+  const rollingWindow = months.slice(-ROLLING_AVERAGE_MONTHS);
+  // The trend window spans calendar months, so months with no entry shrink it rather than stretch it back
+  const latestOffset = monthOffset(months[months.length - 1].month);
+  const trendWindow = months.filter(month => latestOffset - monthOffset(month.month) < TREND_WINDOW_MONTHS);
+  const trendOffsets = trendWindow.map(month => monthOffset(month.month));
+  const revenues = trendWindow.map(month => month.monthly_revenue);
+  const revenueVolatility = trendWindow.length >= MIN_MONTHS_FOR_TREND ? coefficientOfVariation(revenues) : null;
+
+  // The streak only counts back through consecutive calendar months; a missing month ends it
+  let negativeStreak = 0;
+  let streakEndedByPositiveMonth = false;
+  for (let i = months.length - 1; i >= 0; i--) {
+    if (i < months.length - 1 && monthOffset(months[i + 1].month) - monthOffset(months[i].month) !== 1) break;
+    if (months[i].net_cash_flow >= 0) {
+      streakEndedByPositiveMonth = true;
+      break;
+    }
+    negativeStreak++;
+  }
+  // A streak reaching back to the oldest month or to a missing month may be longer than we can see
+  const streakIsKnown = streakEndedByPositiveMonth || negativeStreak >= MIN_MONTHS_FOR_TREND;
+
+  return {
+    months_available: months.length,
+    months,
+    rolling_average_months: rollingWindow.length,
+    rolling_average: {
+      monthly_revenue: Math.round(average(rollingWindow.map(month => month.monthly_revenue))),
+      monthly_expenses: Math.round(average(rollingWindow.map(month => month.monthly_expenses))),
+      net_cash_flow: Math.round(average(rollingWindow.map(month => month.net_cash_flow))),
+    },
+    revenue_volatility: revenueVolatility,
+    revenue_growth_trend: classifyTrend(revenues, REVENUE_FLAT_TOLERANCE * average(revenues), revenueVolatility, trendOffsets),
+    profit_margin_trend: classifyTrend(trendWindow.map(profitMarginPercentage), MARGIN_FLAT_TOLERANCE, null, trendOffsets),
+    consecutive_negative_cash_flow_months: streakIsKnown ? negativeStreak : null,
+  };
+}
+
+// Revenue and expenses are averaged over the rolling window; savings is a balance, so the latest value is used
+export function getSmoothedFinancialData(history: FinancialHistorySummary): FinancialData {
+  const latest = history.months[history.months.length - 1];
+  return {
+    monthly_revenue: history.rolling_average.monthly_revenue,
+    monthly_expenses: history.rolling_average.monthly_expenses,
+    current_savings: latest.current_savings,
+  };
+}
+
+// Fills history-derived answers the user has not given; anything already in the payload wins
+export function applyFinancialHistory<T extends Record<string, unknown>>(
+  payload: T,
+  history: FinancialHistorySummary | null,
+): { payload: T; derivedFields: string[] } {
+  if (!history) return { payload, derivedFields: [] };
+  const derived: Record<string, unknown> = {
+    consecutive_negative_cash_flow_months: history.consecutive_negative_cash_flow_months,
+    profit_margin_trend: history.profit_margin_trend,
+    revenue_growth_trend: history.revenue_growth_trend,
+  };
+  const derivedFields = Object.keys(derived).filter(field => derived[field] !== null && !Object.prototype.hasOwnProperty.call(payload, field));
+  const filled = { ...payload } as Record<string, unknown>;
+  derivedFields.forEach(field => { filled[field] = derived[field]; });
+  return { payload: filled as T, derivedFields };
+}
+
+// --- business_facts.ts content ---
+// Facts that describe the business rather than one question. They are remembered per vendor in
+// `business_facts`, pre-filled while fresh, and offered back for confirmation once stale.
+export type BusinessFactValue = number | boolean | string;
+
+export type BusinessFact = {
+  field: string;
+  value: BusinessFactValue;
+  source: 'chat' | 'settings';
+  updated_at: string;
+};
+
+// How long each fact is trusted before the user is asked to confirm it again
+export const BUSINESS_FACT_MAX_AGE_DAYS: Record<string, number> = {
+  inventory_turnover_days: 90,
+  supplier_credit_terms_days: 180,
+  average_receivables_turnover_days: 90,
+  debt_apr: 90,
+  total_business_assets: 90,
+  total_business_liabilities: 60,
+  total_monthly_debt_repayments: 60,
+  is_volatile_industry: 365,
+  is_growth_stage: 180,
+  outstanding_receivables: 30,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isBusinessFactField = (field: string): boolean => Object.prototype.hasOwnProperty.call(BUSINESS_FACT_MAX_AGE_DAYS, field);
+
+export function isBusinessFactStale(fact: BusinessFact, now: Date = new Date()): boolean {
+  const maxAgeDays = BUSINESS_FACT_MAX_AGE_DAYS[fact.field];
+  if (maxAgeDays === undefined) return true;
+  return now.getTime() - new Date(fact.updated_at).getTime() > maxAgeDays * DAY_MS;
+}
+
+export type BusinessFactStatus = BusinessFact & {
+  max_age_days: number | null; // Null for fields that are no longer remembered
+  is_stale: boolean;
+};
+
+export function describeBusinessFacts(facts: BusinessFact[], now: Date = new Date()): BusinessFactStatus[] {
+  return facts.map(fact => ({
+    ...fact,
+    max_age_days: BUSINESS_FACT_MAX_AGE_DAYS[fact.field] ?? null,
+    is_stale: isBusinessFactStale(fact, now),
+  }));
+}
+
+// Fresh facts fill fields the payload does not already answer
+export function prefillBusinessFacts<T extends Record<string, unknown>>(
+  payload: T,
+  facts: BusinessFact[],
+  now: Date = new Date(),
+): { payload: T; prefilledFields: string[] } {
+  const filled = { ...payload } as Record<string, unknown>;
+  const prefilledFields: string[] = [];
+  for (const fact of facts) {
+    if (Object.prototype.hasOwnProperty.call(payload, fact.field) || isBusinessFactStale(fact, now)) continue;
+    filled[fact.field] = fact.value;
+    prefilledFields.push(fact.field);
+  }
+  return { payload: filled as T, prefilledFields };
+}
+
+// New or changed answers are saved; an unchanged answer to a stale fact is a confirmation and refreshes it
+export function getBusinessFactsToSave(
+  payload: Record<string, unknown>,
+  facts: BusinessFact[],
+  now: Date = new Date(),
+): { field: string; value: BusinessFactValue }[] {
+  const byField = new Map(facts.map(fact => [fact.field, fact]));
+  return Object.entries(payload)
+    .filter(([field, value]) => isBusinessFactField(field) && value !== null && value !== undefined)
+    .filter(([field, value]) => {
+      const stored = byField.get(field);
+      return !stored || stored.value !== value || isBusinessFactStale(stored, now);
+    })
+    .map(([field, value]) => ({ field, value: value as BusinessFactValue }));
+}
+
+const formatBusinessFactValue = (value: BusinessFactValue): string => {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return value.toLocaleString();
+  return value.replace(/_/g, ' ');
+};
+
+// Turns a question about a stale fact into a confirmation of the remembered answer
+export function withStoredBusinessFact(dataNeeded: DataNeededResponse, facts: BusinessFact[]): DataNeededResponse {
+  const stored = facts.find(fact => fact.field === dataNeeded.field);
+  if (!stored) return dataNeeded;
+  const updatedOn = new Date(stored.updated_at).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+  return {
+    ...dataNeeded,
+    prompt: `${dataNeeded.prompt}\n\nLast time (${updatedOn}) you told me: ${formatBusinessFactValue(stored.value)}. Reply 'Still correct' to keep it, or give me the new value.`,
+    stored_value: stored.value,
+    stored_value_updated_at: stored.updated_at,
+  };
+}
+
+// --- Main decision-engine logic ---
+
+serve(async (req: Request) => { // Explicitly type req
+  const requestId = generateRequestId();
+  let user: any = null;
+  
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: CORS_HEADERS });
+  }
+
+  const authHeader = req.headers.get('Authorization')!;
+  const supabase = getSupabaseClient(authHeader);
+
+  try {
+    // 1. Authentication & Authorization
+    const { data: { user: authUser }, error: userError } = await supabase.auth.getUser();
+    if (userError || !authUser) {
+      throw new AuthError("User not authenticated.");
+    }
+    user = authUser;
+    console.log(`[${requestId}] User authenticated: ${user.id}`);
+
+    // 2. Input Validation
+    const body = await req.json();
+    console.log(`[${requestId}] Received request body:`, redactSensitiveData(body));
+
+    if (BusinessFactsRequestSchema.safeParse(body).success) {
+      const { data: factRows, error: factsError } = await supabase
+        .from('business_facts')
+        .select('field, value, source, updated_at')
+        .eq('user_id', user.id);
+      if (factsError) {
+        throw new CustomError(ERROR_CODES.DB_CONNECTION_FAILED, "Failed to load business facts.", SEVERITY.HIGH, 500, factsError);
+      }
+      return new Response(JSON.stringify({
+        success: true,
+        data: { business_facts: describeBusinessFacts(factRows ?? []) },
+        error: null,
+        meta: {
+          requestId,
+          timestamp: new Date().toISOString(),
+          version: API_VERSION,
+        },
+      }), {
+        headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+        status: 200,
+      });
+    }
+
+    const validationResult = DecisionEngineInputSchema.safeParse(body);
+    if (!validationResult.success) {
+      throw new InputValidationError("Invalid input.", validationResult.error.toString());
+    }
+    const { intent, question } = validationResult.data;
+    let currentPayload = validationResult.data.payload || {}; // Make payload mutable and initialize safely
+    console.log(`[${requestId}] Validated input - Intent: ${intent}, Question: "${question}", Payload:`, currentPayload);
+
+    const rulePack = loadRulePack(validationResult.data.rule_pack_version);
+    console.log(`[${requestId}] Using rule pack version ${rulePack.version}`);
+
+    const isWhatIf = validationResult.data.what_if === true || validationResult.data.variants !== undefined;
+
+    // 3. Fetch Financial History and User Profile
+    const { data: financialEntries, error: financialError } = await supabase
+      .from('financial_entries')
+      .select('monthly_revenue, monthly_expenses, current_savings, created_at')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(FINANCIAL_HISTORY_ENTRY_LIMIT);
+
+    const financialHistory = financialError ? null : buildFinancialHistory(financialEntries ?? []);
+    const financialData = financialHistory ? getSmoothedFinancialData(financialHistory) : null;
+
+    // What-if runs may supply the full financial picture themselves
+    if (!financialData && !isWhatIf) {
+      throw new CustomError(
+        ERROR_CODES.DECISION_NOT_FOUND,
+        "No financial data found. Please add your financial information first.",
+        SEVERITY.LOW,
+        404
+      );
+    }
+    console.log(`[${requestId}] Fetched financial history (${financialHistory?.months_available ?? 0} months), using:`, financialData);
+
+    // Fill trend and cash-flow answers from history so the user is only asked when history is too short
+    const historyResult = applyFinancialHistory(currentPayload, financialHistory);
+    currentPayload = historyResult.payload;
+    const financialHistorySnapshot = financialHistory ? { ...financialHistory, derived_fields: historyResult.derivedFields } : null;
+    if (historyResult.derivedFields.length > 0) {
+      console.log(`[${requestId}] Derived from financial history:`, historyResult.derivedFields);
+    }
+
+    const { data: profileData, error: profileError } = await supabase
+      .from('profiles')
+      .select('is_fmcg_vendor, business_type') // Include business_type
+      .eq('id', user.id)
+      .single();
+
+    if (profileError || !profileData) {
+      throw new CustomError(
+        ERROR_CODES.PROFILE_FETCH_FAILED,
+        "User profile not found. Please complete your onboarding.",
+        SEVERITY.LOW,
+        404
+      );
+    }
+    const isFmcgVendor = profileData.is_fmcg_vendor === true; // Ensure it's a boolean
+    const businessType = profileData.business_type || 'Other'; // Default if not set
+    console.log(`[${requestId}] Fetched profile data - isFmcgVendor: ${isFmcgVendor}, business_type: ${businessType}`);
+
+    const profileForDecision: ProfileData = { is_fmcg_vendor: isFmcgVendor, business_type: businessType };
+
+    // Remembered business facts: a failure here only means the user may be asked again
+    const { data: businessFactRows, error: businessFactsError } = await supabase
+      .from('business_facts')
+      .select('field, value, source, updated_at')
+      .eq('user_id', user.id);
+    if (businessFactsError) {
+      console.warn(`[${requestId}] Could not load business facts:`, businessFactsError);
+    }
+    const businessFacts: BusinessFact[] = businessFactsError ? [] : (businessFactRows ?? []);
+
+    // What-if runs never change what we remember about the business
+    if (!isWhatIf) {
+      const factsToSave = getBusinessFactsToSave(currentPayload, businessFacts);
+      if (factsToSave.length > 0) {
+        const now = new Date().toISOString();
+        const { error: factsUpsertError } = await supabase
+          .from('business_facts')
+          .upsert(factsToSave.map(fact => ({ user_id: user.id, ...fact, source: 'chat', updated_at: now })), { onConflict: 'user_id,field' });
+        if (factsUpsertError) {
+          console.error(`[${requestId}] Failed to save business facts:`, factsUpsertError);
+        } else {
+          console.log(`[${requestId}] Saved business facts:`, factsToSave.map(fact => fact.field));
+        }
+      }
+    }
+
+    const factsResult = prefillBusinessFacts(currentPayload, businessFacts);
+    currentPayload = factsResult.payload;
+    if (factsResult.prefilledFields.length > 0) {
+      console.log(`[${requestId}] Pre-filled from business facts:`, factsResult.prefilledFields);
+    }
+
+    // What-if mode: evaluate each variant and return them side by side without saving
+    if (isWhatIf) {
+      const variants = validationResult.data.variants ?? [{ label: 'What-if', financial_data: validationResult.data.financial_data }];
+      const variantResults = runWhatIfVariants(
+        variants,
+        { intent, payload: currentPayload, latestFinancialData: financialData },
+        profileForDecision,
+        question,
+        requestId,
+        rulePack,
+        validationResult.data.include_counterfactuals !== false,
+      );
+      console.log(`[${requestId}] What-if run completed for ${variantResults.length} variant(s); nothing saved.`);
+
+      return new Response(JSON.stringify({
+        success: true,
+        data: {
+          what_if: true,
+          rule_pack_version: rulePack.version,
+          financial_history: financialHistorySnapshot,
+          variants: variantResults,
+        },
+        error: null,
+        meta: {
+          requestId,
+          timestamp: new Date().toISOString(),
+          version: API_VERSION,
+        },
+      }), {
+        headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+        status: 200,
+      });
+    }
+
+    // 4. Call appropriate Decision Logic
+    const decisionFinancialData = financialData as FinancialData; // Guaranteed by the missing-data check outside what-if mode
+    const decisionResult = runDecisionFunction(intent, decisionFinancialData, profileForDecision, currentPayload, question, requestId, rulePack);
+
+    // If data is needed, return the data_needed response
+    if (decisionResult.dataNeeded) {
+      // The first field keeps the one-question-at-a-time flow working; missing_fields lists everything still needed
+      const missingFields = collectMissingFields(intent, decisionFinancialData, profileForDecision, currentPayload, question, requestId, rulePack)
+        .map(missing => withStoredBusinessFact(missing, businessFacts));
+      return new Response(JSON.stringify({
+        success: true,
+        data: {
+          data_needed: withStoredBusinessFact(decisionResult.dataNeeded, businessFacts),
+          missing_fields: missingFields,
+        },
+        error: null,
+        meta: {
+          requestId,
+          timestamp: new Date().toISOString(),
+          version: API_VERSION,
+        },
+      }), {
+        headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+        status: 200,
+      });
+    }
+
+    // If a full decision is made, save it
+    const decision = decisionResult.decision!; // Assert non-null as dataNeeded is false
+    console.log(`[${requestId}] Decision made - Recommendation: ${decision.recommendation}, Reasoning: "${decision.reasoning}", Steps:`, decision.actionable_steps);
+
+    if (decision.recommendation !== 'APPROVE' && validationResult.data.include_counterfactuals !== false) {
+      decision.counterfactual_targets = findCounterfactualTargets(intent, decisionFinancialData, profileForDecision, currentPayload, question, requestId, rulePack);
+    }
 
     // 5. Save Decision to Database
     const decisionToSave = {
@@ -2178,7 +5944,18 @@ serve(async (req: Request) => { // Explicitly type req
       reasoning: Array.isArray(decision.reasoning) ? JSON.stringify(decision.reasoning) : decision.reasoning, // Stringify if array
       actionable_steps: decision.actionable_steps,
       financial_snapshot: decision.financial_snapshot,
+      rule_pack_version: rulePack.version,
+      rule_trace: decision.rule_trace ?? [],
+      counterfactual_targets: decision.counterfactual_targets ?? [],
+      financial_history: financialHistorySnapshot,
       estimated_salary: decision.estimated_salary ?? null,
+      employment_type: decision.employment_type ?? null,
+      expected_revenue_uplift: decision.expected_revenue_uplift ?? null,
+      hire_equipment_cost: decision.hire_equipment_cost ?? null,
+      employer_statutory_contributions: decision.employer_statutory_contributions ?? null,
+      hire_one_off_cost: decision.hire_one_off_cost ?? null,
+      loaded_monthly_hire_cost: decision.loaded_monthly_hire_cost ?? null,
+      hire_payback_months: decision.hire_payback_months ?? null,
       estimated_inventory_cost: decision.estimated_inventory_cost ?? null,
       inventory_turnover_days: decision.inventory_turnover_days ?? null,
       supplier_credit_terms_days: decision.supplier_credit_terms_days ?? null,
@@ -2192,6 +5969,18 @@ serve(async (req: Request) => { // Explicitly type req
       historic_foot_traffic_increase_observed: decision.historic_foot_traffic_increase_observed ?? null,
       sales_increase_last_campaign_1: decision.sales_increase_last_campaign_1 ?? null,
       sales_increase_last_campaign_2: decision.sales_increase_last_campaign_2 ?? null,
+      revenue_gain_last_campaign: decision.revenue_gain_last_campaign ?? null,
+      marketing_spend_last_campaign: decision.marketing_spend_last_campaign ?? null,
+      customer_acquisition_cost: decision.customer_acquisition_cost ?? null,
+      customer_lifetime_value: decision.customer_lifetime_value ?? null,
+      is_festive_or_peak_season: decision.is_festive_or_peak_season ?? null,
+      projected_demand_increase_factor: decision.projected_demand_increase_factor ?? null,
+      has_tested_multiple_channels: decision.has_tested_multiple_channels ?? null,
+      digital_cac: decision.digital_cac ?? null,
+      offline_cac: decision.offline_cac ?? null,
+      experimental_channel_spend: decision.experimental_channel_spend ?? null,
+      low_performing_channel_spend: decision.low_performing_channel_spend ?? null,
+      high_performing_channel_roi: decision.high_performing_channel_roi ?? null,
       // New savings fields
       is_volatile_industry: decision.is_volatile_industry ?? null,
       is_growth_stage: decision.is_growth_stage ?? null,
@@ -2207,6 +5996,17 @@ serve(async (req: Request) => { // Explicitly type req
       estimated_roi_percentage: decision.estimated_roi_percentage ?? null,
       is_essential_replacement: decision.is_essential_replacement ?? null,
       current_equipment_utilization_percentage: decision.current_equipment_utilization_percentage ?? null,
+      equipment_monthly_cash_benefit: decision.equipment_monthly_cash_benefit ?? null,
+      equipment_useful_life_years: decision.equipment_useful_life_years ?? null,
+      equipment_salvage_value: decision.equipment_salvage_value ?? null,
+      lease_monthly_payment: decision.lease_monthly_payment ?? null,
+      hire_purchase_monthly_payment: decision.hire_purchase_monthly_payment ?? null,
+      hire_purchase_deposit: decision.hire_purchase_deposit ?? null,
+      hire_purchase_months: decision.hire_purchase_months ?? null,
+      equipment_discount_rate_percentage: decision.equipment_discount_rate_percentage ?? null,
+      equipment_monthly_depreciation: decision.equipment_monthly_depreciation ?? null,
+      equipment_option_results: decision.equipment_option_results ?? null,
+      recommended_equipment_option: decision.recommended_equipment_option ?? null,
       // New loan_management fields
       total_business_liabilities: decision.total_business_liabilities ?? null,
       total_business_assets: decision.total_business_assets ?? null,
@@ -2219,6 +6019,69 @@ serve(async (req: Request) => { // Explicitly type req
       expansion_cost: decision.expansion_cost ?? null,
       profit_margin_trend: decision.profit_margin_trend ?? null,
       revenue_growth_trend: decision.revenue_growth_trend ?? null,
+      // Pricing fields
+      current_unit_price: decision.current_unit_price ?? null,
+      proposed_unit_price: decision.proposed_unit_price ?? null,
+      unit_cost: decision.unit_cost ?? null,
+      expected_volume_change_percentage: decision.expected_volume_change_percentage ?? null,
+      competitor_unit_price: decision.competitor_unit_price ?? null,
+      current_margin_percentage: decision.current_margin_percentage ?? null,
+      new_margin_percentage: decision.new_margin_percentage ?? null,
+      break_even_volume_change_percentage: decision.break_even_volume_change_percentage ?? null,
+      gross_profit_change_percentage: decision.gross_profit_change_percentage ?? null,
+      // Customer credit fields
+      credit_amount: decision.credit_amount ?? null,
+      customer_payment_history: decision.customer_payment_history ?? null,
+      outstanding_receivables: decision.outstanding_receivables ?? null,
+      credit_repayment_period_days: decision.credit_repayment_period_days ?? null,
+      recommended_credit_limit: decision.recommended_credit_limit ?? null,
+      // Energy cost fields
+      monthly_fuel_spend: decision.monthly_fuel_spend ?? null,
+      daily_outage_hours: decision.daily_outage_hours ?? null,
+      solar_system_cost: decision.solar_system_cost ?? null,
+      inverter_system_cost: decision.inverter_system_cost ?? null,
+      financing_months: decision.financing_months ?? null,
+      financing_apr: decision.financing_apr ?? null,
+      energy_tco_years: decision.energy_tco_years ?? null,
+      generator_tco: decision.generator_tco ?? null,
+      solar_tco: decision.solar_tco ?? null,
+      inverter_tco: decision.inverter_tco ?? null,
+      solar_payback_months: decision.solar_payback_months ?? null,
+      inverter_payback_months: decision.inverter_payback_months ?? null,
+      energy_monthly_payment: decision.energy_monthly_payment ?? null,
+      energy_monthly_saving: decision.energy_monthly_saving ?? null,
+      recommended_energy_option: decision.recommended_energy_option ?? null,
+      // Owner drawings fields
+      desired_monthly_drawing: decision.desired_monthly_drawing ?? null,
+      personal_monthly_obligations: decision.personal_monthly_obligations ?? null,
+      recommended_monthly_drawing: decision.recommended_monthly_drawing ?? null,
+      drawing_schedule: decision.drawing_schedule ?? null,
+      drawing_installment_amount: decision.drawing_installment_amount ?? null,
+      // Rotating savings fields
+      contribution_amount: decision.contribution_amount ?? null,
+      contribution_frequency: decision.contribution_frequency ?? null,
+      group_members: decision.group_members ?? null,
+      payout_position: decision.payout_position ?? null,
+      monthly_contribution: decision.monthly_contribution ?? null,
+      payout_amount: decision.payout_amount ?? null,
+      lowest_projected_savings: decision.lowest_projected_savings ?? null,
+      recommended_contribution_amount: decision.recommended_contribution_amount ?? null,
+      recommended_payout_position: decision.recommended_payout_position ?? null,
+      rotating_savings_projection: decision.rotating_savings_projection ?? null,
+      // Loan offer comparison fields
+      loan_offers: decision.loan_offers ?? null,
+      loan_offer_results: decision.loan_offer_results ?? null,
+      recommended_loan_offer: decision.recommended_loan_offer ?? null,
+      // Lease renewal fields
+      rent_amount: decision.rent_amount ?? null,
+      renewal_date: decision.renewal_date ?? null,
+      can_move: decision.can_move ?? null,
+      moving_cost: decision.moving_cost ?? null,
+      months_until_renewal: decision.months_until_renewal ?? null,
+      monthly_rent_set_aside: decision.monthly_rent_set_aside ?? null,
+      rent_funding_gap: decision.rent_funding_gap ?? null,
+      recommended_lease_option: decision.recommended_lease_option ?? null,
+      lease_sinking_fund_plan: decision.lease_sinking_fund_plan ?? null,
     };
     console.log(`[${requestId}] Attempting to save decision:`, decisionToSave);
 
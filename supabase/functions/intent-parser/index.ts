@@ -14,6 +14,7 @@ export const ERROR_CODES = {
   UNHANDLED_EXCEPTION: "UNHANDLED_EXCEPTION",
   SERVICE_UNAVAILABLE: "SERVICE_UNAVAILABLE",
   GEMINI_API_ERROR: "GEMINI_API_ERROR", // New error code for Gemini issues
+  LLM_API_ERROR: "LLM_API_ERROR", // Failures of the other LLM providers
 } as const;
 
 export type ErrorCode = typeof ERROR_CODES[keyof typeof ERROR_CODES];
@@ -248,35 +249,670 @@ export const IntentParserInputSchema = z.object({
   user_query: z.string().min(1, "User query cannot be empty."),
 });
 
-// Define the expected output schema from Gemini
-const GeminiOutputSchema = z.object({
-  intent: z.enum([
-    'hiring', 
-    'inventory', 
-    'marketing',
-    'savings', 
-    'equipment',
-    'loan_management',
-    'business_expansion',
-    'unknown', // Allow 'unknown' intent
-  ]),
+// Questions about several decisions at once ("hire a sales girl and also buy a freezer") are split into at most this many
+const MAX_LINKED_INTENTS = 3;
+
+const IntentSchema = z.enum([
+  'hiring', 
+  'inventory', 
+  'marketing',
+  'savings', 
+  'equipment',
+  'loan_management',
+  'business_expansion',
+  'pricing',
+  'customer_credit',
+  'energy_cost',
+  'owner_drawings',
+  'rotating_savings',
+  'loan_offer_comparison',
+  'lease_renewal',
+  'unknown', // Allow 'unknown' intent
+]);
+
+const ParsedDecisionSchema = z.object({
+  intent: IntentSchema,
   question: z.string(),
   payload: z.record(z.string(), z.any()).optional(), // Flexible payload
+  confidence: z.record(z.string(), z.number().min(0).max(1)).optional(), // How sure the LLM is of each payload field
 });
 
-// Initialize Gemini
-const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY');
-if (!GEMINI_API_KEY) {
-  console.error("GEMINI_API_KEY is not set in environment variables. This function will not work without it.");
-  throw new CustomError(
-    ERROR_CODES.SERVICE_UNAVAILABLE,
-    "AI service is not configured. Please ensure GEMINI_API_KEY is set.",
-    SEVERITY.HIGH,
-    500
-  );
+// Define the expected output schema from the LLM (every provider must return this shape).
+// The top-level fields describe the first decision; 'intents' lists every decision, in the order asked.
+const GeminiOutputSchema = ParsedDecisionSchema.extend({
+  intents: z.array(ParsedDecisionSchema).optional(), // Only the first MAX_LINKED_INTENTS are used
+});
+
+type ParsedIntent = z.infer<typeof GeminiOutputSchema>;
+type ParsedDecision = z.infer<typeof ParsedDecisionSchema>;
+
+// 'local' marks answers from the keyword fallback, whose understanding of the question is limited
+type IntentParserSource = 'llm' | 'local';
+
+// --- naira_amount.ts content (re-declared for self-containment) ---
+// Money as Nigerians type it: "₦250,000", "N50k", "1.5m", "2 milli", "150 thousand",
+// "fifty thousand naira", "half a million", "one meter" (₦1m).
+const AMOUNT_SCALE_WORDS: Record<string, number> = {
+  k: 1e3, thousand: 1e3, thou: 1e3,
+  m: 1e6, mil: 1e6, milli: 1e6, million: 1e6, meter: 1e6, meters: 1e6, metre: 1e6, metres: 1e6,
+  b: 1e9, bn: 1e9, billion: 1e9,
+};
+const NUMBER_WORD_VALUES: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+const NUMERIC_AMOUNT_PATTERN = /(₦|\bngn\s?|\bn\s?(?=\d))?\s?(?:(?<!\w)(-))?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?(?:\s?(k|thousand|thou|million|milli|mil|meters?|metres?|m|billion|bn|b)\b)?(\s?naira)?/g;
+const WORD_AMOUNT_PATTERN = /\b(?:(?:zero|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety|hundred|thousand|thou|k|million|milli|mil|meters?|metres?|billion|bn|half|a|and)\b[\s-]*)+(?:naira\b)?/g;
+
+export type AmountExpression = {
+  start: number;
+  end: number;
+  value: number;
+  hasMoneyCue: boolean; // ₦, N, naira or a k/m/thousand/million scale
+  alternatives: [number, number] | null; // Set when a bare decimal such as "1.5" or "1.500" could be thousands or millions
+};
+
+const parseNumberWords = (words: string[]): number | null => {
+  let total = 0;
+  let current = 0;
+  let sawNumber = false;
+  for (const word of words) {
+    if (word in NUMBER_WORD_VALUES) {
+      current += NUMBER_WORD_VALUES[word];
+      sawNumber = true;
+    } else if (word === 'half') {
+      current += 0.5;
+      sawNumber = true;
+    } else if (word === 'a') {
+      if (current === 0) current = 1; // "a million"; skipped in "half a million"
+    } else if (word === 'hundred') {
+      current = (current || 1) * 100;
+      sawNumber = true;
+    } else if (word === 'thousand' || word === 'million' || word === 'billion' || (word in AMOUNT_SCALE_WORDS && current > 0)) {
+      // Slang and abbreviations ("one meter", "fifty k") only count after a number word
+      total += (current || 1) * AMOUNT_SCALE_WORDS[word];
+      current = 0;
+      sawNumber = true;
+    }
+  }
+  return sawNumber ? total + current : null;
+};
+
+// Every amount in the text, in order of appearance
+export function scanAmountExpressions(rawText: string): AmountExpression[] {
+  const text = rawText.toLowerCase();
+  const expressions: AmountExpression[] = [];
+
+  for (const match of text.matchAll(NUMERIC_AMOUNT_PATTERN)) {
+    const [whole, currency, minus, digits, decimals, scale, nairaWord] = match;
+    const start = (match.index ?? 0) + (whole.length - whole.trimStart().length);
+    const magnitude = parseFloat(`${digits.replace(/,/g, '')}${decimals ? `.${decimals}` : ''}`);
+    const value = (minus ? -1 : 1) * magnitude * (scale ? AMOUNT_SCALE_WORDS[scale] : 1);
+    // "1.500" may be a mistyped ₦1,500 or ₦1.5m, and "2.5" is rarely meant as two naira fifty
+    const isBareDecimal = !scale && !digits.includes(',') && decimals !== undefined && magnitude < 1000 &&
+      (decimals.length === 3 || magnitude < 100);
+    expressions.push({
+      start,
+      end: (match.index ?? 0) + whole.length,
+      value,
+      hasMoneyCue: Boolean(currency || scale || nairaWord),
+      alternatives: isBareDecimal ? [Math.round(magnitude * 1e3), Math.round(magnitude * 1e6)] : null,
+    });
+  }
+
+  const numericExpressions = [...expressions];
+  for (const match of text.matchAll(WORD_AMOUNT_PATTERN)) {
+    const words = match[0].split(/[\s-]+/).filter(Boolean);
+    const value = parseNumberWords(words);
+    const start = match.index ?? 0;
+    const end = start + match[0].trimEnd().length;
+    // The scale in "150 thousand" or "₦2 million" already belongs to the number before it
+    if (value === null || numericExpressions.some(numeric => start < numeric.end && numeric.start < end)) continue;
+    expressions.push({
+      start,
+      end,
+      value,
+      hasMoneyCue: words.some(word => word === 'naira' || word in AMOUNT_SCALE_WORDS),
+      alternatives: null,
+    });
+  }
+
+  return expressions.sort((a, b) => a.start - b.start);
+}
+
+export type NairaAmountResult =
+  | { status: 'amount'; value: number }
+  | { status: 'ambiguous'; alternatives: [number, number] }
+  | { status: 'none' };
+
+// The first amount in an answer. With `currency`, bare decimals are reported as ambiguous instead of guessed;
+// with `whole`, the text must be nothing but the amount (e.g. "50k", not "2027-03-01").
+export function parseNairaAmount(text: string, options: { currency?: boolean; whole?: boolean } = {}): NairaAmountResult {
+  const [first] = scanAmountExpressions(text);
+  if (!first) return { status: 'none' };
+  if (options.whole) {
+    const rest = `${text.slice(0, first.start)}${text.slice(first.end)}`.toLowerCase().replace(/₦|\bnaira\b|\bngn\b/g, '');
+    if (!/^[\s.,!?]*$/.test(rest)) return { status: 'none' };
+  }
+  if (options.currency && first.alternatives) return { status: 'ambiguous', alternatives: first.alternatives };
+  return { status: 'amount', value: first.value };
+}
+
+// --- local_parser.ts content ---
+// Keyword fallback used when Gemini is not configured or fails. It recognises the common
+// phrasings from the prompt examples; anything it cannot pin down is left for the decision engine to ask.
+type KnownIntent = Exclude<ParsedIntent['intent'], 'unknown'>;
+
+// Most specific intents first, so ties go to e.g. 'rotating_savings' over 'savings'
+const INTENT_KEYWORDS: { intent: KnownIntent; patterns: RegExp[] }[] = [
+  { intent: 'loan_offer_comparison', patterns: [/\bloan offers?\b/, /\bwhich loan\b/, /\bcompare (?:the |these |two )?loans?\b/, /\b(?:better|cheaper) loan\b/] },
+  { intent: 'rotating_savings', patterns: [/\bajo\b/, /\besusu\b/, /\badashi\b/, /\bthrift\b/, /\bcontribution group\b/, /\b(?:my |the )?(?:first|last|\d+(?:st|nd|rd|th)) turn\b/] },
+  { intent: 'owner_drawings', patterns: [/\bpay myself\b/, /\bsalary for myself\b/, /\bmy own salary\b/, /\bdrawings?\b/, /\bfor myself\b/, /\bpersonal (?:use|expenses)\b/] },
+  { intent: 'lease_renewal', patterns: [/\bshop rent\b/, /\blandlord\b/, /\brenew(?:al|ing)?\b/, /\brent\b/, /\blease (?:expires|is expiring|is ending)\b/] },
+  { intent: 'energy_cost', patterns: [/\bgenerator\b/, /\bsolar\b/, /\binverter\b/, /\bdiesel\b/, /\bpetrol\b/, /\bfuel\b/, /\bnepa\b/, /\bno light\b/, /\boutages?\b/] },
+  { intent: 'customer_credit', patterns: [/\bon credit\b/, /\bsell (?:to \w+ )?on credit\b/, /\bpay (?:me )?later\b/, /\bowes? me\b/, /\bcredit to\b/] },
+  { intent: 'pricing', patterns: [/\bprices?\b/, /\bcharge\b/, /\bsell (?:it|them) for\b/, /\bmark ?up\b/] },
+  { intent: 'hiring', patterns: [/\bhire\b(?! purchase)/, /\bhiring\b/, /\bemploy\b/, /\bstaff\b/, /\bworker\b/, /\bapprentice\b/, /\bsales ?(?:girl|boy|person|rep)\b/, /\bassistant\b/, /\bcashier\b/] },
+  { intent: 'inventory', patterns: [/\binventory\b/, /\bstock\b/, /\brestock\b/, /\bgoods\b/, /\bsupplier\b/, /\bbuy (?:more )?(?:bags|cartons|crates|bales)\b/] },
+  { intent: 'marketing', patterns: [/\bmarketing\b/, /\badvert(?:ising|isement)?s?\b/, /\bads?\b/, /\bpromotions?\b/, /\bcampaign\b/, /\bflyers?\b/, /\bsocial media\b/, /\binstagram\b/] },
+  { intent: 'equipment', patterns: [/\bequipment\b/, /\bmachines?\b/, /\bfreezer\b/, /\bfridge\b/, /\bgrinder\b/, /\boven\b/, /\bhire purchase\b/, /\blease (?:the|a|it)\b/] },
+  { intent: 'business_expansion', patterns: [/\bexpand\b/, /\bexpansion\b/, /\bnew branch\b/, /\b(?:second|another|new) (?:shop|store|outlet|location)\b/, /\bgrow (?:the|my) business\b/] },
+  { intent: 'loan_management', patterns: [/\bloans?\b/, /\bborrow(?:ing)?\b/, /\bdebts?\b/, /\brepayments?\b/, /\bliabilit(?:y|ies)\b/] },
+  { intent: 'savings', patterns: [/\bsavings?\b/, /\bsave\b/, /\bemergency fund\b/, /\breserves?\b/] },
+];
+
+// Numbers followed by these are counts or durations, not naira
+const NON_MONEY_UNIT = /^\s*(?:%|percent|days?|weeks?|months?|years?|yrs?|people|persons?|members?|hours?|hrs?|times|turns?|loaves|units|pieces|bags|cartons)\b|^\s*%/;
+
+// Naira amounts in the order they appear, e.g. "₦50,000", "N250k", "2.5m", "150 thousand", "fifty thousand naira".
+// Amounts that could be read two ways ("1.500") are left out for the decision engine to ask about.
+export function extractNairaAmounts(text: string): number[] {
+  const amounts: number[] = [];
+  for (const expression of scanAmountExpressions(text)) {
+    const rest = text.slice(expression.end);
+    // Parts of a date such as 01/03/2027
+    if (text[expression.start - 1] === '/' || rest.startsWith('/')) continue;
+    const looksLikeMoney = expression.hasMoneyCue || Math.abs(expression.value) >= 1000;
+    if (!looksLikeMoney || expression.alternatives || NON_MONEY_UNIT.test(rest)) continue;
+    amounts.push(expression.value);
+  }
+  return amounts;
+}
+
+// The first amount shortly after a label, e.g. "liabilities are ₦500,000"
+const amountAfter = (text: string, labelPattern: string): number | undefined => {
+  const label = text.match(new RegExp(labelPattern));
+  if (!label || label.index === undefined) return undefined;
+  return extractNairaAmounts(text.slice(label.index + label[0].length, label.index + label[0].length + 40))[0];
+};
+
+const firstNumberBefore = (text: string, unitPattern: string): number | undefined => {
+  const match = text.match(new RegExp(`(\\d+(?:\\.\\d+)?)\\s*${unitPattern}`));
+  return match ? parseFloat(match[1]) : undefined;
+};
+
+// Payload fields that can be read off a sentence without understanding it
+const extractLocalPayload = (intent: KnownIntent, text: string): Record<string, unknown> => {
+  const [firstAmount, secondAmount] = extractNairaAmounts(text);
+  const weeks = firstNumberBefore(text, 'weeks?');
+  const days = firstNumberBefore(text, 'days?') ?? (weeks !== undefined ? weeks * 7 : undefined);
+  const percentage = firstNumberBefore(text, '(?:%|percent)');
+  const payload: Record<string, unknown> = {};
+  const setIfDefined = (field: string, value: unknown) => {
+    if (value !== undefined) payload[field] = value;
+  };
+
+  switch (intent) {
+    case 'hiring':
+      setIfDefined('estimated_salary', firstAmount);
+      setIfDefined('employment_type', /\bapprentice\b/.test(text) ? 'apprentice'
+        : /\bpart[- ]time\b/.test(text) ? 'part_time'
+        : /\bcontract\b/.test(text) ? 'contract'
+        : /\bfull[- ]time\b/.test(text) ? 'full_time'
+        : undefined);
+      break;
+    case 'inventory':
+      setIfDefined('estimated_inventory_cost', firstAmount);
+      setIfDefined('inventory_turnover_days', /turnover|sell (?:out|through)/.test(text) ? days : undefined);
+      break;
+    case 'marketing':
+      setIfDefined('proposed_marketing_budget', firstAmount);
+      if (/\blocal\b/.test(text)) payload.is_localized_promotion = true;
+      if (/\bfoot traffic\b/.test(text)) payload.historic_foot_traffic_increase_observed = true;
+      if (/\b(?:festive|christmas|sallah|easter|peak season)\b/.test(text)) payload.is_festive_or_peak_season = true;
+      break;
+    case 'savings':
+      if (/\bvolatile\b/.test(text)) payload.is_volatile_industry = true;
+      break;
+    case 'equipment':
+      setIfDefined('equipment_cost', firstAmount);
+      if (/\b(?:essential|replace(?:ment)?|broken|broke down|spoilt|spoiled)\b/.test(text)) payload.is_essential_replacement = true;
+      setIfDefined('equipment_useful_life_years', firstNumberBefore(text, '(?:years?|yrs?)'));
+      break;
+    case 'loan_management':
+      setIfDefined('total_business_liabilities', amountAfter(text, '\\bliabilit(?:y|ies)\\b'));
+      setIfDefined('total_business_assets', amountAfter(text, '\\bassets\\b'));
+      setIfDefined('total_monthly_debt_repayments', amountAfter(text, '\\brepayments?\\b'));
+      setIfDefined('debt_apr', percentage);
+      break;
+    case 'business_expansion':
+      setIfDefined('expansion_cost', firstAmount);
+      setIfDefined('capital_available_percentage_of_cost', percentage);
+      if (/\bmarket research\b/.test(text)) payload.market_research_validates_demand = true;
+      break;
+    case 'pricing': {
+      // "from ₦800 to ₦1,000"
+      const fromTo = text.match(/from\s+(.+?)\s+to\s+(.+?)(?:[?!]|[.,](?:\s|$)|$)/);
+      setIfDefined('current_unit_price', fromTo ? extractNairaAmounts(fromTo[1])[0] : undefined);
+      setIfDefined('proposed_unit_price', fromTo ? extractNairaAmounts(fromTo[2])[0] : undefined);
+      break;
+    }
+    case 'customer_credit':
+      setIfDefined('credit_amount', firstAmount);
+      setIfDefined('credit_repayment_period_days', days);
+      setIfDefined('customer_payment_history', /\bnew customer\b/.test(text) ? 'new_customer'
+        : /\boften (?:pays )?late\b/.test(text) ? 'often_late'
+        : /\bsometimes (?:pays )?late\b/.test(text) ? 'sometimes_late'
+        : /\b(?:always|never) (?:pays on time|late)\b/.test(text) ? 'always_on_time'
+        : undefined);
+      break;
+    case 'energy_cost':
+      // "₦150k on diesel every month ... a ₦2.5m solar system"
+      setIfDefined('monthly_fuel_spend', /\b(?:diesel|petrol|fuel)\b/.test(text) ? firstAmount : undefined);
+      setIfDefined('solar_system_cost', /\bsolar\b/.test(text) ? (/\b(?:diesel|petrol|fuel)\b/.test(text) ? secondAmount : firstAmount) : undefined);
+      setIfDefined('daily_outage_hours', firstNumberBefore(text, '(?:hours?|hrs?)'));
+      break;
+    case 'owner_drawings':
+      setIfDefined('desired_monthly_drawing', firstAmount);
+      setIfDefined('personal_monthly_obligations', secondAmount);
+      break;
+    case 'rotating_savings': {
+      setIfDefined('contribution_amount', firstAmount);
+      setIfDefined('contribution_frequency', /\bdaily\b|\bevery day\b/.test(text) ? 'daily'
+        : /\bweekly\b|\bevery week\b/.test(text) ? 'weekly'
+        : /\bmonthly\b|\bevery month\b/.test(text) ? 'monthly'
+        : undefined);
+      setIfDefined('group_members', firstNumberBefore(text, '(?:people|persons|members)'));
+      const turn = text.match(/\b(\d+)(?:st|nd|rd|th) turn\b/);
+      setIfDefined('payout_position', turn ? parseInt(turn[1], 10) : /\bfirst turn\b/.test(text) ? 1 : undefined);
+      break;
+    }
+    case 'lease_renewal':
+      setIfDefined('rent_amount', firstAmount);
+      break;
+    case 'loan_offer_comparison':
+      // Offers are entered in the form; a sentence is too easy to misread
+      break;
+  }
+  return payload;
+};
+
+export function parseIntentLocally(userQuery: string): ParsedIntent {
+  const text = userQuery.toLowerCase();
+  let best: { intent: KnownIntent; score: number } | null = null;
+  for (const { intent, patterns } of INTENT_KEYWORDS) {
+    const score = patterns.filter(pattern => pattern.test(text)).length;
+    if (score > 0 && (best === null || score > best.score)) best = { intent, score };
+  }
+  const question = userQuery.trim();
+  if (!best) return { intent: 'unknown', question, payload: {} };
+  return { intent: best.intent, question, payload: extractLocalPayload(best.intent, text) };
+}
+
+// Only explicit joins split a question, so "my debts and savings are low" stays one decision
+const DECISION_SEPARATOR = /\s*(?:;|\b(?:and also|also|as well as|and then|plus)\b|\band\b(?=\s+(?:should i|can i|i want to|buy|hire|employ|take|open|expand|join|renew|raise|spend|sell|start|get)\b))\s*/i;
+
+// Same shape as the LLM answer: the first decision, with every decision in the order asked under 'intents'
+export function parseIntentsLocally(userQuery: string): ParsedIntent {
+  const groups: { intent: ParsedIntent['intent']; text: string }[] = [];
+  for (const clause of userQuery.split(DECISION_SEPARATOR)) {
+    if (!clause.trim()) continue;
+    const { intent } = parseIntentLocally(clause);
+    const previous = groups[groups.length - 1];
+    // A clause without a topic of its own ("and pay her ₦40k") belongs with the one before
+    if (previous && (intent === 'unknown' || intent === previous.intent || previous.intent === 'unknown')) {
+      previous.text += ` and ${clause}`;
+      if (previous.intent === 'unknown') previous.intent = intent;
+    } else {
+      groups.push({ intent, text: clause });
+    }
+  }
+  if (groups.length < 2) return parseIntentLocally(userQuery);
+  const decisions = groups.slice(0, MAX_LINKED_INTENTS)
+    .map(group => parseIntentLocally(`${group.text.charAt(0).toUpperCase()}${group.text.slice(1)}`));
+  return { ...decisions[0], intents: decisions };
+}
+
+// --- llm_providers.ts content ---
+// Every provider turns the same prompt into raw text; the caller validates it against GeminiOutputSchema,
+// so swapping vendors never changes what the chat receives.
+export type LlmProviderName = 'gemini' | 'openai_compatible' | 'stub';
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  complete(prompt: string, context: { userQuery: string; requestId: string }): Promise<string>;
+}
+
+// A stalled provider should fail over to the local parser well before the edge function itself times out
+const LLM_REQUEST_TIMEOUT_MS = 20_000;
+
+export function createGeminiProvider(apiKey: string, modelName: string): LlmProvider {
+  const geminiModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: modelName }, { timeout: LLM_REQUEST_TIMEOUT_MS });
+  return {
+    name: 'gemini',
+    async complete(prompt, { requestId }) {
+      try {
+        const result = await geminiModel.generateContent(prompt);
+        const response = await result.response;
+        return response.text();
+      } catch (geminiError) {
+        console.error(`[${requestId}] Gemini API error:`, geminiError);
+        throw new CustomError(
+          ERROR_CODES.GEMINI_API_ERROR,
+          "Failed to get a response from the AI. Please try again.",
+          SEVERITY.MEDIUM,
+          502, // Bad Gateway or Service Unavailable
+          geminiError
+        );
+      }
+    },
+  };
+}
+
+// Any server exposing POST /chat/completions: OpenAI, hosted gateways, or a local llama.cpp/Ollama server
+export function createOpenAiCompatibleProvider(baseUrl: string, modelName: string, apiKey?: string): LlmProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  return {
+    name: 'openai_compatible',
+    async complete(prompt, { requestId }) {
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: modelName,
+            messages: [{ role: 'user', content: prompt }],
+            temperature: 0,
+          }),
+          signal: AbortSignal.timeout(LLM_REQUEST_TIMEOUT_MS),
+        });
+      } catch (fetchError) {
+        console.error(`[${requestId}] LLM endpoint unreachable or timed out after ${LLM_REQUEST_TIMEOUT_MS}ms:`, fetchError);
+        throw new CustomError(ERROR_CODES.LLM_API_ERROR, "Failed to reach the AI service. Please try again.", SEVERITY.MEDIUM, 502, fetchError);
+      }
+      if (!response.ok) {
+        const errorBody = await response.text();
+        throw new CustomError(ERROR_CODES.LLM_API_ERROR, `The AI service returned ${response.status}: ${errorBody.slice(0, 200)}`, SEVERITY.MEDIUM, 502);
+      }
+      const completion = await response.json();
+      const content = completion?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new CustomError(ERROR_CODES.LLM_API_ERROR, "The AI service returned no message content.", SEVERITY.MEDIUM, 502);
+      }
+      return content;
+    },
+  };
+}
+
+// Replays canned responses keyed by the exact user query ('*' matches anything), for offline development and provider comparisons
+export function createStubProvider(cannedResponses: Record<string, unknown>): LlmProvider {
+  return {
+    name: 'stub',
+    async complete(_prompt, { userQuery }) {
+      const canned = cannedResponses[userQuery.trim()] ?? cannedResponses['*'];
+      if (canned === undefined) {
+        throw new CustomError(ERROR_CODES.LLM_API_ERROR, `The stub provider has no canned response for "${userQuery}".`, SEVERITY.LOW, 502);
+      }
+      return typeof canned === 'string' ? canned : JSON.stringify(canned);
+    },
+  };
+}
+
+// Picks the provider from LLM_PROVIDER; without it, Gemini is used when GEMINI_API_KEY is set.
+// Returns null when nothing usable is configured, so every query goes to the local parser.
+export function createLlmProviderFromEnv(): LlmProvider | null {
+  const geminiApiKey = Deno.env.get('GEMINI_API_KEY');
+  const providerName = Deno.env.get('LLM_PROVIDER') ?? (geminiApiKey ? 'gemini' : null);
+
+  switch (providerName) {
+    case 'gemini':
+      if (!geminiApiKey) {
+        console.warn("LLM_PROVIDER is 'gemini' but GEMINI_API_KEY is not set. Falling back to the local intent parser.");
+        return null;
+      }
+      return createGeminiProvider(geminiApiKey, Deno.env.get('GEMINI_MODEL') ?? 'gemini-2.5-flash');
+    case 'openai_compatible': {
+      const baseUrl = Deno.env.get('LLM_BASE_URL');
+      const modelName = Deno.env.get('LLM_MODEL');
+      if (!baseUrl || !modelName) {
+        console.warn("LLM_PROVIDER is 'openai_compatible' but LLM_BASE_URL or LLM_MODEL is not set. Falling back to the local intent parser.");
+        return null;
+      }
+      return createOpenAiCompatibleProvider(baseUrl, modelName, Deno.env.get('LLM_API_KEY'));
+    }
+    case 'stub': {
+      const rawResponses = Deno.env.get('LLM_STUB_RESPONSES') ?? '{}';
+      try {
+        return createStubProvider(JSON.parse(rawResponses));
+      } catch (parseError) {
+        console.warn("LLM_STUB_RESPONSES is not valid JSON. Falling back to the local intent parser.", parseError);
+        return null;
+      }
+    }
+    case null:
+      console.warn("No LLM provider is configured (LLM_PROVIDER or GEMINI_API_KEY). Falling back to the local intent parser.");
+      return null;
+    default:
+      console.warn(`Unknown LLM_PROVIDER '${providerName}'. Falling back to the local intent parser.`);
+      return null;
+  }
+}
+
+const llmProvider = createLlmProviderFromEnv();
+
+// LLMs sometimes copy amounts through as written ("50k", "₦1.5 million"); turn those into numbers.
+// Amounts that could be read two ways are dropped so the decision engine asks for them instead.
+const normalizePayloadAmounts = (payload: Record<string, unknown>): Record<string, unknown> => {
+  const normalized: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(payload)) {
+    if (Array.isArray(value)) {
+      normalized[field] = value.map(item => (item && typeof item === 'object' ? normalizePayloadAmounts(item as Record<string, unknown>) : item));
+      continue;
+    }
+    if (typeof value !== 'string') {
+      normalized[field] = value;
+      continue;
+    }
+    const amount = parseNairaAmount(value, { currency: true, whole: true });
+    if (amount.status === 'ambiguous') continue;
+    normalized[field] = amount.status === 'amount' ? amount.value : value;
+  }
+  return normalized;
+};
+
+// Asks the configured LLM for the intent; throws a CustomError when the call fails or the answer is unusable
+async function parseIntentWithLlm(provider: LlmProvider, userQuery: string, requestId: string): Promise<ParsedIntent> {
+  const prompt = `
+    You are an AI assistant for KudiGuard, a financial advisor for Nigerian small businesses.
+    Your task is to analyze a user's query and extract their primary financial intent and any relevant numerical or boolean data.
+    
+    Possible intents are: 'hiring', 'inventory', 'marketing', 'savings', 'equipment', 'loan_management', 'business_expansion', 'pricing', 'customer_credit', 'energy_cost', 'owner_drawings', 'rotating_savings', 'loan_offer_comparison', 'lease_renewal', or 'unknown'.
+    
+    Extract the following fields into a JSON object. If a field is not present or cannot be confidently extracted, omit it from the payload.
+    Numerical values should be extracted as numbers, booleans as true/false, and dates as 'YYYY-MM-DD' strings.
+    Convert naira amounts however they are written ("50k", "1.5m", "₦2 million", "N250,000", "fifty thousand naira", "2 meter") to plain numbers such as 50000 or 1500000.
+    Today's date is ${new Date().toISOString().slice(0, 10)}; use it to resolve dates such as "next March".
+    
+    Output format MUST be a JSON object with 'intent', 'question', an optional 'payload' field and an optional 'confidence' field.
+    'confidence' maps every payload field to a number from 0 to 1: how sure you are that the user actually stated that value. Use a lower number for values you had to guess or work out.
+    
+    Example Intents and Payload fields:
+    - 'hiring': estimated_salary (number), employment_type ('full_time' | 'part_time' | 'apprentice' | 'contract'), expected_revenue_uplift (number, extra monthly revenue), hire_equipment_cost (number)
+    - 'inventory': estimated_inventory_cost (number), inventory_turnover_days (number), outstanding_supplier_debts (number), supplier_credit_terms_days (number), average_receivables_turnover_days (number), supplier_discount_percentage (number), storage_cost_percentage_of_order (number)
+    - 'marketing': proposed_marketing_budget (number), is_localized_promotion (boolean), historic_foot_traffic_increase_observed (boolean), sales_increase_last_campaign_1 (number), sales_increase_last_campaign_2 (number), marketing_spend_last_campaign (number), revenue_gain_last_campaign (number), customer_acquisition_cost (number), customer_lifetime_value (number), is_festive_or_peak_season (boolean), projected_demand_increase_factor (number, e.g. 1.5 for 50% more demand), has_tested_multiple_channels (boolean), digital_cac (number), offline_cac (number), experimental_channel_spend (number), low_performing_channel_spend (number), high_performing_channel_roi (number, revenue per ₦1 spent)
+    - 'savings': is_volatile_industry (boolean), is_growth_stage (boolean), is_seasonal_windfall_month (boolean), debt_apr (number), outstanding_supplier_debts (number), consecutive_negative_cash_flow_months (number)
+    - 'equipment': equipment_cost (number), estimated_roi_percentage (number), is_essential_replacement (boolean), current_equipment_utilization_percentage (number), equipment_monthly_cash_benefit (number, extra monthly profit or savings), equipment_useful_life_years (number), equipment_salvage_value (number), lease_monthly_payment (number), hire_purchase_monthly_payment (number), hire_purchase_deposit (number), hire_purchase_months (number)
+    - 'loan_management': total_business_liabilities (number), total_business_assets (number), total_monthly_debt_repayments (number), debt_apr (number), loan_purpose_is_revenue_generating (boolean), consecutive_negative_cash_flow_months (number)
+    - 'business_expansion': profit_growth_consistent_6_months (boolean), market_research_validates_demand (boolean), capital_available_percentage_of_cost (number), expansion_cost (number), profit_margin_trend (string: 'consistent_growth', 'positive_fluctuating', 'declining_unstable'), revenue_growth_trend (string: 'consistent_growth', 'positive_fluctuating', 'declining_unstable')
+    - 'pricing': current_unit_price (number), proposed_unit_price (number), unit_cost (number), expected_volume_change_percentage (number, negative for a drop in units sold), competitor_unit_price (number)
+    - 'customer_credit': credit_amount (number), customer_payment_history (string: 'always_on_time', 'sometimes_late', 'often_late', 'new_customer'), outstanding_receivables (number), credit_repayment_period_days (number)
+    - 'energy_cost': monthly_fuel_spend (number), daily_outage_hours (number), solar_system_cost (number), inverter_system_cost (number), financing_months (number, 0 for cash), financing_apr (number)
+    - 'owner_drawings': desired_monthly_drawing (number), personal_monthly_obligations (number), is_volatile_industry (boolean)
+    - 'rotating_savings' (ajo, esusu, adashi, contribution groups): contribution_amount (number), contribution_frequency (string: 'daily', 'weekly', 'monthly'), group_members (number), payout_position (number, 1 for the first turn)
+    - 'loan_offer_comparison' (choosing between two or more specific loan offers): loan_offers (array of objects, one per offer, each with lender (string), principal (number), interest_rate_percentage (number), rate_period (string: 'monthly', 'annual'), interest_method (string: 'flat', 'reducing'), upfront_fees (number, 0 if none), tenor_months (number), repayment_frequency (string: 'weekly', 'monthly'))
+    - 'lease_renewal' (renewing the shop rent that is paid one or more years upfront): rent_amount (number), renewal_date (string: 'YYYY-MM-DD'), can_move (boolean), moving_cost (number)
+    
+    If the intent is 'unknown', the payload should be empty.
+
+    If the user asks about more than one decision, describe the first one in the top-level fields and also add 'intents': a list with one {"intent", "question", "payload", "confidence"} object per decision, in the order asked (at most ${MAX_LINKED_INTENTS}).
+    
+    Here are some examples:
+    User Query: "Should I hire a new staff member for ₦50,000 per month?"
+    JSON Output: {"intent": "hiring", "question": "Should I hire a new staff member?", "payload": {"estimated_salary": 50000}}
+    
+    User Query: "Can I take on an apprentice at ₦30,000 a month? I think they'll help me sell ₦150,000 more every month."
+    JSON Output: {"intent": "hiring", "question": "Can I take on an apprentice?", "payload": {"estimated_salary": 30000, "employment_type": "apprentice", "expected_revenue_uplift": 150000}}
+    
+    User Query: "I want to buy new inventory for ₦200,000. My inventory turnover is 45 days."
+    JSON Output: {"intent": "inventory", "question": "Should I buy new inventory?", "payload": {"estimated_inventory_cost": 200000, "inventory_turnover_days": 45}}
+    
+    User Query: "Is it a good idea to spend ₦10,000 on a local marketing campaign? I've seen foot traffic increase from similar past events."
+    JSON Output: {"intent": "marketing", "question": "Is it a good idea to spend on a local marketing campaign?", "payload": {"proposed_marketing_budget": 10000, "is_localized_promotion": true, "historic_foot_traffic_increase_observed": true}}
+    
+    User Query: "How can I improve my savings? My industry is volatile."
+    JSON Output: {"intent": "savings", "question": "How can I improve my savings?", "payload": {"is_volatile_industry": true}}
+    
+    User Query: "Should I buy new equipment for ₦150,000? It's an essential replacement."
+    JSON Output: {"intent": "equipment", "question": "Should I buy new equipment?", "payload": {"equipment_cost": 150000, "is_essential_replacement": true}}
+    
+    User Query: "Should I buy this ₦900,000 grinding machine outright or take the hire purchase of ₦200,000 down and ₦70,000 a month for 12 months? It should last 4 years."
+    JSON Output: {"intent": "equipment", "question": "Should I buy the grinding machine outright or on hire purchase?", "payload": {"equipment_cost": 900000, "hire_purchase_deposit": 200000, "hire_purchase_monthly_payment": 70000, "hire_purchase_months": 12, "equipment_useful_life_years": 4}}
+    
+    User Query: "I'm considering a loan. My total liabilities are ₦500,000 and assets are ₦1,200,000. Monthly repayments are ₦50,000."
+    JSON Output: {"intent": "loan_management", "question": "Should I take a loan?", "payload": {"total_business_liabilities": 500000, "total_business_assets": 1200000, "total_monthly_debt_repayments": 50000}}
+    
+    User Query: "I want to expand my business. My profit growth has been consistent for 6 months and market research validates demand. The expansion will cost ₦1,000,000 and I have 75% of the capital."
+    JSON Output: {"intent": "business_expansion", "question": "Should I expand my business?", "payload": {"profit_growth_consistent_6_months": true, "market_research_validates_demand": true, "expansion_cost": 1000000, "capital_available_percentage_of_cost": 75}}
+
+    User Query: "Should I raise the price of my bread from ₦800 to ₦1,000? Each loaf costs me ₦550 to make and I might sell 10% fewer."
+    JSON Output: {"intent": "pricing", "question": "Should I raise the price of my bread?", "payload": {"current_unit_price": 800, "proposed_unit_price": 1000, "unit_cost": 550, "expected_volume_change_percentage": -10}}
+
+    User Query: "A trader wants ₦80,000 worth of goods on credit and will pay in 2 weeks. She sometimes pays late."
+    JSON Output: {"intent": "customer_credit", "question": "Should I sell on credit to this trader?", "payload": {"credit_amount": 80000, "credit_repayment_period_days": 14, "customer_payment_history": "sometimes_late"}, "confidence": {"credit_amount": 0.95, "credit_repayment_period_days": 0.85, "customer_payment_history": 0.75}}
+
+    User Query: "I spend ₦150k on diesel every month. Is it worth buying a ₦2.5m solar system? No light for about 10 hours a day."
+    JSON Output: {"intent": "energy_cost", "question": "Should I buy a solar system instead of running my generator?", "payload": {"monthly_fuel_spend": 150000, "solar_system_cost": 2500000, "daily_outage_hours": 10}}
+
+    User Query: "How much can I pay myself every month? I'd like ₦150,000 and my rent and school fees come to about ₦100,000."
+    JSON Output: {"intent": "owner_drawings", "question": "How much can I safely pay myself?", "payload": {"desired_monthly_drawing": 150000, "personal_monthly_obligations": 100000}}
+
+    User Query: "Should I join an ajo of 10 people paying ₦20,000 weekly? They gave me the 8th turn."
+    JSON Output: {"intent": "rotating_savings", "question": "Should I join this ajo?", "payload": {"contribution_amount": 20000, "contribution_frequency": "weekly", "group_members": 10, "payout_position": 8}}
+
+    User Query: "Which loan is better: LAPO is offering ₦500,000 at 3% flat per month for 6 months with ₦10,000 fees, paid weekly, or my bank ₦500,000 at 28% a year reducing balance for 12 months, monthly?"
+    JSON Output: {"intent": "loan_offer_comparison", "question": "Which loan offer is better?", "payload": {"loan_offers": [{"lender": "LAPO", "principal": 500000, "interest_rate_percentage": 3, "rate_period": "monthly", "interest_method": "flat", "upfront_fees": 10000, "tenor_months": 6, "repayment_frequency": "weekly"}, {"lender": "Bank", "principal": 500000, "interest_rate_percentage": 28, "rate_period": "annual", "interest_method": "reducing", "upfront_fees": 0, "tenor_months": 12, "repayment_frequency": "monthly"}]}}
+
+    User Query: "My landlord wants ₦1.5 million for two years when my shop rent expires on 1 March 2027. Can I afford to renew?"
+    JSON Output: {"intent": "lease_renewal", "question": "Can I afford to renew my shop rent?", "payload": {"rent_amount": 1500000, "renewal_date": "2027-03-01"}}
+
+    User Query: "Should I hire a sales girl for ₦40,000 a month and also buy a new ₦350,000 freezer this month?"
+    JSON Output: {"intent": "hiring", "question": "Should I hire a sales girl?", "payload": {"estimated_salary": 40000}, "intents": [{"intent": "hiring", "question": "Should I hire a sales girl?", "payload": {"estimated_salary": 40000}}, {"intent": "equipment", "question": "Should I buy a new freezer?", "payload": {"equipment_cost": 350000}}]}
+
+    User Query: "What is the weather like today?"
+    JSON Output: {"intent": "unknown", "question": "What is the weather like today?", "payload": {}}
+    
+    User Query: "${userQuery}"
+    
+    JSON Output:
+  `;
+  console.log(`[${requestId}] Prompt sent to ${provider.name}:`, prompt); // Log the full prompt
+
+  const llmResponseText = await provider.complete(prompt, { userQuery, requestId });
+  console.log(`[${requestId}] Raw ${provider.name} response:`, llmResponseText);
+
+  let parsedIntent: ParsedIntent;
+  try {
+    // Attempt to clean up the response if it contains markdown code blocks
+    let cleanedResponse = llmResponseText.replace(/```json\n|```/g, '').trim();
+    console.log(`[${requestId}] Cleaned ${provider.name} response (after markdown removal):`, cleanedResponse);
+
+    // Further attempt to extract JSON if there's surrounding text
+    const jsonStartIndex = cleanedResponse.indexOf('{');
+    const jsonEndIndex = cleanedResponse.lastIndexOf('}');
+
+    if (jsonStartIndex !== -1 && jsonEndIndex !== -1 && jsonEndIndex > jsonStartIndex) {
+      cleanedResponse = cleanedResponse.substring(jsonStartIndex, jsonEndIndex + 1);
+      console.log(`[${requestId}] Extracted JSON string:`, cleanedResponse);
+    } else {
+      console.warn(`[${requestId}] Could not find valid JSON delimiters in cleaned response.`);
+    }
+
+    parsedIntent = GeminiOutputSchema.parse(JSON.parse(cleanedResponse));
+  } catch (parseError) {
+    console.error(`[${requestId}] Failed to parse ${provider.name} response as JSON or validate schema:`, parseError);
+    throw new CustomError(
+      ERROR_CODES.INVALID_INPUT,
+      "AI returned an unparseable response. Please try rephrasing your question.",
+      SEVERITY.MEDIUM,
+      500,
+      parseError
+    );
+  }
+
+  const normalizeDecision = <T extends ParsedDecision>(decision: T): T =>
+    decision.payload ? { ...decision, payload: normalizePayloadAmounts(decision.payload) } : decision;
+  parsedIntent = normalizeDecision(parsedIntent);
+  if (parsedIntent.intents) {
+    parsedIntent = { ...parsedIntent, intents: parsedIntent.intents.map(normalizeDecision) };
+  }
+  console.log(`[${requestId}] Parsed Intent from ${provider.name}:`, parsedIntent);
+  return parsedIntent;
+}
+
+// --- field_extractions.ts content ---
+// Per-field confidence and the part of the question each value was read from, so the chat
+// can ask the user to confirm doubtful values before the decision engine runs.
+type SourceSpan = { start: number; end: number; text: string };
+type FieldExtraction = { confidence: number; source_span: SourceSpan | null };
+
+const DEFAULT_LLM_CONFIDENCE = 0.9;
+const LOCAL_PARSER_CONFIDENCE = 0.5; // Keyword matching often puts an amount in the wrong field
+const UNSOURCED_NUMBER_CONFIDENCE = 0.5; // A number that appears nowhere in the question was worked out or invented
+
+const findSourceSpan = (userQuery: string, value: unknown): SourceSpan | null => {
+  let span: { start: number; end: number } | undefined;
+  if (typeof value === 'number') {
+    // Signs are dropped because "10% fewer" is extracted as -10
+    const target = Math.abs(value);
+    span = scanAmountExpressions(userQuery).find(expression => Math.abs(expression.value) === target || expression.alternatives?.includes(target));
+  } else if (typeof value === 'string' && value.trim() !== '') {
+    const start = userQuery.toLowerCase().indexOf(value.toLowerCase().replace(/_/g, ' '));
+    if (start !== -1) span = { start, end: start + value.length };
+  }
+  return span ? { start: span.start, end: span.end, text: userQuery.slice(span.start, span.end) } : null;
+};
+
+export function describeFieldExtractions(
+  userQuery: string,
+  payload: Record<string, unknown>,
+  parser: IntentParserSource,
+  reportedConfidence: Record<string, number> = {},
+): Record<string, FieldExtraction> {
+  const extractions: Record<string, FieldExtraction> = {};
+  for (const [field, value] of Object.entries(payload)) {
+    const sourceSpan = findSourceSpan(userQuery, value);
+    const confidence = parser === 'local'
+      ? LOCAL_PARSER_CONFIDENCE
+      : reportedConfidence[field] ?? (typeof value === 'number' && !sourceSpan ? UNSOURCED_NUMBER_CONFIDENCE : DEFAULT_LLM_CONFIDENCE);
+    extractions[field] = { confidence, source_span: sourceSpan };
+  }
+  return extractions;
 }
-const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" }); // Changed model to gemini-2.5-flash
 
 // Main Edge Function Logic
 serve(async (req: Request) => {
@@ -309,111 +945,39 @@ serve(async (req: Request) => {
     const { user_query } = validationResult.data;
     console.log(`[${requestId}] Validated user query: "${user_query}"`);
 
-    // 3. Gemini API Call for Intent Parsing
-    const prompt = `
-      You are an AI assistant for KudiGuard, a financial advisor for Nigerian small businesses.
-      Your task is to analyze a user's query and extract their primary financial intent and any relevant numerical or boolean data.
-      
-      Possible intents are: 'hiring', 'inventory', 'marketing', 'savings', 'equipment', 'loan_management', 'business_expansion', or 'unknown'.
-      
-      Extract the following fields into a JSON object. If a field is not present or cannot be confidently extracted, omit it from the payload.
-      Numerical values should be extracted as numbers, booleans as true/false.
-      
-      Output format MUST be a JSON object with 'intent', 'question', and an optional 'payload' field.
-      
-      Example Intents and Payload fields:
-      - 'hiring': estimated_salary (number)
-      - 'inventory': estimated_inventory_cost (number), inventory_turnover_days (number), outstanding_supplier_debts (number), supplier_credit_terms_days (number), average_receivables_turnover_days (number), supplier_discount_percentage (number), storage_cost_percentage_of_order (number)
-      - 'marketing': proposed_marketing_budget (number), is_localized_promotion (boolean), historic_foot_traffic_increase_observed (boolean), sales_increase_last_campaign_1 (number), sales_increase_last_campaign_2 (number)
-      - 'savings': is_volatile_industry (boolean), is_growth_stage (boolean), is_seasonal_windfall_month (boolean), debt_apr (number), outstanding_supplier_debts (number), consecutive_negative_cash_flow_months (number)
-      - 'equipment': equipment_cost (number), estimated_roi_percentage (number), is_essential_replacement (boolean), current_equipment_utilization_percentage (number)
-      - 'loan_management': total_business_liabilities (number), total_business_assets (number), total_monthly_debt_repayments (number), debt_apr (number), loan_purpose_is_revenue_generating (boolean), consecutive_negative_cash_flow_months (number)
-      - 'business_expansion': profit_growth_consistent_6_months (boolean), market_research_validates_demand (boolean), capital_available_percentage_of_cost (number), expansion_cost (number), profit_margin_trend (string: 'consistent_growth', 'positive_fluctuating', 'declining_unstable'), revenue_growth_trend (string: 'consistent_growth', 'positive_fluctuating', 'declining_unstable')
-      
-      If the intent is 'unknown', the payload should be empty.
-      
-      Here are some examples:
-      User Query: "Should I hire a new staff member for ₦50,000 per month?"
-      JSON Output: {"intent": "hiring", "question": "Should I hire a new staff member?", "payload": {"estimated_salary": 50000}}
-      
-      User Query: "I want to buy new inventory for ₦200,000. My inventory turnover is 45 days."
-      JSON Output: {"intent": "inventory", "question": "Should I buy new inventory?", "payload": {"estimated_inventory_cost": 200000, "inventory_turnover_days": 45}}
-      
-      User Query: "Is it a good idea to spend ₦10,000 on a local marketing campaign? I've seen foot traffic increase from similar past events."
-      JSON Output: {"intent": "marketing", "question": "Is it a good idea to spend on a local marketing campaign?", "payload": {"proposed_marketing_budget": 10000, "is_localized_promotion": true, "historic_foot_traffic_increase_observed": true}}
-      
-      User Query: "How can I improve my savings? My industry is volatile."
-      JSON Output: {"intent": "savings", "question": "How can I improve my savings?", "payload": {"is_volatile_industry": true}}
-      
-      User Query: "Should I buy new equipment for ₦150,000? It's an essential replacement."
-      JSON Output: {"intent": "equipment", "question": "Should I buy new equipment?", "payload": {"equipment_cost": 150000, "is_essential_replacement": true}}
-      
-      User Query: "I'm considering a loan. My total liabilities are ₦500,000 and assets are ₦1,200,000. Monthly repayments are ₦50,000."
-      JSON Output: {"intent": "loan_management", "question": "Should I take a loan?", "payload": {"total_business_liabilities": 500000, "total_business_assets": 1200000, "total_monthly_debt_repayments": 50000}}
-      
-      User Query: "I want to expand my business. My profit growth has been consistent for 6 months and market research validates demand. The expansion will cost ₦1,000,000 and I have 75% of the capital."
-      JSON Output: {"intent": "business_expansion", "question": "Should I expand my business?", "payload": {"profit_growth_consistent_6_months": true, "market_research_validates_demand": true, "expansion_cost": 1000000, "capital_available_percentage_of_cost": 75}}
-
-      User Query: "What is the weather like today?"
-      JSON Output: {"intent": "unknown", "question": "What is the weather like today?", "payload": {}}
-      
-      User Query: "${user_query}"
-      
-      JSON Output:
-    `;
-    console.log(`[${requestId}] Prompt sent to Gemini:`, prompt); // Log the full prompt
-
-    let geminiResponseText: string;
-    try {
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      geminiResponseText = response.text();
-      console.log(`[${requestId}] Raw Gemini response:`, geminiResponseText);
-    } catch (geminiError) {
-      console.error(`[${requestId}] Gemini API error:`, geminiError);
-      throw new CustomError(
-        ERROR_CODES.GEMINI_API_ERROR,
-        "Failed to get a response from the AI. Please try again.",
-        SEVERITY.MEDIUM,
-        502, // Bad Gateway or Service Unavailable
-        geminiError
-      );
-    }
-
-    let parsedIntent: z.infer<typeof GeminiOutputSchema>;
-    try {
-      // Attempt to clean up the response if it contains markdown code blocks
-      let cleanedResponse = geminiResponseText.replace(/```json\n|```/g, '').trim();
-      console.log(`[${requestId}] Cleaned Gemini response (after markdown removal):`, cleanedResponse);
-
-      // Further attempt to extract JSON if there's surrounding text
-      const jsonStartIndex = cleanedResponse.indexOf('{');
-      const jsonEndIndex = cleanedResponse.lastIndexOf('}');
-
-      if (jsonStartIndex !== -1 && jsonEndIndex !== -1 && jsonEndIndex > jsonStartIndex) {
-        cleanedResponse = cleanedResponse.substring(jsonStartIndex, jsonEndIndex + 1);
-        console.log(`[${requestId}] Extracted JSON string:`, cleanedResponse);
-      } else {
-        console.warn(`[${requestId}] Could not find valid JSON delimiters in cleaned response.`);
+    // 3. Intent parsing: the configured LLM when it answers, otherwise the local keyword parser
+    let parsedIntent: ParsedIntent & { parser: IntentParserSource; provider: LlmProviderName | null };
+    if (!llmProvider) {
+      console.warn(`[${requestId}] No LLM provider is configured; using the local intent parser.`);
+      parsedIntent = { ...parseIntentsLocally(user_query), parser: 'local', provider: null };
+    } else {
+      try {
+        parsedIntent = { ...(await parseIntentWithLlm(llmProvider, user_query, requestId)), parser: 'llm', provider: llmProvider.name };
+      } catch (llmError) {
+        console.error(`[${requestId}] ${llmProvider.name} intent parsing failed; falling back to the local intent parser:`, llmError);
+        parsedIntent = { ...parseIntentsLocally(user_query), parser: 'local', provider: null };
       }
-
-      parsedIntent = GeminiOutputSchema.parse(JSON.parse(cleanedResponse));
-    } catch (parseError) {
-      console.error(`[${requestId}] Failed to parse Gemini response as JSON or validate schema:`, parseError);
-      throw new CustomError(
-        ERROR_CODES.INVALID_INPUT,
-        "AI returned an unparseable response. Please try rephrasing your question.",
-        SEVERITY.MEDIUM,
-        500,
-        parseError
-      );
     }
-
-    console.log(`[${requestId}] Parsed Intent from Gemini:`, parsedIntent);
+    console.log(`[${requestId}] Parsed intent (${parsedIntent.parser}):`, parsedIntent);
+
+    // Every decision asked about, in order, each with its own field extractions; the first is also returned at the top level
+    const { parser, provider } = parsedIntent;
+    const decisions = (parsedIntent.intents?.length ? parsedIntent.intents : [parsedIntent])
+      .filter(decision => decision.intent !== 'unknown')
+      .slice(0, MAX_LINKED_INTENTS)
+      .map(decision => ({
+        intent: decision.intent,
+        question: decision.question,
+        payload: decision.payload ?? {},
+        field_extractions: describeFieldExtractions(user_query, decision.payload ?? {}, parser, decision.confidence),
+      }));
+    const [firstDecision] = decisions;
 
     const responsePayload = {
       success: true,
-      data: parsedIntent,
+      data: firstDecision
+        ? { ...firstDecision, parser, provider, intents: decisions }
+        : { intent: 'unknown', question: parsedIntent.question, payload: {}, parser, provider, field_extractions: {}, intents: [] },
       error: null,
       meta: {
         requestId,
@@ -0,0 +1,6 @@
+-- Records which versioned rule pack the decision-engine evaluated each decision with,
+-- so historical recommendations stay explainable after thresholds change.
+ALTER TABLE public.decisions
+  ADD COLUMN IF NOT EXISTS rule_pack_version TEXT;
+
+COMMENT ON COLUMN public.decisions.rule_pack_version IS 'Version of the decision-engine rule pack used to produce this decision.';
@@ -0,0 +1,6 @@
+-- Structured record of every rule the decision-engine evaluated for a decision:
+-- rule id, inputs, threshold, actual value, pass/fail and weight.
+ALTER TABLE public.decisions
+  ADD COLUMN IF NOT EXISTS rule_trace JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.decisions.rule_trace IS 'Ordered list of rule evaluations (rule_id, description, inputs, operator, threshold, actual, unit, passed, weight).';
@@ -0,0 +1,5 @@
+-- Smallest changes the decision-engine found that would turn a WAIT/REJECT into an APPROVE.
+ALTER TABLE public.decisions
+  ADD COLUMN IF NOT EXISTS counterfactual_targets JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.decisions.counterfactual_targets IS 'Counterfactual targets (field, current_value, target_value, change, combined, description) for non-APPROVE decisions.';
@@ -0,0 +1,5 @@
+-- Multi-month summary (rolling averages, volatility, trends, negative cash-flow streak) the decision-engine used.
+ALTER TABLE public.decisions
+  ADD COLUMN IF NOT EXISTS financial_history JSONB;
+
+COMMENT ON COLUMN public.decisions.financial_history IS 'Financial history summary behind the decision, including which payload fields were derived from it (derived_fields).';
@@ -0,0 +1,24 @@
+-- Per-vendor facts about the business (e.g. supplier credit terms, debt APR) that the decision-engine
+-- remembers across questions. updated_at drives when a fact is considered stale and re-confirmed.
+CREATE TABLE IF NOT EXISTS public.business_facts (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  field TEXT NOT NULL,
+  value JSONB NOT NULL,
+  source TEXT NOT NULL DEFAULT 'chat' CHECK (source IN ('chat', 'settings')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, field)
+);
+
+ALTER TABLE public.business_facts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own business facts" ON public.business_facts
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own business facts" ON public.business_facts
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own business facts" ON public.business_facts
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own business facts" ON public.business_facts
+  FOR DELETE USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.business_facts IS 'Remembered answers that describe the business, pre-filled by the decision-engine while fresh.';
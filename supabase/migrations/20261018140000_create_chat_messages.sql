@@ -0,0 +1,71 @@
+-- One row per chat message, replacing the chats.messages JSON array that clients rewrote on every send.
+-- seq is assigned by the database, so concurrent appends from two tabs keep a single order and nothing is lost.
+CREATE TABLE IF NOT EXISTS public.chat_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chat_id UUID NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  seq BIGINT GENERATED ALWAYS AS IDENTITY,
+  sender TEXT NOT NULL CHECK (sender IN ('user', 'ai')),
+  text TEXT NOT NULL,
+  decision_data JSONB,
+  data_needed JSONB,
+  missing_fields JSONB,
+  original_question TEXT,
+  collected_payload JSONB,
+  quick_replies JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS chat_messages_chat_id_seq_idx ON public.chat_messages (chat_id, seq DESC);
+
+ALTER TABLE public.chat_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own chat messages" ON public.chat_messages
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own chat messages" ON public.chat_messages
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.chats WHERE chats.id = chat_id AND chats.user_id = auth.uid())
+  );
+CREATE POLICY "Users can update their own chat messages" ON public.chat_messages
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- Messages are append-only; the only later change is recording decision feedback.
+REVOKE UPDATE ON public.chat_messages FROM anon, authenticated;
+GRANT UPDATE (decision_data) ON public.chat_messages TO authenticated;
+
+-- Old clients wrote their own timestamps; one that does not parse falls back to the chat's creation time
+-- instead of aborting the whole copy.
+CREATE FUNCTION pg_temp.try_parse_timestamptz(value TEXT) RETURNS TIMESTAMPTZ AS $$
+BEGIN
+  RETURN value::timestamptz;
+EXCEPTION WHEN OTHERS THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Copy the existing arrays across, keeping each chat's message order.
+INSERT INTO public.chat_messages (
+  chat_id, user_id, sender, text, decision_data, data_needed, missing_fields,
+  original_question, collected_payload, quick_replies, created_at
+)
+SELECT
+  chats.id,
+  chats.user_id,
+  message.value->>'sender',
+  COALESCE(message.value->>'text', ''),
+  message.value->'decisionData',
+  message.value->'dataNeeded',
+  message.value->'missingFields',
+  message.value->>'originalQuestion',
+  message.value->'collectedPayload',
+  message.value->'quickReplies',
+  COALESCE(pg_temp.try_parse_timestamptz(message.value->>'timestamp'), chats.created_at)
+FROM public.chats
+CROSS JOIN LATERAL jsonb_array_elements(COALESCE(chats.messages, '[]'::jsonb)) WITH ORDINALITY AS message(value, position)
+WHERE message.value->>'sender' IN ('user', 'ai')
+ORDER BY chats.created_at, chats.id, message.position;
+
+ALTER TABLE public.chats DROP COLUMN IF EXISTS messages;
+
+COMMENT ON TABLE public.chat_messages IS 'Chat messages in server-assigned order (seq); appended by the chat-orchestrator.';
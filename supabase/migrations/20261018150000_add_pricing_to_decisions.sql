@@ -0,0 +1,11 @@
+-- Inputs and results of the pricing intent (should I raise or cut my prices?)
+ALTER TABLE public.decisions
+  ADD COLUMN IF NOT EXISTS current_unit_price NUMERIC,
+  ADD COLUMN IF NOT EXISTS proposed_unit_price NUMERIC,
+  ADD COLUMN IF NOT EXISTS unit_cost NUMERIC,
+  ADD COLUMN IF NOT EXISTS expected_volume_change_percentage NUMERIC,
+  ADD COLUMN IF NOT EXISTS competitor_unit_price NUMERIC,
+  ADD COLUMN IF NOT EXISTS current_margin_percentage NUMERIC,
+  ADD COLUMN IF NOT EXISTS new_margin_percentage NUMERIC,
+  ADD COLUMN IF NOT EXISTS break_even_volume_change_percentage NUMERIC,
+  ADD COLUMN IF NOT EXISTS gross_profit_change_percentage NUMERIC;
@@ -0,0 +1,7 @@
+-- Inputs and results of the customer_credit intent (should I sell on credit to this customer?)
+ALTER TABLE public.decisions
+  ADD COLUMN IF NOT EXISTS credit_amount NUMERIC,
+  ADD COLUMN IF NOT EXISTS customer_payment_history TEXT CHECK (customer_payment_history IN ('always_on_time', 'sometimes_late', 'often_late', 'new_customer')),
+  ADD COLUMN IF NOT EXISTS outstanding_receivables NUMERIC,
+  ADD COLUMN IF NOT EXISTS credit_repayment_period_days NUMERIC,
+  ADD COLUMN IF NOT EXISTS recommended_credit_limit NUMERIC;
@@ -0,0 +1,15 @@
+-- Inputs and results of the energy_cost intent (generator vs solar vs grid-charged inverter)
+ALTER TABLE public.decisions
+  ADD COLUMN IF NOT EXISTS monthly_fuel_spend NUMERIC,
+  ADD COLUMN IF NOT EXISTS daily_outage_hours NUMERIC,
+  ADD COLUMN IF NOT EXISTS solar_system_cost NUMERIC,
+  ADD COLUMN IF NOT EXISTS inverter_system_cost NUMERIC,
+  ADD COLUMN IF NOT EXISTS financing_months NUMERIC,
+  ADD COLUMN IF NOT EXISTS financing_apr NUMERIC,
+  ADD COLUMN IF NOT EXISTS energy_tco_years NUMERIC,
+  ADD COLUMN IF NOT EXISTS generator_tco NUMERIC,
+  ADD COLUMN IF NOT EXISTS solar_tco NUMERIC,
+  ADD COLUMN IF NOT EXISTS inverter_tco NUMERIC,
+  ADD COLUMN IF NOT EXISTS solar_payback_months NUMERIC,
+  ADD COLUMN IF NOT EXISTS inverter_payback_months NUMERIC,
+  ADD COLUMN IF NOT EXISTS recommended_energy_option TEXT CHECK (recommended_energy_option IN ('generator', 'solar', 'grid_inverter'));
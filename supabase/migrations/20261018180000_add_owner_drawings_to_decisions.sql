@@ -0,0 +1,7 @@
+-- Inputs and results of the owner_drawings intent (how much can I safely pay myself?)
+ALTER TABLE public.decisions
+  ADD COLUMN IF NOT EXISTS desired_monthly_drawing NUMERIC,
+  ADD COLUMN IF NOT EXISTS personal_monthly_obligations NUMERIC,
+  ADD COLUMN IF NOT EXISTS recommended_monthly_drawing NUMERIC,
+  ADD COLUMN IF NOT EXISTS drawing_schedule TEXT CHECK (drawing_schedule IN ('monthly', 'twice_monthly', 'weekly')),
+  ADD COLUMN IF NOT EXISTS drawing_installment_amount NUMERIC;
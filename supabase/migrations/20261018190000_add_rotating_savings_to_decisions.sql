@@ -0,0 +1,14 @@
+-- Inputs and results of the rotating_savings intent (ajo/esusu contributions)
+ALTER TABLE public.decisions
+  ADD COLUMN IF NOT EXISTS contribution_amount NUMERIC,
+  ADD COLUMN IF NOT EXISTS contribution_frequency TEXT CHECK (contribution_frequency IN ('daily', 'weekly', 'monthly')),
+  ADD COLUMN IF NOT EXISTS group_members INTEGER,
+  ADD COLUMN IF NOT EXISTS payout_position INTEGER,
+  ADD COLUMN IF NOT EXISTS monthly_contribution NUMERIC,
+  ADD COLUMN IF NOT EXISTS payout_amount NUMERIC,
+  ADD COLUMN IF NOT EXISTS lowest_projected_savings NUMERIC,
+  ADD COLUMN IF NOT EXISTS recommended_contribution_amount NUMERIC,
+  ADD COLUMN IF NOT EXISTS recommended_payout_position INTEGER,
+  ADD COLUMN IF NOT EXISTS rotating_savings_projection JSONB;
+
+COMMENT ON COLUMN public.decisions.rotating_savings_projection IS 'Month-by-month cash flow over the ajo/esusu cycle (month, contributions, payout, closing_savings).';
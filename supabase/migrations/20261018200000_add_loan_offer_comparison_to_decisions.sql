@@ -0,0 +1,9 @@
+-- Inputs and results of the loan_offer_comparison intent
+ALTER TABLE public.decisions
+  ADD COLUMN IF NOT EXISTS loan_offers JSONB,
+  ADD COLUMN IF NOT EXISTS loan_offer_results JSONB,
+  ADD COLUMN IF NOT EXISTS recommended_loan_offer INTEGER;
+
+COMMENT ON COLUMN public.decisions.loan_offers IS 'Loan offers as entered (lender, principal, interest_rate_percentage, rate_period, interest_method, upfront_fees, tenor_months, repayment_frequency).';
+COMMENT ON COLUMN public.decisions.loan_offer_results IS 'Each offer ranked with its installment, total cost, effective APR and repayment burden.';
+COMMENT ON COLUMN public.decisions.recommended_loan_offer IS 'Zero-based position of the best offer in loan_offers; lender names are optional and may repeat.';
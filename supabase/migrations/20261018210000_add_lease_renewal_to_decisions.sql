@@ -0,0 +1,13 @@
+-- Inputs and results of the lease_renewal intent (upfront shop rent)
+ALTER TABLE public.decisions
+  ADD COLUMN IF NOT EXISTS rent_amount NUMERIC,
+  ADD COLUMN IF NOT EXISTS renewal_date DATE,
+  ADD COLUMN IF NOT EXISTS can_move BOOLEAN,
+  ADD COLUMN IF NOT EXISTS moving_cost NUMERIC,
+  ADD COLUMN IF NOT EXISTS months_until_renewal INTEGER,
+  ADD COLUMN IF NOT EXISTS monthly_rent_set_aside NUMERIC,
+  ADD COLUMN IF NOT EXISTS rent_funding_gap NUMERIC,
+  ADD COLUMN IF NOT EXISTS recommended_lease_option TEXT CHECK (recommended_lease_option IN ('renew', 'move', 'negotiate')),
+  ADD COLUMN IF NOT EXISTS lease_sinking_fund_plan JSONB;
+
+COMMENT ON COLUMN public.decisions.lease_sinking_fund_plan IS 'Month-by-month saving plan towards the rent and reserve (month, set_aside, projected_savings).';
@@ -0,0 +1,14 @@
+-- Campaign ROI, customer economics, channel mix and peak-season inputs of the marketing intent
+ALTER TABLE public.decisions
+  ADD COLUMN IF NOT EXISTS revenue_gain_last_campaign NUMERIC,
+  ADD COLUMN IF NOT EXISTS marketing_spend_last_campaign NUMERIC,
+  ADD COLUMN IF NOT EXISTS customer_acquisition_cost NUMERIC,
+  ADD COLUMN IF NOT EXISTS customer_lifetime_value NUMERIC,
+  ADD COLUMN IF NOT EXISTS is_festive_or_peak_season BOOLEAN,
+  ADD COLUMN IF NOT EXISTS projected_demand_increase_factor NUMERIC,
+  ADD COLUMN IF NOT EXISTS has_tested_multiple_channels BOOLEAN,
+  ADD COLUMN IF NOT EXISTS digital_cac NUMERIC,
+  ADD COLUMN IF NOT EXISTS offline_cac NUMERIC,
+  ADD COLUMN IF NOT EXISTS experimental_channel_spend NUMERIC,
+  ADD COLUMN IF NOT EXISTS low_performing_channel_spend NUMERIC,
+  ADD COLUMN IF NOT EXISTS high_performing_channel_roi NUMERIC;
@@ -0,0 +1,9 @@
+-- Employment type, revenue uplift and fully loaded cost of employment of the hiring intent
+ALTER TABLE public.decisions
+  ADD COLUMN IF NOT EXISTS employment_type TEXT CHECK (employment_type IN ('full_time', 'part_time', 'apprentice', 'contract')),
+  ADD COLUMN IF NOT EXISTS expected_revenue_uplift NUMERIC,
+  ADD COLUMN IF NOT EXISTS hire_equipment_cost NUMERIC,
+  ADD COLUMN IF NOT EXISTS employer_statutory_contributions NUMERIC,
+  ADD COLUMN IF NOT EXISTS hire_one_off_cost NUMERIC,
+  ADD COLUMN IF NOT EXISTS loaded_monthly_hire_cost NUMERIC,
+  ADD COLUMN IF NOT EXISTS hire_payback_months INTEGER;
@@ -0,0 +1,13 @@
+-- Useful life, salvage value, lease and hire-purchase terms, and the option comparison of the equipment intent
+ALTER TABLE public.decisions
+  ADD COLUMN IF NOT EXISTS equipment_monthly_cash_benefit NUMERIC,
+  ADD COLUMN IF NOT EXISTS equipment_useful_life_years NUMERIC,
+  ADD COLUMN IF NOT EXISTS equipment_salvage_value NUMERIC,
+  ADD COLUMN IF NOT EXISTS lease_monthly_payment NUMERIC,
+  ADD COLUMN IF NOT EXISTS hire_purchase_monthly_payment NUMERIC,
+  ADD COLUMN IF NOT EXISTS hire_purchase_deposit NUMERIC,
+  ADD COLUMN IF NOT EXISTS hire_purchase_months INTEGER,
+  ADD COLUMN IF NOT EXISTS equipment_discount_rate_percentage NUMERIC,
+  ADD COLUMN IF NOT EXISTS equipment_monthly_depreciation NUMERIC,
+  ADD COLUMN IF NOT EXISTS equipment_option_results JSONB,
+  ADD COLUMN IF NOT EXISTS recommended_equipment_option TEXT CHECK (recommended_equipment_option IN ('buy', 'hire_purchase', 'lease'));
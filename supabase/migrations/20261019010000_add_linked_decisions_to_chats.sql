@@ -0,0 +1,5 @@
+-- Questions about several decisions at once ("hire a sales girl and also buy a freezer") are worked through one
+-- at a time by the chat-orchestrator. This keeps the decisions still to run and the outcomes of the finished ones,
+-- which are checked together for joint affordability at the end.
+ALTER TABLE public.chats
+  ADD COLUMN IF NOT EXISTS linked_decisions JSONB;
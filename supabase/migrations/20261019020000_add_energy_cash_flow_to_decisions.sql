@@ -0,0 +1,4 @@
+-- Monthly cash flow of the recommended energy_cost option, so linked decisions can count the real repayment
+ALTER TABLE public.decisions
+  ADD COLUMN IF NOT EXISTS energy_monthly_payment NUMERIC,
+  ADD COLUMN IF NOT EXISTS energy_monthly_saving NUMERIC;
@@ -0,0 +1,9 @@
+-- The chat-orchestrator only saves a chat's state while updated_at still matches what it loaded, so a second
+-- turn running against the same chat gets a conflict instead of overwriting the first. That check needs a value.
+UPDATE public.chats
+  SET updated_at = COALESCE(created_at, now())
+  WHERE updated_at IS NULL;
+
+ALTER TABLE public.chats
+  ALTER COLUMN updated_at SET DEFAULT now(),
+  ALTER COLUMN updated_at SET NOT NULL;